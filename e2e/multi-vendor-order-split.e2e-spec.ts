@@ -0,0 +1,344 @@
+/**
+ * A cart with items from two sellers is split into one seller order per
+ * seller, each with that seller's lines (MultiVendorOrderSellerStrategy and
+ * MultiVendorShippingLineAssignmentStrategy, see src/plugins/multi-vendor-plugin.ts),
+ * and the customer's payment is allocated to the seller orders (split payment handler).
+ */
+
+import { LanguageCode } from '@vendure/common/lib/generated-types';
+import { mergeConfig } from '@vendure/core';
+import { createTestEnvironment, registerInitializer, SqljsInitializer, testConfig } from '@vendure/testing';
+import gql from 'graphql-tag';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    multiVendorOrderSellerStrategy,
+    multiVendorShippingEligibilityChecker,
+    multiVendorShippingLineAssignmentStrategy,
+    sellerChannelCustomField,
+    variantWeightCustomField,
+} from '../src/plugins/multi-vendor-plugin';
+import { createSplitPaymentHandler, SPLIT_PAYMENT_HANDLER_CODE } from '../src/plugins/split-payment-handler';
+import { MockSplitPaymentProvider } from '../src/plugins/split-payment-provider';
+import { initialData } from './fixtures/e2e-initial-data';
+
+registerInitializer('sqljs', new SqljsInitializer(path.join(__dirname, '__data__')));
+
+const CREATE_SELLER = gql`
+    mutation CreateSeller($input: CreateSellerInput!) {
+        createSeller(input: $input) {
+            id
+        }
+    }
+`;
+
+const CREATE_CHANNEL = gql`
+    mutation CreateChannel($input: CreateChannelInput!) {
+        createChannel(input: $input) {
+            ... on Channel {
+                id
+            }
+            ... on ErrorResult {
+                message
+            }
+        }
+    }
+`;
+
+const ASSIGN_PRODUCTS_TO_CHANNEL = gql`
+    mutation AssignProductsToChannel($input: AssignProductsToChannelInput!) {
+        assignProductsToChannel(input: $input) {
+            id
+        }
+    }
+`;
+
+const CREATE_SHIPPING_METHOD = gql`
+    mutation CreateShippingMethod($input: CreateShippingMethodInput!) {
+        createShippingMethod(input: $input) {
+            id
+        }
+    }
+`;
+
+const ASSIGN_SHIPPING_METHODS_TO_CHANNEL = gql`
+    mutation AssignShippingMethodsToChannel($input: AssignShippingMethodsToChannelInput!) {
+        assignShippingMethodsToChannel(input: $input) {
+            id
+        }
+    }
+`;
+
+const GET_SETUP = gql`
+    query GetSetup {
+        activeChannel {
+            defaultShippingZone {
+                id
+            }
+        }
+        products(options: { sort: { id: ASC } }) {
+            items {
+                id
+                variants {
+                    id
+                }
+            }
+        }
+        customers {
+            items {
+                emailAddress
+            }
+        }
+    }
+`;
+
+const GET_ORDER_WITH_SELLER_ORDERS = gql`
+    query GetOrderWithSellerOrders($id: ID!) {
+        order(id: $id) {
+            id
+            type
+            totalWithTax
+            payments {
+                amount
+                state
+                transactionId
+            }
+            sellerOrders {
+                id
+                type
+                state
+                totalWithTax
+                channels {
+                    id
+                }
+                payments {
+                    amount
+                    state
+                    method
+                    transactionId
+                }
+                lines {
+                    quantity
+                    productVariant {
+                        id
+                    }
+                }
+            }
+        }
+    }
+`;
+
+const ADD_ITEM_TO_ORDER = gql`
+    mutation AddItemToOrder($productVariantId: ID!, $quantity: Int!) {
+        addItemToOrder(productVariantId: $productVariantId, quantity: $quantity) {
+            ... on Order {
+                id
+            }
+            ... on ErrorResult {
+                message
+            }
+        }
+    }
+`;
+
+const SET_SHIPPING_ADDRESS = gql`
+    mutation SetShippingAddress($input: CreateAddressInput!) {
+        setOrderShippingAddress(input: $input) {
+            ... on Order {
+                id
+            }
+        }
+    }
+`;
+
+const SET_SHIPPING_METHOD = gql`
+    mutation SetShippingMethod($ids: [ID!]!) {
+        setOrderShippingMethod(shippingMethodId: $ids) {
+            ... on Order {
+                shippingLines {
+                    shippingMethod {
+                        id
+                    }
+                }
+            }
+            ... on ErrorResult {
+                message
+            }
+        }
+    }
+`;
+
+const TRANSITION_TO_STATE = gql`
+    mutation TransitionToState($state: String!) {
+        transitionOrderToState(state: $state) {
+            ... on Order {
+                state
+            }
+            ... on OrderStateTransitionError {
+                message
+                transitionError
+            }
+        }
+    }
+`;
+
+const ADD_PAYMENT = gql`
+    mutation AddPayment($input: PaymentInput!) {
+        addPaymentToOrder(input: $input) {
+            ... on Order {
+                id
+                state
+            }
+            ... on ErrorResult {
+                message
+            }
+        }
+    }
+`;
+
+describe('Multi-vendor order splitting', () => {
+    const { server, adminClient, shopClient } = createTestEnvironment(
+        mergeConfig(testConfig, {
+            orderOptions: { orderSellerStrategy: multiVendorOrderSellerStrategy },
+            shippingOptions: {
+                shippingLineAssignmentStrategy: multiVendorShippingLineAssignmentStrategy,
+                shippingEligibilityCheckers: [multiVendorShippingEligibilityChecker],
+            },
+            paymentOptions: { paymentMethodHandlers: [createSplitPaymentHandler(new MockSplitPaymentProvider())] },
+            customFields: { ProductVariant: [sellerChannelCustomField, variantWeightCustomField] },
+        }),
+    );
+
+    let zoneId: string;
+    let mugVariantId: string;
+    let towelVariantId: string;
+    let customerEmail: string;
+    const sellerChannelIds: string[] = [];
+    const shippingMethodIds: string[] = [];
+
+    beforeAll(async () => {
+        await server.init({
+            initialData: {
+                ...initialData,
+                paymentMethods: [
+                    {
+                        name: 'marketplace-payment',
+                        handler: { code: SPLIT_PAYMENT_HANDLER_CODE, arguments: [{ name: 'autoCapture', value: 'true' }] },
+                    },
+                ],
+            },
+            productsCsvPath: path.join(__dirname, 'fixtures/e2e-products.csv'),
+            customerCount: 1,
+        });
+        await adminClient.asSuperAdmin();
+
+        const setup = await adminClient.query(GET_SETUP);
+        zoneId = setup.activeChannel.defaultShippingZone.id;
+        const [mug, towel] = setup.products.items;
+        mugVariantId = mug.variants[0].id;
+        towelVariantId = towel.variants[0].id;
+        customerEmail = setup.customers.items[0].emailAddress;
+
+        // Each seller has their own channel with one product and one shipping method
+        for (const [index, productId] of [mug.id, towel.id].entries()) {
+            const { createSeller } = await adminClient.query(CREATE_SELLER, { input: { name: `Seller ${index + 1}` } });
+            const { createChannel } = await adminClient.query(CREATE_CHANNEL, {
+                input: {
+                    code: `seller-${index + 1}`,
+                    token: `seller-${index + 1}-token`,
+                    sellerId: createSeller.id,
+                    defaultLanguageCode: LanguageCode.en,
+                    defaultCurrencyCode: 'GBP',
+                    pricesIncludeTax: false,
+                    defaultShippingZoneId: zoneId,
+                    defaultTaxZoneId: zoneId,
+                },
+            });
+            sellerChannelIds.push(createChannel.id);
+            await adminClient.query(ASSIGN_PRODUCTS_TO_CHANNEL, {
+                input: { channelId: createChannel.id, productIds: [productId], priceFactor: 1 },
+            });
+
+            const { createShippingMethod } = await adminClient.query(CREATE_SHIPPING_METHOD, {
+                input: {
+                    code: `seller-${index + 1}-shipping`,
+                    fulfillmentHandler: 'manual-fulfillment',
+                    checker: {
+                        code: multiVendorShippingEligibilityChecker.code,
+                        arguments: [
+                            { name: 'orderMinimum', value: '0' },
+                            { name: 'useTax', value: 'false' },
+                            { name: 'zoneIds', value: '[]' },
+                            { name: 'maxWeight', value: '0' },
+                        ],
+                    },
+                    calculator: {
+                        code: 'default-shipping-calculator',
+                        arguments: [
+                            { name: 'rate', value: '500' },
+                            { name: 'includesTax', value: 'auto' },
+                            { name: 'taxRate', value: '0' },
+                        ],
+                    },
+                    translations: [{ languageCode: LanguageCode.en, name: `Seller ${index + 1} shipping`, description: '' }],
+                },
+            });
+            shippingMethodIds.push(createShippingMethod.id);
+            await adminClient.query(ASSIGN_SHIPPING_METHODS_TO_CHANNEL, {
+                input: { channelId: createChannel.id, shippingMethodIds: [createShippingMethod.id] },
+            });
+        }
+    }, 180_000);
+
+    afterAll(async () => {
+        await server.destroy();
+    });
+
+    it('places a two-seller cart as two paid seller orders with their own lines', async () => {
+        await shopClient.asUserWithCredentials(customerEmail, 'test');
+        await shopClient.query(ADD_ITEM_TO_ORDER, { productVariantId: mugVariantId, quantity: 1 });
+        const { addItemToOrder } = await shopClient.query(ADD_ITEM_TO_ORDER, { productVariantId: towelVariantId, quantity: 2 });
+        await shopClient.query(SET_SHIPPING_ADDRESS, {
+            input: { fullName: 'Jane Smith', streetLine1: '12 Market Street', city: 'London', postalCode: 'E1 6AN', countryCode: 'GB' },
+        });
+
+        const { setOrderShippingMethod } = await shopClient.query(SET_SHIPPING_METHOD, { ids: shippingMethodIds });
+        expect(setOrderShippingMethod.shippingLines).toHaveLength(2);
+
+        const { transitionOrderToState } = await shopClient.query(TRANSITION_TO_STATE, { state: 'ArrangingPayment' });
+        expect(transitionOrderToState.state).toBe('ArrangingPayment');
+        const { addPaymentToOrder } = await shopClient.query(ADD_PAYMENT, { input: { method: 'marketplace-payment', metadata: {} } });
+        expect(addPaymentToOrder.state).toBe('PaymentSettled');
+
+        const { order } = await adminClient.query(GET_ORDER_WITH_SELLER_ORDERS, { id: addItemToOrder.id });
+        expect(order.type).toBe('Aggregate');
+        expect(order.sellerOrders).toHaveLength(2);
+
+        const linesOfSeller = (channelId: string) => {
+            const sellerOrder = order.sellerOrders.find((o: any) => o.channels.some((c: any) => c.id === channelId));
+            expect(sellerOrder?.type).toBe('Seller');
+            return sellerOrder.lines.map((line: any) => ({ variantId: line.productVariant.id, quantity: line.quantity }));
+        };
+        expect(linesOfSeller(sellerChannelIds[0])).toEqual([{ variantId: mugVariantId, quantity: 1 }]);
+        expect(linesOfSeller(sellerChannelIds[1])).toEqual([{ variantId: towelVariantId, quantity: 2 }]);
+
+        // The customer is charged once; every seller order is paid its own total out of that charge
+        expect(order.payments).toEqual([
+            { amount: order.totalWithTax, state: 'Settled', transactionId: expect.stringMatching(/^mock_ch_/) },
+        ]);
+        const [aggregatePayment] = order.payments;
+        for (const sellerOrder of order.sellerOrders) {
+            expect(sellerOrder.state).toBe('PaymentSettled');
+            expect(sellerOrder.payments).toEqual([
+                {
+                    amount: sellerOrder.totalWithTax,
+                    state: 'Settled',
+                    method: 'marketplace-payment',
+                    transactionId: aggregatePayment.transactionId,
+                },
+            ]);
+        }
+        const allocated = order.sellerOrders.reduce((sum: number, sellerOrder: any) => sum + sellerOrder.payments[0].amount, 0);
+        expect(allocated).toBe(aggregatePayment.amount);
+    });
+});
@@ -0,0 +1,19 @@
+-- ============================================
+-- Migration: Channel Isolation Cache
+-- Date: 2026-10-19
+-- Purpose: Shared store for DatabaseResolutionStore (src/plugins/channel-isolation-cache.ts)
+--          so cached user → channel resolutions can be shared and invalidated
+--          across server instances and the worker
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS channel_isolation_cache (
+    user_id INTEGER PRIMARY KEY,
+    administrator_id INTEGER,
+    channel_id INTEGER,
+    payload JSONB NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_isolation_cache_administrator_id ON channel_isolation_cache(administrator_id);
+CREATE INDEX IF NOT EXISTS idx_channel_isolation_cache_channel_id ON channel_isolation_cache(channel_id);
+CREATE INDEX IF NOT EXISTS idx_channel_isolation_cache_expires_at ON channel_isolation_cache(expires_at);
@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration: Tenant API Keys
+-- Date: 2026-10-19
+-- Purpose: Columns needed by TenantApiKeyPlugin (src/plugins/tenant-api-key-plugin.ts)
+--          on top of the api_keys table from supabase-schema.sql
+-- ============================================
+
+-- First characters of the key, shown in listings so sellers can tell keys apart
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix VARCHAR(32);
+
+-- Revoked keys are kept for auditing
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+
+-- Keys are looked up by hash on every request
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant_id ON api_keys(tenant_id);
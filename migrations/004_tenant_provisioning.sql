@@ -0,0 +1,25 @@
+-- ============================================
+-- Migration: Tenant Provisioning Saga
+-- Date: 2026-10-19
+-- Purpose: Persisted state of SellerProvisioningService runs (src/provisioning-saga.ts)
+--          so failed provisioning can be compensated or resumed per tenant
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS tenant_provisioning (
+    tenant_id UUID PRIMARY KEY,
+    -- running | completed | failed | rolled-back
+    status VARCHAR(20) NOT NULL,
+    -- ProvisionSellerInput without the password
+    input JSONB NOT NULL,
+    -- Hashed with the configured PasswordHashingStrategy; the plain password is never stored
+    password_hash VARCHAR(255),
+    -- [{ name, status, startedAt, completedAt, error }]
+    steps JSONB NOT NULL DEFAULT '[]',
+    -- Ids of the entities created so far
+    context JSONB NOT NULL DEFAULT '{}',
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_provisioning_status ON tenant_provisioning(status);
@@ -0,0 +1,8 @@
+-- ============================================
+-- Migration: Tenant Provisioning Job
+-- Date: 2026-10-19
+-- Purpose: Link a provisioning run to its `provision-tenant` job queue job,
+--          so provisioningJob(tenantId) can report the job state
+-- ============================================
+
+ALTER TABLE tenant_provisioning ADD COLUMN IF NOT EXISTS job_id VARCHAR(64);
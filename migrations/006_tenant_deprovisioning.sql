@@ -0,0 +1,33 @@
+-- ============================================
+-- Migration: Tenant Deprovisioning
+-- Date: 2026-10-19
+-- Purpose: Deprovisioning requests of TenantDeprovisioningService
+--          (src/deprovision-tenant-api.ts) and the tenant statuses they set
+-- ============================================
+
+-- 'deprovisioning' during the grace period, 'deprovisioned' once the data is deleted
+ALTER TYPE tenant_status ADD VALUE IF NOT EXISTS 'deprovisioning';
+ALTER TYPE tenant_status ADD VALUE IF NOT EXISTS 'deprovisioned';
+
+CREATE TABLE IF NOT EXISTS tenant_deprovisioning (
+    tenant_id UUID PRIMARY KEY,
+    -- scheduled | running | completed | failed | cancelled
+    status VARCHAR(20) NOT NULL,
+    reason TEXT,
+    -- Vendure user id of the administrator who requested it
+    requested_by VARCHAR(64),
+    -- tenants.status before the request, restored on cancellation
+    previous_tenant_status VARCHAR(20) NOT NULL,
+    -- Latest export of the tenant's catalog, customers and orders
+    archive_path TEXT,
+    -- End of the grace period
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    -- Ids of the removed entities, per entity type
+    removed JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_deprovisioning_due ON tenant_deprovisioning(status, scheduled_for);
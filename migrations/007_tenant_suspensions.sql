@@ -0,0 +1,23 @@
+-- ============================================
+-- Migration: Tenant Suspensions
+-- Date: 2026-10-19
+-- Purpose: Suspension history of TenantSuspensionService (src/suspend-tenant-api.ts),
+--          including the products each suspension disabled
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS tenant_suspensions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL,
+    reason TEXT,
+    -- Vendure user ids of the administrators who suspended / reactivated
+    suspended_by VARCHAR(64),
+    suspended_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Products disabled by the suspension, re-enabled on reactivation
+    disabled_product_ids JSONB NOT NULL DEFAULT '[]',
+    reactivated_by VARCHAR(64),
+    reactivated_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one open suspension per tenant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_suspensions_open
+    ON tenant_suspensions(tenant_id) WHERE reactivated_at IS NULL;
@@ -0,0 +1,33 @@
+-- ============================================
+-- Migration: Commissions
+-- Date: 2026-10-19
+-- Purpose: Table of the Commission entity (src/plugins/commission-entity.ts):
+--          the platform's commission per seller order line
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS commission (
+    id SERIAL PRIMARY KEY,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "sellerOrderId" INTEGER NOT NULL,
+    "aggregateOrderId" INTEGER NOT NULL,
+    "orderLineId" INTEGER NOT NULL,
+    "sellerChannelId" INTEGER NOT NULL,
+    "tenantId" VARCHAR,
+    "productVariantId" INTEGER NOT NULL,
+    quantity INTEGER NOT NULL,
+    "currencyCode" VARCHAR NOT NULL,
+    -- Minor units
+    "baseAmount" INTEGER NOT NULL,
+    amount INTEGER NOT NULL,
+    "ruleCode" VARCHAR NOT NULL,
+    -- percentage | fixed | tiered
+    "ruleType" VARCHAR NOT NULL,
+    -- accrued | reversed
+    status VARCHAR NOT NULL DEFAULT 'accrued'
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_seller_order ON commission("sellerOrderId");
+CREATE INDEX IF NOT EXISTS idx_commission_aggregate_order ON commission("aggregateOrderId");
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_order_line ON commission("orderLineId");
+CREATE INDEX IF NOT EXISTS idx_commission_seller_channel_created ON commission("sellerChannelId", "createdAt");
@@ -0,0 +1,51 @@
+-- ============================================
+-- Migration: Seller Payouts
+-- Date: 2026-10-19
+-- Purpose: Tables of the SellerLedgerEntry and Payout entities
+--          (src/plugins/seller-ledger-entry-entity.ts, src/plugins/payout-entity.ts)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS payout (
+    id SERIAL PRIMARY KEY,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "sellerChannelId" INTEGER NOT NULL,
+    "tenantId" VARCHAR,
+    "currencyCode" VARCHAR NOT NULL,
+    -- Minor units
+    amount INTEGER NOT NULL,
+    -- pending | paid | failed
+    state VARCHAR NOT NULL DEFAULT 'pending',
+    "entryCount" INTEGER NOT NULL,
+    "paidAt" TIMESTAMP,
+    reference VARCHAR,
+    "failureReason" VARCHAR
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_seller_channel_created ON payout("sellerChannelId", "createdAt");
+CREATE INDEX IF NOT EXISTS idx_payout_state ON payout(state);
+
+CREATE TABLE IF NOT EXISTS seller_ledger_entry (
+    id SERIAL PRIMARY KEY,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "sellerChannelId" INTEGER NOT NULL,
+    "tenantId" VARCHAR,
+    -- sale | commission | commission-reversal | refund | chargeback | adjustment
+    type VARCHAR NOT NULL,
+    -- Minor units; credits positive, debits negative
+    amount INTEGER NOT NULL,
+    "currencyCode" VARCHAR NOT NULL,
+    "availableAt" TIMESTAMP NOT NULL,
+    "sellerOrderId" INTEGER,
+    "refundId" INTEGER,
+    "payoutId" INTEGER REFERENCES payout(id),
+    description VARCHAR
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_ledger_entry_seller_payout ON seller_ledger_entry("sellerChannelId", "payoutId");
+CREATE INDEX IF NOT EXISTS idx_seller_ledger_entry_seller_order ON seller_ledger_entry("sellerOrderId");
+CREATE INDEX IF NOT EXISTS idx_seller_ledger_entry_payout ON seller_ledger_entry("payoutId");
+-- Each seller order is credited once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seller_ledger_entry_sale
+    ON seller_ledger_entry("sellerOrderId") WHERE type = 'sale';
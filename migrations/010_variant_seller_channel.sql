@@ -0,0 +1,14 @@
+-- ============================================
+-- Migration: Variant Seller Channel
+-- Date: 2026-10-19
+-- Purpose: Column of the ProductVariant `sellerChannel` custom field, which pins
+--          the seller of a variant shared into channels of several sellers
+--          (sellerChannelCustomField in src/plugins/multi-vendor-plugin.ts)
+-- ============================================
+
+ALTER TABLE product_variant
+    ADD COLUMN IF NOT EXISTS "customFieldsSellerchannelid" INTEGER
+        REFERENCES channel(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_variant_custom_fields_seller_channel
+    ON product_variant("customFieldsSellerchannelid");
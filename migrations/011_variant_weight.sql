@@ -0,0 +1,10 @@
+-- ============================================
+-- Migration: Variant Weight
+-- Date: 2026-10-19
+-- Purpose: Column of the ProductVariant `weight` custom field (grams), used by
+--          the multi-vendor shipping eligibility checker
+--          (variantWeightCustomField in src/plugins/multi-vendor-plugin.ts)
+-- ============================================
+
+ALTER TABLE product_variant
+    ADD COLUMN IF NOT EXISTS "customFieldsWeight" INTEGER;
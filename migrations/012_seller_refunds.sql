@@ -0,0 +1,36 @@
+-- ============================================
+-- Migration: Seller Refunds
+-- Date: 2026-10-19
+-- Purpose: Table of the SellerRefund entity (src/plugins/seller-refund-entity.ts),
+--          and partial commission reversals (Commission.reversedAmount)
+-- ============================================
+
+ALTER TABLE commission
+    ADD COLUMN IF NOT EXISTS "reversedAmount" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS seller_refund (
+    id SERIAL PRIMARY KEY,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "aggregateOrderId" INTEGER NOT NULL,
+    "sellerOrderId" INTEGER NOT NULL,
+    "sellerChannelId" INTEGER NOT NULL,
+    "tenantId" VARCHAR,
+    -- The Vendure refund, when money was refunded
+    "refundId" INTEGER,
+    -- [{ "orderLineId": ..., "quantity": ... }] of the seller order
+    lines TEXT NOT NULL,
+    cancelled BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Minor units
+    amount INTEGER NOT NULL,
+    "commissionReversed" INTEGER NOT NULL,
+    "currencyCode" VARCHAR NOT NULL,
+    reason VARCHAR NOT NULL,
+    -- seller | platform
+    "initiatedBy" VARCHAR NOT NULL,
+    "initiatedByUserId" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_refund_aggregate_order ON seller_refund("aggregateOrderId");
+CREATE INDEX IF NOT EXISTS idx_seller_refund_seller_order ON seller_refund("sellerOrderId");
+CREATE INDEX IF NOT EXISTS idx_seller_refund_seller_channel_created ON seller_refund("sellerChannelId", "createdAt");
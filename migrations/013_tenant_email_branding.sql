@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration: Tenant Email Branding
+-- Date: 2026-10-19
+-- Purpose: Sender identity, logo and colours of the emails sent for a tenant's
+--          channel (src/plugins/tenant-email-branding.ts)
+-- ============================================
+
+ALTER TABLE tenants
+    -- Display name of the sender; defaults to business_name
+    ADD COLUMN IF NOT EXISTS email_from_name VARCHAR(255),
+    -- Only used when its domain is one of the tenant's verified domains
+    ADD COLUMN IF NOT EXISTS email_from_address VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS logo_url TEXT,
+    -- Hex colours, e.g. #375a67
+    ADD COLUMN IF NOT EXISTS primary_color VARCHAR(7),
+    ADD COLUMN IF NOT EXISTS accent_color VARCHAR(7);
@@ -0,0 +1,21 @@
+-- ============================================
+-- Migration: Channel Email Templates
+-- Date: 2026-10-19
+-- Purpose: Table of the ChannelEmailTemplate entity (src/plugins/channel-email-template-entity.ts),
+--          the per-channel overrides of the email templates
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS channel_email_template (
+    id SERIAL PRIMARY KEY,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "channelId" INTEGER NOT NULL,
+    -- Email handler type, e.g. order-confirmation
+    type VARCHAR NOT NULL,
+    "templateName" VARCHAR NOT NULL DEFAULT 'body.hbs',
+    content TEXT NOT NULL,
+    "updatedByUserId" INTEGER
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_channel_email_template_channel_type
+    ON channel_email_template("channelId", type, "templateName");
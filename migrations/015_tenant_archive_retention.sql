@@ -0,0 +1,12 @@
+-- ============================================
+-- Migration: Tenant Archive Retention
+-- Date: 2026-10-19
+-- Purpose: Record when TenantDeprovisioningService (src/deprovision-tenant-api.ts)
+--          deleted a tenant's data archive at the end of its retention period
+-- ============================================
+
+ALTER TABLE tenant_deprovisioning ADD COLUMN IF NOT EXISTS archive_deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tenant_deprovisioning_archives
+    ON tenant_deprovisioning(completed_at)
+    WHERE archive_path IS NOT NULL;
@@ -0,0 +1,17 @@
+-- ============================================
+-- Migration: Seller Refund State
+-- Date: 2026-10-19
+-- Purpose: Record shipping refunds and the outcome of the payment provider call
+--          on SellerRefund (src/plugins/seller-refund-entity.ts)
+-- ============================================
+
+ALTER TABLE seller_refund
+    ADD COLUMN IF NOT EXISTS "shippingRefunded" BOOLEAN NOT NULL DEFAULT FALSE,
+    -- pending | completed | failed
+    ADD COLUMN IF NOT EXISTS state VARCHAR NOT NULL DEFAULT 'completed',
+    ADD COLUMN IF NOT EXISTS "failureReason" VARCHAR;
+
+-- The shipping of a seller order is refunded at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seller_refund_shipping_once
+    ON seller_refund("sellerOrderId")
+    WHERE "shippingRefunded" AND state <> 'failed';
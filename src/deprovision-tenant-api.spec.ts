@@ -0,0 +1,111 @@
+import { RequestContext } from '@vendure/core';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TenantDeprovisioningService } from './deprovision-tenant-api';
+import { SellerProvisioningOptions } from './provision-seller-api';
+
+const ctx = {} as RequestContext;
+
+function createService(query: (sql: string, params?: any[]) => any, options: SellerProvisioningOptions = {}) {
+    const transactionQuery = vi.fn(async (sql: string, _params?: any[]) => {
+        if (sql.includes('SELECT c.id')) {
+            return [{ id: 31 }, { id: 32 }];
+        }
+        return [];
+    });
+    const connection = {
+        rawConnection: { query: vi.fn(query) },
+        withTransaction: async (_ctx: RequestContext, work: (txCtx: RequestContext) => Promise<any>) => work(ctx),
+        getRepository: () => ({ query: transactionQuery }),
+    };
+    const channelService = { getDefaultChannel: vi.fn().mockResolvedValue({ id: 1 }), delete: vi.fn() };
+    const service = new TenantDeprovisioningService(
+        connection as any,
+        {} as any,
+        channelService as any,
+        { delete: vi.fn() } as any,
+        { softDelete: vi.fn() } as any,
+        { delete: vi.fn() } as any,
+        { softDelete: vi.fn() } as any,
+        { softDelete: vi.fn() } as any,
+        { delete: vi.fn() } as any,
+        options,
+    );
+    return { service, connection, transactionQuery, channelService };
+}
+
+describe('TenantDeprovisioningService', () => {
+    let archiveDir: string;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        archiveDir = mkdtempSync(path.join(tmpdir(), 'tenant-archives-'));
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+        rmSync(archiveDir, { recursive: true, force: true });
+    });
+
+    it('anonymises the customers who only bought from the tenant when tearing it down', async () => {
+        const { service, transactionQuery, channelService } = createService(async (sql: string) =>
+            sql.includes('FROM channel WHERE id') ? [{ id: 2 }] : [],
+        );
+        const removed: Record<string, string[]> = {};
+
+        await (service as any).teardown(ctx, { id: 'tenant-a', vendure_channel_id: 2, vendure_seller_id: null }, removed);
+
+        const statements = transactionQuery.mock.calls.map(([sql, params]) => ({ sql: String(sql), params }));
+        const selection = statements.find(statement => statement.sql.includes('SELECT c.id'))!;
+        expect(selection.sql).toContain('c."userId" IS NULL');
+        expect(selection.sql).toContain('"aggregateOrderId"');
+        expect(selection.params).toEqual(['2', 1]);
+        expect(statements.find(statement => statement.sql.includes('UPDATE customer'))?.params).toEqual([[31, 32]]);
+        expect(statements.find(statement => statement.sql.includes('DELETE FROM address'))?.params).toEqual([[31, 32]]);
+        expect(statements.find(statement => statement.sql.includes('UPDATE "order"'))?.params).toEqual([[31, 32]]);
+        expect(removed.anonymisedCustomers).toEqual(['31', '32']);
+        expect(channelService.delete).toHaveBeenCalledWith(ctx, '2');
+    });
+
+    it('deletes archives whose retention period has ended', async () => {
+        const archivePath = path.join(archiveDir, 'tenant-a.json.gz');
+        writeFileSync(archivePath, 'archive');
+        const { service, connection } = createService(async (sql: string) =>
+            sql.includes('SELECT tenant_id, archive_path') ? [{ tenant_id: 'tenant-a', archive_path: archivePath }] : [],
+            { archiveRetentionDays: 30 },
+        );
+
+        expect(await service.deleteExpiredArchives()).toBe(1);
+
+        expect(existsSync(archivePath)).toBe(false);
+        const [selectSql, selectParams] = connection.rawConnection.query.mock.calls[0];
+        expect(selectSql).toContain("status = 'completed'");
+        expect(Date.now() - selectParams![0].getTime()).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000);
+        expect(connection.rawConnection.query).toHaveBeenCalledWith(expect.stringContaining('archive_deleted_at = NOW()'), [
+            'tenant-a',
+        ]);
+    });
+
+    it('deletes the archive when a scheduled deprovisioning is cancelled', async () => {
+        const archivePath = path.join(archiveDir, 'tenant-a.json.gz');
+        writeFileSync(archivePath, 'archive');
+        const { service } = createService(async (sql: string) => {
+            if (sql.includes("SET status = 'cancelled'")) {
+                return [[{ previous_tenant_status: 'active', archive_path: archivePath }], 1];
+            }
+            if (sql.includes('FROM tenants')) {
+                return [{ id: 'tenant-a', status: 'active', vendure_channel_id: null, vendure_administrator_id: null }];
+            }
+            if (sql.includes('FROM tenant_deprovisioning')) {
+                return [{ tenant_id: 'tenant-a', status: 'cancelled', archive_path: null, removed: {} }];
+            }
+            return [];
+        });
+
+        const deprovisioning = await service.cancelDeprovisioning(ctx, 'tenant-a');
+
+        expect(deprovisioning.status).toBe('cancelled');
+        expect(existsSync(archivePath)).toBe(false);
+    });
+});
@@ -0,0 +1,610 @@
+/**
+ * Tenant Deprovisioning Service
+ *
+ * The reverse of SellerProvisioningService, for churned tenants:
+ * 1. Export the tenant's catalog, customers and orders to an archive file
+ * 2. Lock the tenant (status 'deprovisioning') for a grace period, during
+ *    which the request can be cancelled
+ * 3. After the grace period, re-export and tear down the Vendure entities
+ *    (products, shipping methods, stock locations, administrators, roles,
+ *    channel, seller), anonymise the customers who only ever bought from
+ *    this tenant, and mark the tenant 'deprovisioned'
+ * 4. Delete the archive once its retention period has ended
+ *
+ * Customers who also bought from other sellers, or who have a marketplace
+ * account, stay: their relationship is with the marketplace, not the tenant.
+ * Orders are kept for bookkeeping, without the addresses of anonymised customers.
+ *
+ * Requests are persisted in `tenant_deprovisioning`
+ * (migrations/006_tenant_deprovisioning.sql, 015_tenant_archive_retention.sql).
+ * Steps 3 and 4 are run by the `deprovision-tenants` scheduled task.
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import {
+    AdministratorService,
+    ChannelService,
+    Customer,
+    ID,
+    PermissionDefinition,
+    ProductService,
+    RequestContext,
+    RequestContextService,
+    RoleService,
+    ScheduledTask,
+    SellerService,
+    ShippingMethodService,
+    StockLocationService,
+    TransactionalConnection,
+    UserInputError,
+} from '@vendure/core';
+import path from 'path';
+import {
+    SELLER_PROVISIONING_OPTIONS,
+    SellerProvisioningOptions,
+    SellerProvisioningService,
+} from './provision-seller-api';
+import { buildTenantArchive, deleteTenantArchive, writeTenantArchive } from './tenant-archive';
+import { channelResolutionCache } from './plugins/channel-isolation-cache';
+import { updateReturning } from './plugins/update-returning';
+
+/**
+ * Permission required to deprovision tenants
+ * (granted to the SaaS backend's administrator, separately from ProvisionSeller)
+ */
+export const deprovisionTenantPermission = new PermissionDefinition({
+    name: 'DeprovisionTenant',
+    description: 'Allows deprovisioning seller tenants and deleting their data',
+});
+
+export const DEFAULT_DEPROVISION_GRACE_PERIOD_DAYS = 30;
+export const DEFAULT_ARCHIVE_RETENTION_DAYS = 90;
+
+/**
+ * A request marked `running` that has not been updated for this long is
+ * assumed to have crashed and is picked up again
+ */
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+export interface DeprovisionTenantInput {
+    tenantId: string;
+    reason?: string | null;
+    /** Overrides the configured grace period. 0 tears down immediately. */
+    gracePeriodDays?: number | null;
+}
+
+export type TenantDeprovisioningStatus = 'scheduled' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface TenantDeprovisioning {
+    tenantId: string;
+    status: TenantDeprovisioningStatus;
+    reason: string | null;
+    requestedBy: string | null;
+    /** Restored when the request is cancelled */
+    previousTenantStatus: string;
+    /** The latest export, until it is deleted at the end of its retention period */
+    archivePath: string | null;
+    archiveDeletedAt: Date | null;
+    scheduledFor: Date;
+    completedAt: Date | null;
+    lastError: string | null;
+    /** Ids of the entities removed, per entity type */
+    removed: Record<string, string[]>;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+@Injectable()
+export class TenantDeprovisioningService {
+    constructor(
+        private connection: TransactionalConnection,
+        private sellerProvisioningService: SellerProvisioningService,
+        private channelService: ChannelService,
+        private sellerService: SellerService,
+        private administratorService: AdministratorService,
+        private roleService: RoleService,
+        private productService: ProductService,
+        private shippingMethodService: ShippingMethodService,
+        private stockLocationService: StockLocationService,
+        @Inject(SELLER_PROVISIONING_OPTIONS) private options: SellerProvisioningOptions,
+    ) {}
+
+    /**
+     * Export the tenant's data and schedule its teardown.
+     * Requesting again while a request is scheduled returns that request.
+     */
+    async deprovisionTenant(callerCtx: RequestContext, input: DeprovisionTenantInput): Promise<TenantDeprovisioning> {
+        const tenant = await this.getTenant(input.tenantId);
+        const existing = await this.findDeprovisioning(input.tenantId);
+        if (existing && (existing.status === 'scheduled' || existing.status === 'running' || existing.status === 'failed')) {
+            return existing;
+        }
+        if (tenant.status !== 'active' && tenant.status !== 'suspended') {
+            // Failed or unfinished provisioning is cleaned up with rollbackProvisioning
+            throw new UserInputError(`Tenant ${tenant.id} is ${tenant.status} and cannot be deprovisioned`);
+        }
+
+        const gracePeriodDays = input.gracePeriodDays
+            ?? this.options.deprovisionGracePeriodDays
+            ?? DEFAULT_DEPROVISION_GRACE_PERIOD_DAYS;
+        if (gracePeriodDays < 0) {
+            throw new UserInputError('gracePeriodDays cannot be negative');
+        }
+
+        // Exported up front, so the data can be handed over during the grace period
+        const archivePath = await this.exportArchive(tenant);
+        const scheduledFor = new Date(Date.now() + gracePeriodDays * 24 * 60 * 60 * 1000);
+        const result = await this.connection.rawConnection.query(
+            `INSERT INTO tenant_deprovisioning
+                (tenant_id, status, reason, requested_by, previous_tenant_status, archive_path, scheduled_for)
+             VALUES ($1, 'scheduled', $2, $3, $4, $5, $6)
+             ON CONFLICT (tenant_id) DO UPDATE SET
+                status = 'scheduled',
+                reason = EXCLUDED.reason,
+                requested_by = EXCLUDED.requested_by,
+                previous_tenant_status = EXCLUDED.previous_tenant_status,
+                archive_path = EXCLUDED.archive_path,
+                archive_deleted_at = NULL,
+                scheduled_for = EXCLUDED.scheduled_for,
+                completed_at = NULL,
+                last_error = NULL,
+                removed = '{}',
+                created_at = NOW(),
+                updated_at = NOW()
+             WHERE tenant_deprovisioning.status = 'cancelled'
+             RETURNING tenant_id`,
+            [
+                tenant.id,
+                input.reason ?? null,
+                callerCtx.activeUserId != null ? String(callerCtx.activeUserId) : null,
+                tenant.status,
+                archivePath,
+                scheduledFor,
+            ]
+        );
+        if (!result.length) {
+            // Lost the race against a concurrent request
+            return this.getDeprovisioning(tenant.id);
+        }
+
+        await this.setTenantStatus(tenant.id, 'deprovisioning');
+        await this.invalidateTenantSessions(tenant);
+        await this.logEvent(tenant.id, 'tenant.deprovisioning_scheduled', {
+            reason: input.reason ?? null,
+            scheduledFor: scheduledFor.toISOString(),
+            archivePath,
+            userId: callerCtx.activeUserId != null ? String(callerCtx.activeUserId) : null,
+        });
+        console.log(`[TenantDeprovisioning] Tenant ${tenant.id} scheduled for deprovisioning on ${scheduledFor.toISOString()}`);
+
+        if (gracePeriodDays === 0) {
+            return this.runDeprovisioning(callerCtx, tenant.id);
+        }
+        return this.getDeprovisioning(tenant.id);
+    }
+
+    /**
+     * Cancel a scheduled request during its grace period and restore the tenant
+     */
+    async cancelDeprovisioning(callerCtx: RequestContext, tenantId: string): Promise<TenantDeprovisioning> {
+        const rows = await updateReturning(
+            this.connection.rawConnection,
+            `UPDATE tenant_deprovisioning
+             SET status = 'cancelled', updated_at = NOW()
+             WHERE tenant_id = $1 AND status = 'scheduled'
+             RETURNING previous_tenant_status, archive_path`,
+            [tenantId]
+        );
+        if (!rows.length) {
+            throw new UserInputError(`Tenant ${tenantId} has no scheduled deprovisioning`);
+        }
+        await this.setTenantStatus(tenantId, rows[0].previous_tenant_status);
+        // The tenant's data is live again, no copy of it needs to be kept
+        await this.deleteArchive(tenantId, rows[0].archive_path);
+        await this.invalidateTenantSessions(await this.getTenant(tenantId));
+        await this.logEvent(tenantId, 'tenant.deprovisioning_cancelled', {
+            userId: callerCtx.activeUserId != null ? String(callerCtx.activeUserId) : null,
+        });
+        return this.getDeprovisioning(tenantId);
+    }
+
+    async getDeprovisioning(tenantId: string): Promise<TenantDeprovisioning> {
+        const deprovisioning = await this.findDeprovisioning(tenantId);
+        if (!deprovisioning) {
+            throw new UserInputError(`No deprovisioning found for tenant ${tenantId}`);
+        }
+        return deprovisioning;
+    }
+
+    /**
+     * Tear down every tenant whose grace period has ended, and delete the
+     * archives whose retention period has ended. Failed teardowns are retried.
+     * Called by the `deprovision-tenants` scheduled task.
+     */
+    async runDueDeprovisionings(
+        callerCtx: RequestContext,
+    ): Promise<{ completed: number; failed: number; archivesDeleted: number }> {
+        const due = await this.connection.rawConnection.query(
+            `SELECT tenant_id
+             FROM tenant_deprovisioning
+             WHERE (status IN ('scheduled', 'failed') AND scheduled_for <= NOW())
+             OR (status = 'running' AND updated_at < $1)
+             ORDER BY scheduled_for`,
+            [new Date(Date.now() - STALE_RUN_MS)]
+        );
+        let completed = 0;
+        let failed = 0;
+        for (const row of due) {
+            const deprovisioning = await this.runDeprovisioning(callerCtx, row.tenant_id);
+            if (deprovisioning.status === 'completed') {
+                completed++;
+            } else if (deprovisioning.status === 'failed') {
+                failed++;
+            }
+        }
+        return { completed, failed, archivesDeleted: await this.deleteExpiredArchives() };
+    }
+
+    /**
+     * Delete the archives of tenants deprovisioned more than
+     * `archiveRetentionDays` ago
+     */
+    async deleteExpiredArchives(): Promise<number> {
+        const retentionDays = this.options.archiveRetentionDays ?? DEFAULT_ARCHIVE_RETENTION_DAYS;
+        const expired = await this.connection.rawConnection.query(
+            `SELECT tenant_id, archive_path
+             FROM tenant_deprovisioning
+             WHERE status = 'completed'
+             AND archive_path IS NOT NULL
+             AND completed_at < $1`,
+            [new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)]
+        );
+        for (const row of expired) {
+            await this.deleteArchive(row.tenant_id, row.archive_path);
+        }
+        return expired.length;
+    }
+
+    /**
+     * Re-export and tear down. Every removal skips what is already gone, so a
+     * failed run can simply be run again.
+     */
+    private async runDeprovisioning(callerCtx: RequestContext, tenantId: string): Promise<TenantDeprovisioning> {
+        const claimedRows = await updateReturning(
+            this.connection.rawConnection,
+            `UPDATE tenant_deprovisioning
+             SET status = 'running', updated_at = NOW()
+             WHERE tenant_id = $1
+             AND (status IN ('scheduled', 'failed') OR (status = 'running' AND updated_at < $2))
+             RETURNING tenant_id`,
+            [tenantId, new Date(Date.now() - STALE_RUN_MS)]
+        );
+        if (!claimedRows.length) {
+            // Cancelled or picked up concurrently
+            return this.getDeprovisioning(tenantId);
+        }
+
+        const tenant = await this.getTenant(tenantId);
+        const removed: Record<string, string[]> = {};
+        try {
+            // Final export: orders may have come in during the grace period
+            const previousArchivePath = (await this.getDeprovisioning(tenantId)).archivePath;
+            const archivePath = await this.exportArchive(tenant);
+            await this.connection.rawConnection.query(
+                `UPDATE tenant_deprovisioning SET archive_path = $2, updated_at = NOW() WHERE tenant_id = $1`,
+                [tenantId, archivePath]
+            );
+            if (previousArchivePath && previousArchivePath !== archivePath) {
+                await deleteTenantArchive(previousArchivePath);
+            }
+
+            const ctx = await this.sellerProvisioningService.createProvisioningContext(callerCtx);
+            await this.teardown(ctx, tenant, removed);
+
+            await this.connection.rawConnection.query(
+                `UPDATE tenant_deprovisioning
+                 SET status = 'completed', completed_at = NOW(), last_error = NULL, removed = $2, updated_at = NOW()
+                 WHERE tenant_id = $1`,
+                [tenantId, JSON.stringify(removed)]
+            );
+            await this.setTenantStatus(tenantId, 'deprovisioned');
+            await this.logEvent(tenantId, 'tenant.deprovisioned', { archivePath, removed });
+            console.log(`[TenantDeprovisioning] Tenant ${tenantId} deprovisioned`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[TenantDeprovisioning] Deprovisioning tenant ${tenantId} failed:`, message);
+            await this.connection.rawConnection.query(
+                `UPDATE tenant_deprovisioning
+                 SET status = 'failed', last_error = $2, removed = $3, updated_at = NOW()
+                 WHERE tenant_id = $1`,
+                [tenantId, message, JSON.stringify(removed)]
+            );
+        }
+        return this.getDeprovisioning(tenantId);
+    }
+
+    /**
+     * Remove what SellerProvisioningService created, plus what the seller added
+     * to their channel since. Entities shared with another seller channel are
+     * left alone. Customers who only ever bought from this tenant are
+     * anonymised; the others only lose their link to the channel when it is deleted.
+     */
+    private async teardown(ctx: RequestContext, tenant: TenantRow, removed: Record<string, string[]>) {
+        const track = (type: string, id: string) => (removed[type] = [...(removed[type] ?? []), id]);
+
+        await this.revokeApiKeys(tenant.id);
+
+        const channelId = tenant.vendure_channel_id != null ? String(tenant.vendure_channel_id) : null;
+        if (channelId) {
+            const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+            const exclusiveTo = (joinTable: string, column: string, entityTable: string, softDeleted = true) =>
+                this.connection.rawConnection.query(
+                    `SELECT e.id
+                     FROM ${entityTable} e
+                     JOIN ${joinTable} j ON j."${column}" = e.id
+                     WHERE j."channelId" = $1
+                     ${softDeleted ? 'AND e."deletedAt" IS NULL' : ''}
+                     AND NOT EXISTS (
+                        SELECT 1 FROM ${joinTable} other
+                        WHERE other."${column}" = e.id
+                        AND other."channelId" NOT IN ($1, $2)
+                     )`,
+                    [channelId, defaultChannel.id]
+                ) as Promise<Array<{ id: number }>>;
+
+            for (const { id } of await exclusiveTo('product_channels_channel', 'productId', 'product')) {
+                await this.productService.softDelete(ctx, id);
+                track('products', String(id));
+            }
+            for (const { id } of await exclusiveTo('shipping_method_channels_channel', 'shippingMethodId', 'shipping_method')) {
+                await this.shippingMethodService.softDelete(ctx, id);
+                track('shippingMethods', String(id));
+            }
+            for (const { id } of await exclusiveTo('stock_location_channels_channel', 'stockLocationId', 'stock_location', false)) {
+                await this.stockLocationService.delete(ctx, { id });
+                track('stockLocations', String(id));
+            }
+
+            const roles = await exclusiveTo('role_channels_channel', 'roleId', 'role', false);
+            const roleIds = roles.map(role => role.id);
+            if (roleIds.length) {
+                // Administrators holding no role outside this channel: the owner and their staff
+                const administrators = await this.connection.rawConnection.query(
+                    `SELECT DISTINCT a.id
+                     FROM administrator a
+                     JOIN user_roles_role urr ON urr."userId" = a."userId"
+                     WHERE urr."roleId" = ANY($1)
+                     AND a."deletedAt" IS NULL
+                     AND NOT EXISTS (
+                        SELECT 1 FROM user_roles_role other
+                        WHERE other."userId" = a."userId"
+                        AND other."roleId" <> ALL($1)
+                     )`,
+                    [roleIds]
+                );
+                for (const { id } of administrators) {
+                    await this.administratorService.softDelete(ctx, id);
+                    track('administrators', String(id));
+                }
+                for (const id of roleIds) {
+                    await this.roleService.delete(ctx, id);
+                    track('roles', String(id));
+                }
+            }
+
+            for (const id of await this.anonymiseExclusiveCustomers(ctx, channelId, defaultChannel.id)) {
+                track('anonymisedCustomers', id);
+            }
+
+            const channel = await this.connection.rawConnection.query(`SELECT id FROM channel WHERE id = $1`, [channelId]);
+            if (channel.length) {
+                await this.channelService.delete(ctx, channelId);
+                track('channels', channelId);
+            }
+            await channelResolutionCache.invalidate({ channelId });
+        }
+
+        if (tenant.vendure_seller_id != null) {
+            const seller = await this.connection.rawConnection.query(
+                `SELECT s.id
+                 FROM seller s
+                 WHERE s.id = $1
+                 AND s."deletedAt" IS NULL
+                 AND NOT EXISTS (SELECT 1 FROM channel c WHERE c."sellerId" = s.id)`,
+                [tenant.vendure_seller_id]
+            );
+            if (seller.length) {
+                await this.sellerService.delete(ctx, tenant.vendure_seller_id);
+                track('sellers', String(tenant.vendure_seller_id));
+            }
+        }
+    }
+
+    /**
+     * Anonymise the guest customers of the channel who have no order outside
+     * of it (an aggregate order counts as the tenant's when it has a seller
+     * order in the channel) and no link to another seller channel: erase their
+     * personal details and addresses, including the addresses on their orders.
+     * Customers with a marketplace account are left to the marketplace.
+     */
+    private async anonymiseExclusiveCustomers(ctx: RequestContext, channelId: string, defaultChannelId: ID): Promise<string[]> {
+        return this.connection.withTransaction(ctx, async txCtx => {
+            const repository = this.connection.getRepository(txCtx, Customer);
+            const customers: Array<{ id: number }> = await repository.query(
+                `SELECT c.id
+                 FROM customer c
+                 JOIN customer_channels_channel cc ON cc."customerId" = c.id AND cc."channelId" = $1
+                 WHERE c."deletedAt" IS NULL
+                 AND c."userId" IS NULL
+                 AND NOT EXISTS (
+                    SELECT 1 FROM customer_channels_channel other
+                    WHERE other."customerId" = c.id
+                    AND other."channelId" NOT IN ($1, $2)
+                 )
+                 AND NOT EXISTS (
+                    SELECT 1 FROM "order" o
+                    WHERE o."customerId" = c.id
+                    AND NOT EXISTS (
+                        SELECT 1 FROM order_channels_channel oc
+                        WHERE oc."orderId" = o.id AND oc."channelId" = $1
+                    )
+                    AND NOT EXISTS (
+                        SELECT 1 FROM "order" so
+                        JOIN order_channels_channel soc ON soc."orderId" = so.id AND soc."channelId" = $1
+                        WHERE so."aggregateOrderId" = o.id
+                    )
+                 )`,
+                [channelId, defaultChannelId]
+            );
+            const ids = customers.map(customer => customer.id);
+            if (!ids.length) {
+                return [];
+            }
+            await repository.query(
+                `UPDATE customer
+                 SET title = NULL,
+                     "firstName" = 'Anonymised',
+                     "lastName" = 'Customer',
+                     "emailAddress" = 'anonymised-' || id || '@invalid',
+                     "phoneNumber" = NULL,
+                     "deletedAt" = NOW()
+                 WHERE id = ANY($1)`,
+                [ids]
+            );
+            await repository.query(`DELETE FROM address WHERE "customerId" = ANY($1)`, [ids]);
+            await repository.query(
+                `UPDATE "order" SET "shippingAddress" = '{}', "billingAddress" = '{}' WHERE "customerId" = ANY($1)`,
+                [ids]
+            );
+            return ids.map(String);
+        });
+    }
+
+    private async exportArchive(tenant: TenantRow): Promise<string> {
+        const archive = await buildTenantArchive(
+            this.connection,
+            { id: tenant.id, subdomain: tenant.subdomain, businessName: tenant.business_name },
+            tenant.vendure_channel_id != null ? String(tenant.vendure_channel_id) : null,
+        );
+        const archiveDir = this.options.archiveDir ?? path.join(__dirname, '../static/tenant-archives');
+        return writeTenantArchive(archiveDir, archive);
+    }
+
+    private async deleteArchive(tenantId: string, archivePath: string | null): Promise<void> {
+        if (archivePath) {
+            await deleteTenantArchive(archivePath);
+        }
+        await this.connection.rawConnection.query(
+            `UPDATE tenant_deprovisioning
+             SET archive_path = NULL, archive_deleted_at = NOW(), updated_at = NOW()
+             WHERE tenant_id = $1`,
+            [tenantId]
+        );
+        await this.logEvent(tenantId, 'tenant.archive_deleted', { archivePath });
+    }
+
+    private async revokeApiKeys(tenantId: string): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE api_keys SET revoked_at = NOW()
+             WHERE tenant_id = $1 AND revoked_at IS NULL`,
+            [tenantId]
+        );
+    }
+
+    /**
+     * Make the middleware re-read the tenant status on the next request, so a
+     * locked tenant's administrators are turned away straight away
+     */
+    private async invalidateTenantSessions(tenant: TenantRow): Promise<void> {
+        if (tenant.vendure_channel_id != null) {
+            await channelResolutionCache.invalidate({ channelId: tenant.vendure_channel_id });
+        }
+        if (tenant.vendure_administrator_id != null) {
+            await channelResolutionCache.invalidate({ administratorId: tenant.vendure_administrator_id });
+        }
+    }
+
+    private async findDeprovisioning(tenantId: string): Promise<TenantDeprovisioning | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT tenant_id, status, reason, requested_by, previous_tenant_status, archive_path, archive_deleted_at,
+                    scheduled_for, completed_at, last_error, removed, created_at, updated_at
+             FROM tenant_deprovisioning
+             WHERE tenant_id = $1`,
+            [tenantId]
+        );
+        if (!result || result.length === 0) {
+            return undefined;
+        }
+        const row = result[0];
+        return {
+            tenantId: row.tenant_id,
+            status: row.status,
+            reason: row.reason,
+            requestedBy: row.requested_by,
+            previousTenantStatus: row.previous_tenant_status,
+            archivePath: row.archive_path,
+            archiveDeletedAt: row.archive_deleted_at,
+            scheduledFor: row.scheduled_for,
+            completedAt: row.completed_at,
+            lastError: row.last_error,
+            removed: typeof row.removed === 'string' ? JSON.parse(row.removed) : row.removed,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+
+    private async getTenant(tenantId: string): Promise<TenantRow> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT id, subdomain, business_name, status, vendure_seller_id, vendure_channel_id, vendure_administrator_id
+             FROM tenants
+             WHERE id = $1`,
+            [tenantId]
+        );
+        if (!result || result.length === 0) {
+            throw new UserInputError(`Tenant ${tenantId} not found`);
+        }
+        return result[0];
+    }
+
+    private async setTenantStatus(tenantId: string, status: string): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE tenants SET status = $2, updated_at = NOW() WHERE id = $1`,
+            [tenantId, status]
+        );
+    }
+
+    private async logEvent(tenantId: string, eventType: string, data: Record<string, any>) {
+        try {
+            await this.connection.rawConnection.query(
+                `INSERT INTO events (tenant_id, event_type, event_data) VALUES ($1, $2, $3)`,
+                [tenantId, eventType, JSON.stringify(data)]
+            );
+        } catch (error: any) {
+            console.error(`[TenantDeprovisioning] Could not log ${eventType}:`, error.message);
+        }
+    }
+}
+
+interface TenantRow {
+    id: string;
+    subdomain: string | null;
+    business_name: string | null;
+    status: string;
+    vendure_seller_id: number | null;
+    vendure_channel_id: number | null;
+    vendure_administrator_id: number | null;
+}
+
+/**
+ * Tears down tenants whose grace period has ended.
+ * Registered by SellerProvisioningPlugin; run by DefaultSchedulerPlugin.
+ */
+export const deprovisionTenantsTask = new ScheduledTask({
+    id: 'deprovision-tenants',
+    description: 'Deletes the data of tenants whose deprovisioning grace period has ended, and expired archives',
+    schedule: '0 * * * *',
+    async execute({ injector }) {
+        const ctx = await injector.get(RequestContextService).create({ apiType: 'admin' });
+        return injector.get(TenantDeprovisioningService).runDueDeprovisionings(ctx);
+    },
+});
@@ -16,6 +16,13 @@ declare global {
             DB_USERNAME: string;
             DB_PASSWORD: string;
             DB_SCHEMA: string;
+            SUPABASE_SAAS_URL?: string;
+            SUPABASE_JWT_SECRET?: string;
+            SUPABASE_JWKS_PATH?: string;
+            // Emails (src/plugins/tenant-email-branding.ts)
+            EMAIL_FROM_ADDRESS?: string;
+            STOREFRONT_URL?: string;
+            STOREFRONT_DOMAIN?: string;
         }
     }
 }
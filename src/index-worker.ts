@@ -1,6 +1,7 @@
 import { bootstrapWorker } from '@vendure/core';
 import { config } from './vendure-config';
 
+// Processes all job queues, including `provision-tenant` (SellerProvisioningPlugin)
 bootstrapWorker(config)
     .then(worker => worker.startJobQueue())
     .catch(err => {
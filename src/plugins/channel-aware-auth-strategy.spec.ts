@@ -0,0 +1,144 @@
+import { RequestContext } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChannelAwareAuthStrategy, checkAdministratorLogin } from './channel-aware-auth-strategy';
+import { channelResolutionCache } from './channel-isolation-cache';
+import { channelIsolationSecurity } from './channel-isolation-security';
+
+interface FakeRows {
+    tenant?: { id: string; status: string; vendure_channel_id: number | null };
+    administrator?: { identifier: string; has_operator_role: boolean };
+    channel?: { id: number; code: string };
+    failing?: boolean;
+}
+
+function fakeConnection(rows: FakeRows) {
+    const query = vi.fn(async (sql: string) => {
+        if (rows.failing && !sql.includes('INSERT INTO events')) {
+            throw new Error('connection refused');
+        }
+        if (sql.includes('FROM tenants')) {
+            return rows.tenant ? [rows.tenant] : [];
+        }
+        if (sql.includes('has_operator_role')) {
+            return rows.administrator ? [rows.administrator] : [];
+        }
+        if (sql.includes('FROM channel')) {
+            return rows.channel ? [{ ...rows.channel, defaultLanguageCode: 'en', defaultCurrencyCode: 'USD' }] : [];
+        }
+        if (sql.includes('FROM administrator WHERE "userId"')) {
+            return [{ id: 10 }];
+        }
+        return [];
+    });
+    return { rawConnection: { query } } as any;
+}
+
+const activeTenant = { id: 'tenant-a', status: 'active', vendure_channel_id: 2 };
+
+describe('checkAdministratorLogin', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        channelIsolationSecurity.configure({ enforcementMode: 'fail-closed' });
+        channelResolutionCache.configure({});
+    });
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        channelIsolationSecurity.configure({});
+        await channelResolutionCache.clear();
+    });
+
+    it('lets a seller with an active tenant in and primes the cache with their channel', async () => {
+        const connection = fakeConnection({ tenant: activeTenant, channel: { id: 2, code: 'seller-a' } });
+
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe(true);
+        expect(await channelResolutionCache.get(5)).toMatchObject({ kind: 'seller', sellerChannelId: 2, channel: { id: '2' } });
+    });
+
+    it.each([
+        ['provisioning', 'Your store is still being set up. Please try again in a few minutes.'],
+        ['suspended', 'Your store has been suspended. Please contact support.'],
+        ['deprovisioned', 'Your store has been deleted.'],
+        ['archived', 'Your store is not active. Please contact support.'],
+    ])('rejects a seller whose tenant is %s', async (status, message) => {
+        const connection = fakeConnection({ tenant: { ...activeTenant, status } });
+
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe(message);
+    });
+
+    it('rejects a seller whose channel no longer exists', async () => {
+        const connection = fakeConnection({ tenant: activeTenant });
+
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe('Your store could not be found. Please contact support.');
+    });
+
+    it('lets platform operators in', async () => {
+        const connection = fakeConnection({ administrator: { identifier: 'ops@example.com', has_operator_role: true } });
+
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe(true);
+    });
+
+    it('rejects unknown administrators unless denyUnknownAdministrators is false', async () => {
+        const connection = fakeConnection({ administrator: { identifier: 'someone@example.com', has_operator_role: false } });
+
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe('This account is not linked to a store. Please contact support.');
+        channelIsolationSecurity.configure({ denyUnknownAdministrators: false });
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe(true);
+    });
+
+    it('rejects the login when the tenant cannot be resolved in fail-closed mode', async () => {
+        const connection = fakeConnection({ failing: true });
+
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe('We could not verify your store access right now. Please try again.');
+        channelIsolationSecurity.configure({ enforcementMode: 'fail-open' });
+        expect(await checkAdministratorLogin(connection, 5, 10)).toBe(true);
+    });
+});
+
+describe('ChannelAwareAuthStrategy', () => {
+    const ctx = {} as RequestContext;
+    const user = { id: 5 };
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        channelResolutionCache.configure({ enabled: false });
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+        channelResolutionCache.configure({});
+    });
+
+    function strategyWith(connection: any, nativeResult: any) {
+        const strategy = new ChannelAwareAuthStrategy({ replaceNative: true });
+        (strategy as any).connection = connection;
+        (strategy as any).nativeStrategy = { authenticate: vi.fn().mockResolvedValue(nativeResult) };
+        return strategy;
+    }
+
+    it('registers under the native name when replacing it', () => {
+        expect(new ChannelAwareAuthStrategy({ replaceNative: true }).name).toBe('native');
+        expect(new ChannelAwareAuthStrategy().name).toBe('channel-aware-native');
+    });
+
+    it('checks the password before revealing the tenant status', async () => {
+        const connection = fakeConnection({ tenant: { ...activeTenant, status: 'suspended' } });
+        const strategy = strategyWith(connection, false);
+
+        expect(await strategy.authenticate(ctx, { username: 'seller@example.com', password: 'wrong' })).toBe(false);
+        expect(connection.rawConnection.query).not.toHaveBeenCalled();
+    });
+
+    it('returns the rejection message for a seller of a suspended tenant', async () => {
+        const strategy = strategyWith(fakeConnection({ tenant: { ...activeTenant, status: 'suspended' } }), user);
+
+        expect(await strategy.authenticate(ctx, { username: 'seller@example.com', password: 'secret' })).toBe(
+            'Your store has been suspended. Please contact support.',
+        );
+    });
+
+    it('returns the user of a seller with an active tenant', async () => {
+        const strategy = strategyWith(fakeConnection({ tenant: activeTenant, channel: { id: 2, code: 'seller-a' } }), user);
+
+        expect(await strategy.authenticate(ctx, { username: 'seller@example.com', password: 'secret' })).toBe(user);
+    });
+});
@@ -13,29 +13,148 @@ import {
     Injector,
     RequestContext,
     User,
-    ChannelService,
     TransactionalConnection,
     ID,
+    NativeAuthenticationStrategy,
+    NativeAuthenticationData,
+    NATIVE_AUTH_STRATEGY_NAME,
 } from '@vendure/core';
 import { DocumentNode } from 'graphql';
 import gql from 'graphql-tag';
+import { classifyAdministrator, loadSellerChannel } from './channel-isolation-classification';
+import { channelResolutionCache } from './channel-isolation-cache';
+import { channelIsolationSecurity } from './channel-isolation-security';
 
 export const CHANNEL_AWARE_STRATEGY_NAME = 'channel-aware-native';
 
+export interface ChannelAwareAuthStrategyOptions {
+    /**
+     * Register under the 'native' name so that the built-in `login` mutation
+     * (used by the Dashboard) goes through this strategy. When enabled, use this
+     * strategy INSTEAD of NativeAuthenticationStrategy in adminAuthenticationStrategy,
+     * otherwise sellers could bypass the tenant status check.
+     */
+    replaceNative?: boolean;
+}
+
+/**
+ * Messages returned to the client when a login is rejected.
+ * Returning a string from authenticate() surfaces it as the
+ * InvalidCredentialsError `authenticationError`.
+ */
+const TENANT_STATUS_MESSAGES: Record<string, string> = {
+    provisioning: 'Your store is still being set up. Please try again in a few minutes.',
+    suspended: 'Your store has been suspended. Please contact support.',
+    error: 'Your store could not be set up. Please contact support.',
+    deprovisioning: 'Your store is scheduled for deletion. Please contact support to restore it.',
+    deprovisioned: 'Your store has been deleted.',
+};
+
 /**
- * This strategy wraps the native authentication and adds channel assignment
+ * Decide whether an administrator whose credentials were already verified may log in.
+ * Shared by every admin authentication strategy.
+ *
+ * Returns true to allow the login, or a message explaining why it was rejected.
+ * For sellers with an active tenant, primes the middleware cache so the first
+ * requests after login need no lookups.
  */
-export class ChannelAwareAuthStrategy implements AuthenticationStrategy<{ username: string; password: string }> {
-    readonly name = CHANNEL_AWARE_STRATEGY_NAME;
-    private channelService: ChannelService;
+export async function checkAdministratorLogin(
+    connection: TransactionalConnection,
+    userId: ID,
+    administratorId: ID,
+): Promise<true | string> {
+    try {
+        const classification = await classifyAdministrator(connection, administratorId);
+
+        if (classification.kind === 'platform-operator') {
+            console.log(`[ChannelAuth] Platform operator ${administratorId} logged in`);
+            return true;
+        }
+
+        if (classification.kind === 'unknown') {
+            if (channelIsolationSecurity.denyUnknownAdministrators) {
+                await channelIsolationSecurity.logSecurityEvent({
+                    type: 'access-denied',
+                    reason: 'Login by administrator that is neither a platform operator nor a seller',
+                    userId,
+                    administratorId,
+                });
+                return 'This account is not linked to a store. Please contact support.';
+            }
+            return true;
+        }
+
+        if (!classification.sellerChannelId) {
+            console.log(`[ChannelAuth] Rejected login for admin ${administratorId}: tenant is ${classification.tenantStatus}`);
+            return TENANT_STATUS_MESSAGES[classification.tenantStatus ?? '']
+                ?? 'Your store is not active. Please contact support.';
+        }
+
+        const channel = await loadSellerChannel(connection, classification.sellerChannelId);
+        if (!channel) {
+            await channelIsolationSecurity.logSecurityEvent({
+                type: 'resolution-failed',
+                reason: 'Seller channel not found at login',
+                userId,
+                administratorId,
+                channelId: classification.sellerChannelId,
+            });
+            return 'Your store could not be found. Please contact support.';
+        }
+
+        // Prime the middleware cache so the first requests after login need no lookups
+        await channelResolutionCache.set(userId, {
+            userId: String(userId),
+            administratorId: Number(administratorId),
+            kind: classification.kind,
+            tenantStatus: classification.tenantStatus,
+            sellerChannelId: classification.sellerChannelId,
+            channel,
+        });
+        console.log(`[ChannelAuth] Seller ${administratorId} bound to channel ${channel.code} (ID: ${channel.id})`);
+        return true;
+    } catch (error: any) {
+        console.error('[ChannelAuth] Error resolving seller channel at login:', error);
+        await channelIsolationSecurity.logSecurityEvent({
+            type: 'resolution-failed',
+            reason: 'Could not resolve seller channel at login',
+            userId,
+            administratorId,
+            error: error.message,
+        });
+        if (channelIsolationSecurity.isFailClosed()) {
+            return 'We could not verify your store access right now. Please try again.';
+        }
+        return true;
+    }
+}
+
+/**
+ * This strategy wraps the native authentication and adds channel assignment:
+ *
+ * 1. Verifies username/password with NativeAuthenticationStrategy
+ * 2. Classifies the administrator (platform operator / seller / unknown)
+ * 3. Rejects sellers whose tenant is not active, with a clear message
+ * 4. Binds the seller's channel to the new session (see ChannelIsolationService.bindSellerChannelToSession)
+ */
+export class ChannelAwareAuthStrategy implements AuthenticationStrategy<NativeAuthenticationData> {
+    readonly name: string;
+    private nativeStrategy = new NativeAuthenticationStrategy();
     private connection: TransactionalConnection;
 
+    constructor(private options: ChannelAwareAuthStrategyOptions = {}) {
+        this.name = options.replaceNative ? NATIVE_AUTH_STRATEGY_NAME : CHANNEL_AWARE_STRATEGY_NAME;
+    }
+
     init(injector: Injector) {
-        this.channelService = injector.get(ChannelService);
+        this.nativeStrategy.init(injector);
         this.connection = injector.get(TransactionalConnection);
     }
 
     defineInputType(): DocumentNode {
+        if (this.options.replaceNative) {
+            return this.nativeStrategy.defineInputType();
+        }
         return gql`
             input ChannelAwareAuthInput {
                 username: String!
@@ -44,16 +163,32 @@ export class ChannelAwareAuthStrategy implements AuthenticationStrategy<{ userna
         `;
     }
 
-    async authenticate(ctx: RequestContext, data: { username: string; password: string }): Promise<User | false> {
-        // For now, we'll use a simplified approach
-        // The middleware will handle channel enforcement
-        // This strategy is mainly for future enhancements
-        
+    async authenticate(ctx: RequestContext, data: NativeAuthenticationData): Promise<User | false | string> {
         console.log(`[ChannelAuth] Authentication attempt for: ${data.username}`);
-        
-        // Return false to let Vendure handle authentication normally
-        // The middleware will enforce channel restrictions
-        return false;
+
+        // Credentials first, so tenant status is never revealed to someone without the password
+        const user = await this.nativeStrategy.authenticate(ctx, data);
+        if (!user) {
+            return false;
+        }
+
+        const administrator = await this.getAdministratorForUser(ctx, user.id);
+        if (!administrator) {
+            // Not an administrator - nothing to bind, Vendure handles the rest
+            return user;
+        }
+
+        const loginCheck = await checkAdministratorLogin(this.connection, user.id, administrator.id);
+        return loginCheck === true ? user : loginCheck;
+    }
+
+    /**
+     * Delegates to the native strategy. Vendure's AuthService looks up the 'native'
+     * strategy to verify passwords (e.g. when changing password), so this is needed
+     * when replaceNative is enabled.
+     */
+    verifyUserPassword(ctx: RequestContext, userId: ID, password: string): Promise<boolean> {
+        return this.nativeStrategy.verifyUserPassword(ctx, userId, password);
     }
 
     /**
@@ -72,31 +207,6 @@ export class ChannelAwareAuthStrategy implements AuthenticationStrategy<{ userna
             return null;
         }
     }
-
-    /**
-     * Get seller's channel from Supabase tenants table
-     */
-    private async getSellerChannelForAdministrator(administratorId: ID): Promise<number | null> {
-        try {
-            const result = await this.connection.rawConnection.query(
-                `SELECT vendure_channel_id 
-                 FROM tenants 
-                 WHERE vendure_administrator_id = $1 
-                 AND status = 'active'
-                 LIMIT 1`,
-                [parseInt(String(administratorId))]
-            );
-            
-            if (result && result.length > 0 && result[0].vendure_channel_id) {
-                return result[0].vendure_channel_id;
-            }
-            
-            return null;
-        } catch (error) {
-            console.error('[ChannelAuth] Error querying tenants table:', error);
-            return null;
-        }
-    }
 }
 
 /**
@@ -114,8 +224,8 @@ export class ChannelAwareAuthStrategy implements AuthenticationStrategy<{ userna
  *             new NativeAuthenticationStrategy(),
  *         ],
  *         adminAuthenticationStrategy: [
- *             new NativeAuthenticationStrategy(),
- *             new ChannelAwareAuthStrategy(),
+ *             // Replaces NativeAuthenticationStrategy so the Dashboard login uses it
+ *             new ChannelAwareAuthStrategy({ replaceNative: true }),
  *         ],
  *     },
  * };
@@ -127,9 +237,11 @@ export class ChannelAwareAuthStrategy implements AuthenticationStrategy<{ userna
  * 
  * 1. User submits login credentials
  * 2. Strategy validates credentials (via Vendure native auth)
- * 3. If valid, queries Supabase tenants table
- * 4. If seller, stores channel ID in session
- * 5. Middleware uses this info to enforce channel on subsequent requests
+ * 3. If valid, classifies the administrator via the tenants table
+ * 4. Suspended / provisioning tenants are rejected with a clear error
+ * 5. If seller, the resolution is cached and the channel is set as the
+ *    session's active channel (LoginEvent handler in ChannelIsolationPlugin)
+ * 6. Middleware serves subsequent requests from the cache
  * 
  * 
  * INTEGRATION WITH MIDDLEWARE
@@ -140,7 +252,7 @@ export class ChannelAwareAuthStrategy implements AuthenticationStrategy<{ userna
  * - Strategy: Identifies seller status at login
  * - Middleware: Enforces channel on every request
  * 
- * Both query the same Supabase tenants table for consistency.
+ * Both use the same classification (channel-isolation-classification.ts).
  * 
  * 
  * ALTERNATIVE APPROACH
@@ -0,0 +1,32 @@
+import { DeepPartial, EntityId, ID, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * A channel's own version of an email template, used instead of the file under
+ * static/email/templates/<type>/<templateName>.
+ * Table created by migrations/014_channel_email_templates.sql.
+ */
+@Entity()
+@Index(['channelId', 'type', 'templateName'], { unique: true })
+export class ChannelEmailTemplate extends VendureEntity {
+    constructor(input?: DeepPartial<ChannelEmailTemplate>) {
+        super(input);
+    }
+
+    @EntityId()
+    channelId: ID;
+
+    /** Type of the email event handler, e.g. order-confirmation */
+    @Column('varchar')
+    type: string;
+
+    @Column('varchar', { default: 'body.hbs' })
+    templateName: string;
+
+    /** Handlebars + MJML, like the file templates */
+    @Column('text')
+    content: string;
+
+    @EntityId({ nullable: true })
+    updatedByUserId: ID | null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Channel Isolation Admin Resolver
+ *
+ * Platform operations for the channel isolation system that are not
+ * overrides of Vendure's built-in queries.
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, ForbiddenError, ID, Permission, RequestContext } from '@vendure/core';
+import { ChannelIsolationService } from './channel-isolation-service';
+import { platformOperatorPermission, PlatformOperatorEntry } from './channel-isolation-classification';
+
+@Resolver()
+export class ChannelIsolationAdminResolver {
+    constructor(private channelIsolationService: ChannelIsolationService) {}
+
+    /**
+     * List every administrator holding platform-wide (unrestricted) access
+     * Only platform operators may call this - the permission alone is not enough,
+     * since the SuperAdmin role implicitly carries every permission
+     */
+    @Query()
+    @Allow(platformOperatorPermission.Permission)
+    async platformOperators(@Ctx() ctx: RequestContext): Promise<PlatformOperatorEntry[]> {
+        if (!ctx.activeUserId || !(await this.channelIsolationService.isPlatformOperator(ctx, ctx.activeUserId))) {
+            throw new ForbiddenError();
+        }
+        return this.channelIsolationService.listPlatformOperators(ctx);
+    }
+
+    /**
+     * Drop cached channel resolutions
+     * Called by the SaaS backend whenever a tenants row is created or updated
+     */
+    @Mutation()
+    @Allow(Permission.SuperAdmin)
+    async invalidateChannelIsolationCache(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { userId?: ID; administratorId?: ID; channelId?: ID },
+    ): Promise<boolean> {
+        await this.channelIsolationService.invalidateResolutionCache({
+            userId: args.userId,
+            administratorId: args.administratorId,
+            channelId: args.channelId,
+        });
+        return true;
+    }
+}
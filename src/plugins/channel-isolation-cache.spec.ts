@@ -0,0 +1,196 @@
+import { Injector } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    ChannelResolutionCache,
+    ChannelResolutionStore,
+    DatabaseResolutionStore,
+    InMemoryLruResolutionStore,
+    RedisLikeClient,
+    RedisResolutionStore,
+    TenantChannelResolution,
+} from './channel-isolation-cache';
+
+function resolution(userId: string, administratorId: number | null, sellerChannelId: number | null): TenantChannelResolution {
+    return {
+        userId,
+        administratorId,
+        kind: 'seller',
+        tenantStatus: 'active',
+        sellerChannelId,
+        channel: sellerChannelId != null ? { id: String(sellerChannelId), code: `seller-${sellerChannelId}` } : null,
+    };
+}
+
+/** In-memory stand-in for a Redis client, with PX expiry */
+class FakeRedisClient implements RedisLikeClient {
+    values = new Map<string, { value: string; expiresAt: number }>();
+    sets = new Map<string, Set<string>>();
+
+    async get(key: string) {
+        const entry = this.values.get(key);
+        return entry && entry.expiresAt > Date.now() ? entry.value : null;
+    }
+    async set(key: string, value: string, mode: 'PX', ttlMs: number) {
+        this.values.set(key, { value, expiresAt: Date.now() + ttlMs });
+    }
+    async del(...keys: string[]) {
+        keys.forEach(key => {
+            this.values.delete(key);
+            this.sets.delete(key);
+        });
+    }
+    async sadd(key: string, ...members: string[]) {
+        const set = this.sets.get(key) ?? new Set<string>();
+        members.forEach(member => set.add(member));
+        this.sets.set(key, set);
+    }
+    async smembers(key: string) {
+        return Array.from(this.sets.get(key) ?? []);
+    }
+}
+
+describe('InMemoryLruResolutionStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('expires entries after their TTL', async () => {
+        const store = new InMemoryLruResolutionStore();
+        await store.set('1', resolution('1', 10, 2), 1000);
+
+        vi.advanceTimersByTime(999);
+        expect(await store.get('1')).toEqual(resolution('1', 10, 2));
+        vi.advanceTimersByTime(1);
+        expect(await store.get('1')).toBeUndefined();
+    });
+
+    it('evicts the least recently used entry beyond maxEntries', async () => {
+        const store = new InMemoryLruResolutionStore(2);
+        await store.set('1', resolution('1', 10, 2), 60_000);
+        await store.set('2', resolution('2', 11, 3), 60_000);
+        await store.get('1');
+        await store.set('3', resolution('3', 12, 4), 60_000);
+
+        expect(await store.get('1')).toBeDefined();
+        expect(await store.get('2')).toBeUndefined();
+        expect(await store.get('3')).toBeDefined();
+    });
+
+    it('invalidates by user, administrator and channel', async () => {
+        const store = new InMemoryLruResolutionStore();
+        await store.set('1', resolution('1', 10, 2), 60_000);
+        await store.set('2', resolution('2', 11, 3), 60_000);
+        await store.set('3', resolution('3', 12, 4), 60_000);
+
+        await store.invalidate({ userId: 1 });
+        await store.invalidate({ administratorId: '11' });
+        expect(await store.get('1')).toBeUndefined();
+        expect(await store.get('2')).toBeUndefined();
+        expect(await store.get('3')).toBeDefined();
+
+        await store.invalidate({ channelId: 4 });
+        expect(await store.get('3')).toBeUndefined();
+    });
+});
+
+describe('RedisResolutionStore', () => {
+    it('invalidates entries through the administrator and channel indexes', async () => {
+        const store = new RedisResolutionStore(new FakeRedisClient());
+        await store.set('1', resolution('1', 10, 2), 60_000);
+        await store.set('2', resolution('2', 11, 2), 60_000);
+        await store.set('3', resolution('3', 12, 4), 60_000);
+
+        await store.invalidate({ channelId: 2 });
+        expect(await store.get('1')).toBeUndefined();
+        expect(await store.get('2')).toBeUndefined();
+        expect(await store.get('3')).toBeDefined();
+
+        await store.invalidate({ administratorId: 12 });
+        expect(await store.get('3')).toBeUndefined();
+    });
+});
+
+describe('DatabaseResolutionStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('purges expired rows on write, at most once a minute', async () => {
+        const query = vi.fn().mockResolvedValue([]);
+        const store = new DatabaseResolutionStore();
+        store.init({ get: () => ({ rawConnection: { query } }) } as unknown as Injector);
+        const purges = () => query.mock.calls.filter(([sql]) => /DELETE FROM channel_isolation_cache\s+WHERE expires_at <= NOW\(\)/.test(sql)).length;
+
+        await store.set('1', resolution('1', 10, 2), 60_000);
+        await store.set('2', resolution('2', 11, 3), 60_000);
+        expect(purges()).toBe(1);
+
+        vi.advanceTimersByTime(60_000);
+        await store.set('3', resolution('3', 12, 4), 60_000);
+        expect(purges()).toBe(2);
+    });
+});
+
+describe('ChannelResolutionCache', () => {
+    let shared: ChannelResolutionStore;
+    let cache: ChannelResolutionCache;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        shared = new RedisResolutionStore(new FakeRedisClient());
+        cache = new ChannelResolutionCache();
+        cache.configure({ ttlMs: 60_000, localTtlMs: 5_000, sharedStore: shared });
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps the local tier for localTtlMs and then reads the shared store again', async () => {
+        await cache.set(1, resolution('1', 10, 2));
+        // Invalidated on another instance: only the shared store is cleared
+        await shared.invalidate({ userId: 1 });
+        expect(await cache.get(1)).toBeDefined();
+
+        vi.advanceTimersByTime(5_000);
+        expect(await cache.get(1)).toBeUndefined();
+    });
+
+    it('drops both tiers on invalidation', async () => {
+        await cache.set(1, resolution('1', 10, 2));
+        await cache.invalidate({ channelId: 2 });
+
+        expect(await cache.get(1)).toBeUndefined();
+        expect(await shared.get('1')).toBeUndefined();
+    });
+
+    it('resolves on every request when disabled', async () => {
+        cache.configure({ enabled: false });
+        await cache.set(1, resolution('1', 10, 2));
+
+        expect(await cache.get(1)).toBeUndefined();
+    });
+
+    it('treats a failing shared store as a cache miss', async () => {
+        const errors = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        cache.configure({
+            sharedStore: {
+                get: () => Promise.reject(new Error('down')),
+                set: () => Promise.reject(new Error('down')),
+                invalidate: () => Promise.reject(new Error('down')),
+                clear: () => Promise.reject(new Error('down')),
+            },
+        });
+
+        await cache.set(1, resolution('1', 10, 2));
+        vi.advanceTimersByTime(5_000);
+        expect(await cache.get(1)).toBeUndefined();
+        expect(errors).toHaveBeenCalled();
+        errors.mockRestore();
+    });
+});
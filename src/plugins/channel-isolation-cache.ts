@@ -0,0 +1,374 @@
+/**
+ * Channel Isolation Resolution Cache
+ *
+ * Caches the result of resolving an authenticated user to their
+ * administrator, tenant and seller channel, so the isolation middleware
+ * does not hit the database on every Admin API request.
+ *
+ * Two tiers:
+ * - Local: in-process LRU with TTL (always on)
+ * - Shared: optional store shared between server instances and the worker
+ *   (database table or a Redis-compatible client)
+ *
+ * Entries are invalidated explicitly when an administrator, channel or
+ * tenant row changes (see ChannelIsolationPlugin).
+ */
+
+import { ID, Injector, TransactionalConnection } from '@vendure/core';
+import { AdministratorKind } from './channel-isolation-classification';
+
+/**
+ * Minimal channel shape the middleware needs to build a RequestContext.
+ * Built from a raw `channel` row, so relations are always null.
+ */
+export type CachedChannel = Record<string, any> & { id: string; code: string };
+
+/**
+ * The outcome of resolving a user to their seller channel
+ */
+export interface TenantChannelResolution {
+    userId: string;
+    administratorId: number | null;
+    /** null when the user is not an administrator */
+    kind: AdministratorKind | null;
+    tenantStatus: string | null;
+    sellerChannelId: number | null;
+    channel: CachedChannel | null;
+}
+
+/**
+ * Criteria for dropping cached resolutions. Any matching field removes the entry.
+ */
+export interface ChannelResolutionInvalidation {
+    userId?: ID;
+    administratorId?: ID;
+    channelId?: ID;
+}
+
+/**
+ * Backing store for cached resolutions
+ */
+export interface ChannelResolutionStore {
+    init?(injector: Injector): void | Promise<void>;
+    get(key: string): Promise<TenantChannelResolution | undefined>;
+    set(key: string, value: TenantChannelResolution, ttlMs: number): Promise<void>;
+    invalidate(filter: ChannelResolutionInvalidation): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export interface ChannelResolutionCacheOptions {
+    /** Set to false to resolve on every request (default: true) */
+    enabled?: boolean;
+    /** How long a resolution stays valid (default: 60s) */
+    ttlMs?: number;
+    /**
+     * TTL for the local tier when a shared store is configured. Keep it short
+     * so that invalidations on another instance are picked up quickly (default: 5s)
+     */
+    localTtlMs?: number;
+    /** Max entries in the local LRU (default: 1000) */
+    maxEntries?: number;
+    /** Optional store shared across processes */
+    sharedStore?: ChannelResolutionStore;
+}
+
+function matchesInvalidation(value: TenantChannelResolution, filter: ChannelResolutionInvalidation): boolean {
+    if (filter.userId != null && String(filter.userId) === value.userId) {
+        return true;
+    }
+    if (filter.administratorId != null && value.administratorId != null
+        && String(filter.administratorId) === String(value.administratorId)) {
+        return true;
+    }
+    if (filter.channelId != null && value.sellerChannelId != null
+        && String(filter.channelId) === String(value.sellerChannelId)) {
+        return true;
+    }
+    return false;
+}
+
+/**
+ * In-process LRU store with per-entry TTL
+ */
+export class InMemoryLruResolutionStore implements ChannelResolutionStore {
+    private entries = new Map<string, { value: TenantChannelResolution; expiresAt: number }>();
+
+    constructor(private maxEntries = 1000) {}
+
+    setMaxEntries(maxEntries: number) {
+        this.maxEntries = maxEntries;
+    }
+
+    async get(key: string): Promise<TenantChannelResolution | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: TenantChannelResolution, ttlMs: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value;
+            if (oldestKey === undefined) {
+                break;
+            }
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    async invalidate(filter: ChannelResolutionInvalidation): Promise<void> {
+        for (const [key, entry] of this.entries) {
+            if (matchesInvalidation(entry.value, filter)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * How often DatabaseResolutionStore deletes expired rows
+ */
+const PURGE_INTERVAL_MS = 60_000;
+
+/**
+ * Shared store backed by the Vendure database (the same database the
+ * DefaultJobQueuePlugin uses). Requires migrations/002_channel_isolation_cache.sql.
+ * Expired rows are skipped on read and deleted by `set`, at most once per PURGE_INTERVAL_MS.
+ */
+export class DatabaseResolutionStore implements ChannelResolutionStore {
+    private connection: TransactionalConnection;
+    private lastPurgeAt = 0;
+
+    init(injector: Injector) {
+        this.connection = injector.get(TransactionalConnection);
+    }
+
+    async get(key: string): Promise<TenantChannelResolution | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT payload
+             FROM channel_isolation_cache
+             WHERE user_id = $1
+             AND expires_at > NOW()
+             LIMIT 1`,
+            [parseInt(key)]
+        );
+        if (result && result.length > 0) {
+            return typeof result[0].payload === 'string' ? JSON.parse(result[0].payload) : result[0].payload;
+        }
+        return undefined;
+    }
+
+    async set(key: string, value: TenantChannelResolution, ttlMs: number): Promise<void> {
+        await this.connection.rawConnection.query(
+            `INSERT INTO channel_isolation_cache (user_id, administrator_id, channel_id, payload, expires_at)
+             VALUES ($1, $2, $3, $4, NOW() + ($5 || ' milliseconds')::interval)
+             ON CONFLICT (user_id) DO UPDATE SET
+                administrator_id = EXCLUDED.administrator_id,
+                channel_id = EXCLUDED.channel_id,
+                payload = EXCLUDED.payload,
+                expires_at = EXCLUDED.expires_at`,
+            [parseInt(key), value.administratorId, value.sellerChannelId, JSON.stringify(value), String(ttlMs)]
+        );
+        await this.purgeExpired();
+    }
+
+    async invalidate(filter: ChannelResolutionInvalidation): Promise<void> {
+        const toInt = (id?: ID) => (id != null ? parseInt(String(id)) : null);
+        await this.connection.rawConnection.query(
+            `DELETE FROM channel_isolation_cache
+             WHERE user_id = $1 OR administrator_id = $2 OR channel_id = $3`,
+            [toInt(filter.userId), toInt(filter.administratorId), toInt(filter.channelId)]
+        );
+    }
+
+    async clear(): Promise<void> {
+        await this.connection.rawConnection.query(`DELETE FROM channel_isolation_cache`);
+    }
+
+    private async purgeExpired(): Promise<void> {
+        if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+            return;
+        }
+        this.lastPurgeAt = Date.now();
+        await this.connection.rawConnection.query(`DELETE FROM channel_isolation_cache WHERE expires_at <= NOW()`);
+    }
+}
+
+/**
+ * The subset of a Redis client (ioredis / node-redis legacy mode) used by RedisResolutionStore.
+ * Any object implementing these methods can be used, e.g. an in-memory stand-in for tests.
+ */
+export interface RedisLikeClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+    del(...keys: string[]): Promise<unknown>;
+    sadd(key: string, ...members: string[]): Promise<unknown>;
+    smembers(key: string): Promise<string[]>;
+}
+
+/**
+ * Shared store backed by Redis (or anything implementing RedisLikeClient).
+ * Secondary index sets allow invalidating by administrator or channel.
+ */
+export class RedisResolutionStore implements ChannelResolutionStore {
+    constructor(
+        private client: RedisLikeClient,
+        private prefix = 'channel-isolation',
+    ) {}
+
+    async get(key: string): Promise<TenantChannelResolution | undefined> {
+        const raw = await this.client.get(this.entryKey(key));
+        return raw ? JSON.parse(raw) : undefined;
+    }
+
+    async set(key: string, value: TenantChannelResolution, ttlMs: number): Promise<void> {
+        await this.client.set(this.entryKey(key), JSON.stringify(value), 'PX', ttlMs);
+        await this.client.sadd(`${this.prefix}:all`, key);
+        if (value.administratorId != null) {
+            await this.client.sadd(`${this.prefix}:admin:${value.administratorId}`, key);
+        }
+        if (value.sellerChannelId != null) {
+            await this.client.sadd(`${this.prefix}:channel:${value.sellerChannelId}`, key);
+        }
+    }
+
+    async invalidate(filter: ChannelResolutionInvalidation): Promise<void> {
+        const keys = new Set<string>();
+        if (filter.userId != null) {
+            keys.add(String(filter.userId));
+        }
+        if (filter.administratorId != null) {
+            const indexKey = `${this.prefix}:admin:${filter.administratorId}`;
+            (await this.client.smembers(indexKey)).forEach(k => keys.add(k));
+            await this.client.del(indexKey);
+        }
+        if (filter.channelId != null) {
+            const indexKey = `${this.prefix}:channel:${filter.channelId}`;
+            (await this.client.smembers(indexKey)).forEach(k => keys.add(k));
+            await this.client.del(indexKey);
+        }
+        if (keys.size > 0) {
+            await this.client.del(...Array.from(keys).map(k => this.entryKey(k)));
+        }
+    }
+
+    async clear(): Promise<void> {
+        const keys = await this.client.smembers(`${this.prefix}:all`);
+        if (keys.length > 0) {
+            await this.client.del(...keys.map(k => this.entryKey(k)));
+        }
+        await this.client.del(`${this.prefix}:all`);
+    }
+
+    private entryKey(key: string) {
+        return `${this.prefix}:user:${key}`;
+    }
+}
+
+/**
+ * Two-tier cache used by the middleware and invalidated by ChannelIsolationService
+ */
+export class ChannelResolutionCache {
+    private enabled = true;
+    private ttlMs = 60_000;
+    private localTtlMs = 5_000;
+    private local = new InMemoryLruResolutionStore(1000);
+    private shared?: ChannelResolutionStore;
+
+    configure(options: ChannelResolutionCacheOptions = {}) {
+        this.enabled = options.enabled ?? true;
+        this.ttlMs = options.ttlMs ?? 60_000;
+        this.localTtlMs = options.localTtlMs ?? 5_000;
+        this.local.setMaxEntries(options.maxEntries ?? 1000);
+        this.shared = options.sharedStore;
+    }
+
+    async init(injector: Injector) {
+        if (this.shared?.init) {
+            await this.shared.init(injector);
+        }
+    }
+
+    async get(userId: ID): Promise<TenantChannelResolution | undefined> {
+        if (!this.enabled) {
+            return undefined;
+        }
+        const key = String(userId);
+        const cached = await this.local.get(key);
+        if (cached) {
+            return cached;
+        }
+        if (!this.shared) {
+            return undefined;
+        }
+        try {
+            const sharedValue = await this.shared.get(key);
+            if (sharedValue) {
+                await this.local.set(key, sharedValue, this.localTtlMs);
+            }
+            return sharedValue;
+        } catch (error: any) {
+            console.error('[ChannelIsolationCache] Shared store read failed:', error.message);
+            return undefined;
+        }
+    }
+
+    async set(userId: ID, value: TenantChannelResolution): Promise<void> {
+        if (!this.enabled) {
+            return;
+        }
+        const key = String(userId);
+        await this.local.set(key, value, this.shared ? Math.min(this.localTtlMs, this.ttlMs) : this.ttlMs);
+        if (this.shared) {
+            try {
+                await this.shared.set(key, value, this.ttlMs);
+            } catch (error: any) {
+                console.error('[ChannelIsolationCache] Shared store write failed:', error.message);
+            }
+        }
+    }
+
+    async invalidate(filter: ChannelResolutionInvalidation): Promise<void> {
+        console.log(`[ChannelIsolationCache] Invalidating`, filter);
+        await this.local.invalidate(filter);
+        if (this.shared) {
+            try {
+                await this.shared.invalidate(filter);
+            } catch (error: any) {
+                console.error('[ChannelIsolationCache] Shared store invalidation failed:', error.message);
+            }
+        }
+    }
+
+    async clear(): Promise<void> {
+        await this.local.clear();
+        if (this.shared) {
+            try {
+                await this.shared.clear();
+            } catch (error: any) {
+                console.error('[ChannelIsolationCache] Shared store clear failed:', error.message);
+            }
+        }
+    }
+}
+
+/**
+ * Process-wide cache instance shared by the middleware (which is created in
+ * vendure-config.ts outside of DI) and ChannelIsolationService.
+ * Configured through ChannelIsolationPlugin.init({ cache }).
+ */
+export const channelResolutionCache = new ChannelResolutionCache();
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyAdministrator } from './channel-isolation-classification';
+import { ChannelIsolationResolver } from './channel-isolation-resolver-ui';
+import { channelIsolationSecurity } from './channel-isolation-security';
+
+// The resolver's tenant lookups go to the SaaS database; they are stubbed below
+vi.mock('@supabase/supabase-js', () => ({ createClient: () => ({}) }));
+
+function fakeConnection(rows: { tenant?: any; administrator?: any }) {
+    const query = vi.fn(async (sql: string) => {
+        if (sql.includes('FROM tenants')) {
+            return rows.tenant ? [rows.tenant] : [];
+        }
+        if (sql.includes('has_operator_role')) {
+            return rows.administrator ? [rows.administrator] : [];
+        }
+        return [];
+    });
+    return { rawConnection: { query } } as any;
+}
+
+describe('classifyAdministrator', () => {
+    afterEach(() => {
+        channelIsolationSecurity.configure({});
+    });
+
+    it('classifies an administrator with an active tenant as a seller with a channel', async () => {
+        const connection = fakeConnection({ tenant: { id: 'tenant-a', status: 'active', vendure_channel_id: 2 } });
+
+        expect(await classifyAdministrator(connection, '10')).toEqual({
+            administratorId: 10,
+            kind: 'seller',
+            tenantId: 'tenant-a',
+            tenantStatus: 'active',
+            sellerChannelId: 2,
+        });
+    });
+
+    it('gives a seller of a suspended tenant no channel', async () => {
+        const connection = fakeConnection({ tenant: { id: 'tenant-a', status: 'suspended', vendure_channel_id: 2 } });
+
+        expect(await classifyAdministrator(connection, 10)).toMatchObject({ kind: 'seller', sellerChannelId: null });
+    });
+
+    it('never promotes a seller to platform operator', async () => {
+        const connection = fakeConnection({
+            tenant: { id: 'tenant-a', status: 'active', vendure_channel_id: 2 },
+            administrator: { identifier: 'ops@example.com', has_operator_role: true },
+        });
+
+        expect(await classifyAdministrator(connection, 10)).toMatchObject({ kind: 'seller' });
+    });
+
+    it('classifies operators by role or by identifier', async () => {
+        channelIsolationSecurity.configure({ operatorIdentifiers: ['root@example.com'] });
+
+        const byRole = fakeConnection({ administrator: { identifier: 'ops@example.com', has_operator_role: true } });
+        const byIdentifier = fakeConnection({ administrator: { identifier: 'root@example.com', has_operator_role: false } });
+        expect(await classifyAdministrator(byRole, 11)).toMatchObject({ kind: 'platform-operator' });
+        expect(await classifyAdministrator(byIdentifier, 12)).toMatchObject({ kind: 'platform-operator' });
+    });
+
+    it('classifies everyone else as unknown', async () => {
+        const connection = fakeConnection({ administrator: { identifier: 'someone@example.com', has_operator_role: false } });
+
+        expect(await classifyAdministrator(connection, 13)).toMatchObject({ kind: 'unknown', sellerChannelId: null });
+    });
+
+    it('lets database errors propagate so the enforcement mode applies', async () => {
+        const connection = { rawConnection: { query: vi.fn().mockRejectedValue(new Error('down')) } } as any;
+
+        await expect(classifyAdministrator(connection, 10)).rejects.toThrow('down');
+    });
+});
+
+describe('ChannelIsolationSecurity.allowsAllChannels', () => {
+    afterEach(() => {
+        channelIsolationSecurity.configure({});
+    });
+
+    it('allows unknown administrators only when denyUnknownAdministrators is false', () => {
+        expect(channelIsolationSecurity.allowsAllChannels('platform-operator')).toBe(true);
+        expect(channelIsolationSecurity.allowsAllChannels('unknown')).toBe(false);
+        expect(channelIsolationSecurity.allowsAllChannels('seller')).toBe(false);
+        expect(channelIsolationSecurity.allowsAllChannels(null)).toBe(false);
+
+        channelIsolationSecurity.configure({ denyUnknownAdministrators: false });
+        expect(channelIsolationSecurity.allowsAllChannels('unknown')).toBe(true);
+    });
+});
+
+describe('ChannelIsolationResolver.channels', () => {
+    const allChannels = { items: [{ id: '1' }, { id: '2' }], totalItems: 2 };
+    let resolver: ChannelIsolationResolver;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const connection = { rawConnection: { query: vi.fn().mockResolvedValue([{ id: 13 }]) } } as any;
+        const channelIsolationService = {
+            classifyAdministrator: vi.fn().mockResolvedValue({ kind: 'unknown', tenantStatus: null }),
+        };
+        resolver = new ChannelIsolationResolver(
+            {} as any,
+            { findAll: vi.fn().mockResolvedValue(allChannels) } as any,
+            connection,
+            channelIsolationService as any,
+        );
+        vi.spyOn(resolver as any, 'getSellerChannelForAdministrator').mockResolvedValue(null);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+        channelIsolationSecurity.configure({});
+    });
+
+    const ctx = { activeUserId: 5 } as any;
+
+    it('shows unknown administrators no channels by default', async () => {
+        expect(await resolver.channels(ctx)).toEqual({ items: [], totalItems: 0 });
+    });
+
+    it('shows unknown administrators every channel when the middleware lets them through', async () => {
+        channelIsolationSecurity.configure({ denyUnknownAdministrators: false });
+
+        expect(await resolver.channels(ctx)).toEqual(allChannels);
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * Administrator Classification
+ *
+ * Every administrator is classified explicitly instead of treating
+ * "no active tenant row" as "super admin":
+ *
+ * - platform-operator: holds an operator role (see operatorRoleCodes) or is
+ *   on the operator identifier allowlist, and is not linked to a tenant
+ * - seller: linked to a tenants row (any status). Only an `active` tenant
+ *   yields a channel; suspended / provisioning / error tenants get no access
+ * - unknown: everything else. Denied by default
+ */
+
+import { ID, PermissionDefinition, TransactionalConnection } from '@vendure/core';
+import { channelIsolationSecurity } from './channel-isolation-security';
+import { CachedChannel } from './channel-isolation-cache';
+
+export type AdministratorKind = 'platform-operator' | 'seller' | 'unknown';
+
+export interface AdministratorClassification {
+    administratorId: number;
+    kind: AdministratorKind;
+    tenantId: string | null;
+    tenantStatus: string | null;
+    /** Only set for sellers whose tenant is active */
+    sellerChannelId: number | null;
+}
+
+export interface PlatformOperatorEntry {
+    administratorId: string;
+    emailAddress: string;
+    firstName: string;
+    lastName: string;
+    identifier: string;
+    /** How access was granted: `role:<code>` and/or `identifier` */
+    grantedBy: string[];
+}
+
+/**
+ * Permission required to call platform-operator-only Admin API operations.
+ * Note that holding the permission is not enough on its own: callers must
+ * also be classified as a platform operator.
+ */
+export const platformOperatorPermission = new PermissionDefinition({
+    name: 'PlatformOperator',
+    description: 'Allows platform-wide operations across all seller channels',
+});
+
+/**
+ * Classify an administrator using direct DB queries (bypasses permission checks).
+ * Errors propagate so the caller can apply the enforcement mode.
+ */
+export async function classifyAdministrator(
+    connection: TransactionalConnection,
+    administratorId: ID,
+): Promise<AdministratorClassification> {
+    const adminId = parseInt(String(administratorId));
+    const rawConnection = connection.rawConnection;
+
+    // A tenant link always wins: a seller is never promoted to operator
+    const tenantResult = await rawConnection.query(
+        `SELECT id, status, vendure_channel_id
+         FROM tenants
+         WHERE vendure_administrator_id = $1
+         ORDER BY (status = 'active') DESC, updated_at DESC
+         LIMIT 1`,
+        [adminId]
+    );
+
+    if (tenantResult && tenantResult.length > 0) {
+        const tenant = tenantResult[0];
+        return {
+            administratorId: adminId,
+            kind: 'seller',
+            tenantId: tenant.id,
+            tenantStatus: tenant.status,
+            sellerChannelId: tenant.status === 'active' && tenant.vendure_channel_id ? tenant.vendure_channel_id : null,
+        };
+    }
+
+    const operatorResult = await rawConnection.query(
+        `SELECT u.identifier,
+                EXISTS (
+                    SELECT 1
+                    FROM user_roles_role urr
+                    JOIN role r ON r.id = urr."roleId"
+                    WHERE urr."userId" = u.id
+                    AND r.code = ANY($2)
+                ) AS has_operator_role
+         FROM administrator a
+         JOIN "user" u ON u.id = a."userId"
+         WHERE a.id = $1
+         AND a."deletedAt" IS NULL
+         LIMIT 1`,
+        [adminId, channelIsolationSecurity.operatorRoleCodes]
+    );
+
+    const isOperator = operatorResult && operatorResult.length > 0 && (
+        operatorResult[0].has_operator_role ||
+        channelIsolationSecurity.operatorIdentifiers.includes(operatorResult[0].identifier)
+    );
+
+    return {
+        administratorId: adminId,
+        kind: isOperator ? 'platform-operator' : 'unknown',
+        tenantId: null,
+        tenantStatus: null,
+        sellerChannelId: null,
+    };
+}
+
+/**
+ * Load a seller's channel with a direct DB query.
+ * channelService.findOne() always checks ReadChannel permission, which fails for sellers,
+ * so the Channel object is constructed from the raw row (relations are null).
+ */
+export async function loadSellerChannel(
+    connection: TransactionalConnection,
+    channelId: ID,
+): Promise<CachedChannel | null> {
+    const channelResult = await connection.rawConnection.query(
+        `SELECT id, code, token, "defaultLanguageCode", "defaultCurrencyCode", 
+                "defaultShippingZoneId", "defaultTaxZoneId", "pricesIncludeTax", 
+                "trackInventory", "outOfStockThreshold", "customFields",
+                "createdAt", "updatedAt"
+         FROM channel 
+         WHERE id = $1`,
+        [channelId]
+    );
+
+    if (!channelResult || channelResult.length === 0) {
+        return null;
+    }
+
+    const channelData = channelResult[0];
+    return {
+        id: String(channelData.id),
+        createdAt: channelData.createdAt,
+        updatedAt: channelData.updatedAt,
+        code: channelData.code,
+        token: channelData.token,
+        defaultLanguageCode: channelData.defaultLanguageCode,
+        defaultCurrencyCode: channelData.defaultCurrencyCode,
+        currencyCode: channelData.defaultCurrencyCode, // Deprecated but required
+        defaultShippingZoneId: channelData.defaultShippingZoneId ? String(channelData.defaultShippingZoneId) : null,
+        defaultTaxZoneId: channelData.defaultTaxZoneId ? String(channelData.defaultTaxZoneId) : null,
+        pricesIncludeTax: channelData.pricesIncludeTax,
+        trackInventory: channelData.trackInventory,
+        outOfStockThreshold: channelData.outOfStockThreshold,
+        availableLanguageCodes: [channelData.defaultLanguageCode], // Minimal array
+        availableCurrencyCodes: [channelData.defaultCurrencyCode], // Minimal array
+        customFields: channelData.customFields || {},
+        // Relations will be null but that's okay for middleware
+        defaultTaxZone: null,
+        defaultShippingZone: null,
+        seller: null,
+    };
+}
+
+/**
+ * List every administrator that currently holds platform-wide access
+ */
+export async function listPlatformOperators(connection: TransactionalConnection): Promise<PlatformOperatorEntry[]> {
+    const rows = await connection.rawConnection.query(
+        `SELECT a.id, a."emailAddress", a."firstName", a."lastName", u.identifier,
+                COALESCE((
+                    SELECT array_agg(r.code)
+                    FROM user_roles_role urr
+                    JOIN role r ON r.id = urr."roleId"
+                    WHERE urr."userId" = u.id
+                    AND r.code = ANY($1)
+                ), '{}') AS operator_roles
+         FROM administrator a
+         JOIN "user" u ON u.id = a."userId"
+         WHERE a."deletedAt" IS NULL
+         AND NOT EXISTS (SELECT 1 FROM tenants t WHERE t.vendure_administrator_id = a.id)
+         ORDER BY a.id`,
+        [channelIsolationSecurity.operatorRoleCodes]
+    );
+
+    const operators: PlatformOperatorEntry[] = [];
+    for (const row of rows) {
+        const grantedBy: string[] = (row.operator_roles as string[]).map(code => `role:${code}`);
+        if (channelIsolationSecurity.operatorIdentifiers.includes(row.identifier)) {
+            grantedBy.push('identifier');
+        }
+        if (grantedBy.length > 0) {
+            operators.push({
+                administratorId: String(row.id),
+                emailAddress: row.emailAddress,
+                firstName: row.firstName,
+                lastName: row.lastName,
+                identifier: row.identifier,
+                grantedBy,
+            });
+        }
+    }
+    return operators;
+}
@@ -0,0 +1,146 @@
+import { RequestContext } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { channelResolutionCache } from './channel-isolation-cache';
+import { createChannelIsolationMiddlewareHandler } from './channel-isolation-middleware';
+import { channelIsolationSecurity } from './channel-isolation-security';
+
+const DEFAULT_CHANNEL = { id: '1', code: '__default_channel__' };
+
+interface FakeDatabase {
+    administrators: Record<number, number>;
+    tenants: Record<number, { id: string; status: string; vendure_channel_id: number | null }>;
+    operators: Record<number, { identifier: string; has_operator_role: boolean }>;
+    channels: Record<number, { id: number; code: string }>;
+    failing?: boolean;
+}
+
+function fakeConnection(db: FakeDatabase) {
+    const query = vi.fn(async (sql: string, params: any[] = []) => {
+        if (db.failing && !sql.includes('INSERT INTO events')) {
+            throw new Error('connection refused');
+        }
+        if (sql.includes('FROM administrator WHERE "userId"')) {
+            const id = db.administrators[params[0]];
+            return id != null ? [{ id }] : [];
+        }
+        if (sql.includes('FROM tenants')) {
+            const tenant = db.tenants[params[0]];
+            return tenant ? [tenant] : [];
+        }
+        if (sql.includes('has_operator_role')) {
+            const operator = db.operators[params[0]];
+            return operator ? [operator] : [];
+        }
+        if (sql.includes('FROM channel')) {
+            const channel = db.channels[params[0]];
+            return channel ? [{ ...channel, defaultLanguageCode: 'en', defaultCurrencyCode: 'USD' }] : [];
+        }
+        return [];
+    });
+    return { rawConnection: { query } } as any;
+}
+
+function run(db: FakeDatabase, userId: number | undefined) {
+    const ctx = new RequestContext({
+        apiType: 'admin',
+        channel: DEFAULT_CHANNEL as any,
+        isAuthorized: true,
+        authorizedAsOwnerOnly: false,
+        session: userId != null ? ({ user: { id: userId } } as any) : undefined,
+    });
+    const req: any = { _ctx: ctx };
+    const res: any = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const next = vi.fn();
+    const handler = createChannelIsolationMiddlewareHandler(fakeConnection(db), {} as any, {
+        findOneByUserId: () => Promise.reject(new Error('connection refused')),
+    } as any);
+    return handler(req, res, next).then(() => ({
+        ctx: req._ctx as RequestContext,
+        forbidden: res.json.mock.calls.length > 0,
+        next: next.mock.calls.length > 0,
+    }));
+}
+
+describe('channel isolation middleware', () => {
+    let db: FakeDatabase;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        channelResolutionCache.configure({ enabled: false });
+        channelIsolationSecurity.configure({ enforcementMode: 'fail-closed' });
+        db = {
+            administrators: { 10: 100, 11: 101 },
+            tenants: { 100: { id: 'tenant-a', status: 'active', vendure_channel_id: 2 } },
+            operators: { 101: { identifier: 'ops@example.com', has_operator_role: true } },
+            channels: { 2: { id: 2, code: 'seller-a' } },
+        };
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+        channelIsolationSecurity.configure({});
+        channelResolutionCache.configure({});
+    });
+
+    it('switches a seller to their own channel', async () => {
+        const result = await run(db, 10);
+
+        expect(result.next).toBe(true);
+        expect(result.ctx.channelId).toBe('2');
+    });
+
+    it('leaves platform operators on the requested channel', async () => {
+        const result = await run(db, 11);
+
+        expect(result.next).toBe(true);
+        expect(result.ctx.channelId).toBe('1');
+    });
+
+    it('does not restrict anonymous requests', async () => {
+        const result = await run(db, undefined);
+
+        expect(result.next).toBe(true);
+        expect(result.forbidden).toBe(false);
+    });
+
+    it('rejects the request when resolution fails in fail-closed mode', async () => {
+        db.failing = true;
+
+        const result = await run(db, 10);
+
+        expect(result.forbidden).toBe(true);
+        expect(result.next).toBe(false);
+    });
+
+    it('lets the request through unrestricted when resolution fails in fail-open mode', async () => {
+        channelIsolationSecurity.configure({ enforcementMode: 'fail-open' });
+        db.failing = true;
+
+        const result = await run(db, 10);
+
+        expect(result.next).toBe(true);
+        expect(result.ctx.channelId).toBe('1');
+    });
+
+    it('rejects a seller whose channel row is missing in fail-closed mode', async () => {
+        db.channels = {};
+
+        const result = await run(db, 10);
+
+        expect(result.forbidden).toBe(true);
+    });
+
+    it('does not cache failed resolutions', async () => {
+        channelResolutionCache.configure({});
+        await channelResolutionCache.clear();
+        db.failing = true;
+        await run(db, 10);
+
+        db.failing = false;
+        const result = await run(db, 10);
+
+        expect(result.ctx.channelId).toBe('2');
+        await channelResolutionCache.clear();
+    });
+});
@@ -3,14 +3,18 @@
  * 
  * Automatically enforces channel isolation on EVERY Admin API request.
  * Sellers are restricted to their assigned channel.
- * Super admins have access to all channels.
+ * Platform operators have access to all channels.
+ * Unclassified administrators are denied.
  * 
  * Integration: Days 6, 7, 8
  */
 
 import { MiddlewareConsumer, NestModule, Injectable } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
-import { Injector, RequestContext, ChannelService, AdministratorService, TransactionalConnection } from '@vendure/core';
+import { Injector, RequestContext, ChannelService, AdministratorService, TransactionalConnection, ID } from '@vendure/core';
+import { CachedChannel, channelResolutionCache, TenantChannelResolution } from './channel-isolation-cache';
+import { channelIsolationSecurity, ChannelIsolationSecurityEvent } from './channel-isolation-security';
+import { AdministratorClassification, classifyAdministrator, loadSellerChannel } from './channel-isolation-classification';
 
 @Injectable()
 export class ChannelIsolationMiddleware implements NestModule {
@@ -49,7 +53,39 @@ export function createChannelIsolationMiddlewareHandler(
     administratorService?: AdministratorService,
 ) {
     return async (req: Request & { context?: RequestContext }, res: Response, next: NextFunction) => {
+        let userId: ID | undefined;
+
+        // Called whenever we cannot tell whether this user is a seller.
+        // fail-open lets the request through, fail-closed rejects it with FORBIDDEN.
+        const failResolution = async (reason: string, details: Partial<ChannelIsolationSecurityEvent> = {}) => {
+            await channelIsolationSecurity.logSecurityEvent({
+                type: 'resolution-failed',
+                reason,
+                userId,
+                ...details,
+            });
+            if (channelIsolationSecurity.isFailClosed()) {
+                return channelIsolationSecurity.sendForbidden(res);
+            }
+            return next();
+        };
+
         try {
+            // Get request context from request
+            const ctx = (req as any)._ctx as RequestContext;
+            
+            if (!ctx) {
+                // No context yet (early in request lifecycle)
+                return next();
+            }
+
+            // Check if user is authenticated
+            userId = ctx.activeUserId;
+            if (!userId) {
+                // Not authenticated - skip channel isolation
+                return next();
+            }
+
             // Get services from global Injector if not provided
             let conn = connection;
             let chService = channelService;
@@ -64,143 +100,80 @@ export function createChannelIsolationMiddlewareHandler(
                         if (!chService) chService = injector.get(ChannelService);
                         if (!admService) admService = injector.get(AdministratorService);
                     }
-                } catch (e) {
-                    // If we can't get services, skip middleware (fail-open)
-                    console.warn('[ChannelIsolation] Could not get DI services, skipping middleware');
-                    return next();
+                } catch (e: any) {
+                    console.warn('[ChannelIsolation] Could not get DI services');
+                    return failResolution('Could not get DI services', { error: e.message });
                 }
             }
+
+            if (!conn || !chService || !admService) {
+                return failResolution('Isolation services are not available');
+            }
             
             // Use the provided or retrieved services
-            const connectionToUse = conn!;
-            const channelServiceToUse = chService!;
-            const administratorServiceToUse = admService!;
-            
-            // Get request context from request
-            const ctx = (req as any)._ctx as RequestContext;
-            
-            if (!ctx) {
-                // No context yet (early in request lifecycle)
+            const connectionToUse = conn;
+            const channelServiceToUse = chService;
+            const administratorServiceToUse = admService;
+
+            // Resolve user → administrator → seller channel, served from cache when possible
+            let resolution = await channelResolutionCache.get(userId);
+            if (resolution) {
+                console.log(`[ChannelIsolation] Cache hit for user ${userId}`);
+            } else {
+                const resolved = await resolveTenantChannel(
+                    ctx,
+                    userId,
+                    connectionToUse,
+                    channelServiceToUse,
+                    administratorServiceToUse,
+                );
+                if (!resolved) {
+                    // Resolution failed - nothing is cached so the next request retries
+                    return failResolution('Could not resolve administrator or seller channel');
+                }
+                resolution = resolved;
+                await channelResolutionCache.set(userId, resolution);
+            }
+
+            const { administratorId, kind, tenantStatus, sellerChannelId, channel } = resolution;
+
+            if (administratorId === null) {
+                console.log(`[ChannelIsolation] No administrator found for user ${userId}`);
                 return next();
             }
 
-            // Check if user is authenticated
-            const userId = ctx.activeUserId;
-            if (!userId) {
-                // Not authenticated - skip channel isolation
+            if (kind === 'platform-operator') {
+                console.log(`[ChannelIsolation] Admin ${administratorId} is unrestricted (platform operator)`);
                 return next();
             }
 
-            // CRITICAL: Use direct database queries to bypass permission checks
-            // This prevents FORBIDDEN errors on initial load
-            let sellerChannelId: number | null = null;
-            let administratorId: number | null = null;
-            
-            try {
-                // Step 1: Query Vendure database directly for administrator ID (bypasses permission checks)
-                const rawConnection = connectionToUse.rawConnection;
-                const adminResult = await rawConnection.query(
-                    `SELECT id FROM administrator WHERE "userId" = $1 LIMIT 1`,
-                    [userId]
-                );
-                
-                if (adminResult && adminResult.length > 0) {
-                    administratorId = adminResult[0].id;
-                    console.log(`[ChannelIsolation] Found administrator ID ${administratorId} for user ${userId}`);
-                    
-                    // Step 2: Query Supabase for the channel (using direct DB query)
-                    if (administratorId !== null) {
-                        sellerChannelId = await getSellerChannelForAdministrator(connectionToUse, administratorId);
-                    }
-                } else {
-                    console.log(`[ChannelIsolation] No administrator found for user ${userId}`);
-                    return next();
-                }
-            } catch (e: any) {
-                console.error(`[ChannelIsolation] Error querying administrator from DB:`, e.message);
-                // Fallback: try using service (might fail due to permissions, but worth trying)
-                try {
-                    const admin = await administratorServiceToUse.findOneByUserId(ctx, userId);
-                    if (admin) {
-                        administratorId = Number(admin.id);
-                        sellerChannelId = await getSellerChannelForAdministrator(connectionToUse, administratorId);
-                    }
-                } catch (e2: any) {
-                    console.error(`[ChannelIsolation] Fallback method also failed:`, e2.message);
-                    return next();
+            if (kind === 'unknown') {
+                if (channelIsolationSecurity.denyUnknownAdministrators) {
+                    return channelIsolationSecurity.denyRequest(res, {
+                        reason: 'Administrator is neither a platform operator nor a seller',
+                        userId,
+                        administratorId,
+                    });
                 }
+                console.warn(`[ChannelIsolation] Admin ${administratorId} is unclassified - allowing (denyUnknownAdministrators: false)`);
+                return next();
             }
             
             if (!sellerChannelId) {
-                // Not a seller (probably super admin) - no restriction
-                console.log(`[ChannelIsolation] Admin ${administratorId} is unrestricted (super admin)`);
-                return next();
+                // Seller whose tenant is suspended, provisioning or errored - no access at all
+                return channelIsolationSecurity.denyRequest(res, {
+                    reason: `Tenant is ${tenantStatus ?? 'not active'}`,
+                    userId,
+                    administratorId,
+                });
             }
 
             // This is a seller - enforce their channel
             console.log(`[ChannelIsolation] Admin ${administratorId} is seller - enforcing channel ${sellerChannelId}`);
-            
-            // CRITICAL: Use direct database query to bypass ALL permission checks
-            // channelService.findOne() always checks ReadChannel permission, which fails for sellers
-            let channel: any = null;
-            try {
-                // Query channel directly from database to bypass permission checks
-                const rawConnection = connectionToUse.rawConnection;
-                const channelResult = await rawConnection.query(
-                    `SELECT id, code, token, "defaultLanguageCode", "defaultCurrencyCode", 
-                            "defaultShippingZoneId", "defaultTaxZoneId", "pricesIncludeTax", 
-                            "trackInventory", "outOfStockThreshold", "customFields",
-                            "createdAt", "updatedAt"
-                     FROM channel 
-                     WHERE id = $1`,
-                    [sellerChannelId]
-                );
-                
-                if (channelResult && channelResult.length > 0) {
-                    const channelData = channelResult[0];
-                    
-                    // Construct Channel object from database result
-                    // This bypasses all permission checks while maintaining type safety
-                    channel = {
-                        id: String(channelData.id),
-                        createdAt: channelData.createdAt,
-                        updatedAt: channelData.updatedAt,
-                        code: channelData.code,
-                        token: channelData.token,
-                        defaultLanguageCode: channelData.defaultLanguageCode,
-                        defaultCurrencyCode: channelData.defaultCurrencyCode,
-                        currencyCode: channelData.defaultCurrencyCode, // Deprecated but required
-                        defaultShippingZoneId: channelData.defaultShippingZoneId ? String(channelData.defaultShippingZoneId) : null,
-                        defaultTaxZoneId: channelData.defaultTaxZoneId ? String(channelData.defaultTaxZoneId) : null,
-                        pricesIncludeTax: channelData.pricesIncludeTax,
-                        trackInventory: channelData.trackInventory,
-                        outOfStockThreshold: channelData.outOfStockThreshold,
-                        availableLanguageCodes: [channelData.defaultLanguageCode], // Minimal array
-                        availableCurrencyCodes: [channelData.defaultCurrencyCode], // Minimal array
-                        customFields: channelData.customFields || {},
-                        // Relations will be null but that's okay for middleware
-                        defaultTaxZone: null,
-                        defaultShippingZone: null,
-                        seller: null,
-                    };
-                }
-                
-                if (!channel) {
-                    console.error(`[ChannelIsolation] Channel ${sellerChannelId} not found in database`);
-                    return next();
-                }
-            } catch (error: any) {
-                console.error(`[ChannelIsolation] Error fetching seller channel ${sellerChannelId}:`, error.message);
-                // Fallback: try using service (might fail, but worth trying)
-                try {
-                    channel = await channelServiceToUse.findOne(ctx, sellerChannelId);
-                    if (!channel) {
-                        return next();
-                    }
-                } catch (e: any) {
-                    console.error(`[ChannelIsolation] Fallback channelService.findOne() also failed:`, e.message);
-                    return next();
-                }
+
+            if (!channel) {
+                console.error(`[ChannelIsolation] Channel ${sellerChannelId} not found in database`);
+                return failResolution('Seller channel not found', { administratorId, channelId: sellerChannelId });
             }
 
             // Explicitly block default channel (ID: 1) for sellers
@@ -219,7 +192,7 @@ export function createChannelIsolationMiddlewareHandler(
             const newCtx = new RequestContext({
                 req: ctx.req,
                 apiType: ctx.apiType,
-                channel: channel,
+                channel: channel as any,
                 languageCode: ctx.languageCode,
                 isAuthorized: ctx.isAuthorized,
                 authorizedAsOwnerOnly: ctx.authorizedAsOwnerOnly,
@@ -232,45 +205,101 @@ export function createChannelIsolationMiddlewareHandler(
             console.log(`[ChannelIsolation] ✅ Switched to channel: ${channel.code} (ID: ${channel.id})`);
             
             next();
-        } catch (error) {
+        } catch (error: any) {
             console.error('[ChannelIsolation] Middleware error:', error);
-            // Don't block the request on error
-            next();
+            if (!userId) {
+                // Anonymous requests are never restricted by this middleware
+                return next();
+            }
+            return failResolution('Unexpected middleware error', { error: error?.message });
         }
     };
 }
 
 /**
- * Query Supabase tenants table to find seller's channel
- * 
- * This is the same logic as in the plugin, but extracted for middleware use.
+ * Resolve a user to their administrator and seller channel
+ *
+ * Uses direct database queries to bypass permission checks (prevents FORBIDDEN
+ * errors on initial load), falling back to the services if the raw queries fail.
+ * Returns null if resolution failed, so that failures are never cached.
  */
-async function getSellerChannelForAdministrator(
+async function resolveTenantChannel(
+    ctx: RequestContext,
+    userId: ID,
     connection: TransactionalConnection,
-    administratorId: string | number
-): Promise<number | null> {
+    channelService: ChannelService,
+    administratorService: AdministratorService,
+): Promise<TenantChannelResolution | null> {
+    let classification: AdministratorClassification;
+    let administratorId: number | null = null;
+    const notAnAdministrator: TenantChannelResolution = {
+        userId: String(userId),
+        administratorId: null,
+        kind: null,
+        tenantStatus: null,
+        sellerChannelId: null,
+        channel: null,
+    };
+    
     try {
+        // Step 1: Query Vendure database directly for administrator ID (bypasses permission checks)
         const rawConnection = connection.rawConnection;
-        
-        // Query tenants table for this administrator's channel
-        const result = await rawConnection.query(
-            `SELECT vendure_channel_id 
-             FROM tenants 
-             WHERE vendure_administrator_id = $1 
-             AND status = 'active'
-             LIMIT 1`,
-            [parseInt(String(administratorId))]
+        const adminResult = await rawConnection.query(
+            `SELECT id FROM administrator WHERE "userId" = $1 LIMIT 1`,
+            [userId]
         );
         
-        if (result && result.length > 0 && result[0].vendure_channel_id) {
-            return result[0].vendure_channel_id;
+        if (adminResult && adminResult.length > 0) {
+            administratorId = adminResult[0].id;
+            console.log(`[ChannelIsolation] Found administrator ID ${administratorId} for user ${userId}`);
+            
+            // Step 2: Classify via the tenants table and operator roles (direct DB query)
+            classification = await classifyAdministrator(connection, adminResult[0].id);
+        } else {
+            return notAnAdministrator;
+        }
+    } catch (e: any) {
+        console.error(`[ChannelIsolation] Error querying administrator from DB:`, e.message);
+        // Fallback: try using service (might fail due to permissions, but worth trying)
+        try {
+            const admin = await administratorService.findOneByUserId(ctx, userId);
+            if (!admin) {
+                return notAnAdministrator;
+            }
+            administratorId = Number(admin.id);
+            classification = await classifyAdministrator(connection, administratorId);
+        } catch (e2: any) {
+            console.error(`[ChannelIsolation] Fallback method also failed:`, e2.message);
+            return null;
+        }
+    }
+
+    const { kind, tenantStatus, sellerChannelId } = classification;
+    const base = { userId: String(userId), administratorId, kind, tenantStatus, sellerChannelId };
+
+    if (!sellerChannelId) {
+        return { ...base, channel: null };
+    }
+    
+    // CRITICAL: Use direct database query to bypass ALL permission checks
+    // channelService.findOne() always checks ReadChannel permission, which fails for sellers
+    let channel: CachedChannel | null = null;
+    try {
+        // Query channel directly from database to bypass permission checks
+        channel = await loadSellerChannel(connection, sellerChannelId);
+    } catch (error: any) {
+        console.error(`[ChannelIsolation] Error fetching seller channel ${sellerChannelId}:`, error.message);
+        // Fallback: try using service (might fail, but worth trying)
+        try {
+            const found = await channelService.findOne(ctx, sellerChannelId);
+            channel = found ? (found as unknown as CachedChannel) : null;
+        } catch (e: any) {
+            console.error(`[ChannelIsolation] Fallback channelService.findOne() also failed:`, e.message);
+            return null;
         }
-        
-        return null;
-    } catch (error) {
-        console.error('[ChannelIsolation] Error querying tenants table:', error);
-        return null;
     }
+
+    return { ...base, channel };
 }
 
 /**
@@ -280,40 +309,44 @@ async function getSellerChannelForAdministrator(
  * This middleware runs on EVERY Admin API request and:
  * 1. Checks if user is authenticated
  * 2. Gets their administrator record
- * 3. Queries Supabase tenants table for channel restriction
- * 4. If restricted, auto-switches to their channel
- * 5. If unrestricted (super admin), allows all channels
+ * 3. Classifies them (platform operator / seller / unknown) via the tenants
+ *    table and operator roles (see channel-isolation-classification.ts)
+ * 4. Seller with an active tenant: auto-switches to their channel
+ * 5. Seller with a suspended/provisioning tenant: denied
+ * 6. Platform operator: allows all channels
+ * 7. Unknown administrator: denied (unless denyUnknownAdministrators is false)
  * 
  * 
  * IMPORTANT NOTES
  * ===============
  * 
  * 1. This middleware MUST run AFTER authentication middleware
- * 2. It queries the tenants table on EVERY request (consider caching)
+ * 2. Resolutions are cached per user (see channel-isolation-cache.ts)
  * 3. It modifies the RequestContext to enforce channel scoping
- * 4. Errors are logged but don't block requests (fail-open for safety)
+ * 4. Resolution errors are logged as security events. In `fail-closed` mode
+ *    (ChannelIsolationPlugin.init({ enforcementMode })) the request is rejected
+ *    with a FORBIDDEN error; in `fail-open` mode it continues unrestricted
  * 
  * 
  * PERFORMANCE CONSIDERATIONS
  * ==========================
  * 
- * The middleware queries the database on every request. For production:
- * 
- * Option A: Cache channel mappings in Redis
- * Option B: Store channel ID in session
- * Option C: Add channel_id to administrator table
- * 
- * Example caching:
+ * The user → administrator → channel resolution is cached by userId in
+ * `channelResolutionCache` (in-process LRU, plus an optional shared store).
+ * Configure it through the plugin:
  * ```typescript
- * const cacheKey = `seller-channel:${administratorId}`;
- * let channelId = await redis.get(cacheKey);
- * 
- * if (!channelId) {
- *     channelId = await queryDatabase();
- *     await redis.setex(cacheKey, 3600, channelId); // Cache 1 hour
- * }
+ * ChannelIsolationPlugin.init({
+ *     cache: {
+ *         ttlMs: 60_000,
+ *         sharedStore: new DatabaseResolutionStore(), // or new RedisResolutionStore(redisClient)
+ *     },
+ * })
  * ```
  * 
+ * Entries are invalidated automatically on Administrator and Channel events.
+ * When a tenants row changes outside of Vendure, call the
+ * `invalidateChannelIsolationCache` Admin API mutation.
+ * 
  * 
  * TESTING
  * =======
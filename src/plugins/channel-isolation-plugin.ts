@@ -1,185 +1,49 @@
 import { 
     VendurePlugin, 
     PluginCommonModule, 
-    RequestContext,
-    ChannelService,
-    AdministratorService,
+    EventBus,
+    Injector,
     TransactionalConnection,
-    ID
+    AdministratorEvent,
+    ChannelEvent,
+    RoleEvent,
+    LoginEvent,
 } from '@vendure/core';
-import { Injectable } from '@nestjs/common';
 import { OnApplicationBootstrap } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import gql from 'graphql-tag';
 import { ChannelIsolationResolver } from './channel-isolation-resolver-ui';
+import { ChannelIsolationAdminResolver } from './channel-isolation-admin-resolver';
+import { ChannelIsolationService } from './channel-isolation-service';
+import { channelResolutionCache, ChannelResolutionCacheOptions } from './channel-isolation-cache';
+import { channelIsolationSecurity, ChannelIsolationEnforcementMode } from './channel-isolation-security';
+import { platformOperatorPermission } from './channel-isolation-classification';
 
-@Injectable()
-export class ChannelIsolationService {
-    constructor(
-        private channelService: ChannelService,
-        private administratorService: AdministratorService,
-        private connection: TransactionalConnection,
-    ) {}
+export { ChannelIsolationService };
 
+export interface ChannelIsolationPluginOptions {
     /**
-     * Get the seller's assigned channel by querying the Supabase tenants table
-     * FIXED: Now properly maps user.id → administrator.id → channel
-     * 
-     * This integrates with Day 7's SaaS database schema where:
-     * - tenants.vendure_administrator_id links to Vendure administrator.id (INTEGER)
-     * - tenants.vendure_channel_id stores the seller's channel ID (INTEGER)
+     * Cache for the user → administrator → channel resolution done by the middleware
      */
-    async getSellerChannelForAdministrator(ctx: RequestContext, administratorId: ID): Promise<number | null> {
-        try {
-            // Query the external Supabase database for the tenant record
-            // Note: This requires database connection to your Supabase database
-            // For now, we'll query Vendure's local database if you've synced the data
-            
-            const rawConnection = this.connection.rawConnection;
-            
-            // Query to find the channel ID for this administrator
-            const result = await rawConnection.query(
-                `SELECT vendure_channel_id 
-                 FROM tenants 
-                 WHERE vendure_administrator_id = $1 
-                 AND status = 'active'
-                 LIMIT 1`,
-                [parseInt(String(administratorId))]
-            );
-            
-            if (result && result.length > 0 && result[0].vendure_channel_id) {
-                return result[0].vendure_channel_id;
-            }
-            
-            return null;
-        } catch (error) {
-            console.error('[ChannelIsolation] Error fetching seller channel:', error);
-            return null;
-        }
-    }
-
-    /**
-     * NEW: Get seller's channel by user ID (activeUserId)
-     * This is the key fix - Vendure uses user.id as activeUserId, not administrator.id
-     */
-    async getSellerChannelForUser(ctx: RequestContext, userId: ID): Promise<number | null> {
-        try {
-            // First, get the administrator for this user
-            const administrator = await this.administratorService.findOneByUserId(ctx, userId);
-            if (!administrator) {
-                console.log(`[ChannelIsolation] No administrator found for user ${userId}`);
-                return null;
-            }
-
-            console.log(`[ChannelIsolation] User ${userId} maps to administrator ${administrator.id} (${administrator.emailAddress})`);
-
-            // Now get the channel for this administrator
-            return await this.getSellerChannelForAdministrator(ctx, administrator.id);
-        } catch (error) {
-            console.error('[ChannelIsolation] Error mapping user to channel:', error);
-            return null;
-        }
-    }
-
+    cache?: ChannelResolutionCacheOptions;
     /**
-     * Alternative: Get channel using Vendure's built-in channel-seller relationship
-     * Use this if you're not connecting to Supabase directly
+     * What to do when a user's seller status cannot be resolved:
+     * - 'fail-closed' (default): reject with FORBIDDEN - use in production
+     * - 'fail-open': continue unrestricted - development only
      */
-    async getSellerChannelFromVendure(ctx: RequestContext, administratorId: ID): Promise<ID | null> {
-        try {
-            // Get all channels with seller information
-        const channels = await this.channelService.findAll(ctx);
-        
-            // Find the channel that belongs to a seller linked to this administrator
-            // This assumes your channels have sellerId field
-            for (const channel of channels.items) {
-                const channelWithDetails = await this.channelService.findOne(ctx, channel.id);
-                
-                // Check if this channel has a seller
-                if ((channelWithDetails as any).sellerId) {
-                    // In a full implementation, you'd check if this seller's
-                    // administrator matches the given administratorId
-                    // For now, return the first channel with a seller
-                    return channel.id;
-                }
-        }
-
-        return null;
-        } catch (error) {
-            console.error('[ChannelIsolation] Error fetching channel from Vendure:', error);
-            return null;
-        }
-    }
-
+    enforcementMode?: ChannelIsolationEnforcementMode;
     /**
-     * Switch the request context to the seller's channel
+     * Who holds platform-wide access. Administrators without an operator role or
+     * allowlisted identifier, and without a tenant, are denied by default.
      */
-    async switchToSellerChannel(ctx: RequestContext, sellerChannelId: ID) {
-        try {
-        const channel = await this.channelService.findOne(ctx, sellerChannelId);
-        
-        if (channel) {
-                console.log(`[ChannelIsolation] Switching to channel: ${channel.code} (ID: ${channel.id})`);
-                
-            // Create a new request context with the seller's channel
-            const newCtx = new RequestContext({
-                    req: ctx.req as any,
-                apiType: ctx.apiType,
-                    channel: channel,
-                languageCode: ctx.languageCode,
-                    isAuthorized: ctx.isAuthorized,
-                    authorizedAsOwnerOnly: ctx.authorizedAsOwnerOnly,
-                    session: ctx.session,
-            });
-
-            return newCtx;
-        }
-
-            console.warn(`[ChannelIsolation] Channel ${sellerChannelId} not found`);
-            return ctx;
-        } catch (error) {
-            console.error('[ChannelIsolation] Error switching channel:', error);
-        return ctx;
-    }
-}
-
-    /**
-     * Check if an administrator is restricted to a specific channel
-     * FIXED: Now uses user.id → administrator.id mapping
-     * (i.e., they are a seller, not a super admin)
-     */
-    async isSellerAdministrator(ctx: RequestContext, userId: ID): Promise<boolean> {
-        try {
-            const channelId = await this.getSellerChannelForUser(ctx, userId);
-            return channelId !== null;
-        } catch (error) {
-            console.error('[ChannelIsolation] Error checking if seller admin:', error);
-            return false;
-        }
-    }
-
-    /**
-     * Get all accessible channels for an administrator
-     * FIXED: Now uses user.id → administrator.id mapping
-     * For sellers, this returns only their assigned channel
-     * For super admins, this returns all channels
-     */
-    async getAccessibleChannels(ctx: RequestContext, userId: ID): Promise<ID[]> {
-        try {
-            // Check if this is a seller (has a specific channel)
-            const sellerChannelId = await this.getSellerChannelForUser(ctx, userId);
-            
-            if (sellerChannelId) {
-                // Seller: only their channel
-                return [sellerChannelId as unknown as ID];
-            }
-            
-            // Super admin: all channels
-            const allChannels = await this.channelService.findAll(ctx);
-            return allChannels.items.map(c => c.id);
-        } catch (error) {
-            console.error('[ChannelIsolation] Error getting accessible channels:', error);
-            return [];
-        }
-    }
+    platformOperators?: {
+        /** Default: ['platform-operator'] */
+        roleCodes?: string[];
+        /** Login identifiers, e.g. the superadmin username */
+        identifiers?: string[];
+        /** Default: true */
+        denyUnknownAdministrators?: boolean;
+    };
 }
 
 /**
@@ -194,7 +58,8 @@ export class ChannelIsolationService {
  * - Integrate with Supabase tenants table (Days 6, 7, 8)
  * 
  * Components:
- * - ChannelIsolationService: Core utilities
+ * - ChannelIsolationService: Core utilities (see channel-isolation-service.ts)
+ * - ChannelResolutionCache: Caches middleware lookups (see channel-isolation-cache.ts)
  * - ChannelIsolationMiddleware: Request-level enforcement (see channel-isolation-middleware.ts)
  * - ChannelIsolationResolver: GraphQL filtering (see channel-isolation-resolver.ts)
  * - ChannelAwareAuthStrategy: Login integration (see channel-aware-auth-strategy.ts)
@@ -203,18 +68,81 @@ export class ChannelIsolationService {
     imports: [PluginCommonModule],
     providers: [ChannelIsolationService],
     adminApiExtensions: {
-        resolvers: [ChannelIsolationResolver],
+        schema: gql`
+            type PlatformOperator {
+                administratorId: ID!
+                emailAddress: String!
+                firstName: String!
+                lastName: String!
+                identifier: String!
+                "How access was granted: role:<code> and/or identifier"
+                grantedBy: [String!]!
+            }
+
+            extend type Query {
+                platformOperators: [PlatformOperator!]!
+            }
+
+            extend type Mutation {
+                invalidateChannelIsolationCache(userId: ID, administratorId: ID, channelId: ID): Boolean!
+            }
+        `,
+        resolvers: [ChannelIsolationResolver, ChannelIsolationAdminResolver],
     },
     configuration: config => {
         // Register middleware for active enforcement
         // Note: Middleware registration happens in vendure-config.ts
-        // This is just configuration setup
+        config.authOptions.customPermissions.push(platformOperatorPermission);
         return config;
     },
 })
 export class ChannelIsolationPlugin implements OnApplicationBootstrap {
+    static options: ChannelIsolationPluginOptions = {};
+
+    constructor(
+        private eventBus: EventBus,
+        private moduleRef: ModuleRef,
+        private channelIsolationService: ChannelIsolationService,
+    ) {}
+
+    static init(options: ChannelIsolationPluginOptions) {
+        this.options = options;
+        channelResolutionCache.configure(options.cache);
+        channelIsolationSecurity.configure({
+            enforcementMode: options.enforcementMode,
+            operatorRoleCodes: options.platformOperators?.roleCodes,
+            operatorIdentifiers: options.platformOperators?.identifiers,
+            denyUnknownAdministrators: options.platformOperators?.denyUnknownAdministrators,
+        });
+        return ChannelIsolationPlugin;
+    }
+
     async onApplicationBootstrap() {
+        const injector = new Injector(this.moduleRef);
+        await channelResolutionCache.init(injector);
+        channelIsolationSecurity.init(injector.get(TransactionalConnection));
+
+        // Keep cached resolutions in sync with administrator and channel changes
+        this.eventBus.ofType(AdministratorEvent).subscribe(event => {
+            this.channelIsolationService.invalidateResolutionCache({
+                administratorId: event.entity.id,
+                userId: event.entity.user?.id,
+            });
+        });
+        this.eventBus.ofType(ChannelEvent).subscribe(event => {
+            this.channelIsolationService.invalidateResolutionCache({ channelId: event.entity.id });
+        });
+        // Sellers land on their own channel straight after login
+        this.eventBus.ofType(LoginEvent).subscribe(event => {
+            this.channelIsolationService.bindSellerChannelToSession(event.ctx, event.user);
+        });
+        // Operator status depends on role codes, so any role change may reclassify administrators
+        this.eventBus.ofType(RoleEvent).subscribe(() => {
+            channelResolutionCache.clear();
+        });
+
         console.log('✅ Channel Isolation Plugin initialized');
+        console.log(`   - Enforcement mode: ${channelIsolationSecurity.enforcementMode}`);
         console.log('   - Service: ChannelIsolationService');
         console.log('   - Middleware: Apply in vendure-config.ts');
         console.log('   - Resolver: Add to adminApiExtensions');
@@ -239,7 +167,9 @@ export class ChannelIsolationPlugin implements OnApplicationBootstrap {
  * 
  * export const config: VendureConfig = {
  *   plugins: [
- *     ChannelIsolationPlugin,
+ *     ChannelIsolationPlugin.init({
+ *       cache: { ttlMs: 60_000 },
+ *     }),
  *     // ... other plugins
  *   ],
  * };
@@ -311,9 +241,11 @@ export class ChannelIsolationPlugin implements OnApplicationBootstrap {
  * PRODUCTION CONSIDERATIONS
  * ============================================================================
  * 
- * 1. **Caching**: Cache channel mappings in Redis for performance
+ * 1. **Caching**: Use a shared cache store (DatabaseResolutionStore or
+ *    RedisResolutionStore) when running more than one server instance
  * 2. **Logging**: Add detailed logs for debugging
- * 3. **Error Handling**: Handle cases where channel lookup fails
+ * 3. **Error Handling**: Run with `enforcementMode: 'fail-closed'` so that a failed
+ *    channel lookup never turns a seller into an unrestricted administrator
  * 4. **Testing**: Write comprehensive integration tests
  * 5. **Monitoring**: Track channel switches and access patterns
  * 
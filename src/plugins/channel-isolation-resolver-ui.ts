@@ -5,7 +5,8 @@
  * based on seller restrictions.
  * 
  * Sellers should only see their assigned channel.
- * Super admins see all channels.
+ * Platform operators see all channels; unknown administrators see none,
+ * unless denyUnknownAdministrators is false (the same policy as the middleware).
  */
 
 import { Args, Query, Resolver } from '@nestjs/graphql';
@@ -22,6 +23,8 @@ import {
     Channel,
 } from '@vendure/core';
 import { createClient } from '@supabase/supabase-js';
+import { ChannelIsolationService } from './channel-isolation-service';
+import { channelIsolationSecurity } from './channel-isolation-security';
 
 @Resolver()
 export class ChannelIsolationResolver {
@@ -31,6 +34,7 @@ export class ChannelIsolationResolver {
         private administratorService: AdministratorService,
         private channelService: ChannelService,
         private connection: TransactionalConnection,
+        private channelIsolationService: ChannelIsolationService,
     ) {
         // Initialize Supabase client for SaaS database
         const supabaseUrl = process.env.SUPABASE_SAAS_URL || 'https://dzeypvjhfhfazivfeums.supabase.co';
@@ -174,9 +178,18 @@ export class ChannelIsolationResolver {
                 }
             }
         } else {
-            // This is a super admin - return all channels
+            // Not an active seller - only administrators the middleware lets through unrestricted see all channels
+            const classification = administratorId !== null
+                ? await this.channelIsolationService.classifyAdministrator(ctx, administratorId)
+                : null;
+            if (!channelIsolationSecurity.allowsAllChannels(classification?.kind)) {
+                console.log(`[ChannelResolver] ⚠️ Admin ${administratorId} is ${classification?.kind ?? 'unclassified'} (tenant: ${classification?.tenantStatus ?? 'none'}) - no channels visible`);
+                return { items: [], totalItems: 0 };
+            }
+
+            // Platform operator (or unknown administrator, when allowed) - return all channels
             const allChannels = await this.channelService.findAll(ctx);
-            console.log(`[ChannelResolver] ✅ Super admin ${administratorId} (user ${userId}) sees all ${allChannels.items.length} channels`);
+            console.log(`[ChannelResolver] ✅ ${classification?.kind} admin ${administratorId} (user ${userId}) sees all ${allChannels.items.length} channels`);
             return { items: allChannels.items, totalItems: allChannels.totalItems };
         }
     }
@@ -0,0 +1,66 @@
+import { ForbiddenError } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChannelIsolationSecurity } from './channel-isolation-security';
+
+describe('ChannelIsolationSecurity', () => {
+    let security: ChannelIsolationSecurity;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        security = new ChannelIsolationSecurity();
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('is fail-closed unless configured otherwise', () => {
+        expect(security.isFailClosed()).toBe(true);
+        security.configure({});
+        expect(security.enforcementMode).toBe('fail-closed');
+        security.configure({ enforcementMode: 'fail-open' });
+        expect(security.isFailClosed()).toBe(false);
+    });
+
+    it('throws ForbiddenError on a resolution failure in fail-closed mode', async () => {
+        security.configure({ enforcementMode: 'fail-closed' });
+
+        await expect(security.handleResolutionFailure({ reason: 'Database down', userId: 1 })).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('lets the caller fall back on a resolution failure in fail-open mode', async () => {
+        security.configure({ enforcementMode: 'fail-open' });
+
+        await expect(security.handleResolutionFailure({ reason: 'Database down', userId: 1 })).resolves.toBeUndefined();
+    });
+
+    it('persists security events to the events table whatever the mode', async () => {
+        const query = vi.fn().mockResolvedValue([]);
+        security.configure({ enforcementMode: 'fail-open' });
+        security.init({ rawConnection: { query } } as any);
+
+        await security.handleResolutionFailure({ reason: 'Database down', userId: 1, error: 'timeout' });
+
+        expect(query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO events'), [
+            'channel_isolation.resolution-failed',
+            expect.stringContaining('"reason":"Database down"'),
+        ]);
+    });
+
+    it('still applies the mode when the security event cannot be persisted', async () => {
+        security.init({ rawConnection: { query: vi.fn().mockRejectedValue(new Error('down')) } } as any);
+
+        await expect(security.handleResolutionFailure({ reason: 'Database down' })).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('rejects middleware requests with a GraphQL FORBIDDEN error', async () => {
+        const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+
+        await security.denyRequest(res as any, { reason: 'Tenant is suspended', userId: 1 });
+
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.json).toHaveBeenCalledWith({
+            data: null,
+            errors: [expect.objectContaining({ extensions: { code: 'FORBIDDEN' } })],
+        });
+    });
+});
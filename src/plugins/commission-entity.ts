@@ -0,0 +1,72 @@
+import { DeepPartial, EntityId, ID, Money, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+import { CommissionRuleType } from './commission-rules';
+
+/**
+ * accrued: taken when the seller order was created
+ * reversed: given back in full, e.g. after a refund or cancellation
+ * (a partial reversal stays accrued, see reversedAmount)
+ */
+export type CommissionStatus = 'accrued' | 'reversed';
+
+/**
+ * The platform's commission on one seller order line.
+ * Table created by migrations/008_commissions.sql.
+ */
+@Entity()
+@Index(['sellerChannelId', 'createdAt'])
+export class Commission extends VendureEntity {
+    constructor(input?: DeepPartial<Commission>) {
+        super(input);
+    }
+
+    @Index()
+    @EntityId()
+    sellerOrderId: ID;
+
+    @Index()
+    @EntityId()
+    aggregateOrderId: ID;
+
+    /** One commission per seller order line */
+    @Index({ unique: true })
+    @EntityId()
+    orderLineId: ID;
+
+    @EntityId()
+    sellerChannelId: ID;
+
+    /** The Supabase tenants.id of the seller, when linked */
+    @Column({ type: 'varchar', nullable: true })
+    tenantId: string | null;
+
+    @EntityId()
+    productVariantId: ID;
+
+    @Column()
+    quantity: number;
+
+    @Column('varchar')
+    currencyCode: string;
+
+    /** The line price the commission was calculated on: after discounts, without tax */
+    @Money()
+    baseAmount: number;
+
+    @Money()
+    amount: number;
+
+    /** Given back so far, for refunded or cancelled units */
+    @Money({ default: 0 })
+    reversedAmount: number;
+
+    /** Code of the CommissionRule that applied */
+    @Column('varchar')
+    ruleCode: string;
+
+    @Column('varchar')
+    ruleType: CommissionRuleType;
+
+    @Column('varchar', { default: 'accrued' })
+    status: CommissionStatus;
+}
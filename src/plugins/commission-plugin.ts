@@ -0,0 +1,128 @@
+import { Injector, PluginCommonModule, VendurePlugin } from '@vendure/core';
+import { OnApplicationBootstrap } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import gql from 'graphql-tag';
+import { Commission } from './commission-entity';
+import { CommissionResolver } from './commission-resolver';
+import {
+    COMMISSION_PLUGIN_OPTIONS,
+    CommissionPluginOptions,
+    commissionRecorder,
+    CommissionService,
+} from './commission-service';
+
+export { CommissionService };
+
+/**
+ * Commission Plugin
+ *
+ * Takes the platform's cut of every seller order line.
+ *
+ * Components:
+ * - Commission: one ledger entry per seller order line (see commission-entity.ts)
+ * - Commission rules: percentage / fixed / tiered, per plan tier, seller or collection (see commission-rules.ts)
+ * - CommissionService: records commissions when seller orders are created, lists them (see commission-service.ts)
+ * - CommissionResolver: Admin API `commissions` query (see commission-resolver.ts)
+ *
+ * Commissions are recorded from MultiVendorOrderSellerStrategy.afterSellerOrdersCreated.
+ * Requires migrations/008_commissions.sql.
+ */
+@VendurePlugin({
+    imports: [PluginCommonModule],
+    entities: [Commission],
+    providers: [
+        CommissionService,
+        { provide: COMMISSION_PLUGIN_OPTIONS, useFactory: () => CommissionPlugin.options },
+    ],
+    exports: [CommissionService],
+    adminApiExtensions: {
+        schema: gql`
+            type Commission implements Node {
+                id: ID!
+                createdAt: DateTime!
+                updatedAt: DateTime!
+                sellerOrderId: ID!
+                aggregateOrderId: ID!
+                orderLineId: ID!
+                sellerChannelId: ID!
+                tenantId: ID
+                productVariantId: ID!
+                quantity: Int!
+                currencyCode: CurrencyCode!
+                "Line price after discounts, without tax"
+                baseAmount: Money!
+                amount: Money!
+                "Given back for refunded or cancelled units"
+                reversedAmount: Money!
+                ruleCode: String!
+                "percentage | fixed | tiered"
+                ruleType: String!
+                "accrued | reversed"
+                status: String!
+            }
+
+            type CommissionList implements PaginatedList {
+                items: [Commission!]!
+                totalItems: Int!
+            }
+
+            input CommissionFilterInput {
+                "Seller order or aggregate order"
+                orderId: ID
+                "Only applies on the default channel"
+                sellerChannelId: ID
+                status: String
+                from: DateTime
+                to: DateTime
+            }
+
+            extend type Query {
+                commissions(filter: CommissionFilterInput, skip: Int, take: Int): CommissionList!
+            }
+        `,
+        resolvers: [CommissionResolver],
+    },
+})
+export class CommissionPlugin implements OnApplicationBootstrap {
+    static options: CommissionPluginOptions = {};
+
+    constructor(private moduleRef: ModuleRef) {}
+
+    static init(options: CommissionPluginOptions) {
+        this.options = options;
+        return CommissionPlugin;
+    }
+
+    onApplicationBootstrap() {
+        commissionRecorder.init(new Injector(this.moduleRef));
+        console.log('✅ Commission Plugin initialized');
+    }
+}
+
+/**
+ * USAGE
+ * =====
+ *
+ *    CommissionPlugin.init({
+ *        defaultCalculation: { type: 'percentage', rate: 10 },
+ *        rules: [
+ *            { code: 'pro-plan', planTier: 'pro', calculation: { type: 'percentage', rate: 6 } },
+ *            { code: 'acme-negotiated', tenantId: '<tenants.id>', calculation: { type: 'fixed', amount: 50 } },
+ *            { code: 'electronics', collectionIds: [12], calculation: { type: 'percentage', rate: 4 } },
+ *            {
+ *                code: 'volume',
+ *                planTier: 'scale',
+ *                calculation: { type: 'tiered', tiers: [{ upTo: 1000000, rate: 5 }, { upTo: null, rate: 3 }] },
+ *            },
+ *        ],
+ *    })
+ *
+ * Amounts are in minor units. Then, on the default channel:
+ *
+ *    query {
+ *      commissions(filter: { from: "2026-10-01T00:00:00Z" }) {
+ *        items { sellerOrderId sellerChannelId baseAmount amount ruleCode }
+ *        totalItems
+ *      }
+ *    }
+ */
@@ -0,0 +1,25 @@
+/**
+ * Commission Resolver
+ *
+ * Admin API for the commission ledger: platform operators see every seller's
+ * commissions from the default channel, sellers only their own.
+ */
+
+import { Args, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, PaginatedList, Permission, RequestContext } from '@vendure/core';
+import { Commission } from './commission-entity';
+import { CommissionFilter, CommissionService } from './commission-service';
+
+@Resolver()
+export class CommissionResolver {
+    constructor(private commissionService: CommissionService) {}
+
+    @Query()
+    @Allow(Permission.ReadOrder)
+    async commissions(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { filter?: CommissionFilter; skip?: number; take?: number },
+    ): Promise<PaginatedList<Commission>> {
+        return this.commissionService.findAll(ctx, args.filter ?? {}, { skip: args.skip, take: args.take });
+    }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCommission, CommissionRule, selectCommissionRule } from './commission-rules';
+
+describe('selectCommissionRule', () => {
+    const rules: CommissionRule[] = [
+        { code: 'starter', planTier: 'starter', calculation: { type: 'percentage', rate: 12 } },
+        { code: 'pro', planTier: 'pro', calculation: { type: 'percentage', rate: 8 } },
+        { code: 'tenant-a', tenantId: 'tenant-a', calculation: { type: 'percentage', rate: 5 } },
+        { code: 'electronics', collectionIds: [7], calculation: { type: 'percentage', rate: 3 } },
+        { code: 'electronics-again', collectionIds: ['7'], calculation: { type: 'percentage', rate: 1 } },
+    ];
+    const scope = (overrides: Partial<Parameters<typeof selectCommissionRule>[1]> = {}) => ({
+        planTier: 'starter',
+        tenantId: 'tenant-b',
+        collectionIds: [] as string[],
+        ...overrides,
+    });
+
+    it('picks the rule of the seller plan tier', () => {
+        expect(selectCommissionRule(rules, scope())?.code).toBe('starter');
+        expect(selectCommissionRule(rules, scope({ planTier: 'pro' }))?.code).toBe('pro');
+    });
+
+    it('prefers a seller rule over a plan tier rule', () => {
+        expect(selectCommissionRule(rules, scope({ tenantId: 'tenant-a' }))?.code).toBe('tenant-a');
+    });
+
+    it('prefers a collection rule over a seller rule, and the first of equally specific rules', () => {
+        expect(selectCommissionRule(rules, scope({ tenantId: 'tenant-a', collectionIds: ['7'] }))?.code).toBe('electronics');
+    });
+
+    it('ranks a rule scoped to both seller and tier above either alone', () => {
+        const combined: CommissionRule = {
+            code: 'tenant-a-pro',
+            planTier: 'pro',
+            tenantId: 'tenant-a',
+            calculation: { type: 'percentage', rate: 4 },
+        };
+
+        expect(selectCommissionRule([...rules, combined], scope({ planTier: 'pro', tenantId: 'tenant-a' }))?.code).toBe(
+            'tenant-a-pro',
+        );
+    });
+
+    it('returns undefined when no rule matches', () => {
+        expect(selectCommissionRule(rules, scope({ planTier: null }))).toBeUndefined();
+        expect(selectCommissionRule([], scope())).toBeUndefined();
+    });
+});
+
+describe('calculateCommission', () => {
+    it('takes a rounded percentage of the line', () => {
+        expect(calculateCommission({ type: 'percentage', rate: 10 }, 12345, 1, 0)).toBe(1235);
+    });
+
+    it('takes a fixed amount per unit, capped at the line price', () => {
+        expect(calculateCommission({ type: 'fixed', amount: 150 }, 10000, 3, 0)).toBe(450);
+        expect(calculateCommission({ type: 'fixed', amount: 150 }, 200, 3, 0)).toBe(200);
+    });
+
+    it('applies tier rates marginally to the month-to-date sales', () => {
+        const tiered = {
+            type: 'tiered' as const,
+            tiers: [
+                { upTo: 100000, rate: 10 },
+                { upTo: 500000, rate: 7 },
+                { upTo: null, rate: 5 },
+            ],
+        };
+
+        // Entirely within the first tier
+        expect(calculateCommission(tiered, 50000, 1, 0)).toBe(5000);
+        // 20000 at 10%, 30000 at 7%
+        expect(calculateCommission(tiered, 50000, 1, 80000)).toBe(4100);
+        // Spans all three tiers: 100000 at 10%, 400000 at 7%, 100000 at 5%
+        expect(calculateCommission(tiered, 600000, 1, 0)).toBe(43000);
+        // Above the last bound
+        expect(calculateCommission(tiered, 10000, 1, 1000000)).toBe(500);
+    });
+
+    it('takes nothing on free or negative lines', () => {
+        expect(calculateCommission({ type: 'percentage', rate: 10 }, 0, 1, 0)).toBe(0);
+        expect(calculateCommission({ type: 'fixed', amount: 100 }, -500, 1, 0)).toBe(0);
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Commission Rules
+ *
+ * Which commission the platform takes on a seller order line. Rules are
+ * configured with CommissionPlugin.init() and scoped to a plan tier, a seller
+ * (tenant) and/or collections. The most specific matching rule wins:
+ * collection > seller > plan tier, then the order of the rules.
+ */
+
+import { ID } from '@vendure/core';
+
+export type CommissionRuleType = 'percentage' | 'fixed' | 'tiered';
+
+export interface CommissionTier {
+    /**
+     * Upper bound of the seller's sales in the calendar month, in minor units
+     * (null: no upper bound)
+     */
+    upTo: number | null;
+    /** Percentage taken on the sales within this tier */
+    rate: number;
+}
+
+export type CommissionCalculation =
+    /** A percentage of the line price */
+    | { type: 'percentage'; rate: number }
+    /** A fixed amount per unit, in minor units, never more than the line price */
+    | { type: 'fixed'; amount: number }
+    /**
+     * Marginal percentages by the seller's sales in the calendar month, like
+     * tax brackets: e.g. 10% of the first 100000, 7% of anything above
+     */
+    | { type: 'tiered'; tiers: CommissionTier[] };
+
+export interface CommissionRule {
+    /** Recorded on every Commission calculated with this rule */
+    code: string;
+    /** plans.tier of the seller's tenant, e.g. 'starter' */
+    planTier?: string;
+    /** tenants.id of the seller */
+    tenantId?: string;
+    /** Applies to variants in any of these collections */
+    collectionIds?: ID[];
+    calculation: CommissionCalculation;
+}
+
+/**
+ * What a rule is matched against, per order line
+ */
+export interface CommissionLineScope {
+    planTier: string | null;
+    tenantId: string | null;
+    collectionIds: string[];
+}
+
+/**
+ * The most specific rule matching the line, or undefined
+ */
+export function selectCommissionRule(rules: CommissionRule[], scope: CommissionLineScope): CommissionRule | undefined {
+    let selected: CommissionRule | undefined;
+    let selectedSpecificity = -1;
+    for (const rule of rules) {
+        if (rule.planTier != null && rule.planTier !== scope.planTier) {
+            continue;
+        }
+        if (rule.tenantId != null && rule.tenantId !== scope.tenantId) {
+            continue;
+        }
+        if (rule.collectionIds?.length && !rule.collectionIds.some(id => scope.collectionIds.includes(String(id)))) {
+            continue;
+        }
+        const specificity =
+            (rule.collectionIds?.length ? 4 : 0) + (rule.tenantId != null ? 2 : 0) + (rule.planTier != null ? 1 : 0);
+        if (specificity > selectedSpecificity) {
+            selected = rule;
+            selectedSpecificity = specificity;
+        }
+    }
+    return selected;
+}
+
+/**
+ * Commission in minor units on a line worth `baseAmount`.
+ * `monthToDateSales` is what the seller sold this month before this line (tiered only).
+ */
+export function calculateCommission(
+    calculation: CommissionCalculation,
+    baseAmount: number,
+    quantity: number,
+    monthToDateSales: number,
+): number {
+    if (baseAmount <= 0) {
+        return 0;
+    }
+    switch (calculation.type) {
+        case 'percentage':
+            return Math.round((baseAmount * calculation.rate) / 100);
+        case 'fixed':
+            return Math.min(calculation.amount * quantity, baseAmount);
+        case 'tiered': {
+            const start = monthToDateSales;
+            const end = monthToDateSales + baseAmount;
+            let lowerBound = 0;
+            let commission = 0;
+            for (const tier of calculation.tiers) {
+                const upperBound = tier.upTo ?? Infinity;
+                const overlap = Math.min(end, upperBound) - Math.max(start, lowerBound);
+                if (overlap > 0) {
+                    commission += (overlap * tier.rate) / 100;
+                }
+                if (upperBound >= end) {
+                    break;
+                }
+                lowerBound = upperBound;
+            }
+            return Math.round(commission);
+        }
+    }
+}
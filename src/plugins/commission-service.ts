@@ -0,0 +1,255 @@
+/**
+ * Commission Service
+ *
+ * Records the platform's commission on every seller order line when an order
+ * is split into seller orders (MultiVendorOrderSellerStrategy
+ * .afterSellerOrdersCreated), and lists the recorded commissions.
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import {
+    ChannelService,
+    ID,
+    Injector,
+    Order,
+    PaginatedList,
+    RequestContext,
+    TransactionalConnection,
+} from '@vendure/core';
+import { Commission, CommissionStatus } from './commission-entity';
+import {
+    calculateCommission,
+    CommissionCalculation,
+    CommissionRule,
+    selectCommissionRule,
+} from './commission-rules';
+
+export interface CommissionPluginOptions {
+    rules?: CommissionRule[];
+    /** Used when no rule matches (default: 0%) */
+    defaultCalculation?: CommissionCalculation;
+}
+
+export const COMMISSION_PLUGIN_OPTIONS = Symbol('COMMISSION_PLUGIN_OPTIONS');
+
+export const DEFAULT_COMMISSION_RULE_CODE = 'default';
+
+export interface CommissionFilter {
+    orderId?: ID;
+    sellerChannelId?: ID;
+    status?: CommissionStatus;
+    from?: Date;
+    to?: Date;
+}
+
+@Injectable()
+export class CommissionService {
+    constructor(
+        private connection: TransactionalConnection,
+        private channelService: ChannelService,
+        @Inject(COMMISSION_PLUGIN_OPTIONS) private options: CommissionPluginOptions,
+    ) {}
+
+    /**
+     * Calculate and save one Commission per seller order line. Runs in the
+     * order placement transaction; lines that already have one are skipped.
+     */
+    async recordCommissions(ctx: RequestContext, aggregateOrder: Order, sellerOrders: Order[]): Promise<Commission[]> {
+        const repository = this.connection.getRepository(ctx, Commission);
+        const recorded: Commission[] = [];
+
+        for (const sellerOrder of sellerOrders) {
+            // splitOrder() groups lines by seller channel, so all lines share it
+            const sellerChannelId = sellerOrder.lines[0]?.sellerChannelId;
+            if (sellerChannelId == null || !sellerOrder.lines.length) {
+                continue;
+            }
+            const tenant = await this.getTenantForChannel(ctx, sellerChannelId);
+            const collectionIdsByVariant = await this.getCollectionIdsByVariant(
+                ctx,
+                sellerOrder.lines.map(line => line.productVariantId),
+            );
+            const existing = await repository
+                .createQueryBuilder('commission')
+                .select('commission.orderLineId', 'orderLineId')
+                .where('commission.sellerOrderId = :sellerOrderId', { sellerOrderId: sellerOrder.id })
+                .getRawMany();
+            const existingLineIds = existing.map(row => String(row.orderLineId));
+            let monthToDateSales = await this.getMonthToDateSales(ctx, sellerChannelId);
+
+            for (const line of sellerOrder.lines) {
+                if (existingLineIds.includes(String(line.id))) {
+                    continue;
+                }
+                const rule = selectCommissionRule(this.options.rules ?? [], {
+                    planTier: tenant?.planTier ?? null,
+                    tenantId: tenant?.id ?? null,
+                    collectionIds: collectionIdsByVariant.get(String(line.productVariantId)) ?? [],
+                });
+                const calculation = rule?.calculation ?? this.options.defaultCalculation ?? { type: 'percentage', rate: 0 };
+                const baseAmount = line.proratedLinePrice;
+                const commission = await repository.save(new Commission({
+                    sellerOrderId: sellerOrder.id,
+                    aggregateOrderId: aggregateOrder.id,
+                    orderLineId: line.id,
+                    sellerChannelId,
+                    tenantId: tenant?.id ?? null,
+                    productVariantId: line.productVariantId,
+                    quantity: line.quantity,
+                    currencyCode: sellerOrder.currencyCode,
+                    baseAmount,
+                    amount: calculateCommission(calculation, baseAmount, line.quantity, monthToDateSales),
+                    reversedAmount: 0,
+                    ruleCode: rule?.code ?? DEFAULT_COMMISSION_RULE_CODE,
+                    ruleType: calculation.type,
+                    status: 'accrued',
+                }));
+                monthToDateSales += baseAmount;
+                recorded.push(commission);
+            }
+        }
+        if (recorded.length) {
+            const total = recorded.reduce((sum, commission) => sum + commission.amount, 0);
+            console.log(`[Commission] Recorded ${recorded.length} commissions (${total}) for order ${aggregateOrder.code}`);
+        }
+        return recorded;
+    }
+
+    /**
+     * Give back the commission on refunded or cancelled units of seller order
+     * lines, in proportion to the quantity. Returns the total given back.
+     */
+    async reverseCommissions(ctx: RequestContext, lines: Array<{ orderLineId: ID; quantity: number }>): Promise<number> {
+        const repository = this.connection.getRepository(ctx, Commission);
+        let total = 0;
+        for (const line of lines) {
+            const commission = await repository.findOne({ where: { orderLineId: line.orderLineId } });
+            if (!commission || commission.status === 'reversed' || commission.quantity <= 0) {
+                continue;
+            }
+            const remaining = commission.amount - commission.reversedAmount;
+            const reversal = Math.min(remaining, Math.round((commission.amount * line.quantity) / commission.quantity));
+            if (reversal <= 0) {
+                continue;
+            }
+            commission.reversedAmount += reversal;
+            if (commission.reversedAmount >= commission.amount) {
+                commission.status = 'reversed';
+            }
+            await repository.save(commission);
+            total += reversal;
+        }
+        return total;
+    }
+
+    /**
+     * Commissions visible in the active channel: all of them on the default
+     * channel (platform operators), only their own in a seller channel
+     */
+    async findAll(
+        ctx: RequestContext,
+        filter: CommissionFilter = {},
+        options: { skip?: number; take?: number } = {},
+    ): Promise<PaginatedList<Commission>> {
+        const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+        const qb = this.connection
+            .getRepository(ctx, Commission)
+            .createQueryBuilder('commission')
+            .orderBy('commission.createdAt', 'DESC')
+            .skip(options.skip ?? 0)
+            .take(Math.min(options.take ?? 50, 500));
+
+        if (String(ctx.channelId) !== String(defaultChannel.id)) {
+            qb.andWhere('commission.sellerChannelId = :channelId', { channelId: ctx.channelId });
+        } else if (filter.sellerChannelId != null) {
+            qb.andWhere('commission.sellerChannelId = :sellerChannelId', { sellerChannelId: filter.sellerChannelId });
+        }
+        if (filter.orderId != null) {
+            qb.andWhere('(commission.sellerOrderId = :orderId OR commission.aggregateOrderId = :orderId)', {
+                orderId: filter.orderId,
+            });
+        }
+        if (filter.status) {
+            qb.andWhere('commission.status = :status', { status: filter.status });
+        }
+        if (filter.from) {
+            qb.andWhere('commission.createdAt >= :from', { from: filter.from });
+        }
+        if (filter.to) {
+            qb.andWhere('commission.createdAt < :to', { to: filter.to });
+        }
+        const [items, totalItems] = await qb.getManyAndCount();
+        return { items, totalItems };
+    }
+
+    /**
+     * Sales of the seller this calendar month that commission was taken on,
+     * for tiered rules
+     */
+    private async getMonthToDateSales(ctx: RequestContext, sellerChannelId: ID): Promise<number> {
+        const result = await this.connection
+            .getRepository(ctx, Commission)
+            .createQueryBuilder('commission')
+            .select('COALESCE(SUM(commission.baseAmount), 0)', 'total')
+            .where('commission.sellerChannelId = :sellerChannelId', { sellerChannelId })
+            .andWhere('commission.status = :status', { status: 'accrued' })
+            .andWhere(`commission.createdAt >= date_trunc('month', NOW())`)
+            .getRawOne();
+        return Number(result?.total ?? 0);
+    }
+
+    private async getTenantForChannel(
+        ctx: RequestContext,
+        channelId: ID,
+    ): Promise<{ id: string; planTier: string | null } | undefined> {
+        const result = await this.connection.getRepository(ctx, Commission).query(
+            `SELECT t.id, p.tier
+             FROM tenants t
+             LEFT JOIN plans p ON p.id = t.plan_id
+             WHERE t.vendure_channel_id = $1
+             LIMIT 1`,
+            [channelId]
+        );
+        return result.length ? { id: result[0].id, planTier: result[0].tier } : undefined;
+    }
+
+    private async getCollectionIdsByVariant(ctx: RequestContext, variantIds: ID[]): Promise<Map<string, string[]>> {
+        const byVariant = new Map<string, string[]>();
+        if (!variantIds.length) {
+            return byVariant;
+        }
+        const rows = await this.connection.getRepository(ctx, Commission).query(
+            `SELECT "productVariantId", "collectionId"
+             FROM collection_product_variants_product_variant
+             WHERE "productVariantId" = ANY($1)`,
+            [variantIds]
+        );
+        for (const row of rows) {
+            const variantId = String(row.productVariantId);
+            byVariant.set(variantId, [...(byVariant.get(variantId) ?? []), String(row.collectionId)]);
+        }
+        return byVariant;
+    }
+}
+
+/**
+ * Gives MultiVendorOrderSellerStrategy (created in vendure-config.ts outside
+ * of DI) access to CommissionService. Initialized by CommissionPlugin.
+ */
+export class CommissionRecorder {
+    private commissionService?: CommissionService;
+
+    init(injector: Injector) {
+        this.commissionService = injector.get(CommissionService);
+    }
+
+    async record(ctx: RequestContext, aggregateOrder: Order, sellerOrders: Order[]): Promise<void> {
+        if (!this.commissionService) {
+            console.warn(`[Commission] CommissionPlugin is not installed - no commission recorded for order ${aggregateOrder.code}`);
+            return;
+        }
+        await this.commissionService.recordCommissions(ctx, aggregateOrder, sellerOrders);
+    }
+}
+
+export const commissionRecorder = new CommissionRecorder();
@@ -0,0 +1,115 @@
+import { PluginCommonModule, VendurePlugin } from '@vendure/core';
+import gql from 'graphql-tag';
+import { ChannelEmailTemplate } from './channel-email-template-entity';
+import { EmailTemplateResolver } from './email-template-resolver';
+import {
+    EMAIL_TEMPLATE_PLUGIN_OPTIONS,
+    EmailTemplatePluginOptions,
+    EmailTemplateService,
+} from './email-template-service';
+
+export { EmailTemplateService };
+
+/**
+ * Email Template Plugin
+ *
+ * Lets each channel replace the email templates under static/email/templates
+ * with its own, e.g. a seller rewording the order confirmation for their brand.
+ * The password reset, email verification and email address change emails carry
+ * a secret token: their templates may only link to it through the token-link
+ * partial, and may not load anything from other sites.
+ *
+ * Components:
+ * - ChannelEmailTemplate: a channel's template of one email type (see channel-email-template-entity.ts)
+ * - ChannelTemplateLoader: the EmailPlugin's templateLoader; the channel's template, else the file
+ *   (see channel-template-loader.ts)
+ * - EmailTemplateService: edit, reset and preview against sample data (see email-template-service.ts)
+ * - EmailTemplateResolver: Admin API (see email-template-resolver.ts)
+ *
+ * Must be given the same templateLoader and globalTemplateVars as the EmailPlugin.
+ * Requires migrations/014_channel_email_templates.sql.
+ */
+@VendurePlugin({
+    imports: [PluginCommonModule],
+    entities: [ChannelEmailTemplate],
+    providers: [
+        { provide: EMAIL_TEMPLATE_PLUGIN_OPTIONS, useFactory: () => EmailTemplatePlugin.options },
+        EmailTemplateService,
+    ],
+    exports: [EmailTemplateService],
+    adminApiExtensions: {
+        schema: gql`
+            type EmailTemplate {
+                "Email handler type, e.g. order-confirmation"
+                type: String!
+                "The channel's own template, or the default"
+                content: String!
+                defaultContent: String!
+                overridden: Boolean!
+                updatedAt: DateTime
+            }
+
+            input UpdateEmailTemplateInput {
+                type: String!
+                "Handlebars + MJML, like the default template. Emails with a token link to it with the token-link partial"
+                content: String!
+            }
+
+            input PreviewEmailTemplateInput {
+                type: String!
+                "Unsaved content; the current template when omitted"
+                content: String
+            }
+
+            extend type Query {
+                "The email templates of the active channel"
+                emailTemplates: [EmailTemplate!]!
+                emailTemplate(type: String!): EmailTemplate!
+                "HTML of the email, rendered with sample data"
+                previewEmailTemplate(input: PreviewEmailTemplateInput!): String!
+            }
+
+            extend type Mutation {
+                updateEmailTemplate(input: UpdateEmailTemplateInput!): EmailTemplate!
+                "Go back to the default template"
+                resetEmailTemplate(type: String!): EmailTemplate!
+            }
+        `,
+        resolvers: [EmailTemplateResolver],
+    },
+})
+export class EmailTemplatePlugin {
+    static options: EmailTemplatePluginOptions;
+
+    static init(options: EmailTemplatePluginOptions) {
+        this.options = options;
+        return EmailTemplatePlugin;
+    }
+}
+
+/**
+ * USAGE
+ * =====
+ *
+ *    const emailTemplateLoader = new ChannelTemplateLoader(path.join(__dirname, '../static/email/templates'));
+ *
+ *    EmailPlugin.init({ ..., templateLoader: emailTemplateLoader, globalTemplateVars: emailTemplateVars }),
+ *    EmailTemplatePlugin.init({ templateLoader: emailTemplateLoader, globalTemplateVars: emailTemplateVars }),
+ *
+ * As a seller, preview and save a reworded password reset email:
+ *
+ *    query {
+ *      previewEmailTemplate(input: { type: "password-reset", content: "{{> header title=\"Reset\" }} ..." })
+ *    }
+ *
+ *    mutation {
+ *      updateEmailTemplate(input: { type: "password-reset", content: "... {{> token-link label=\"Reset password\" }} ..." }) {
+ *        type overridden updatedAt
+ *      }
+ *    }
+ *
+ * A template that references the token itself, the whole template context
+ * ({{ this }}, @root), or another site is rejected.
+ *
+ * resetEmailTemplate(type: "password-reset") goes back to the file template.
+ */
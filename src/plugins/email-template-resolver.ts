@@ -0,0 +1,56 @@
+/**
+ * Email Template Resolver
+ *
+ * Admin API for the email templates of the active channel: sellers edit the
+ * emails of their own channel, platform operators those of the default channel.
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, Permission, RequestContext } from '@vendure/core';
+import {
+    EmailTemplateInfo,
+    EmailTemplateService,
+    PreviewEmailTemplateInput,
+    UpdateEmailTemplateInput,
+} from './email-template-service';
+
+@Resolver()
+export class EmailTemplateResolver {
+    constructor(private emailTemplateService: EmailTemplateService) {}
+
+    @Query()
+    @Allow(Permission.ReadSettings)
+    async emailTemplates(@Ctx() ctx: RequestContext): Promise<EmailTemplateInfo[]> {
+        return this.emailTemplateService.getTemplates(ctx);
+    }
+
+    @Query()
+    @Allow(Permission.ReadSettings)
+    async emailTemplate(@Ctx() ctx: RequestContext, @Args() args: { type: string }): Promise<EmailTemplateInfo> {
+        return this.emailTemplateService.getTemplate(ctx, args.type);
+    }
+
+    @Query()
+    @Allow(Permission.ReadSettings)
+    async previewEmailTemplate(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: PreviewEmailTemplateInput },
+    ): Promise<string> {
+        return this.emailTemplateService.previewTemplate(ctx, args.input);
+    }
+
+    @Mutation()
+    @Allow(Permission.UpdateSettings)
+    async updateEmailTemplate(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: UpdateEmailTemplateInput },
+    ): Promise<EmailTemplateInfo> {
+        return this.emailTemplateService.updateTemplate(ctx, args.input);
+    }
+
+    @Mutation()
+    @Allow(Permission.UpdateSettings)
+    async resetEmailTemplate(@Ctx() ctx: RequestContext, @Args() args: { type: string }): Promise<EmailTemplateInfo> {
+        return this.emailTemplateService.resetTemplate(ctx, args.type);
+    }
+}
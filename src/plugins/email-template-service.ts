@@ -0,0 +1,258 @@
+/**
+ * Email Template Service
+ *
+ * Per-channel versions of the email templates. A channel's template replaces
+ * the file template of the same type for the emails of that channel (see
+ * ChannelTemplateLoader); resetting it goes back to the file. Templates are
+ * rendered against sample data before they are saved, so a broken template
+ * cannot stop the emails of a channel. Templates of emails with a secret token
+ * must link to it through the token-link partial (validateTokenTemplate).
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Injector, RequestContext, TransactionalConnection, UserInputError } from '@vendure/core';
+import { GlobalTemplateVarsFn, HandlebarsMjmlGenerator, InitializedEmailPluginOptions } from '@vendure/email-plugin';
+import { ChannelEmailTemplate } from './channel-email-template-entity';
+import { ChannelTemplateLoader, validateTokenTemplate } from './channel-template-loader';
+
+export interface EmailTemplatePluginOptions {
+    /** The templateLoader of the EmailPlugin */
+    templateLoader: ChannelTemplateLoader;
+    /** The globalTemplateVars of the EmailPlugin, for previews */
+    globalTemplateVars?: GlobalTemplateVarsFn | { [key: string]: any };
+}
+
+export const EMAIL_TEMPLATE_PLUGIN_OPTIONS = Symbol('EMAIL_TEMPLATE_PLUGIN_OPTIONS');
+
+const TEMPLATE_NAME = 'body.hbs';
+
+export interface EmailTemplateInfo {
+    type: string;
+    /** The channel's template, or the default */
+    content: string;
+    defaultContent: string;
+    overridden: boolean;
+    updatedAt: Date | null;
+}
+
+export interface UpdateEmailTemplateInput {
+    type: string;
+    content: string;
+}
+
+export interface PreviewEmailTemplateInput {
+    type: string;
+    /** Unsaved content; the channel's current template when omitted */
+    content?: string | null;
+}
+
+const SAMPLE_ORDER = {
+    code: 'T7YB8ZKWQ3XJHPNC',
+    orderPlacedAt: new Date('2026-01-15T10:30:00Z'),
+    currencyCode: 'USD',
+    customer: { firstName: 'Jane', lastName: 'Smith', emailAddress: 'jane.smith@example.com' },
+    shippingAddress: {
+        fullName: 'Jane Smith',
+        streetLine1: '12 Market Street',
+        city: 'Springfield',
+        postalCode: '12345',
+        country: 'United States',
+        phoneNumber: '555-0100',
+    },
+    lines: [
+        {
+            quantity: 2,
+            productVariant: { name: 'Ceramic Mug', sku: 'MUG-01' },
+            featuredAsset: { preview: '' },
+            discountedLinePriceWithTax: 2400,
+            proratedLinePriceWithTax: 2400,
+        },
+        {
+            quantity: 1,
+            productVariant: { name: 'Linen Tea Towel', sku: 'TOWEL-02' },
+            featuredAsset: { preview: '' },
+            discountedLinePriceWithTax: 1500,
+            proratedLinePriceWithTax: 1500,
+        },
+    ],
+    discounts: [],
+    subTotalWithTax: 3900,
+    shippingWithTax: 500,
+    total: 4000,
+    totalWithTax: 4400,
+};
+
+const SAMPLE_SHIPPING_LINES = [{ shippingMethod: { name: 'Standard Shipping' }, priceWithTax: 500 }];
+
+/**
+ * Template variables of each email type, as set by its handler
+ */
+const SAMPLE_TEMPLATE_VARS: { [type: string]: { [key: string]: any } } = {
+    'order-confirmation': {
+        order: SAMPLE_ORDER,
+        sellerGroups: [
+            {
+                sellerName: 'Sample Seller',
+                lines: SAMPLE_ORDER.lines,
+                shippingLines: SAMPLE_SHIPPING_LINES,
+                subTotalWithTax: SAMPLE_ORDER.subTotalWithTax,
+            },
+        ],
+        shippingLines: SAMPLE_SHIPPING_LINES,
+    },
+    'seller-new-order': {
+        order: SAMPLE_ORDER,
+        businessName: 'Sample Seller',
+        shippingLines: SAMPLE_SHIPPING_LINES,
+    },
+    'email-verification': { verificationToken: 'sample-verification-token' },
+    'password-reset': { passwordResetToken: 'sample-password-reset-token' },
+    'email-address-change': { identifierChangeToken: 'sample-identifier-change-token' },
+    'tenant-status-changed': {
+        title: 'Your store has been suspended',
+        businessName: 'Sample Seller',
+        suspended: true,
+        reason: 'Sample reason',
+    },
+};
+
+@Injectable()
+export class EmailTemplateService {
+    private generator: HandlebarsMjmlGenerator | undefined;
+
+    constructor(
+        private connection: TransactionalConnection,
+        private moduleRef: ModuleRef,
+        @Inject(EMAIL_TEMPLATE_PLUGIN_OPTIONS) private options: EmailTemplatePluginOptions,
+    ) {}
+
+    /**
+     * Every email type of the active channel, with its own template if it has one
+     */
+    async getTemplates(ctx: RequestContext): Promise<EmailTemplateInfo[]> {
+        const stored = await this.connection.getRepository(ctx, ChannelEmailTemplate).find({
+            where: { channelId: ctx.channelId, templateName: TEMPLATE_NAME },
+        });
+        const templates: EmailTemplateInfo[] = [];
+        for (const type of this.options.templateLoader.getTemplateTypes()) {
+            templates.push(await this.toInfo(ctx, type, stored.find(template => template.type === type)));
+        }
+        return templates;
+    }
+
+    async getTemplate(ctx: RequestContext, type: string): Promise<EmailTemplateInfo> {
+        this.assertType(type);
+        return this.toInfo(ctx, type, await this.findStored(ctx, type));
+    }
+
+    async updateTemplate(ctx: RequestContext, input: UpdateEmailTemplateInput): Promise<EmailTemplateInfo> {
+        this.assertType(input.type);
+        if (!input.content.trim()) {
+            throw new UserInputError('The template must not be empty');
+        }
+        const tokenTemplateError = validateTokenTemplate(input.type, input.content);
+        if (tokenTemplateError) {
+            throw new UserInputError(tokenTemplateError);
+        }
+        await this.render(ctx, input.type, input.content);
+
+        const repository = this.connection.getRepository(ctx, ChannelEmailTemplate);
+        const template = (await this.findStored(ctx, input.type)) ?? new ChannelEmailTemplate({
+            channelId: ctx.channelId,
+            type: input.type,
+            templateName: TEMPLATE_NAME,
+        });
+        template.content = input.content;
+        template.updatedByUserId = ctx.activeUserId ?? null;
+        const saved = await repository.save(template);
+
+        console.log(`[EmailTemplate] Channel ${ctx.channelId} updated the ${input.type} template`);
+        return this.toInfo(ctx, input.type, saved);
+    }
+
+    /**
+     * Go back to the default template
+     */
+    async resetTemplate(ctx: RequestContext, type: string): Promise<EmailTemplateInfo> {
+        this.assertType(type);
+        const stored = await this.findStored(ctx, type);
+        if (stored) {
+            await this.connection.getRepository(ctx, ChannelEmailTemplate).remove(stored);
+            console.log(`[EmailTemplate] Channel ${ctx.channelId} reset the ${type} template`);
+        }
+        return this.toInfo(ctx, type, undefined);
+    }
+
+    /**
+     * The HTML of the email, rendered with the channel's branding and sample data
+     */
+    async previewTemplate(ctx: RequestContext, input: PreviewEmailTemplateInput): Promise<string> {
+        this.assertType(input.type);
+        const content = input.content ?? (await this.options.templateLoader.loadTemplate(
+            new Injector(this.moduleRef),
+            ctx,
+            { type: input.type, templateName: TEMPLATE_NAME, templateVars: {} },
+        ));
+        return this.render(ctx, input.type, content);
+    }
+
+    private async render(ctx: RequestContext, type: string, content: string): Promise<string> {
+        const injector = new Injector(this.moduleRef);
+        if (!this.generator) {
+            // Previews are only rendered, never sent or handled
+            const generatorOptions: InitializedEmailPluginOptions = {
+                templateLoader: this.options.templateLoader,
+                transport: { type: 'none' },
+                handlers: [],
+            };
+            this.generator = new HandlebarsMjmlGenerator();
+            // Registers the partials and helpers (formatMoney, formatDate)
+            await this.generator.onInit(generatorOptions);
+        }
+        const { globalTemplateVars } = this.options;
+        const globals = typeof globalTemplateVars === 'function'
+            ? await globalTemplateVars(ctx, injector)
+            : globalTemplateVars ?? {};
+        try {
+            const { body } = this.generator.generate('', '', content, {
+                ...globals,
+                ...(SAMPLE_TEMPLATE_VARS[type] ?? {}),
+            });
+            return body;
+        } catch (error) {
+            throw new UserInputError(`The template could not be rendered: ${(error as Error).message}`);
+        }
+    }
+
+    private async toInfo(
+        ctx: RequestContext,
+        type: string,
+        stored: ChannelEmailTemplate | null | undefined,
+    ): Promise<EmailTemplateInfo> {
+        const defaultContent = await this.options.templateLoader.loadDefaultTemplate(new Injector(this.moduleRef), ctx, {
+            type,
+            templateName: TEMPLATE_NAME,
+            templateVars: {},
+        });
+        return {
+            type,
+            content: stored?.content ?? defaultContent,
+            defaultContent,
+            overridden: !!stored,
+            updatedAt: stored?.updatedAt ?? null,
+        };
+    }
+
+    private findStored(ctx: RequestContext, type: string): Promise<ChannelEmailTemplate | null> {
+        return this.connection.getRepository(ctx, ChannelEmailTemplate).findOne({
+            where: { channelId: ctx.channelId, type, templateName: TEMPLATE_NAME },
+        });
+    }
+
+    private assertType(type: string): void {
+        if (!this.options.templateLoader.getTemplateTypes().includes(type)) {
+            throw new UserInputError(`Unknown email template type: ${type}`);
+        }
+    }
+}
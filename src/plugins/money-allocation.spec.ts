@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { allocateProportionally } from './money-allocation';
+
+describe('allocateProportionally', () => {
+    it('splits a total in proportion to the weights', () => {
+        expect(allocateProportionally(10000, [6000, 4000])).toEqual([6000, 4000]);
+        expect(allocateProportionally(5000, [6000, 4000])).toEqual([3000, 2000]);
+    });
+
+    it('hands the rounding remainder to the largest fractional shares', () => {
+        expect(allocateProportionally(100, [1, 1, 1])).toEqual([34, 33, 33]);
+        expect(allocateProportionally(100, [1, 2])).toEqual([33, 67]);
+        expect(allocateProportionally(1001, [3333, 3333, 3334])).toEqual([334, 333, 334]);
+    });
+
+    it('always allocates exactly the total', () => {
+        const weights = [1299, 4550, 17, 999, 3];
+        for (const total of [0, 1, 7, 9999, 123457]) {
+            const parts = allocateProportionally(total, weights);
+            expect(parts.reduce((sum, part) => sum + part, 0)).toBe(total);
+            expect(parts.every(part => Number.isInteger(part) && part >= 0)).toBe(true);
+        }
+    });
+
+    it('allocates nothing to a part with no weight', () => {
+        expect(allocateProportionally(1000, [0, 1, 0, 3])).toEqual([0, 250, 0, 750]);
+    });
+
+    it('gives everything to the first part when no weight is positive', () => {
+        expect(allocateProportionally(1000, [0, 0])).toEqual([1000, 0]);
+        expect(allocateProportionally(1000, [])).toEqual([]);
+    });
+});
@@ -0,0 +1,25 @@
+/**
+ * Split `total` (minor units) in proportion to `weights`, handing rounding
+ * remainders to the largest fractional shares so the parts add up exactly.
+ * With no positive weight, everything goes to the first part.
+ */
+export function allocateProportionally(total: number, weights: number[]): number[] {
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weightSum <= 0) {
+        return weights.map((_, index) => (index === 0 ? total : 0));
+    }
+    const exact = weights.map(weight => (total * weight) / weightSum);
+    const parts = exact.map(Math.floor);
+    let remainder = total - parts.reduce((sum, part) => sum + part, 0);
+    const byFraction = exact
+        .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+        .sort((a, b) => b.fraction - a.fraction);
+    for (const { index } of byFraction) {
+        if (remainder <= 0) {
+            break;
+        }
+        parts[index]++;
+        remainder--;
+    }
+    return parts;
+}
@@ -0,0 +1,116 @@
+import { Channel, InternalServerError, Order, OrderLine, RequestContext, UserInputError } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { multiVendorOrderProcess, multiVendorOrderSellerStrategy } from './multi-vendor-plugin';
+
+const ctx = {} as RequestContext;
+const defaultChannel = { id: 1, code: 'default', sellerId: 1 } as Channel;
+const channel = (id: number, sellerId: number) => ({ id, code: `channel-${id}`, sellerId }) as Channel;
+
+function lineFor(channels: Channel[], sellerChannel?: Channel) {
+    return {
+        productVariant: { id: 7, name: 'Mug', channels, customFields: { sellerChannel } },
+    } as unknown as OrderLine;
+}
+
+describe('multiVendorOrderSellerStrategy', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        multiVendorOrderSellerStrategy.init({
+            get: (token: { name: string }) =>
+                token.name === 'ChannelService'
+                    ? { getDefaultChannel: async () => defaultChannel }
+                    : { hydrate: async () => undefined },
+        } as any);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('sells a line in the channel of the only seller of the variant', async () => {
+        const line = lineFor([defaultChannel, channel(4, 2), channel(2, 2), channel(9, 1)]);
+
+        expect((await multiVendorOrderSellerStrategy.setOrderLineSellerChannel(ctx, line)).id).toBe(2);
+    });
+
+    it('honours the sellerChannel of a variant shared with several sellers', async () => {
+        const line = lineFor([defaultChannel, channel(2, 2), channel(3, 3)], channel(3, 3));
+
+        expect((await multiVendorOrderSellerStrategy.setOrderLineSellerChannel(ctx, line)).id).toBe(3);
+    });
+
+    it('rejects a variant shared with several sellers without a sellerChannel', async () => {
+        const line = lineFor([defaultChannel, channel(2, 2), channel(3, 3)]);
+
+        await expect(multiVendorOrderSellerStrategy.setOrderLineSellerChannel(ctx, line)).rejects.toBeInstanceOf(
+            UserInputError,
+        );
+    });
+
+    it('rejects a variant that no seller sells', async () => {
+        const line = lineFor([defaultChannel], channel(5, 5));
+
+        await expect(multiVendorOrderSellerStrategy.setOrderLineSellerChannel(ctx, line)).rejects.toBeInstanceOf(
+            UserInputError,
+        );
+    });
+
+    it('splits the order into one seller order per seller channel with its shipping lines', async () => {
+        const order = {
+            code: 'ORDER1',
+            lines: [
+                { id: 11, sellerChannelId: 2, shippingLineId: 21 },
+                { id: 12, sellerChannelId: 3, shippingLineId: 22 },
+                { id: 13, sellerChannelId: 2, shippingLineId: 21 },
+            ],
+            shippingLines: [{ id: 21 }, { id: 22 }],
+        } as unknown as Order;
+
+        const split = await multiVendorOrderSellerStrategy.splitOrder(ctx, order);
+
+        expect(split.map(({ channelId, state, lines, shippingLines }) => ({
+            channelId,
+            state,
+            lineIds: lines.map(line => line.id),
+            shippingLineIds: shippingLines.map(shippingLine => shippingLine.id),
+        }))).toEqual([
+            { channelId: 2, state: 'ArrangingPayment', lineIds: [11, 13], shippingLineIds: [21] },
+            { channelId: 3, state: 'ArrangingPayment', lineIds: [12], shippingLineIds: [22] },
+        ]);
+    });
+
+    it('refuses to split an order with a line that has no seller instead of dropping it', async () => {
+        const order = {
+            code: 'ORDER1',
+            lines: [{ id: 11, sellerChannelId: 2 }, { id: 12, sellerChannelId: null }],
+            shippingLines: [],
+        } as unknown as Order;
+
+        await expect(multiVendorOrderSellerStrategy.splitOrder(ctx, order)).rejects.toBeInstanceOf(InternalServerError);
+    });
+});
+
+describe('multiVendorOrderProcess', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const transition = (toState: string, lines: Array<Partial<OrderLine>>) =>
+        multiVendorOrderProcess.onTransitionStart!('AddingItems', toState as any, {
+            ctx,
+            order: { code: 'ORDER1', lines } as Order,
+        });
+
+    it('blocks checkout while a line has no seller', async () => {
+        const lines = [{ id: 11, sellerChannelId: 2 }, { id: 12, sellerChannelId: undefined, productVariant: { name: 'Towel' } }];
+
+        expect(await transition('ArrangingPayment', lines as any)).toContain('Towel');
+        expect(await transition('AddingItems', lines as any)).toBeUndefined();
+    });
+
+    it('lets an order with a seller for every line through', async () => {
+        expect(await transition('ArrangingPayment', [{ id: 11, sellerChannelId: 2 }])).toBeUndefined();
+    });
+});
@@ -1,7 +1,7 @@
 import {
     Channel,
     ChannelService,
-    CustomFields,
+    CustomFieldConfig,
     EntityHydrator,
     idsAreEqual,
     OrderSellerStrategy,
@@ -12,91 +12,91 @@ import {
     Order,
     ShippingLine,
     ID,
+    Injector,
+    InternalServerError,
     SplitOrderContents,
+    OrderProcess,
     OrderState,
     LanguageCode,
+    UserInputError,
+    ZoneService,
 } from '@vendure/core';
-
-const DEFAULT_CHANNEL_CODE = 'default';
+import { commissionRecorder } from './commission-service';
+import { splitPaymentAllocator } from './split-payment-handler';
 
 class MultiVendorOrderSellerStrategyClass implements OrderSellerStrategy {
-    constructor(
-        private channelService?: ChannelService,
-        private entityHydrator?: EntityHydrator,
-    ) {}
-
-    async setOrderLineSellerChannel(ctx: RequestContext, orderLine: OrderLine): Promise<Channel | undefined> {
-        if (!this.channelService || !this.entityHydrator) {
-            return undefined;
-        }
-        await this.entityHydrator.hydrate(ctx, orderLine.productVariant, { relations: ['channels'] });
+    private channelService: ChannelService;
+    private entityHydrator: EntityHydrator;
+
+    init(injector: Injector) {
+        this.channelService = injector.get(ChannelService);
+        this.entityHydrator = injector.get(EntityHydrator);
+    }
+
+    /**
+     * Every line needs a seller: a variant that is not in any seller channel, or
+     * in the channels of several sellers without a sellerChannel, cannot be added
+     */
+    async setOrderLineSellerChannel(ctx: RequestContext, orderLine: OrderLine): Promise<Channel> {
+        await this.entityHydrator.hydrate(ctx, orderLine.productVariant, {
+            relations: ['channels', 'customFields.sellerChannel'],
+        });
         const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+        const { channels, customFields } = orderLine.productVariant;
 
-        // If a ProductVariant is assigned to exactly 2 Channels, then one is the default Channel
-        // and the other is the seller's Channel.
-        if (orderLine.productVariant.channels.length === 2) {
-            const sellerChannel = orderLine.productVariant.channels.find(
-                c => !idsAreEqual(c.id, defaultChannel.id),
-            );
-            if (sellerChannel) {
-                return sellerChannel;
+        // An explicit override wins, as long as the variant is actually in that channel
+        const override = customFields.sellerChannel;
+        if (override) {
+            const overrideChannel = channels.find(c => idsAreEqual(c.id, override.id));
+            if (overrideChannel && !idsAreEqual(overrideChannel.id, defaultChannel.id)) {
+                return overrideChannel;
             }
+            console.warn(`[MultiVendor] Ignoring sellerChannel ${override.code} of variant ${orderLine.productVariant.id}: not one of its seller channels`);
         }
-        
-        // If the variant is only assigned to one channel (the default), 
-        // return undefined to use default behavior
-        return undefined;
+
+        // Otherwise the seller is whoever owns a channel other than the platform (default seller),
+        // however many other channels (e.g. campaign channels) the variant is shared into
+        const sellerChannels = getSellerChannels(channels, defaultChannel);
+        const sellerIds = new Set(sellerChannels.map(c => String(c.sellerId)));
+        if (sellerIds.size > 1) {
+            console.warn(`[MultiVendor] Variant ${orderLine.productVariant.id} is in channels of ${sellerIds.size} sellers - set its sellerChannel custom field`);
+            throw new UserInputError(`${orderLine.productVariant.name ?? 'This product'} cannot be ordered: it has more than one seller`);
+        }
+        if (!sellerChannels.length) {
+            console.warn(`[MultiVendor] Variant ${orderLine.productVariant.id} is not in any seller channel`);
+            throw new UserInputError(`${orderLine.productVariant.name ?? 'This product'} cannot be ordered: it has no seller`);
+        }
+        // A seller with several channels: the oldest one is their own
+        return sellerChannels.sort((a, b) => Number(a.id) - Number(b.id))[0];
     }
 
     async splitOrder(ctx: RequestContext, order: Order): Promise<SplitOrderContents[]> {
-        if (!this.channelService) {
-            // Return order as-is for single channel
-            // Get the first channel ID from order's channels
-            const channelId = order.channels && order.channels.length > 0 ? order.channels[0].id : '';
-            return [
-                {
-                    channelId,
-                    state: order.state as OrderState,
-                    lines: order.lines,
-                    shippingLines: [],
-                },
-            ];
-        }
-        
-        // Group order lines by their seller channel
+        // Group order lines by their seller channel. Lines without one are rejected when
+        // added and at checkout (multiVendorOrderProcess), so none may be left behind here.
         const linesByChannel = new Map<ID, OrderLine[]>();
-        
         for (const line of order.lines) {
-            if (line.sellerChannelId) {
-                const channelId = line.sellerChannelId;
-                if (!linesByChannel.has(channelId)) {
-                    linesByChannel.set(channelId, []);
-                }
-                linesByChannel.get(channelId)!.push(line);
+            if (line.sellerChannelId == null) {
+                throw new InternalServerError(`Order line ${line.id} of order ${order.code} has no seller channel`);
             }
+            const channelId = line.sellerChannelId;
+            if (!linesByChannel.has(channelId)) {
+                linesByChannel.set(channelId, []);
+            }
+            linesByChannel.get(channelId)!.push(line);
         }
 
-        // If all lines belong to the same seller or no seller channels, return single order
-        if (linesByChannel.size === 0) {
-            const channelId = order.channels && order.channels.length > 0 ? order.channels[0].id : '';
-            return [
-                {
-                    channelId,
-                    state: order.state as OrderState,
-                    lines: order.lines,
-                    shippingLines: [],
-                },
-            ];
-        }
-
-        // Split order by seller channels
+        // Split order by seller channels. Seller orders start unpaid: the aggregate
+        // payment is allocated to them in afterSellerOrdersCreated
         const splitOrders: SplitOrderContents[] = [];
         for (const [channelId, orderLines] of linesByChannel) {
             splitOrders.push({
                 channelId,
-                state: order.state as OrderState,
+                state: 'ArrangingPayment',
                 lines: orderLines,
-                shippingLines: [],
+                // The shipping lines assigned to these lines (MultiVendorShippingLineAssignmentStrategy)
+                shippingLines: order.shippingLines.filter(shippingLine =>
+                    orderLines.some(line => idsAreEqual(line.shippingLineId, shippingLine.id)),
+                ),
             });
         }
 
@@ -104,14 +104,39 @@ class MultiVendorOrderSellerStrategyClass implements OrderSellerStrategy {
     }
 
     async afterSellerOrdersCreated(ctx: RequestContext, aggregateOrder: Order, sellerOrders: Order[]): Promise<void> {
-        // Add any post-processing logic here, such as:
-        // - Calculating platform fees
-        // - Creating commission records
-        // - Sending notifications to sellers
-        // For MVP, this can be left empty
+        // Record the platform's commission per seller order line (CommissionPlugin)
+        await commissionRecorder.record(ctx, aggregateOrder, sellerOrders);
+        // Give every seller order its share of the aggregate payment (split payment handler)
+        await splitPaymentAllocator.allocate(ctx, aggregateOrder, sellerOrders);
     }
 }
 
+/**
+ * Rejects the transition to ArrangingPayment while the order has lines without
+ * a seller, e.g. lines added before their variant was shared into more sellers' channels
+ */
+export const multiVendorOrderProcess: OrderProcess<OrderState> = {
+    async onTransitionStart(fromState, toState, { order }) {
+        if (toState !== 'ArrangingPayment') {
+            return;
+        }
+        const unassigned = order.lines.filter(line => line.sellerChannelId == null);
+        if (unassigned.length) {
+            console.log(`[MultiVendor] Rejected order ${order.code}: ${unassigned.length} lines have no seller`);
+            return `Please remove ${unassigned.map(line => line.productVariant?.name ?? line.id).join(', ')} from the cart: no seller sells it`;
+        }
+    },
+};
+
+let checkerChannelService: ChannelService;
+let checkerEntityHydrator: EntityHydrator;
+let checkerZoneService: ZoneService;
+
+/**
+ * A ShippingMethod in seller-owned channels is only offered when the order
+ * contains that seller's goods, and the args below are checked against those
+ * goods alone. A ShippingMethod of the platform is checked against the whole order.
+ */
 export const multiVendorShippingEligibilityChecker = new ShippingEligibilityChecker({
     code: 'multi-vendor-shipping-checker',
     description: [
@@ -120,48 +145,163 @@ export const multiVendorShippingEligibilityChecker = new ShippingEligibilityChec
             value: 'Multi-vendor shipping eligibility checker',
         },
     ],
-    args: {},
+    args: {
+        orderMinimum: {
+            type: 'int',
+            defaultValue: 0,
+            ui: { component: 'currency-form-input' },
+            label: [{ languageCode: LanguageCode.en, value: 'Minimum value of the seller\'s items' }],
+        },
+        useTax: {
+            type: 'boolean',
+            defaultValue: false,
+            label: [{ languageCode: LanguageCode.en, value: 'Minimum includes tax' }],
+        },
+        zoneIds: {
+            type: 'ID',
+            list: true,
+            label: [{ languageCode: LanguageCode.en, value: 'Only ship to these zones' }],
+            description: [{ languageCode: LanguageCode.en, value: 'Leave empty to ship everywhere' }],
+        },
+        maxWeight: {
+            type: 'int',
+            defaultValue: 0,
+            label: [{ languageCode: LanguageCode.en, value: 'Maximum weight of the seller\'s items (g)' }],
+            description: [{ languageCode: LanguageCode.en, value: '0 for no limit' }],
+        },
+    },
+    init(injector) {
+        checkerChannelService = injector.get(ChannelService);
+        checkerEntityHydrator = injector.get(EntityHydrator);
+        checkerZoneService = injector.get(ZoneService);
+    },
     check: async (ctx, order, args, method) => {
-        // We need to hydrate the method and order with the necessary relations
-        // This is a simplified check - in production you'd want more robust logic
+        await checkerEntityHydrator.hydrate(ctx, method, { relations: ['channels'] });
+        const defaultChannel = await checkerChannelService.getDefaultChannel(ctx);
+        const lines = getShippedLines(order, getSellerChannels(method.channels, defaultChannel));
+        if (!lines.length) {
+            return false;
+        }
+
+        if (args.orderMinimum > 0) {
+            const value = lines.reduce(
+                (sum, line) => sum + (args.useTax ? line.proratedLinePriceWithTax : line.proratedLinePrice),
+                0,
+            );
+            if (value < args.orderMinimum) {
+                return false;
+            }
+        }
+
+        if (args.zoneIds?.length) {
+            const countryCode = order.shippingAddress?.countryCode;
+            if (!countryCode) {
+                return false;
+            }
+            const zones = await checkerZoneService.getAllWithMembers(ctx);
+            const shipsThere = zones
+                .filter(zone => args.zoneIds.some(zoneId => idsAreEqual(zoneId, zone.id)))
+                .some(zone => zone.members.some(member => member.code === countryCode));
+            if (!shipsThere) {
+                return false;
+            }
+        }
+
+        if (args.maxWeight > 0 && getLinesWeight(lines) > args.maxWeight) {
+            return false;
+        }
         return true;
     },
 });
 
 class MultiVendorShippingLineAssignmentStrategyClass implements ShippingLineAssignmentStrategy {
-    constructor(
-        private channelService?: ChannelService,
-        private entityHydrator?: EntityHydrator,
-    ) {}
+    private channelService: ChannelService;
+    private entityHydrator: EntityHydrator;
+
+    init(injector: Injector) {
+        this.channelService = injector.get(ChannelService);
+        this.entityHydrator = injector.get(EntityHydrator);
+    }
 
     async assignShippingLineToOrderLines(ctx: RequestContext, shippingLine: ShippingLine, order: Order) {
-        if (!this.channelService || !this.entityHydrator) {
-            return order.lines;
-        }
-        
         // First we need to ensure the required relations are available
         const defaultChannel = await this.channelService.getDefaultChannel(ctx);
         
         await this.entityHydrator.hydrate(ctx, shippingLine, { relations: ['shippingMethod.channels'] });
-        const { channels } = shippingLine.shippingMethod;
-
-        // We assume that, if a ShippingMethod is assigned to exactly 2 Channels,
-        // then one is the default Channel and the other is the seller's Channel.
-        if (channels.length === 2) {
-            const sellerChannel = channels.find(c => !idsAreEqual(c.id, defaultChannel.id));
-            if (sellerChannel) {
-                // Once we have established the seller's Channel, we can filter the OrderLines
-                // that belong to that Channel.
-                return order.lines.filter(line => idsAreEqual(line.sellerChannelId, sellerChannel.id));
-            }
-        }
-        
+        const sellerChannels = getSellerChannels(shippingLine.shippingMethod.channels, defaultChannel);
+
+        // A ShippingMethod in seller-owned channels ships the OrderLines sold in those channels.
+        // One that only belongs to the platform ships the whole order.
+        return getShippedLines(order, sellerChannels);
+    }
+}
+
+/**
+ * The channels owned by a seller other than the default channel's (the platform's) seller
+ */
+export function getSellerChannels(channels: Channel[], defaultChannel: Channel): Channel[] {
+    return channels.filter(
+        c =>
+            !idsAreEqual(c.id, defaultChannel.id) &&
+            c.sellerId != null &&
+            !idsAreEqual(c.sellerId, defaultChannel.sellerId ?? -1),
+    );
+}
+
+/**
+ * The lines a ShippingMethod of these seller channels ships: the lines sold in
+ * them, or every line for a ShippingMethod of the platform
+ */
+export function getShippedLines(order: Order, sellerChannels: Channel[]): OrderLine[] {
+    if (!sellerChannels.length) {
         return order.lines;
     }
+    return order.lines.filter(line => sellerChannels.some(channel => idsAreEqual(line.sellerChannelId, channel.id)));
 }
 
-// Note: Channel entity already has a built-in 'sellerId' field in Vendure v3.x
-// We don't need to add custom fields for multi-vendor support
+/**
+ * Total weight in grams, from the `weight` custom field of the variants
+ */
+export function getLinesWeight(lines: OrderLine[]): number {
+    return lines.reduce((sum, line) => sum + (line.productVariant?.customFields?.weight ?? 0) * line.quantity, 0);
+}
+
+/**
+ * Pins the seller of a ProductVariant that is shared into channels of several
+ * sellers. Only honoured when the variant is assigned to that channel.
+ */
+export const sellerChannelCustomField: CustomFieldConfig = {
+    name: 'sellerChannel',
+    type: 'relation',
+    entity: Channel,
+    nullable: true,
+    public: false,
+    label: [{ languageCode: LanguageCode.en, value: 'Seller channel' }],
+    description: [
+        {
+            languageCode: LanguageCode.en,
+            value: 'The channel of the seller who sells this variant, when it is in channels of several sellers',
+        },
+    ],
+};
+
+/**
+ * Shipping weight of one unit in grams, for the shipping eligibility checker
+ */
+export const variantWeightCustomField: CustomFieldConfig = {
+    name: 'weight',
+    type: 'int',
+    nullable: true,
+    min: 0,
+    label: [{ languageCode: LanguageCode.en, value: 'Weight (g)' }],
+};
+
+declare module '@vendure/core/dist/entity/custom-entity-fields' {
+    interface CustomProductVariantFields {
+        sellerChannel?: Channel | null;
+        weight?: number | null;
+    }
+}
 
 // Export the strategies for use in config
 export const multiVendorOrderSellerStrategy = new MultiVendorOrderSellerStrategyClass();
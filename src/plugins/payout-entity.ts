@@ -0,0 +1,46 @@
+import { DeepPartial, EntityId, ID, Money, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+export type PayoutState = 'pending' | 'paid' | 'failed';
+
+/**
+ * A batch of SellerLedgerEntries paid out to a seller in one transfer.
+ * Table created by migrations/009_seller_payouts.sql.
+ */
+@Entity()
+@Index(['sellerChannelId', 'createdAt'])
+export class Payout extends VendureEntity {
+    constructor(input?: DeepPartial<Payout>) {
+        super(input);
+    }
+
+    @EntityId()
+    sellerChannelId: ID;
+
+    @Column({ type: 'varchar', nullable: true })
+    tenantId: string | null;
+
+    @Column('varchar')
+    currencyCode: string;
+
+    @Money()
+    amount: number;
+
+    @Index()
+    @Column('varchar', { default: 'pending' })
+    state: PayoutState;
+
+    /** Number of ledger entries in the payout */
+    @Column()
+    entryCount: number;
+
+    @Column({ nullable: true })
+    paidAt: Date | null;
+
+    /** Reference of the bank or payment provider transfer */
+    @Column({ type: 'varchar', nullable: true })
+    reference: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    failureReason: string | null;
+}
@@ -0,0 +1,208 @@
+import {
+    EventBus,
+    Injector,
+    OrderStateTransitionEvent,
+    PluginCommonModule,
+    RefundStateTransitionEvent,
+    RequestContextService,
+    ScheduledTask,
+    VendurePlugin,
+} from '@vendure/core';
+import { OnApplicationBootstrap } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import gql from 'graphql-tag';
+import { Payout } from './payout-entity';
+import { PayoutResolver } from './payout-resolver';
+import {
+    managePayoutsPermission,
+    PAYOUT_PLUGIN_OPTIONS,
+    PayoutPluginOptions,
+    PayoutService,
+} from './payout-service';
+import { SellerLedgerEntry } from './seller-ledger-entry-entity';
+
+export { PayoutService };
+
+/**
+ * Payout Plugin
+ *
+ * Ledger of what the platform owes each seller, and scheduled payout runs.
+ *
+ * Components:
+ * - SellerLedgerEntry: sales, commissions, refunds, chargebacks, adjustments (see seller-ledger-entry-entity.ts)
+ * - Payout: a batch of entries paid out to a seller; pending → paid | failed (see payout-entity.ts)
+ * - PayoutService: ledger, balances and payout runs (see payout-service.ts)
+ * - PayoutResolver: Admin API (see payout-resolver.ts)
+ * - `seller-payout-run` scheduled task, run by DefaultSchedulerPlugin
+ *
+ * Sales are credited when a seller order reaches PaymentSettled, net of the
+ * commission recorded by CommissionPlugin. Requires migrations/009_seller_payouts.sql.
+ */
+@VendurePlugin({
+    imports: [PluginCommonModule],
+    entities: [SellerLedgerEntry, Payout],
+    providers: [
+        PayoutService,
+        { provide: PAYOUT_PLUGIN_OPTIONS, useFactory: () => PayoutPlugin.options },
+    ],
+    exports: [PayoutService],
+    adminApiExtensions: {
+        schema: gql`
+            type SellerLedgerEntry implements Node {
+                id: ID!
+                createdAt: DateTime!
+                updatedAt: DateTime!
+                sellerChannelId: ID!
+                tenantId: ID
+                "sale | commission | commission-reversal | refund | chargeback | adjustment"
+                type: String!
+                "Credits are positive, debits negative"
+                amount: Money!
+                currencyCode: CurrencyCode!
+                availableAt: DateTime!
+                sellerOrderId: ID
+                refundId: ID
+                payoutId: ID
+                description: String
+            }
+
+            type SellerLedgerEntryList implements PaginatedList {
+                items: [SellerLedgerEntry!]!
+                totalItems: Int!
+            }
+
+            type Payout implements Node {
+                id: ID!
+                createdAt: DateTime!
+                updatedAt: DateTime!
+                sellerChannelId: ID!
+                tenantId: ID
+                currencyCode: CurrencyCode!
+                amount: Money!
+                "pending | paid | failed"
+                state: String!
+                entryCount: Int!
+                paidAt: DateTime
+                reference: String
+                failureReason: String
+            }
+
+            type PayoutList implements PaginatedList {
+                items: [Payout!]!
+                totalItems: Int!
+            }
+
+            type SellerBalance {
+                sellerChannelId: ID!
+                currencyCode: CurrencyCode!
+                "Included in the next payout run"
+                available: Money!
+                "Sales still within the hold period"
+                onHold: Money!
+                inPendingPayouts: Money!
+                paidOut: Money!
+            }
+
+            input SellerLedgerAdjustmentInput {
+                sellerChannelId: ID!
+                "chargeback | adjustment"
+                type: String!
+                "Chargebacks are always debited; adjustments are signed"
+                amount: Money!
+                currencyCode: CurrencyCode!
+                sellerOrderId: ID
+                description: String!
+            }
+
+            extend type Query {
+                "sellerChannelId only applies on the default channel"
+                sellerBalances(sellerChannelId: ID): [SellerBalance!]!
+                sellerLedgerEntries(sellerChannelId: ID, skip: Int, take: Int): SellerLedgerEntryList!
+                payouts(sellerChannelId: ID, state: String, skip: Int, take: Int): PayoutList!
+            }
+
+            extend type Mutation {
+                runSellerPayouts: [Payout!]!
+                markPayoutPaid(id: ID!, reference: String): Payout!
+                markPayoutFailed(id: ID!, reason: String!): Payout!
+                recordSellerLedgerAdjustment(input: SellerLedgerAdjustmentInput!): SellerLedgerEntry!
+            }
+        `,
+        resolvers: [PayoutResolver],
+    },
+    configuration: config => {
+        config.authOptions.customPermissions.push(managePayoutsPermission);
+        config.schedulerOptions.tasks.push(
+            new ScheduledTask({
+                id: 'seller-payout-run',
+                description: 'Batches the available balance of every seller into a pending payout',
+                schedule: PayoutPlugin.options.schedule ?? '0 2 * * 1',
+                async execute({ injector }) {
+                    const ctx = await injector.get(RequestContextService).create({ apiType: 'admin' });
+                    const payouts = await injector.get(PayoutService).runPayouts(ctx);
+                    return { payouts: payouts.length };
+                },
+            }),
+        );
+        return config;
+    },
+})
+export class PayoutPlugin implements OnApplicationBootstrap {
+    static options: PayoutPluginOptions = {};
+
+    constructor(
+        private moduleRef: ModuleRef,
+        private eventBus: EventBus,
+    ) {}
+
+    static init(options: PayoutPluginOptions) {
+        this.options = options;
+        return PayoutPlugin;
+    }
+
+    onApplicationBootstrap() {
+        const payoutService = new Injector(this.moduleRef).get(PayoutService);
+
+        this.eventBus.ofType(OrderStateTransitionEvent).subscribe(async event => {
+            if (event.toState !== 'PaymentSettled') {
+                return;
+            }
+            try {
+                await payoutService.recordSettledOrder(event.ctx, event.order);
+            } catch (error) {
+                console.error(`[Payout] Could not credit order ${event.order.code}:`, error);
+            }
+        });
+
+        this.eventBus.ofType(RefundStateTransitionEvent).subscribe(async event => {
+            if (event.toState !== 'Settled') {
+                return;
+            }
+            try {
+                await payoutService.recordRefund(event.ctx, event.refund, event.order);
+            } catch (error) {
+                console.error(`[Payout] Could not debit refund ${event.refund.id}:`, error);
+            }
+        });
+
+        console.log('✅ Payout Plugin initialized');
+    }
+}
+
+/**
+ * USAGE
+ * =====
+ *
+ *    PayoutPlugin.init({ schedule: '0 2 * * 1', holdDays: 7, minimumPayoutAmount: 1000 })
+ *
+ * As a seller (scoped to their channel by the isolation middleware):
+ *
+ *    query {
+ *      sellerBalances { currencyCode available onHold inPendingPayouts paidOut }
+ *      payouts { items { amount state paidAt reference } }
+ *    }
+ *
+ * As a platform operator on the default channel, after transferring the money:
+ *
+ *    mutation { markPayoutPaid(id: 42, reference: "bank-transfer-123") { state } }
+ */
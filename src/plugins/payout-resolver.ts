@@ -0,0 +1,80 @@
+/**
+ * Payout Resolver
+ *
+ * Admin API for seller balances and payouts. Reads are scoped by the active
+ * channel (see PayoutService), so sellers only see their own; managing
+ * payouts needs the `ManageSellerPayouts` permission on the default channel.
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, ID, PaginatedList, Permission, RequestContext } from '@vendure/core';
+import { Payout, PayoutState } from './payout-entity';
+import {
+    managePayoutsPermission,
+    PayoutService,
+    SellerBalance,
+    SellerLedgerAdjustmentInput,
+} from './payout-service';
+import { SellerLedgerEntry } from './seller-ledger-entry-entity';
+
+@Resolver()
+export class PayoutResolver {
+    constructor(private payoutService: PayoutService) {}
+
+    @Query()
+    @Allow(Permission.ReadOrder)
+    async sellerBalances(@Ctx() ctx: RequestContext, @Args() args: { sellerChannelId?: ID }): Promise<SellerBalance[]> {
+        return this.payoutService.getBalances(ctx, args.sellerChannelId);
+    }
+
+    @Query()
+    @Allow(Permission.ReadOrder)
+    async sellerLedgerEntries(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { sellerChannelId?: ID; skip?: number; take?: number },
+    ): Promise<PaginatedList<SellerLedgerEntry>> {
+        return this.payoutService.findEntries(ctx, args.sellerChannelId, { skip: args.skip, take: args.take });
+    }
+
+    @Query()
+    @Allow(Permission.ReadOrder)
+    async payouts(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { sellerChannelId?: ID; state?: PayoutState; skip?: number; take?: number },
+    ): Promise<PaginatedList<Payout>> {
+        return this.payoutService.findPayouts(
+            ctx,
+            { sellerChannelId: args.sellerChannelId, state: args.state },
+            { skip: args.skip, take: args.take },
+        );
+    }
+
+    @Mutation()
+    @Allow(managePayoutsPermission.Permission)
+    async runSellerPayouts(@Ctx() ctx: RequestContext): Promise<Payout[]> {
+        // The scheduled task runs payouts without this check
+        await this.payoutService.assertPlatformChannel(ctx);
+        return this.payoutService.runPayouts(ctx);
+    }
+
+    @Mutation()
+    @Allow(managePayoutsPermission.Permission)
+    async markPayoutPaid(@Ctx() ctx: RequestContext, @Args() args: { id: ID; reference?: string }): Promise<Payout> {
+        return this.payoutService.markPaid(ctx, args.id, args.reference);
+    }
+
+    @Mutation()
+    @Allow(managePayoutsPermission.Permission)
+    async markPayoutFailed(@Ctx() ctx: RequestContext, @Args() args: { id: ID; reason: string }): Promise<Payout> {
+        return this.payoutService.markFailed(ctx, args.id, args.reason);
+    }
+
+    @Mutation()
+    @Allow(managePayoutsPermission.Permission)
+    async recordSellerLedgerAdjustment(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: SellerLedgerAdjustmentInput },
+    ): Promise<SellerLedgerEntry> {
+        return this.payoutService.recordAdjustment(ctx, args.input);
+    }
+}
@@ -0,0 +1,179 @@
+import { ForbiddenError, RequestContext, UserInputError } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Payout } from './payout-entity';
+import { PayoutService } from './payout-service';
+import { SellerLedgerEntry } from './seller-ledger-entry-entity';
+
+interface FakeEntry {
+    sellerChannelId: number;
+    currencyCode: string;
+    amount: number;
+    availableAt: Date;
+    payoutId: number | null;
+}
+
+/**
+ * Just enough of TypeORM for the payout run: the balance query and the
+ * claiming UPDATE are evaluated against an in-memory ledger
+ */
+function fakeConnection(entries: FakeEntry[]) {
+    const payouts: Payout[] = [];
+    const unpaid = (params: Record<string, any>) =>
+        entries.filter(entry => entry.payoutId == null && entry.availableAt <= params.cutoff);
+
+    const queryBuilder = () => {
+        const params: Record<string, any> = {};
+        let updateSet: { payoutId: number } | undefined;
+        const builder: any = {
+            select: () => builder,
+            addSelect: () => builder,
+            groupBy: () => builder,
+            addGroupBy: () => builder,
+            returning: () => builder,
+            update: () => builder,
+            set: (values: { payoutId: number }) => ((updateSet = values), builder),
+            where: (_: string, values?: object) => (Object.assign(params, values), builder),
+            andWhere: (_: string, values?: object) => (Object.assign(params, values), builder),
+            having: (_: string, values?: object) => (Object.assign(params, values), builder),
+            getRawMany: async () => {
+                const totals = new Map<string, { sellerChannelId: number; currencyCode: string; total: number }>();
+                for (const entry of unpaid(params)) {
+                    const key = `${entry.sellerChannelId}:${entry.currencyCode}`;
+                    const total = totals.get(key) ?? { sellerChannelId: entry.sellerChannelId, currencyCode: entry.currencyCode, total: 0 };
+                    total.total += entry.amount;
+                    totals.set(key, total);
+                }
+                return [...totals.values()].filter(total => total.total >= params.minimum);
+            },
+            execute: async () => {
+                const claimed = unpaid(params).filter(
+                    entry => entry.sellerChannelId === params.sellerChannelId && entry.currencyCode === params.currencyCode,
+                );
+                claimed.forEach(entry => (entry.payoutId = updateSet!.payoutId));
+                return { raw: claimed.map(entry => ({ amount: entry.amount })) };
+            },
+        };
+        return builder;
+    };
+
+    const repositories = new Map<any, any>([
+        [SellerLedgerEntry, {
+            createQueryBuilder: queryBuilder,
+            query: async () => [{ id: 'tenant-a' }],
+            update: async (where: { payoutId: number }, values: { payoutId: null }) => {
+                entries.filter(entry => entry.payoutId === where.payoutId).forEach(entry => (entry.payoutId = values.payoutId));
+            },
+        }],
+        [Payout, {
+            save: async (payout: Payout) => {
+                if (payout.id == null) {
+                    payout.id = payouts.length + 1;
+                    payouts.push(payout);
+                }
+                return payout;
+            },
+            findOne: async ({ where }: { where: { id: number } }) => payouts.find(payout => payout.id === where.id),
+        }],
+    ]);
+    return {
+        payouts,
+        connection: {
+            getRepository: (_ctx: RequestContext, entity: any) => repositories.get(entity),
+            withTransaction: async (ctx: RequestContext, work: (txCtx: RequestContext) => Promise<any>) => work(ctx),
+        },
+    };
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+const platformCtx = { channelId: 1 } as RequestContext;
+
+function createService(entries: FakeEntry[]) {
+    const { connection, payouts } = fakeConnection(entries);
+    const channelService = { getDefaultChannel: async () => ({ id: 1 }) };
+    const service = new PayoutService(connection as any, channelService as any, {} as any, { minimumPayoutAmount: 1000 });
+    return { service, payouts };
+}
+
+describe('PayoutService payout run', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('pays out the available balance of each seller and currency, net of commission and refunds', async () => {
+        const entries: FakeEntry[] = [
+            { sellerChannelId: 2, currencyCode: 'USD', amount: 10000, availableAt: daysAgo(8), payoutId: null },
+            { sellerChannelId: 2, currencyCode: 'USD', amount: -1000, availableAt: daysAgo(8), payoutId: null },
+            { sellerChannelId: 2, currencyCode: 'USD', amount: -2500, availableAt: daysAgo(1), payoutId: null },
+            { sellerChannelId: 2, currencyCode: 'EUR', amount: 5000, availableAt: daysAgo(8), payoutId: null },
+            { sellerChannelId: 3, currencyCode: 'USD', amount: 7000, availableAt: daysAgo(8), payoutId: null },
+        ];
+        const { service } = createService(entries);
+
+        const payouts = await service.runPayouts(platformCtx);
+
+        expect(payouts.map(({ sellerChannelId, currencyCode, amount, entryCount, state, tenantId }) => ({
+            sellerChannelId, currencyCode, amount, entryCount, state, tenantId,
+        }))).toEqual([
+            { sellerChannelId: 2, currencyCode: 'USD', amount: 6500, entryCount: 3, state: 'pending', tenantId: 'tenant-a' },
+            { sellerChannelId: 2, currencyCode: 'EUR', amount: 5000, entryCount: 1, state: 'pending', tenantId: 'tenant-a' },
+            { sellerChannelId: 3, currencyCode: 'USD', amount: 7000, entryCount: 1, state: 'pending', tenantId: 'tenant-a' },
+        ]);
+        expect(entries.every(entry => entry.payoutId != null)).toBe(true);
+    });
+
+    it('holds back sales within the hold period and balances below the minimum', async () => {
+        const entries: FakeEntry[] = [
+            { sellerChannelId: 2, currencyCode: 'USD', amount: 10000, availableAt: daysAgo(-3), payoutId: null },
+            { sellerChannelId: 3, currencyCode: 'USD', amount: 999, availableAt: daysAgo(8), payoutId: null },
+        ];
+        const { service } = createService(entries);
+
+        expect(await service.runPayouts(platformCtx)).toEqual([]);
+        expect(entries.every(entry => entry.payoutId == null)).toBe(true);
+    });
+
+    it('never pays an entry out twice', async () => {
+        const entries: FakeEntry[] = [
+            { sellerChannelId: 2, currencyCode: 'USD', amount: 10000, availableAt: daysAgo(8), payoutId: null },
+        ];
+        const { service } = createService(entries);
+
+        expect(await service.runPayouts(platformCtx)).toHaveLength(1);
+        expect(await service.runPayouts(platformCtx)).toHaveLength(0);
+    });
+
+    it('returns the entries of a failed payout to the balance of the next run', async () => {
+        const entries: FakeEntry[] = [
+            { sellerChannelId: 2, currencyCode: 'USD', amount: 10000, availableAt: daysAgo(8), payoutId: null },
+        ];
+        const { service } = createService(entries);
+        const [payout] = await service.runPayouts(platformCtx);
+
+        const failed = await service.markFailed(platformCtx, payout.id, 'Bank account closed');
+
+        expect(failed).toMatchObject({ state: 'failed', failureReason: 'Bank account closed' });
+        expect(entries[0].payoutId).toBeNull();
+        const [retried] = await service.runPayouts(platformCtx);
+        expect(retried).toMatchObject({ amount: 10000, state: 'pending' });
+        await expect(service.markPaid(platformCtx, payout.id)).rejects.toBeInstanceOf(UserInputError);
+    });
+
+    it('marks a pending payout paid with its reference', async () => {
+        const { service } = createService([
+            { sellerChannelId: 2, currencyCode: 'USD', amount: 10000, availableAt: daysAgo(8), payoutId: null },
+        ]);
+        const [payout] = await service.runPayouts(platformCtx);
+
+        expect(await service.markPaid(platformCtx, payout.id, 'SEPA-123')).toMatchObject({ state: 'paid', reference: 'SEPA-123' });
+    });
+
+    it('only lets platform operators on the default channel mark payouts', async () => {
+        const { service } = createService([]);
+
+        await expect(service.markPaid({ channelId: 2 } as RequestContext, 1)).rejects.toBeInstanceOf(ForbiddenError);
+    });
+});
@@ -0,0 +1,460 @@
+/**
+ * Payout Service
+ *
+ * Keeps the ledger of what the platform owes each seller and batches it into
+ * payouts:
+ * - seller order settled → `sale` credit, minus the order's `commission`
+ * - refund settled → `refund` debit
+ * - chargebacks and corrections → recorded by a platform operator
+ * - payout run → every seller's available balance becomes a pending Payout,
+ *   later marked paid or failed (a failed payout returns to the balance)
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { OrderType } from '@vendure/common/lib/generated-types';
+import {
+    ChannelService,
+    ForbiddenError,
+    ID,
+    Order,
+    OrderService,
+    PaginatedList,
+    PermissionDefinition,
+    Refund,
+    RequestContext,
+    TransactionalConnection,
+    UserInputError,
+} from '@vendure/core';
+import { Commission } from './commission-entity';
+import { allocateProportionally } from './money-allocation';
+import { Payout, PayoutState } from './payout-entity';
+import { SellerLedgerEntry, SellerLedgerEntryType } from './seller-ledger-entry-entity';
+
+/**
+ * Permission to run payouts, mark them paid or failed and record ledger adjustments
+ * (platform operators only - the mutations are also restricted to the default channel)
+ */
+export const managePayoutsPermission = new PermissionDefinition({
+    name: 'ManageSellerPayouts',
+    description: 'Allows running seller payouts and adjusting seller balances',
+});
+
+export interface PayoutPluginOptions {
+    /** Cron expression of the payout run (default: Mondays at 02:00) */
+    schedule?: string;
+    /** Days a sale is held back before it can be paid out, to cover refunds (default: 7) */
+    holdDays?: number;
+    /** Balances below this, in minor units, roll over to the next run (default: 1000) */
+    minimumPayoutAmount?: number;
+}
+
+export const PAYOUT_PLUGIN_OPTIONS = Symbol('PAYOUT_PLUGIN_OPTIONS');
+
+export interface SellerBalance {
+    sellerChannelId: ID;
+    currencyCode: string;
+    /** Paid out in the next run */
+    available: number;
+    /** Sales still within the hold period */
+    onHold: number;
+    inPendingPayouts: number;
+    paidOut: number;
+}
+
+export interface SellerLedgerAdjustmentInput {
+    sellerChannelId: ID;
+    type: 'chargeback' | 'adjustment';
+    /** Minor units. Chargebacks are always debited. */
+    amount: number;
+    currencyCode: string;
+    sellerOrderId?: ID | null;
+    description: string;
+}
+
+@Injectable()
+export class PayoutService {
+    constructor(
+        private connection: TransactionalConnection,
+        private channelService: ChannelService,
+        private orderService: OrderService,
+        @Inject(PAYOUT_PLUGIN_OPTIONS) private options: PayoutPluginOptions,
+    ) {}
+
+    /**
+     * Credit the seller orders of a settled order, net of commission.
+     * Called for both the aggregate order and seller orders; each seller order is credited once.
+     */
+    async recordSettledOrder(ctx: RequestContext, order: Order): Promise<void> {
+        const sellerOrders = order.type === OrderType.Aggregate
+            ? await this.orderService.getSellerOrders(ctx, order)
+            : order.type === OrderType.Seller ? [order] : [];
+
+        for (const sellerOrder of sellerOrders) {
+            // The sale and its commission are recorded together: a sale entry without
+            // its commission would be skipped by later events and paid out in full
+            await this.connection.withTransaction(ctx, async txCtx => {
+                const existing = await this.connection.getRepository(txCtx, SellerLedgerEntry).findOne({
+                    where: { sellerOrderId: sellerOrder.id, type: 'sale' },
+                });
+                if (existing) {
+                    return;
+                }
+                const sellerChannelId = await this.getSellerChannelId(txCtx, sellerOrder.id);
+                if (sellerChannelId == null) {
+                    return;
+                }
+                const tenantId = await this.getTenantId(txCtx, sellerChannelId);
+                const holdDays = this.options.holdDays ?? 7;
+
+                await this.saveEntry(txCtx, {
+                    sellerChannelId,
+                    tenantId,
+                    type: 'sale',
+                    amount: sellerOrder.totalWithTax,
+                    currencyCode: sellerOrder.currencyCode,
+                    availableAt: new Date(Date.now() + holdDays * 24 * 60 * 60 * 1000),
+                    sellerOrderId: sellerOrder.id,
+                    description: `Order ${sellerOrder.code}`,
+                });
+
+                const commission = await this.connection
+                    .getRepository(txCtx, Commission)
+                    .createQueryBuilder('commission')
+                    .select('COALESCE(SUM(commission.amount - commission.reversedAmount), 0)', 'total')
+                    .where('commission.sellerOrderId = :sellerOrderId', { sellerOrderId: sellerOrder.id })
+                    .getRawOne();
+                const commissionTotal = Number(commission?.total ?? 0);
+                if (commissionTotal > 0) {
+                    await this.saveEntry(txCtx, {
+                        sellerChannelId,
+                        tenantId,
+                        type: 'commission',
+                        amount: -commissionTotal,
+                        currencyCode: sellerOrder.currencyCode,
+                        sellerOrderId: sellerOrder.id,
+                        description: `Commission on order ${sellerOrder.code}`,
+                    });
+                }
+            });
+        }
+    }
+
+    /**
+     * Debit a settled refund. A refund on the aggregate order is split across
+     * its seller orders in proportion to their totals.
+     */
+    async recordRefund(ctx: RequestContext, refund: Refund, order: Order): Promise<void> {
+        const existing = await this.connection.getRepository(ctx, SellerLedgerEntry).count({
+            where: { refundId: refund.id, type: 'refund' },
+        });
+        if (existing > 0) {
+            return;
+        }
+        const sellerOrders = order.type === OrderType.Aggregate
+            ? await this.orderService.getSellerOrders(ctx, order)
+            : order.type === OrderType.Seller ? [order] : [];
+        const amounts = allocateProportionally(refund.total, sellerOrders.map(sellerOrder => sellerOrder.totalWithTax));
+
+        for (const [index, sellerOrder] of sellerOrders.entries()) {
+            const sellerChannelId = await this.getSellerChannelId(ctx, sellerOrder.id);
+            if (sellerChannelId == null || amounts[index] === 0) {
+                continue;
+            }
+            await this.saveEntry(ctx, {
+                sellerChannelId,
+                tenantId: await this.getTenantId(ctx, sellerChannelId),
+                type: 'refund',
+                amount: -amounts[index],
+                currencyCode: sellerOrder.currencyCode,
+                sellerOrderId: sellerOrder.id,
+                refundId: refund.id,
+                description: `Refund on order ${sellerOrder.code}`,
+            });
+        }
+    }
+
+    /**
+     * Credit commission given back on a refund or cancellation. Only needed once
+     * the order's commission was debited; before that, the sale is credited net
+     * of the reversal.
+     */
+    async recordCommissionReversal(
+        ctx: RequestContext,
+        sellerOrder: Order,
+        amount: number,
+        refundId?: ID | null,
+    ): Promise<void> {
+        if (amount <= 0) {
+            return;
+        }
+        const commissionEntry = await this.connection.getRepository(ctx, SellerLedgerEntry).findOne({
+            where: { sellerOrderId: sellerOrder.id, type: 'commission' },
+        });
+        if (!commissionEntry) {
+            return;
+        }
+        await this.saveEntry(ctx, {
+            sellerChannelId: commissionEntry.sellerChannelId,
+            tenantId: commissionEntry.tenantId,
+            type: 'commission-reversal',
+            amount,
+            currencyCode: sellerOrder.currencyCode,
+            sellerOrderId: sellerOrder.id,
+            refundId: refundId ?? null,
+            description: `Commission given back on order ${sellerOrder.code}`,
+        });
+    }
+
+    /**
+     * Record a chargeback or manual correction. Platform operators only.
+     */
+    async recordAdjustment(ctx: RequestContext, input: SellerLedgerAdjustmentInput): Promise<SellerLedgerEntry> {
+        await this.assertPlatformChannel(ctx);
+        if (!input.description?.trim()) {
+            throw new UserInputError('A ledger adjustment needs a description');
+        }
+        if (!Number.isInteger(input.amount) || input.amount === 0) {
+            throw new UserInputError('amount must be a non-zero integer in minor units');
+        }
+        return this.saveEntry(ctx, {
+            sellerChannelId: input.sellerChannelId,
+            tenantId: await this.getTenantId(ctx, input.sellerChannelId),
+            type: input.type,
+            amount: input.type === 'chargeback' ? -Math.abs(input.amount) : input.amount,
+            currencyCode: input.currencyCode,
+            sellerOrderId: input.sellerOrderId ?? null,
+            description: `${input.description.trim()} (by user ${ctx.activeUserId ?? 'unknown'})`,
+        });
+    }
+
+    /**
+     * Turn every seller's available balance into a pending Payout.
+     * Called by the `seller-payout-run` scheduled task, and by the runSellerPayouts
+     * mutation after PayoutResolver has checked the channel.
+     */
+    async runPayouts(ctx: RequestContext): Promise<Payout[]> {
+        const cutoff = new Date();
+        const minimum = this.options.minimumPayoutAmount ?? 1000;
+        const balances = await this.connection
+            .getRepository(ctx, SellerLedgerEntry)
+            .createQueryBuilder('entry')
+            .select('entry.sellerChannelId', 'sellerChannelId')
+            .addSelect('entry.currencyCode', 'currencyCode')
+            .addSelect('SUM(entry.amount)', 'total')
+            .where('entry.payoutId IS NULL')
+            .andWhere('entry.availableAt <= :cutoff', { cutoff })
+            .groupBy('entry.sellerChannelId')
+            .addGroupBy('entry.currencyCode')
+            .having('SUM(entry.amount) >= :minimum', { minimum })
+            .getRawMany();
+
+        const payouts: Payout[] = [];
+        for (const balance of balances) {
+            try {
+                const payout = await this.connection.withTransaction(ctx, async txCtx => {
+                    const repository = this.connection.getRepository(txCtx, Payout);
+                    const created = await repository.save(new Payout({
+                        sellerChannelId: balance.sellerChannelId,
+                        tenantId: await this.getTenantId(txCtx, balance.sellerChannelId),
+                        currencyCode: balance.currencyCode,
+                        amount: 0,
+                        state: 'pending',
+                        entryCount: 0,
+                        paidAt: null,
+                        reference: null,
+                        failureReason: null,
+                    }));
+                    // Claims the entries, so a concurrent run cannot pay them out twice
+                    const claimed = await this.connection
+                        .getRepository(txCtx, SellerLedgerEntry)
+                        .createQueryBuilder()
+                        .update(SellerLedgerEntry)
+                        .set({ payoutId: created.id })
+                        .where('sellerChannelId = :sellerChannelId', { sellerChannelId: balance.sellerChannelId })
+                        .andWhere('currencyCode = :currencyCode', { currencyCode: balance.currencyCode })
+                        .andWhere('payoutId IS NULL')
+                        .andWhere('availableAt <= :cutoff', { cutoff })
+                        .returning(['amount'])
+                        .execute();
+                    const rows: Array<{ amount: number }> = claimed.raw ?? [];
+                    created.amount = rows.reduce((sum, row) => sum + Number(row.amount), 0);
+                    created.entryCount = rows.length;
+                    if (created.amount < minimum) {
+                        throw new Error(`Balance changed to ${created.amount} during the run`);
+                    }
+                    return repository.save(created);
+                });
+                payouts.push(payout);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`[Payout] Skipped seller channel ${balance.sellerChannelId}:`, message);
+            }
+        }
+        console.log(`[Payout] Payout run created ${payouts.length} payouts`);
+        return payouts;
+    }
+
+    async markPaid(ctx: RequestContext, id: ID, reference?: string | null): Promise<Payout> {
+        await this.assertPlatformChannel(ctx);
+        const payout = await this.getPendingPayout(ctx, id);
+        payout.state = 'paid';
+        payout.paidAt = new Date();
+        payout.reference = reference ?? null;
+        return this.connection.getRepository(ctx, Payout).save(payout);
+    }
+
+    /**
+     * The payout's entries return to the seller's balance for the next run
+     */
+    async markFailed(ctx: RequestContext, id: ID, reason: string): Promise<Payout> {
+        await this.assertPlatformChannel(ctx);
+        const payout = await this.getPendingPayout(ctx, id);
+        payout.state = 'failed';
+        payout.failureReason = reason;
+        await this.connection
+            .getRepository(ctx, SellerLedgerEntry)
+            .update({ payoutId: payout.id }, { payoutId: null });
+        return this.connection.getRepository(ctx, Payout).save(payout);
+    }
+
+    async getBalances(ctx: RequestContext, sellerChannelId?: ID | null): Promise<SellerBalance[]> {
+        const scope = await this.getSellerScope(ctx, sellerChannelId);
+        const params: any[] = [new Date()];
+        const where = scope != null ? (params.push(scope), `WHERE e."sellerChannelId" = $2`) : '';
+        const rows = await this.connection.getRepository(ctx, SellerLedgerEntry).query(
+            `SELECT e."sellerChannelId", e."currencyCode",
+                    COALESCE(SUM(e.amount) FILTER (WHERE e."payoutId" IS NULL AND e."availableAt" <= $1), 0) AS available,
+                    COALESCE(SUM(e.amount) FILTER (WHERE e."payoutId" IS NULL AND e."availableAt" > $1), 0) AS on_hold,
+                    COALESCE(SUM(e.amount) FILTER (WHERE p.state = 'pending'), 0) AS in_pending_payouts,
+                    COALESCE(SUM(e.amount) FILTER (WHERE p.state = 'paid'), 0) AS paid_out
+             FROM seller_ledger_entry e
+             LEFT JOIN payout p ON p.id = e."payoutId"
+             ${where}
+             GROUP BY e."sellerChannelId", e."currencyCode"
+             ORDER BY e."sellerChannelId"`,
+            params
+        );
+        return rows.map((row: any) => ({
+            sellerChannelId: row.sellerChannelId,
+            currencyCode: row.currencyCode,
+            available: Number(row.available),
+            onHold: Number(row.on_hold),
+            inPendingPayouts: Number(row.in_pending_payouts),
+            paidOut: Number(row.paid_out),
+        }));
+    }
+
+    async findEntries(
+        ctx: RequestContext,
+        sellerChannelId?: ID | null,
+        options: { skip?: number; take?: number } = {},
+    ): Promise<PaginatedList<SellerLedgerEntry>> {
+        const scope = await this.getSellerScope(ctx, sellerChannelId);
+        const qb = this.connection
+            .getRepository(ctx, SellerLedgerEntry)
+            .createQueryBuilder('entry')
+            .orderBy('entry.createdAt', 'DESC')
+            .skip(options.skip ?? 0)
+            .take(Math.min(options.take ?? 50, 500));
+        if (scope != null) {
+            qb.where('entry.sellerChannelId = :scope', { scope });
+        }
+        const [items, totalItems] = await qb.getManyAndCount();
+        return { items, totalItems };
+    }
+
+    async findPayouts(
+        ctx: RequestContext,
+        filter: { sellerChannelId?: ID | null; state?: PayoutState | null } = {},
+        options: { skip?: number; take?: number } = {},
+    ): Promise<PaginatedList<Payout>> {
+        const scope = await this.getSellerScope(ctx, filter.sellerChannelId);
+        const qb = this.connection
+            .getRepository(ctx, Payout)
+            .createQueryBuilder('payout')
+            .orderBy('payout.createdAt', 'DESC')
+            .skip(options.skip ?? 0)
+            .take(Math.min(options.take ?? 50, 500));
+        if (scope != null) {
+            qb.andWhere('payout.sellerChannelId = :scope', { scope });
+        }
+        if (filter.state) {
+            qb.andWhere('payout.state = :state', { state: filter.state });
+        }
+        const [items, totalItems] = await qb.getManyAndCount();
+        return { items, totalItems };
+    }
+
+    /**
+     * Sellers are always on their own channel (the isolation middleware puts
+     * them there), so only their own ledger is visible. On the default channel
+     * (platform operators) everything is, optionally filtered by seller.
+     */
+    private async getSellerScope(ctx: RequestContext, requested?: ID | null): Promise<ID | null> {
+        const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+        if (String(ctx.channelId) !== String(defaultChannel.id)) {
+            return ctx.channelId;
+        }
+        return requested ?? null;
+    }
+
+    /**
+     * Payout mutations are for platform operators, on the default channel
+     */
+    async assertPlatformChannel(ctx: RequestContext): Promise<void> {
+        const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+        if (String(ctx.channelId) !== String(defaultChannel.id)) {
+            throw new ForbiddenError();
+        }
+    }
+
+    private async getPendingPayout(ctx: RequestContext, id: ID): Promise<Payout> {
+        const payout = await this.connection.getRepository(ctx, Payout).findOne({ where: { id } });
+        if (!payout) {
+            throw new UserInputError(`Payout ${id} not found`);
+        }
+        if (payout.state !== 'pending') {
+            throw new UserInputError(`Payout ${id} is already ${payout.state}`);
+        }
+        return payout;
+    }
+
+    private async saveEntry(
+        ctx: RequestContext,
+        input: {
+            sellerChannelId: ID;
+            tenantId: string | null;
+            type: SellerLedgerEntryType;
+            amount: number;
+            currencyCode: string;
+            availableAt?: Date;
+            sellerOrderId?: ID | null;
+            refundId?: ID | null;
+            description: string;
+        },
+    ): Promise<SellerLedgerEntry> {
+        return this.connection.getRepository(ctx, SellerLedgerEntry).save(new SellerLedgerEntry({
+            ...input,
+            availableAt: input.availableAt ?? new Date(),
+            sellerOrderId: input.sellerOrderId ?? null,
+            refundId: input.refundId ?? null,
+            payoutId: null,
+        }));
+    }
+
+    private async getSellerChannelId(ctx: RequestContext, sellerOrderId: ID): Promise<ID | undefined> {
+        const result = await this.connection.getRepository(ctx, SellerLedgerEntry).query(
+            `SELECT "sellerChannelId" FROM order_line WHERE "orderId" = $1 AND "sellerChannelId" IS NOT NULL LIMIT 1`,
+            [sellerOrderId]
+        );
+        return result.length ? result[0].sellerChannelId : undefined;
+    }
+
+    private async getTenantId(ctx: RequestContext, sellerChannelId: ID): Promise<string | null> {
+        const result = await this.connection.getRepository(ctx, SellerLedgerEntry).query(
+            `SELECT id FROM tenants WHERE vendure_channel_id = $1 LIMIT 1`,
+            [sellerChannelId]
+        );
+        return result.length ? result[0].id : null;
+    }
+}
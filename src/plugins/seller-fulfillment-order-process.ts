@@ -0,0 +1,25 @@
+/**
+ * Seller Fulfillment Order Process
+ *
+ * Guards the (Partially)Shipped / (Partially)Delivered order states in place
+ * of the default order process's fulfillment checks: an aggregate order
+ * follows its seller orders, every other order its own fulfillments.
+ */
+
+import { Injector, OrderProcess, OrderState } from '@vendure/core';
+import { SellerFulfillmentService } from './seller-fulfillment-service';
+
+let sellerFulfillmentService: SellerFulfillmentService | undefined;
+
+export const sellerFulfillmentOrderProcess: OrderProcess<OrderState> = {
+    init(injector: Injector) {
+        sellerFulfillmentService = injector.get(SellerFulfillmentService);
+    },
+
+    async onTransitionStart(fromState, toState, { ctx, order }) {
+        if (!sellerFulfillmentService) {
+            return;
+        }
+        return sellerFulfillmentService.checkFulfillmentTransition(ctx, order, toState);
+    },
+};
@@ -0,0 +1,138 @@
+import { EventBus, Injector, OrderStateTransitionEvent, PluginCommonModule, VendurePlugin } from '@vendure/core';
+import { OrderType } from '@vendure/common/lib/generated-types';
+import { OnApplicationBootstrap } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import gql from 'graphql-tag';
+import { sellerFulfillmentOrderProcess } from './seller-fulfillment-order-process';
+import { SellerFulfillmentAdminResolver, SellerShipmentsShopResolver } from './seller-fulfillment-resolver';
+import { SellerFulfillmentService } from './seller-fulfillment-service';
+
+export { SellerFulfillmentService };
+
+const FULFILLMENT_STATES = ['PartiallyShipped', 'Shipped', 'PartiallyDelivered', 'Delivered', 'Cancelled'];
+
+/**
+ * Seller Fulfillment Plugin
+ *
+ * Sellers ship their own seller orders; the customer's aggregate order follows.
+ *
+ * Components:
+ * - SellerFulfillmentService: seller-scoped fulfillments, aggregate order state (see seller-fulfillment-service.ts)
+ * - sellerFulfillmentOrderProcess: fulfillment state checks that understand aggregate orders
+ *   (see seller-fulfillment-order-process.ts)
+ * - SellerFulfillmentAdminResolver: Admin API `fulfillSellerOrder`, `transitionSellerFulfillment`
+ * - SellerShipmentsShopResolver: Shop API `Order.sellerShipments` (see seller-fulfillment-resolver.ts)
+ *
+ * Requires the default order process to be configured with
+ * `checkFulfillmentStates: false` (see vendure-config.ts).
+ */
+@VendurePlugin({
+    imports: [PluginCommonModule],
+    providers: [SellerFulfillmentService],
+    exports: [SellerFulfillmentService],
+    adminApiExtensions: {
+        schema: gql`
+            input SellerFulfillmentLineInput {
+                orderLineId: ID!
+                quantity: Int!
+            }
+
+            input FulfillSellerOrderInput {
+                "A seller order"
+                orderId: ID!
+                "Defaults to everything not fulfilled yet"
+                lines: [SellerFulfillmentLineInput!]
+                carrier: String!
+                trackingCode: String
+            }
+
+            extend type Mutation {
+                fulfillSellerOrder(input: FulfillSellerOrderInput!): Fulfillment!
+                "state: Shipped | Delivered | Cancelled"
+                transitionSellerFulfillment(id: ID!, state: String!): Fulfillment!
+            }
+        `,
+        resolvers: [SellerFulfillmentAdminResolver],
+    },
+    shopApiExtensions: {
+        schema: gql`
+            type SellerShipmentLine {
+                productVariantId: ID!
+                quantity: Int!
+            }
+
+            type SellerShipmentFulfillment {
+                id: ID!
+                state: String!
+                carrier: String!
+                trackingCode: String
+                createdAt: DateTime!
+                updatedAt: DateTime!
+                lines: [SellerShipmentLine!]!
+            }
+
+            type SellerShipment {
+                sellerChannelId: ID!
+                sellerName: String!
+                sellerOrderCode: String!
+                state: String!
+                fulfillments: [SellerShipmentFulfillment!]!
+            }
+
+            extend type Order {
+                "One entry per seller of a multi-seller order, empty otherwise"
+                sellerShipments: [SellerShipment!]!
+            }
+        `,
+        resolvers: [SellerShipmentsShopResolver],
+    },
+    configuration: config => {
+        config.orderOptions.process.push(sellerFulfillmentOrderProcess);
+        return config;
+    },
+})
+export class SellerFulfillmentPlugin implements OnApplicationBootstrap {
+    constructor(
+        private moduleRef: ModuleRef,
+        private eventBus: EventBus,
+    ) {}
+
+    onApplicationBootstrap() {
+        const sellerFulfillmentService = new Injector(this.moduleRef).get(SellerFulfillmentService);
+
+        this.eventBus.ofType(OrderStateTransitionEvent).subscribe(async event => {
+            if (event.order.type !== OrderType.Seller || !FULFILLMENT_STATES.includes(event.toState)) {
+                return;
+            }
+            try {
+                await sellerFulfillmentService.syncAggregateState(event.order);
+            } catch (error) {
+                console.error(`[SellerFulfillment] Could not update the aggregate order of ${event.order.code}:`, error);
+            }
+        });
+
+        console.log('✅ Seller Fulfillment Plugin initialized');
+    }
+}
+
+/**
+ * USAGE
+ * =====
+ *
+ * As a seller, ship everything left on a seller order, then confirm delivery:
+ *
+ *    mutation {
+ *      fulfillSellerOrder(input: { orderId: 88, carrier: "DHL", trackingCode: "JD0146000000" }) { id state }
+ *    }
+ *    mutation { transitionSellerFulfillment(id: 12, state: "Shipped") { state } }
+ *    mutation { transitionSellerFulfillment(id: 12, state: "Delivered") { state } }
+ *
+ * As the customer:
+ *
+ *    query {
+ *      orderByCode(code: "ABC123") {
+ *        state
+ *        sellerShipments { sellerName state fulfillments { carrier trackingCode state } }
+ *      }
+ *    }
+ */
@@ -0,0 +1,51 @@
+/**
+ * Seller Fulfillment Resolvers
+ *
+ * Admin API: sellers fulfil their own seller orders (scoped by the active
+ * channel, see SellerFulfillmentService).
+ * Shop API: per-seller shipments and tracking on the customer's order.
+ */
+
+import { Args, Mutation, Parent, ResolveField, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, Fulfillment, ID, Order, Permission, RequestContext, Transaction } from '@vendure/core';
+import {
+    FulfillSellerOrderInput,
+    SellerFulfillmentService,
+    SellerFulfillmentState,
+    SellerShipment,
+} from './seller-fulfillment-service';
+
+@Resolver()
+export class SellerFulfillmentAdminResolver {
+    constructor(private sellerFulfillmentService: SellerFulfillmentService) {}
+
+    @Mutation()
+    @Transaction()
+    @Allow(Permission.UpdateOrder)
+    async fulfillSellerOrder(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: FulfillSellerOrderInput },
+    ): Promise<Fulfillment> {
+        return this.sellerFulfillmentService.fulfillSellerOrder(ctx, args.input);
+    }
+
+    @Mutation()
+    @Transaction()
+    @Allow(Permission.UpdateOrder)
+    async transitionSellerFulfillment(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { id: ID; state: SellerFulfillmentState },
+    ): Promise<Fulfillment> {
+        return this.sellerFulfillmentService.transitionFulfillment(ctx, args.id, args.state);
+    }
+}
+
+@Resolver('Order')
+export class SellerShipmentsShopResolver {
+    constructor(private sellerFulfillmentService: SellerFulfillmentService) {}
+
+    @ResolveField()
+    async sellerShipments(@Ctx() ctx: RequestContext, @Parent() order: Order): Promise<SellerShipment[]> {
+        return this.sellerFulfillmentService.getSellerShipments(ctx, order);
+    }
+}
@@ -0,0 +1,152 @@
+import { OrderType } from '@vendure/common/lib/generated-types';
+import { Order, RequestContext, TRANSACTION_MODE_METADATA_KEY, UserInputError } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SellerFulfillmentAdminResolver } from './seller-fulfillment-resolver';
+import { SellerFulfillmentService } from './seller-fulfillment-service';
+
+const sellerCtx = { channelId: 2 } as RequestContext;
+
+const sellerOrder = {
+    id: 5,
+    code: 'SELLER1',
+    type: OrderType.Seller,
+    aggregateOrderId: 4,
+    state: 'PaymentSettled',
+    lines: [
+        { id: 51, quantity: 2, sellerChannelId: 2 },
+        { id: 52, quantity: 1, sellerChannelId: 2 },
+    ],
+} as unknown as Order;
+
+function createService(options: {
+    orders?: Order[];
+    fulfillmentLines?: Array<{ orderLineId: number; quantity: number; state: string }>;
+    sellerOrders?: Array<Partial<Order>>;
+} = {}) {
+    const fulfillmentLines = (options.fulfillmentLines ?? []).map(({ state, ...line }) => ({ ...line, fulfillment: { state } }));
+    const query = vi.fn(async () => [{ orderId: 5 }]);
+    const connection = { getRepository: () => ({ find: async () => fulfillmentLines, query }) };
+    const orders = options.orders ?? [sellerOrder];
+    const orderService = {
+        // Channel-scoped: only finds the orders of the active channel
+        findOne: vi.fn(async (_ctx: RequestContext, id: number) => orders.find(order => order.id === id)),
+        createFulfillment: vi.fn(async (_ctx: RequestContext, input: object) => ({ id: 9, ...input })),
+        transitionFulfillmentToState: vi.fn(async (_ctx: RequestContext, id: number, state: string) => ({ id, state })),
+        getSellerOrders: vi.fn(async () => options.sellerOrders ?? []),
+        transitionToState: vi.fn(async (_ctx: RequestContext, id: number, state: string) => ({ id, state })),
+    };
+    const requestContextService = { create: vi.fn(async () => ({ channelId: 1 })) };
+    const service = new SellerFulfillmentService(connection as any, orderService as any, requestContextService as any);
+    return { service, orderService, query };
+}
+
+describe('SellerFulfillmentService', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('fulfils everything not fulfilled yet with the carrier and tracking code', async () => {
+        const { service, orderService } = createService({
+            fulfillmentLines: [
+                { orderLineId: 51, quantity: 1, state: 'Shipped' },
+                { orderLineId: 52, quantity: 1, state: 'Cancelled' },
+            ],
+        });
+
+        await service.fulfillSellerOrder(sellerCtx, { orderId: 5, carrier: ' DHL ', trackingCode: 'JD0001' });
+
+        expect(orderService.findOne).toHaveBeenCalledWith(sellerCtx, 5, ['lines']);
+        expect(orderService.createFulfillment).toHaveBeenCalledWith(sellerCtx, {
+            lines: [
+                { orderLineId: 51, quantity: 1 },
+                { orderLineId: 52, quantity: 1 },
+            ],
+            handler: {
+                code: 'manual-fulfillment',
+                arguments: [
+                    { name: 'method', value: 'DHL' },
+                    { name: 'trackingCode', value: 'JD0001' },
+                ],
+            },
+        });
+    });
+
+    it('cannot fulfil an order outside the active channel, or an order that is not a seller order', async () => {
+        const { service, orderService } = createService({ orders: [{ ...sellerOrder, id: 4, type: OrderType.Aggregate } as Order] });
+
+        await expect(service.fulfillSellerOrder(sellerCtx, { orderId: 5, carrier: 'DHL' })).rejects.toThrow(
+            'Seller order 5 not found',
+        );
+        await expect(service.fulfillSellerOrder(sellerCtx, { orderId: 4, carrier: 'DHL' })).rejects.toThrow(
+            'Seller order 4 not found',
+        );
+        expect(orderService.createFulfillment).not.toHaveBeenCalled();
+    });
+
+    it('rejects fulfillments without a carrier, of other orders lines, or of a fulfilled order', async () => {
+        const { service } = createService({
+            fulfillmentLines: [
+                { orderLineId: 51, quantity: 2, state: 'Pending' },
+                { orderLineId: 52, quantity: 1, state: 'Delivered' },
+            ],
+        });
+
+        await expect(service.fulfillSellerOrder(sellerCtx, { orderId: 5, carrier: ' ' })).rejects.toBeInstanceOf(UserInputError);
+        await expect(
+            service.fulfillSellerOrder(sellerCtx, { orderId: 5, carrier: 'DHL', lines: [{ orderLineId: 61, quantity: 1 }] }),
+        ).rejects.toThrow('Order line 61 is not part of order SELLER1');
+        await expect(service.fulfillSellerOrder(sellerCtx, { orderId: 5, carrier: 'DHL' })).rejects.toThrow(
+            'Order SELLER1 has nothing left to fulfil',
+        );
+    });
+
+    it('only transitions fulfillments of seller orders in the active channel', async () => {
+        const { service, orderService } = createService({ orders: [] });
+
+        await expect(service.transitionFulfillment(sellerCtx, 9, 'Shipped')).rejects.toThrow('Seller order 5 not found');
+        await expect(service.transitionFulfillment(sellerCtx, 9, 'Pending' as any)).rejects.toBeInstanceOf(UserInputError);
+        expect(orderService.transitionFulfillmentToState).not.toHaveBeenCalled();
+
+        const { service: ownService } = createService();
+        expect(await ownService.transitionFulfillment(sellerCtx, 9, 'Delivered')).toEqual({ id: 9, state: 'Delivered' });
+    });
+
+    it('only lets a seller order be shipped or delivered as far as its fulfillments are', async () => {
+        const { service } = createService({ fulfillmentLines: [{ orderLineId: 51, quantity: 2, state: 'Shipped' }] });
+
+        expect(await service.checkFulfillmentTransition(sellerCtx, sellerOrder, 'PartiallyShipped')).toBeUndefined();
+        expect(await service.checkFulfillmentTransition(sellerCtx, sellerOrder, 'Shipped')).toBe(
+            'Order SELLER1 cannot be Shipped until its fulfillments are',
+        );
+        expect(await service.checkFulfillmentTransition(sellerCtx, sellerOrder, 'Cancelled')).toBeUndefined();
+    });
+
+    it('moves the aggregate order along with its seller orders, ignoring cancelled ones', async () => {
+        const aggregateOrder = { id: 4, code: 'AGG1', type: OrderType.Aggregate, state: 'PaymentSettled', lines: [] } as unknown as Order;
+        const { service, orderService } = createService({
+            orders: [aggregateOrder],
+            sellerOrders: [{ state: 'Delivered' }, { state: 'Shipped' }, { state: 'Cancelled' }],
+        });
+
+        await service.syncAggregateState(sellerOrder);
+        expect(orderService.transitionToState).toHaveBeenCalledWith({ channelId: 1 }, 4, 'PartiallyDelivered');
+
+        expect(await service.checkFulfillmentTransition(sellerCtx, aggregateOrder, 'Delivered')).toBe(
+            'Order AGG1 cannot be Delivered until its seller orders are',
+        );
+        expect(await service.checkFulfillmentTransition(sellerCtx, aggregateOrder, 'Shipped')).toBeUndefined();
+    });
+});
+
+describe('SellerFulfillmentAdminResolver', () => {
+    it('runs the fulfillment mutations in a transaction', () => {
+        const { prototype } = SellerFulfillmentAdminResolver;
+
+        expect(Reflect.getMetadata(TRANSACTION_MODE_METADATA_KEY, prototype.fulfillSellerOrder)).toBe('auto');
+        expect(Reflect.getMetadata(TRANSACTION_MODE_METADATA_KEY, prototype.transitionSellerFulfillment)).toBe('auto');
+    });
+});
@@ -0,0 +1,330 @@
+/**
+ * Seller Fulfillment Service
+ *
+ * Sellers fulfil the lines of their own seller orders; the aggregate order the
+ * customer placed follows along:
+ * - fulfillments are created on seller orders only, with carrier and tracking
+ *   code (manual fulfillment handler)
+ * - a seller order becomes Shipped / Delivered through its fulfillments
+ *   (Vendure's default order process)
+ * - the aggregate order becomes (Partially)Shipped / (Partially)Delivered from
+ *   the states of its seller orders, as it has no fulfillments of its own
+ */
+
+import { Injectable } from '@nestjs/common';
+import { OrderType } from '@vendure/common/lib/generated-types';
+import {
+    Channel,
+    Fulfillment,
+    FulfillmentLine,
+    ID,
+    idsAreEqual,
+    isGraphQlErrorResult,
+    manualFulfillmentHandler,
+    Order,
+    OrderService,
+    OrderState,
+    RequestContext,
+    RequestContextService,
+    TransactionalConnection,
+    UserInputError,
+} from '@vendure/core';
+import { In } from 'typeorm';
+
+export interface FulfillSellerOrderInput {
+    orderId: ID;
+    /** Defaults to everything not fulfilled yet */
+    lines?: Array<{ orderLineId: ID; quantity: number }> | null;
+    carrier: string;
+    trackingCode?: string | null;
+}
+
+export type SellerFulfillmentState = 'Shipped' | 'Delivered' | 'Cancelled';
+
+export interface SellerShipment {
+    sellerChannelId: ID;
+    sellerName: string;
+    sellerOrderCode: string;
+    state: string;
+    fulfillments: Array<{
+        id: ID;
+        state: string;
+        carrier: string;
+        trackingCode: string | null;
+        createdAt: Date;
+        updatedAt: Date;
+        lines: Array<{ productVariantId: ID; quantity: number }>;
+    }>;
+}
+
+/**
+ * How far along fulfillment one line (or, for aggregate orders, one seller order) is
+ */
+interface FulfillmentProgress {
+    anyShipped: boolean;
+    fullyShipped: boolean;
+    anyDelivered: boolean;
+    fullyDelivered: boolean;
+}
+
+const FULFILLMENT_ORDER_STATES: OrderState[] = ['PartiallyShipped', 'Shipped', 'PartiallyDelivered', 'Delivered'];
+
+@Injectable()
+export class SellerFulfillmentService {
+    constructor(
+        private connection: TransactionalConnection,
+        private orderService: OrderService,
+        private requestContextService: RequestContextService,
+    ) {}
+
+    async fulfillSellerOrder(ctx: RequestContext, input: FulfillSellerOrderInput): Promise<Fulfillment> {
+        if (!input.carrier?.trim()) {
+            throw new UserInputError('A carrier is required');
+        }
+        const order = await this.getSellerOrder(ctx, input.orderId);
+        const unfulfilled = await this.getUnfulfilledQuantities(ctx, order);
+        const lines = input.lines?.length
+            ? input.lines
+            : order.lines
+                  .map(line => ({ orderLineId: line.id, quantity: unfulfilled.get(String(line.id)) ?? 0 }))
+                  .filter(line => line.quantity > 0);
+        if (!lines.length) {
+            throw new UserInputError(`Order ${order.code} has nothing left to fulfil`);
+        }
+        for (const line of lines) {
+            if (!order.lines.some(orderLine => idsAreEqual(orderLine.id, line.orderLineId))) {
+                throw new UserInputError(`Order line ${line.orderLineId} is not part of order ${order.code}`);
+            }
+        }
+
+        const result = await this.orderService.createFulfillment(ctx, {
+            lines,
+            handler: {
+                code: manualFulfillmentHandler.code,
+                arguments: [
+                    { name: 'method', value: input.carrier.trim() },
+                    { name: 'trackingCode', value: input.trackingCode?.trim() ?? '' },
+                ],
+            },
+        });
+        if (isGraphQlErrorResult(result)) {
+            throw new UserInputError(result.message);
+        }
+        console.log(`[SellerFulfillment] Created fulfillment ${result.id} for order ${order.code} (${input.carrier})`);
+        return result;
+    }
+
+    async transitionFulfillment(ctx: RequestContext, fulfillmentId: ID, state: SellerFulfillmentState): Promise<Fulfillment> {
+        if (!['Shipped', 'Delivered', 'Cancelled'].includes(state)) {
+            throw new UserInputError(`A fulfillment cannot be moved to ${state}`);
+        }
+        const rows = await this.connection.getRepository(ctx, FulfillmentLine).query(
+            `SELECT ol."orderId"
+             FROM order_line_reference flr
+             JOIN order_line ol ON ol.id = flr."orderLineId"
+             WHERE flr."fulfillmentId" = $1
+             LIMIT 1`,
+            [fulfillmentId]
+        );
+        if (!rows.length) {
+            throw new UserInputError(`Fulfillment ${fulfillmentId} not found`);
+        }
+        // Checks the order belongs to the active seller
+        await this.getSellerOrder(ctx, rows[0].orderId);
+
+        const result = await this.orderService.transitionFulfillmentToState(ctx, fulfillmentId, state);
+        if (isGraphQlErrorResult(result)) {
+            throw new UserInputError(result.message);
+        }
+        return result;
+    }
+
+    /**
+     * Move the aggregate order of a seller order to the fulfillment state of
+     * all its seller orders together
+     */
+    async syncAggregateState(sellerOrder: Order): Promise<void> {
+        if (sellerOrder.aggregateOrderId == null) {
+            return;
+        }
+        // The aggregate order is only in the default channel, not the seller's
+        const ctx = await this.requestContextService.create({ apiType: 'admin' });
+        const aggregateOrder = await this.orderService.findOne(ctx, sellerOrder.aggregateOrderId);
+        if (!aggregateOrder) {
+            return;
+        }
+        const progress = await this.getSellerOrdersProgress(ctx, aggregateOrder);
+        if (!progress.length) {
+            return;
+        }
+        const target: OrderState | undefined = progress.every(p => p.fullyDelivered)
+            ? 'Delivered'
+            : progress.some(p => p.anyDelivered)
+              ? 'PartiallyDelivered'
+              : progress.every(p => p.fullyShipped)
+                ? 'Shipped'
+                : progress.some(p => p.anyShipped)
+                  ? 'PartiallyShipped'
+                  : undefined;
+        if (!target || target === aggregateOrder.state) {
+            return;
+        }
+        const result = await this.orderService.transitionToState(ctx, aggregateOrder.id, target);
+        if (isGraphQlErrorResult(result)) {
+            console.error(`[SellerFulfillment] Could not move order ${aggregateOrder.code} to ${target}:`, result.message);
+            return;
+        }
+        console.log(`[SellerFulfillment] Order ${aggregateOrder.code} is now ${target}`);
+    }
+
+    /**
+     * Replaces the fulfillment checks of the default order process (disabled in
+     * vendure-config.ts), which cannot see the fulfillments of seller orders
+     */
+    async checkFulfillmentTransition(ctx: RequestContext, order: Order, toState: OrderState): Promise<string | undefined> {
+        if (!FULFILLMENT_ORDER_STATES.includes(toState)) {
+            return undefined;
+        }
+        const progress = order.type === OrderType.Aggregate
+            ? await this.getSellerOrdersProgress(ctx, order)
+            : await this.getLinesProgress(ctx, order);
+        const allowed =
+            (toState === 'Shipped' && progress.every(p => p.fullyShipped)) ||
+            (toState === 'Delivered' && progress.every(p => p.fullyDelivered)) ||
+            (toState === 'PartiallyShipped' && progress.some(p => p.anyShipped)) ||
+            (toState === 'PartiallyDelivered' && progress.some(p => p.anyDelivered));
+        if (!allowed || !progress.length) {
+            return order.type === OrderType.Aggregate
+                ? `Order ${order.code} cannot be ${toState} until its seller orders are`
+                : `Order ${order.code} cannot be ${toState} until its fulfillments are`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Per-seller fulfillments of an aggregate order, for the customer
+     */
+    async getSellerShipments(ctx: RequestContext, aggregateOrder: Order): Promise<SellerShipment[]> {
+        if (aggregateOrder.type !== OrderType.Aggregate) {
+            return [];
+        }
+        const sellerOrders = await this.orderService.getSellerOrders(ctx, aggregateOrder);
+        const sellerChannelIds = sellerOrders
+            .map(sellerOrder => sellerOrder.lines[0]?.sellerChannelId)
+            .filter((id): id is ID => id != null);
+        const channels = sellerChannelIds.length
+            ? await this.connection.getRepository(ctx, Channel).find({
+                  where: { id: In(sellerChannelIds) },
+                  relations: ['seller'],
+              })
+            : [];
+
+        const shipments: SellerShipment[] = [];
+        for (const sellerOrder of sellerOrders) {
+            const channel = channels.find(c => idsAreEqual(c.id, sellerOrder.lines[0]?.sellerChannelId ?? -1));
+            const fulfillments = await this.orderService.getOrderFulfillments(ctx, sellerOrder);
+            shipments.push({
+                sellerChannelId: channel?.id ?? sellerOrder.lines[0]?.sellerChannelId ?? '',
+                sellerName: channel?.seller?.name ?? channel?.code ?? '',
+                sellerOrderCode: sellerOrder.code,
+                state: sellerOrder.state,
+                fulfillments: fulfillments.map(fulfillment => ({
+                    id: fulfillment.id,
+                    state: fulfillment.state,
+                    carrier: fulfillment.method,
+                    trackingCode: fulfillment.trackingCode || null,
+                    createdAt: fulfillment.createdAt,
+                    updatedAt: fulfillment.updatedAt,
+                    lines: (fulfillment.lines ?? []).map(fulfillmentLine => ({
+                        productVariantId:
+                            sellerOrder.lines.find(line => idsAreEqual(line.id, fulfillmentLine.orderLineId))
+                                ?.productVariantId ?? '',
+                        quantity: fulfillmentLine.quantity,
+                    })),
+                })),
+            });
+        }
+        return shipments;
+    }
+
+    /**
+     * A seller order the active channel may fulfil. Seller orders are in their
+     * seller's channel and the default channel, so the channel-scoped lookup finds
+     * any of them for platform operators and only their own for a seller.
+     */
+    private async getSellerOrder(ctx: RequestContext, orderId: ID): Promise<Order> {
+        const order = await this.orderService.findOne(ctx, orderId, ['lines']);
+        if (!order || order.type !== OrderType.Seller) {
+            throw new UserInputError(`Seller order ${orderId} not found`);
+        }
+        return order;
+    }
+
+    private async getSellerOrdersProgress(ctx: RequestContext, aggregateOrder: Order): Promise<FulfillmentProgress[]> {
+        const sellerOrders = await this.orderService.getSellerOrders(ctx, aggregateOrder);
+        return sellerOrders
+            .filter(sellerOrder => sellerOrder.state !== 'Cancelled')
+            .map(({ state }) => ({
+                anyShipped: FULFILLMENT_ORDER_STATES.includes(state),
+                fullyShipped: state === 'Shipped' || state === 'Delivered',
+                anyDelivered: state === 'PartiallyDelivered' || state === 'Delivered',
+                fullyDelivered: state === 'Delivered',
+            }));
+    }
+
+    private async getLinesProgress(ctx: RequestContext, order: Order): Promise<FulfillmentProgress[]> {
+        const quantities = await this.getFulfilledQuantities(ctx, order);
+        return order.lines
+            .filter(line => line.quantity > 0)
+            .map(line => {
+                const { shipped, delivered } = quantities.get(String(line.id)) ?? { shipped: 0, delivered: 0 };
+                return {
+                    anyShipped: shipped > 0,
+                    fullyShipped: shipped >= line.quantity,
+                    anyDelivered: delivered > 0,
+                    fullyDelivered: delivered >= line.quantity,
+                };
+            });
+    }
+
+    private async getUnfulfilledQuantities(ctx: RequestContext, order: Order): Promise<Map<string, number>> {
+        const quantities = await this.getFulfilledQuantities(ctx, order);
+        return new Map(
+            order.lines.map(line => [String(line.id), line.quantity - (quantities.get(String(line.id))?.fulfilled ?? 0)]),
+        );
+    }
+
+    /**
+     * Quantities per order line in fulfillments that are not cancelled
+     */
+    private async getFulfilledQuantities(
+        ctx: RequestContext,
+        order: Order,
+    ): Promise<Map<string, { fulfilled: number; shipped: number; delivered: number }>> {
+        const lineIds = order.lines.map(line => line.id);
+        const fulfillmentLines = lineIds.length
+            ? await this.connection.getRepository(ctx, FulfillmentLine).find({
+                  where: { orderLineId: In(lineIds) },
+                  relations: ['fulfillment'],
+              })
+            : [];
+        const quantities = new Map<string, { fulfilled: number; shipped: number; delivered: number }>();
+        for (const fulfillmentLine of fulfillmentLines) {
+            const state = fulfillmentLine.fulfillment.state;
+            if (state === 'Cancelled') {
+                continue;
+            }
+            const key = String(fulfillmentLine.orderLineId);
+            const current = quantities.get(key) ?? { fulfilled: 0, shipped: 0, delivered: 0 };
+            current.fulfilled += fulfillmentLine.quantity;
+            if (state === 'Shipped' || state === 'Delivered') {
+                current.shipped += fulfillmentLine.quantity;
+            }
+            if (state === 'Delivered') {
+                current.delivered += fulfillmentLine.quantity;
+            }
+            quantities.set(key, current);
+        }
+        return quantities;
+    }
+}
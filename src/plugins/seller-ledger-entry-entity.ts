@@ -0,0 +1,66 @@
+import { DeepPartial, EntityId, ID, Money, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * sale: seller order settled (credit)
+ * commission: the platform's commission on that order (debit)
+ * commission-reversal: commission given back after a refund (credit)
+ * refund: money returned to the customer (debit)
+ * chargeback: payment disputed by the customer (debit)
+ * adjustment: manual correction by the platform (either way)
+ */
+export type SellerLedgerEntryType =
+    | 'sale'
+    | 'commission'
+    | 'commission-reversal'
+    | 'refund'
+    | 'chargeback'
+    | 'adjustment';
+
+/**
+ * One movement of what the platform owes a seller. Amounts are signed:
+ * credits are positive, debits negative. Entries not yet part of a Payout make
+ * up the seller's balance. Table created by migrations/009_seller_payouts.sql.
+ */
+@Entity()
+@Index(['sellerChannelId', 'payoutId'])
+export class SellerLedgerEntry extends VendureEntity {
+    constructor(input?: DeepPartial<SellerLedgerEntry>) {
+        super(input);
+    }
+
+    @EntityId()
+    sellerChannelId: ID;
+
+    /** The Supabase tenants.id of the seller, when linked */
+    @Column({ type: 'varchar', nullable: true })
+    tenantId: string | null;
+
+    @Column('varchar')
+    type: SellerLedgerEntryType;
+
+    @Money()
+    amount: number;
+
+    @Column('varchar')
+    currencyCode: string;
+
+    /** Credits are held back until then, in case of refunds; debits count straight away */
+    @Column()
+    availableAt: Date;
+
+    @Index()
+    @EntityId({ nullable: true })
+    sellerOrderId: ID | null;
+
+    @EntityId({ nullable: true })
+    refundId: ID | null;
+
+    /** Set once the entry is included in a payout */
+    @Index()
+    @EntityId({ nullable: true })
+    payoutId: ID | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    description: string | null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Seller Order Email Handlers
+ *
+ * - sellerNewOrderEmailHandler: tells each seller about a new order, listing
+ *   only the lines of their seller order.
+ *   Template: static/email/templates/seller-new-order/body.hbs
+ * - marketplaceOrderConfirmationHandler: replaces the default order
+ *   confirmation; groups the lines and shipping of the customer's order by
+ *   seller, and is not sent for seller orders.
+ *   Template: static/email/templates/order-confirmation/body.hbs
+ */
+
+import { OrderType } from '@vendure/common/lib/generated-types';
+import {
+    Channel,
+    ConfigService,
+    EntityHydrator,
+    ID,
+    idsAreEqual,
+    Injector,
+    Order,
+    OrderLine,
+    OrderStateTransitionEvent,
+    RequestContext,
+    ShippingLine,
+    TransactionalConnection,
+} from '@vendure/core';
+import { EmailEventListener } from '@vendure/email-plugin';
+import { In } from 'typeorm';
+
+export interface SellerLineGroup {
+    /** Empty for lines sold by the marketplace itself */
+    sellerName: string;
+    lines: OrderLine[];
+    shippingLines: ShippingLine[];
+    subTotalWithTax: number;
+}
+
+/**
+ * An order was placed: payment authorized or settled, not after a modification
+ */
+function isPlacement(event: OrderStateTransitionEvent): boolean {
+    return (
+        (event.toState === 'PaymentSettled' || event.toState === 'PaymentAuthorized') &&
+        event.fromState === 'ArrangingPayment'
+    );
+}
+
+export const sellerNewOrderEmailHandler = new EmailEventListener('seller-new-order')
+    .on(OrderStateTransitionEvent)
+    .filter(event => event.order.type === OrderType.Seller && isPlacement(event))
+    .loadData(async ({ event, injector }) => {
+        await hydrateOrder(injector, event.ctx, event.order);
+        const sellerChannelId = event.order.lines[0]?.sellerChannelId;
+        const result = sellerChannelId != null
+            ? await injector.get(TransactionalConnection).rawConnection.query(
+                  `SELECT t.business_name, a."emailAddress" AS email_address
+                   FROM tenants t
+                   LEFT JOIN administrator a ON a.id = t.vendure_administrator_id AND a."deletedAt" IS NULL
+                   WHERE t.vendure_channel_id = $1
+                   LIMIT 1`,
+                  [sellerChannelId]
+              )
+            : [];
+        if (!result.length || !result[0].email_address) {
+            throw new Error(`[SellerOrderEmail] Seller of order ${event.order.code} has no email address`);
+        }
+        return { emailAddress: result[0].email_address as string, businessName: result[0].business_name as string | null };
+    })
+    .setRecipient(event => event.data.emailAddress)
+    .setFrom('{{ fromAddress }}')
+    .setSubject('New order {{ order.code }}')
+    .setTemplateVars(event => ({
+        order: event.order,
+        businessName: event.data.businessName ?? '',
+        shippingLines: event.order.shippingLines,
+    }));
+
+export const marketplaceOrderConfirmationHandler = new EmailEventListener('order-confirmation')
+    .on(OrderStateTransitionEvent)
+    .filter(event => event.order.type !== OrderType.Seller && isPlacement(event) && !!event.order.customer)
+    .loadData(async ({ event, injector }) => {
+        await hydrateOrder(injector, event.ctx, event.order);
+        return { sellerGroups: await groupBySeller(injector, event.ctx, event.order) };
+    })
+    .setRecipient(event => event.order.customer!.emailAddress)
+    .setFrom('{{ fromAddress }}')
+    .setSubject('Order confirmation for #{{ order.code }}')
+    .setTemplateVars(event => ({
+        order: event.order,
+        sellerGroups: event.data.sellerGroups,
+        shippingLines: event.order.shippingLines,
+    }));
+
+async function hydrateOrder(injector: Injector, ctx: RequestContext, order: Order): Promise<void> {
+    await injector.get(EntityHydrator).hydrate(ctx, order, {
+        relations: ['customer', 'lines.productVariant', 'lines.featuredAsset', 'shippingLines.shippingMethod'],
+    });
+    const { assetStorageStrategy } = injector.get(ConfigService).assetOptions;
+    for (const line of order.lines) {
+        if (line.featuredAsset && assetStorageStrategy.toAbsoluteUrl && ctx.req) {
+            line.featuredAsset.preview = assetStorageStrategy.toAbsoluteUrl(ctx.req, line.featuredAsset.preview);
+        }
+    }
+}
+
+/**
+ * The order's lines by seller channel, with the shipping lines assigned to them
+ */
+async function groupBySeller(injector: Injector, ctx: RequestContext, order: Order): Promise<SellerLineGroup[]> {
+    const linesByChannel = new Map<string, OrderLine[]>();
+    for (const line of order.lines) {
+        const key = line.sellerChannelId != null ? String(line.sellerChannelId) : '';
+        linesByChannel.set(key, [...(linesByChannel.get(key) ?? []), line]);
+    }
+    const channelIds: ID[] = [...linesByChannel.keys()].filter(Boolean);
+    const channels = channelIds.length
+        ? await injector.get(TransactionalConnection).getRepository(ctx, Channel).find({
+              where: { id: In(channelIds) },
+              relations: ['seller'],
+          })
+        : [];
+
+    return [...linesByChannel.entries()].map(([key, lines]) => {
+        const channel = key ? channels.find(c => idsAreEqual(c.id, key)) : undefined;
+        return {
+            sellerName: channel?.seller?.name ?? channel?.code ?? '',
+            lines,
+            shippingLines: order.shippingLines.filter(shippingLine =>
+                lines.some(line => idsAreEqual(line.shippingLineId ?? -1, shippingLine.id)),
+            ),
+            subTotalWithTax: lines.reduce((sum, line) => sum + line.proratedLinePriceWithTax, 0),
+        };
+    });
+}
@@ -1,17 +1,259 @@
 import { VendurePlugin, PluginCommonModule } from '@vendure/core';
-import { SellerProvisioningService } from '../provision-seller-api';
+import gql from 'graphql-tag';
+import {
+    provisionSellerPermission,
+    SELLER_PROVISIONING_OPTIONS,
+    SellerProvisioningOptions,
+    SellerProvisioningService,
+} from '../provision-seller-api';
+import {
+    deprovisionTenantPermission,
+    deprovisionTenantsTask,
+    TenantDeprovisioningService,
+} from '../deprovision-tenant-api';
+import { suspendTenantPermission, TenantSuspensionService } from '../suspend-tenant-api';
+import { SellerProvisioningResolver } from './seller-provisioning-resolver';
+import { TenantDeprovisioningResolver } from './tenant-deprovisioning-resolver';
+import { suspendedTenantOrderProcess } from './tenant-suspension-order-process';
+import { TenantSuspensionResolver } from './tenant-suspension-resolver';
 
 /**
  * Seller Provisioning Plugin
  * 
  * Provides automated seller provisioning for SaaS tenants.
  * Creates sellers, channels, administrators, and basic infrastructure.
+ *
+ * Provisioning runs as a persisted saga (see provisioning-saga.ts). Requires
+ * migrations/004_tenant_provisioning.sql.
+ *
+ * Admin API (all require the `ProvisionSeller` permission):
+ * - provisionSeller(input): provision and wait for the result
+ * - queueProvisionSeller(input): provision on the `provision-tenant` job queue (processed by the worker)
+ * - provisioningJob(tenantId): job state and step-level progress
+ * - tenantProvisioning(tenantId): per-step status of the last run
+ * - resumeProvisioning(tenantId): continue from the first step not completed
+ * - rollbackProvisioning(tenantId): delete what a failed run created
+ *
+ * Deprovisioning (requires the `DeprovisionTenant` permission and
+ * migrations/006_tenant_deprovisioning.sql):
+ * - deprovisionTenant(input): export the tenant's data and schedule its deletion
+ * - cancelTenantDeprovisioning(tenantId): restore the tenant during the grace period
+ * - tenantDeprovisioning(tenantId): status and archive path
+ * The deletion itself runs in the hourly `deprovision-tenants` scheduled task.
+ *
+ * Suspension (requires the `SuspendTenant` permission and
+ * migrations/007_tenant_suspensions.sql):
+ * - suspendTenant(input): lock out the seller, hide their products, refuse their orders
+ * - reactivateTenant(tenantId): undo all of it
+ * - tenantSuspensions(tenantId): suspension history
+ * The seller is emailed through tenantStatusEmailHandler (add it to the EmailPlugin handlers).
  */
 @VendurePlugin({
     imports: [PluginCommonModule],
-    providers: [SellerProvisioningService],
-    exports: [SellerProvisioningService],
+    providers: [
+        SellerProvisioningService,
+        TenantDeprovisioningService,
+        TenantSuspensionService,
+        { provide: SELLER_PROVISIONING_OPTIONS, useFactory: () => SellerProvisioningPlugin.options },
+    ],
+    exports: [SellerProvisioningService, TenantDeprovisioningService, TenantSuspensionService],
+    adminApiExtensions: {
+        schema: gql`
+            input ProvisionSellerInput {
+                shopName: String!
+                sellerEmail: String!
+                sellerPassword: String!
+                firstName: String!
+                lastName: String!
+                "The Supabase tenants.id to link"
+                tenantId: ID!
+            }
+
+            type ProvisionedTenant {
+                id: ID!
+                subdomain: String
+                businessName: String
+                status: String!
+            }
+
+            type ProvisionSellerResult {
+                sellerId: ID!
+                channelId: ID!
+                channelCode: String!
+                channelToken: String!
+                administratorId: ID!
+                tenant: ProvisionedTenant!
+            }
+
+            type TenantProvisioningStep {
+                name: String!
+                "pending | running | completed | failed | compensated"
+                status: String!
+                startedAt: DateTime
+                completedAt: DateTime
+                error: String
+            }
+
+            type TenantProvisioning {
+                tenantId: ID!
+                "queued | running | completed | failed | rolled-back"
+                status: String!
+                steps: [TenantProvisioningStep!]!
+                lastError: String
+                createdAt: DateTime!
+                updatedAt: DateTime!
+            }
+
+            type ProvisioningJob {
+                tenantId: ID!
+                jobId: ID
+                jobState: JobState
+                "0-100, from the completed steps"
+                progress: Int!
+                "queued | running | completed | failed | rolled-back"
+                status: String!
+                currentStep: String
+                steps: [TenantProvisioningStep!]!
+                lastError: String
+                "Set once provisioning has completed"
+                result: ProvisionSellerResult
+            }
+
+            input DeprovisionTenantInput {
+                tenantId: ID!
+                reason: String
+                "Overrides the configured grace period. 0 tears down immediately."
+                gracePeriodDays: Int
+            }
+
+            type TenantDeprovisioning {
+                tenantId: ID!
+                "scheduled | running | completed | failed | cancelled"
+                status: String!
+                reason: String
+                requestedBy: ID
+                previousTenantStatus: String!
+                "Server path of the latest catalog, customer and order export, until its retention period ends"
+                archivePath: String
+                archiveDeletedAt: DateTime
+                scheduledFor: DateTime!
+                completedAt: DateTime
+                lastError: String
+                "Ids of the removed entities, per entity type"
+                removed: JSON!
+                createdAt: DateTime!
+                updatedAt: DateTime!
+            }
+
+            input SuspendTenantInput {
+                tenantId: ID!
+                "Included in the email to the seller"
+                reason: String
+            }
+
+            type TenantSuspension {
+                id: ID!
+                tenantId: ID!
+                reason: String
+                suspendedBy: ID
+                suspendedAt: DateTime!
+                "Products hidden by the suspension, re-enabled on reactivation"
+                disabledProductIds: [ID!]!
+                reactivatedBy: ID
+                reactivatedAt: DateTime
+            }
+
+            extend type Query {
+                tenantProvisioning(tenantId: ID!): TenantProvisioning!
+                provisioningJob(tenantId: ID!): ProvisioningJob!
+                tenantDeprovisioning(tenantId: ID!): TenantDeprovisioning!
+                tenantSuspensions(tenantId: ID!): [TenantSuspension!]!
+            }
+
+            extend type Mutation {
+                provisionSeller(input: ProvisionSellerInput!): ProvisionSellerResult!
+                queueProvisionSeller(input: ProvisionSellerInput!): ProvisioningJob!
+                resumeProvisioning(tenantId: ID!): ProvisionSellerResult!
+                rollbackProvisioning(tenantId: ID!): TenantProvisioning!
+                deprovisionTenant(input: DeprovisionTenantInput!): TenantDeprovisioning!
+                cancelTenantDeprovisioning(tenantId: ID!): TenantDeprovisioning!
+                suspendTenant(input: SuspendTenantInput!): TenantSuspension!
+                reactivateTenant(tenantId: ID!): TenantSuspension!
+            }
+        `,
+        resolvers: [SellerProvisioningResolver, TenantDeprovisioningResolver, TenantSuspensionResolver],
+    },
+    configuration: config => {
+        config.authOptions.customPermissions.push(
+            provisionSellerPermission,
+            deprovisionTenantPermission,
+            suspendTenantPermission,
+        );
+        config.orderOptions.process.push(suspendedTenantOrderProcess);
+        config.schedulerOptions.tasks.push(deprovisionTenantsTask);
+        return config;
+    },
 })
 export class SellerProvisioningPlugin {
-    // Plugin configuration
+    static options: SellerProvisioningOptions = {};
+
+    static init(options: SellerProvisioningOptions) {
+        this.options = options;
+        return SellerProvisioningPlugin;
+    }
 }
+
+/**
+ * USAGE
+ * =====
+ *
+ * Give the SaaS signup backend's administrator a role with the `ProvisionSeller`
+ * permission, create the tenants row (status 'provisioning'), then:
+ *
+ * mutation {
+ *   provisionSeller(input: {
+ *     shopName: "Ruaka School Uniform"
+ *     sellerEmail: "info@ruakaschooluniform.com"
+ *     sellerPassword: "supersecret"
+ *     firstName: "Info"
+ *     lastName: "Ruaka"
+ *     tenantId: "<tenants.id>"
+ *   }) {
+ *     channelId
+ *     channelToken
+ *     administratorId
+ *     tenant { id subdomain status }
+ *   }
+ * }
+ *
+ * From the signup page, prefer `queueProvisionSeller` with the same input and poll
+ * `provisioningJob(tenantId) { progress currentStep status }` until `status` is
+ * `completed` (or `failed`).
+ *
+ * If a step fails, the tenant is set to 'error' and the created entities are
+ * deleted (or kept, with `SellerProvisioningPlugin.init({ onFailure: 'keep' })`).
+ * Inspect the run with `tenantProvisioning(tenantId)` and retry it with
+ * `resumeProvisioning(tenantId)`.
+ *
+ * Provisioning is idempotent per tenantId: calling either mutation again for a
+ * provisioned tenant returns the existing setup, and for a failed run resumes it
+ * (re-using entities an interrupted attempt already created).
+ *
+ * To remove a churned tenant:
+ *
+ * mutation {
+ *   deprovisionTenant(input: { tenantId: "<tenants.id>", reason: "Churned" }) {
+ *     status
+ *     scheduledFor
+ *     archivePath
+ *   }
+ * }
+ *
+ * The tenant is locked out straight away and its data archive written to
+ * `archiveDir`. After the grace period (`SellerProvisioningPlugin.init({
+ * deprovisionGracePeriodDays })`, or straight away with `gracePeriodDays: 0`)
+ * its products, shipping methods, stock locations, administrators, roles,
+ * channel and seller are deleted, the guest customers who only bought from the
+ * tenant are anonymised, and the tenant becomes 'deprovisioned'. The archive is
+ * deleted `archiveRetentionDays` (default 90) after that.
+ */
@@ -0,0 +1,67 @@
+/**
+ * Seller Provisioning Resolver
+ *
+ * Admin API entry point for the SaaS signup backend to provision tenants
+ * (replaces running provision-tenant-via-service.ts by hand).
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, ID, RequestContext } from '@vendure/core';
+import {
+    ProvisioningJobStatus,
+    provisionSellerPermission,
+    ProvisionSellerInput,
+    ProvisionSellerResult,
+    SellerProvisioningService,
+} from '../provision-seller-api';
+import { ProvisioningSagaState } from '../provisioning-saga';
+
+@Resolver()
+export class SellerProvisioningResolver {
+    constructor(private sellerProvisioningService: SellerProvisioningService) {}
+
+    @Mutation()
+    @Allow(provisionSellerPermission.Permission)
+    async provisionSeller(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: ProvisionSellerInput },
+    ): Promise<ProvisionSellerResult> {
+        return this.sellerProvisioningService.provisionSeller(ctx, args.input);
+    }
+
+    /**
+     * Queue provisioning on the `provision-tenant` job and return immediately
+     */
+    @Mutation()
+    @Allow(provisionSellerPermission.Permission)
+    async queueProvisionSeller(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: ProvisionSellerInput },
+    ): Promise<ProvisioningJobStatus> {
+        return this.sellerProvisioningService.queueProvisioning(ctx, args.input);
+    }
+
+    @Query()
+    @Allow(provisionSellerPermission.Permission)
+    async provisioningJob(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<ProvisioningJobStatus> {
+        return this.sellerProvisioningService.getProvisioningJob(String(args.tenantId));
+    }
+
+    @Query()
+    @Allow(provisionSellerPermission.Permission)
+    async tenantProvisioning(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<ProvisioningSagaState> {
+        return this.sellerProvisioningService.getProvisioningState(String(args.tenantId));
+    }
+
+    @Mutation()
+    @Allow(provisionSellerPermission.Permission)
+    async resumeProvisioning(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<ProvisionSellerResult> {
+        return this.sellerProvisioningService.resumeProvisioning(ctx, String(args.tenantId));
+    }
+
+    @Mutation()
+    @Allow(provisionSellerPermission.Permission)
+    async rollbackProvisioning(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<ProvisioningSagaState> {
+        return this.sellerProvisioningService.rollbackProvisioning(ctx, String(args.tenantId));
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Seller Rate Table Interceptor
+ *
+ * Validates the rate table of the seller rate table calculator when a shipping
+ * method is created or updated, so the seller gets a UserInputError for a bad
+ * table instead of a shipping method that is silently never offered.
+ */
+
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { ConfigurableOperationInput } from '@vendure/common/lib/generated-types';
+import { parseContext } from '@vendure/core';
+import { Observable } from 'rxjs';
+import { parseSellerRateTable, sellerRateTableShippingCalculator } from './seller-shipping-calculator';
+
+const SHIPPING_METHOD_MUTATIONS = ['createShippingMethod', 'updateShippingMethod'];
+
+@Injectable()
+export class SellerRateTableInterceptor implements NestInterceptor {
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const { isGraphQL, info } = parseContext(context);
+        if (isGraphQL && SHIPPING_METHOD_MUTATIONS.includes(info.fieldName)) {
+            const calculator: ConfigurableOperationInput | undefined = context.getArgByIndex(1)?.input?.calculator;
+            if (calculator?.code === sellerRateTableShippingCalculator.code) {
+                const rateTable = calculator.arguments.find(arg => arg.name === 'rateTable');
+                // Omitted, the argument takes its (valid) default value
+                if (rateTable) {
+                    parseSellerRateTable(rateTable.value);
+                }
+            }
+        }
+        return next.handle();
+    }
+}
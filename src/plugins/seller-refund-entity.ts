@@ -0,0 +1,86 @@
+import { DeepPartial, EntityId, ID, Money, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * seller: a seller administrator, in their own channel
+ * platform: a platform operator (support), on the default channel
+ */
+export type SellerRefundInitiator = 'seller' | 'platform';
+
+/**
+ * pending: validated and cancelled, the money is being refunded
+ * completed: refunded (or nothing was taken), commission given back
+ * failed: the payment provider rejected the refund, see failureReason
+ */
+export type SellerRefundState = 'pending' | 'completed' | 'failed';
+
+export interface SellerRefundLine {
+    /** A line of the seller order */
+    orderLineId: ID;
+    quantity: number;
+}
+
+/**
+ * A refund and/or cancellation of seller order lines, with who initiated it.
+ * Table created by migrations/012_seller_refunds.sql, shipping and state
+ * columns added by migrations/016_seller_refund_state.sql.
+ */
+@Entity()
+@Index(['sellerChannelId', 'createdAt'])
+export class SellerRefund extends VendureEntity {
+    constructor(input?: DeepPartial<SellerRefund>) {
+        super(input);
+    }
+
+    @Index()
+    @EntityId()
+    aggregateOrderId: ID;
+
+    @Index()
+    @EntityId()
+    sellerOrderId: ID;
+
+    @EntityId()
+    sellerChannelId: ID;
+
+    @Column({ type: 'varchar', nullable: true })
+    tenantId: string | null;
+
+    /** The Vendure Refund, when money was refunded */
+    @EntityId({ nullable: true })
+    refundId: ID | null;
+
+    @Column('simple-json')
+    lines: SellerRefundLine[];
+
+    /** The seller order's shipping is part of the refund; it is only refunded once */
+    @Column({ default: false })
+    shippingRefunded: boolean;
+
+    @Column({ default: false })
+    cancelled: boolean;
+
+    @Money()
+    amount: number;
+
+    @Money()
+    commissionReversed: number;
+
+    @Column('varchar')
+    currencyCode: string;
+
+    @Column('varchar')
+    reason: string;
+
+    @Column('varchar')
+    initiatedBy: SellerRefundInitiator;
+
+    @EntityId({ nullable: true })
+    initiatedByUserId: ID | null;
+
+    @Column({ type: 'varchar', default: 'completed' })
+    state: SellerRefundState;
+
+    @Column({ type: 'varchar', nullable: true })
+    failureReason: string | null;
+}
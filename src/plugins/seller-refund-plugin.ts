@@ -0,0 +1,114 @@
+import { PluginCommonModule, VendurePlugin } from '@vendure/core';
+import gql from 'graphql-tag';
+import { CommissionPlugin } from './commission-plugin';
+import { PayoutPlugin } from './payout-plugin';
+import { SellerRefund } from './seller-refund-entity';
+import { SellerRefundResolver } from './seller-refund-resolver';
+import { SellerRefundService } from './seller-refund-service';
+
+export { SellerRefundService };
+
+/**
+ * Seller Refund Plugin
+ *
+ * Refunds and cancellations of split orders, per seller.
+ *
+ * Components:
+ * - SellerRefund: one record per refunded seller order, with who initiated it (see seller-refund-entity.ts)
+ * - SellerRefundService: maps aggregate lines to seller lines, refunds the seller order's allocated
+ *   payment per seller order, gives back commission (see seller-refund-service.ts)
+ * - SellerRefundResolver: Admin API (see seller-refund-resolver.ts)
+ *
+ * Needs CommissionPlugin and PayoutPlugin. Requires migrations/012_seller_refunds.sql and
+ * migrations/016_seller_refund_state.sql.
+ */
+@VendurePlugin({
+    imports: [PluginCommonModule, CommissionPlugin, PayoutPlugin],
+    entities: [SellerRefund],
+    providers: [SellerRefundService],
+    exports: [SellerRefundService],
+    adminApiExtensions: {
+        schema: gql`
+            type SellerRefundLine {
+                "A line of the seller order"
+                orderLineId: ID!
+                quantity: Int!
+            }
+
+            type SellerRefund implements Node {
+                id: ID!
+                createdAt: DateTime!
+                updatedAt: DateTime!
+                aggregateOrderId: ID!
+                sellerOrderId: ID!
+                sellerChannelId: ID!
+                tenantId: ID
+                refundId: ID
+                lines: [SellerRefundLine!]!
+                shippingRefunded: Boolean!
+                cancelled: Boolean!
+                amount: Money!
+                commissionReversed: Money!
+                currencyCode: CurrencyCode!
+                reason: String!
+                "seller | platform"
+                initiatedBy: String!
+                initiatedByUserId: ID
+                "pending | completed | failed"
+                state: String!
+                "Why the payment provider rejected the refund"
+                failureReason: String
+            }
+
+            type SellerRefundList implements PaginatedList {
+                items: [SellerRefund!]!
+                totalItems: Int!
+            }
+
+            input SellerRefundLineInput {
+                orderLineId: ID!
+                quantity: Int!
+            }
+
+            input RefundSellerOrderLinesInput {
+                "An aggregate order (platform operators only) or a seller order"
+                orderId: ID!
+                "Lines of that order"
+                lines: [SellerRefundLineInput!]!
+                "Also refund the seller's shipping, once per seller order"
+                includeShipping: Boolean
+                "Also cancel the lines, when they have not been fulfilled yet"
+                cancel: Boolean
+                reason: String!
+            }
+
+            extend type Query {
+                "Seller order or aggregate order"
+                sellerRefunds(orderId: ID, skip: Int, take: Int): SellerRefundList!
+            }
+
+            extend type Mutation {
+                "One SellerRefund per seller order the lines belong to; check the state of each"
+                refundSellerOrderLines(input: RefundSellerOrderLinesInput!): [SellerRefund!]!
+            }
+        `,
+        resolvers: [SellerRefundResolver],
+    },
+})
+export class SellerRefundPlugin {}
+
+/**
+ * USAGE
+ * =====
+ *
+ * As a seller, refund and cancel one unit of a line of their seller order:
+ *
+ *    mutation {
+ *      refundSellerOrderLines(input: {
+ *        orderId: 88, lines: [{ orderLineId: 301, quantity: 1 }], cancel: true, reason: "Out of stock"
+ *      }) { state failureReason amount commissionReversed initiatedBy }
+ *    }
+ *
+ * Support can pass lines of the customer's aggregate order instead; they are
+ * routed to the seller orders they were split into.
+ */
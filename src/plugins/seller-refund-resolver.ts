@@ -0,0 +1,35 @@
+/**
+ * Seller Refund Resolver
+ *
+ * Admin API for refunds and cancellations of split orders. Scoped by the
+ * active channel (see SellerRefundService): sellers refund their own seller
+ * orders, platform operators any order from the default channel.
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, ID, PaginatedList, Permission, RequestContext } from '@vendure/core';
+import { SellerRefund } from './seller-refund-entity';
+import { RefundSellerOrderLinesInput, SellerRefundService } from './seller-refund-service';
+
+@Resolver()
+export class SellerRefundResolver {
+    constructor(private sellerRefundService: SellerRefundService) {}
+
+    @Query()
+    @Allow(Permission.ReadOrder)
+    async sellerRefunds(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { orderId?: ID; skip?: number; take?: number },
+    ): Promise<PaginatedList<SellerRefund>> {
+        return this.sellerRefundService.findAll(ctx, args.orderId, { skip: args.skip, take: args.take });
+    }
+
+    @Mutation()
+    @Allow(Permission.UpdateOrder)
+    async refundSellerOrderLines(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: RefundSellerOrderLinesInput },
+    ): Promise<SellerRefund[]> {
+        return this.sellerRefundService.refundSellerOrderLines(ctx, args.input);
+    }
+}
@@ -0,0 +1,190 @@
+import { OrderType } from '@vendure/common/lib/generated-types';
+import { ForbiddenError, Order, Payment, RequestContext, User, UserInputError } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SellerRefund } from './seller-refund-entity';
+import { SellerRefundService } from './seller-refund-service';
+
+const aggregateOrder = {
+    id: 1,
+    code: 'AGG1',
+    type: OrderType.Aggregate,
+    lines: [
+        { id: 11, productVariantId: 100, sellerChannelId: 2 },
+        { id: 12, productVariantId: 200, sellerChannelId: 3 },
+    ],
+} as unknown as Order;
+
+const sellerOrders = [
+    { id: 2, code: 'S2', shippingWithTax: 500, lines: [{ id: 21, productVariantId: 100, quantity: 2, proratedUnitPriceWithTax: 1000 }] },
+    { id: 3, code: 'S3', shippingWithTax: 700, lines: [{ id: 31, productVariantId: 200, quantity: 1, proratedUnitPriceWithTax: 2500 }] },
+].map(({ lines, ...order }) => ({
+    ...order,
+    type: OrderType.Seller,
+    aggregateOrderId: 1,
+    currencyCode: 'USD',
+    lines: lines.map(line => ({ ...line, sellerChannelId: order.id, orderPlacedQuantity: line.quantity })),
+})) as unknown as Order[];
+
+function createService() {
+    const sellerRefunds: SellerRefund[] = [];
+    const transactionalContexts = new Set<RequestContext>();
+    const repositories = new Map<unknown, any>([
+        [Order, { createQueryBuilder: () => ({ setLock: () => ({ where: () => ({ getOne: async () => undefined }) }) }) }],
+        [Payment, {
+            find: async ({ where }: { where: { order: { id: number } } }) => [
+                { id: where.order.id * 10, amount: where.order.id === 2 ? 2500 : 3200, refunds: [] },
+            ],
+        }],
+        [User, { findOne: async () => ({ id: 7 }) }],
+        [SellerRefund, {
+            find: async ({ where }: { where: { sellerOrderId: number } }) =>
+                sellerRefunds.filter(refund => refund.sellerOrderId === where.sellerOrderId),
+            save: async (refund: SellerRefund) => {
+                if (refund.id == null) {
+                    refund.id = sellerRefunds.length + 1;
+                    sellerRefunds.push(refund);
+                }
+                return refund;
+            },
+            update: async () => undefined,
+            query: async () => [{ id: 'tenant-a' }],
+        }],
+    ]);
+    const connection = {
+        getRepository: (_ctx: RequestContext, entity: unknown) => repositories.get(entity),
+        withTransaction: async (ctx: RequestContext, work: (txCtx: RequestContext) => Promise<any>) => {
+            const txCtx = { ...ctx } as RequestContext;
+            transactionalContexts.add(txCtx);
+            return work(txCtx);
+        },
+        rawConnection: { query: vi.fn(async () => []) },
+    };
+    const orderService = {
+        findOne: async (_ctx: RequestContext, id: number) => [aggregateOrder, ...sellerOrders].find(order => order.id === id),
+        getSellerOrders: async () => sellerOrders,
+        cancelOrder: vi.fn(async () => ({})),
+        refundOrder: vi.fn(async (ctx: RequestContext, input: { paymentId: number }) => ({ id: 900 + input.paymentId, state: 'Settled' })),
+    };
+    const commissionService = { reverseCommissions: vi.fn(async () => 150) };
+    const payoutService = { recordCommissionReversal: vi.fn(async () => undefined) };
+    const service = new SellerRefundService(
+        connection as any,
+        { getDefaultChannel: async () => ({ id: 1 }) } as any,
+        orderService as any,
+        { create: async () => ({ channelId: 1, activeUserId: 7 }) } as any,
+        commissionService as any,
+        payoutService as any,
+    );
+    return { service, orderService, commissionService, sellerRefunds, transactionalContexts };
+}
+
+const platformCtx = { channelId: 1, activeUserId: 7 } as RequestContext;
+const bothSellers = {
+    orderId: 1,
+    lines: [
+        { orderLineId: 11, quantity: 1 },
+        { orderLineId: 12, quantity: 1 },
+    ],
+    reason: 'Damaged',
+};
+
+describe('SellerRefundService', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('refunds each seller order from its own payment, outside the validation transaction', async () => {
+        const { service, orderService, transactionalContexts } = createService();
+
+        const refunds = await service.refundSellerOrderLines(platformCtx, bothSellers);
+
+        expect(refunds.map(({ sellerOrderId, amount, refundId, state, commissionReversed, initiatedBy }) => ({
+            sellerOrderId, amount, refundId, state, commissionReversed, initiatedBy,
+        }))).toEqual([
+            { sellerOrderId: 2, amount: 1000, refundId: 920, state: 'completed', commissionReversed: 150, initiatedBy: 'platform' },
+            { sellerOrderId: 3, amount: 2500, refundId: 930, state: 'completed', commissionReversed: 150, initiatedBy: 'platform' },
+        ]);
+        for (const [ctx] of orderService.refundOrder.mock.calls) {
+            expect(transactionalContexts.has(ctx)).toBe(false);
+        }
+    });
+
+    it('keeps the refunds the provider made when it rejects another seller order', async () => {
+        const { service, orderService, commissionService } = createService();
+        orderService.refundOrder.mockImplementation(async (_ctx, input) => ({
+            id: 900 + input.paymentId,
+            state: input.paymentId === 30 ? 'Failed' : 'Settled',
+        }));
+
+        const refunds = await service.refundSellerOrderLines(platformCtx, bothSellers);
+
+        expect(refunds.map(({ sellerOrderId, state, refundId, failureReason, commissionReversed }) => ({
+            sellerOrderId, state, refundId, failureReason, commissionReversed,
+        }))).toEqual([
+            { sellerOrderId: 2, state: 'completed', refundId: 920, failureReason: null, commissionReversed: 150 },
+            { sellerOrderId: 3, state: 'failed', refundId: 930, failureReason: 'The payment provider rejected the refund of order S3', commissionReversed: 0 },
+        ]);
+        expect(commissionService.reverseCommissions).toHaveBeenCalledTimes(1);
+
+        // The rejected units can be refunded again, the refunded ones cannot
+        await expect(service.refundSellerOrderLines(platformCtx, { ...bothSellers, lines: [{ orderLineId: 12, quantity: 1 }] }))
+            .resolves.toHaveLength(1);
+        await expect(service.refundSellerOrderLines(platformCtx, { ...bothSellers, lines: [{ orderLineId: 11, quantity: 2 }] }))
+            .rejects.toThrow('Only 1 of order line 21 can still be refunded');
+    });
+
+    it('validates every seller order before any money moves', async () => {
+        const { service, orderService } = createService();
+
+        await expect(service.refundSellerOrderLines(platformCtx, {
+            ...bothSellers,
+            lines: [{ orderLineId: 11, quantity: 1 }, { orderLineId: 12, quantity: 2 }],
+        })).rejects.toThrow('Only 1 of order line 31 can still be refunded');
+        expect(orderService.refundOrder).not.toHaveBeenCalled();
+    });
+
+    it('refunds the shipping of a seller order only once', async () => {
+        const { service, orderService } = createService();
+        const withShipping = { orderId: 2, lines: [{ orderLineId: 21, quantity: 1 }], includeShipping: true, reason: 'Late' };
+
+        const [refund] = await service.refundSellerOrderLines(platformCtx, withShipping);
+
+        expect(refund).toMatchObject({ amount: 1000 + 500, shippingRefunded: true, state: 'completed' });
+        await expect(service.refundSellerOrderLines(platformCtx, withShipping)).rejects.toThrow(
+            'The shipping of order S2 has already been refunded',
+        );
+        expect(orderService.refundOrder).toHaveBeenCalledTimes(1);
+    });
+
+    it('allows the shipping to be refunded again after the provider rejected it', async () => {
+        const { service, orderService } = createService();
+        orderService.refundOrder.mockResolvedValueOnce({ id: 920, state: 'Failed' });
+        const withShipping = { orderId: 2, lines: [{ orderLineId: 21, quantity: 1 }], includeShipping: true, reason: 'Late' };
+
+        expect((await service.refundSellerOrderLines(platformCtx, withShipping))[0].state).toBe('failed');
+        expect((await service.refundSellerOrderLines(platformCtx, withShipping))[0].state).toBe('completed');
+    });
+
+    it('lets sellers refund only their own seller orders', async () => {
+        const { service } = createService();
+        const sellerCtx = { channelId: 2, activeUserId: 8 } as RequestContext;
+
+        await expect(service.refundSellerOrderLines(sellerCtx, { ...bothSellers, orderId: 3, lines: [{ orderLineId: 31, quantity: 1 }] }))
+            .rejects.toBeInstanceOf(ForbiddenError);
+        await expect(service.refundSellerOrderLines(sellerCtx, bothSellers)).rejects.toBeInstanceOf(ForbiddenError);
+        const [refund] = await service.refundSellerOrderLines(sellerCtx, { ...bothSellers, orderId: 2, lines: [{ orderLineId: 21, quantity: 1 }] });
+        expect(refund).toMatchObject({ initiatedBy: 'seller', sellerOrderId: 2 });
+    });
+
+    it('needs a reason and positive quantities', async () => {
+        const { service } = createService();
+
+        await expect(service.refundSellerOrderLines(platformCtx, { ...bothSellers, reason: ' ' })).rejects.toBeInstanceOf(UserInputError);
+        await expect(service.refundSellerOrderLines(platformCtx, { ...bothSellers, lines: [{ orderLineId: 11, quantity: 0 }] }))
+            .rejects.toBeInstanceOf(UserInputError);
+    });
+});
@@ -0,0 +1,431 @@
+/**
+ * Seller Refund Service
+ *
+ * Refunds and cancellations of split orders, per seller:
+ * - lines of the aggregate order are mapped to the seller order lines they
+ *   were split into (and back, for cancellations)
+ * - the money comes out of the seller order's allocated payment
+ * - the commission on the refunded units is given back (CommissionService,
+ *   PayoutService)
+ * - every refund is recorded as a SellerRefund with who initiated it
+ *
+ * A request runs in two phases on the default channel:
+ * 1. One transaction validates and prices every seller order, cancels the lines
+ *    and records a pending SellerRefund per seller order, which reserves its units
+ *    and shipping against concurrent refunds. When one seller order cannot be
+ *    refunded, none of them are.
+ * 2. The payment provider is called per seller order, outside that transaction,
+ *    and each result is recorded on its own SellerRefund: completed, or failed
+ *    with the reason. A rejected refund does not undo the ones already made, and
+ *    leaves its lines cancelled; they can be refunded again.
+ *
+ * Sellers act on their own seller orders; platform operators on any order,
+ * aggregate or seller, from the default channel.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { OrderType } from '@vendure/common/lib/generated-types';
+import {
+    ChannelService,
+    ForbiddenError,
+    ID,
+    idsAreEqual,
+    isGraphQlErrorResult,
+    Order,
+    OrderLine,
+    OrderService,
+    PaginatedList,
+    Payment,
+    RequestContext,
+    RequestContextService,
+    TransactionalConnection,
+    User,
+    UserInputError,
+} from '@vendure/core';
+import { CommissionService } from './commission-service';
+import { PayoutService } from './payout-service';
+import { SellerRefund, SellerRefundLine } from './seller-refund-entity';
+
+export interface RefundSellerOrderLinesInput {
+    /** An aggregate order or a seller order; the lines are lines of that order */
+    orderId: ID;
+    lines: Array<{ orderLineId: ID; quantity: number }>;
+    /** Also refund the seller's shipping */
+    includeShipping?: boolean | null;
+    /** Also cancel the lines, when they have not been fulfilled yet */
+    cancel?: boolean | null;
+    reason: string;
+}
+
+interface LineMapping {
+    aggregateLine: OrderLine | undefined;
+    sellerOrder: Order;
+    sellerLine: OrderLine;
+}
+
+/**
+ * A validated, priced seller order refund whose money has not moved yet
+ */
+interface PendingSellerRefund {
+    sellerOrder: Order;
+    sellerRefund: SellerRefund;
+    paymentId: ID | null;
+}
+
+@Injectable()
+export class SellerRefundService {
+    constructor(
+        private connection: TransactionalConnection,
+        private channelService: ChannelService,
+        private orderService: OrderService,
+        private requestContextService: RequestContextService,
+        private commissionService: CommissionService,
+        private payoutService: PayoutService,
+    ) {}
+
+    async refundSellerOrderLines(ctx: RequestContext, input: RefundSellerOrderLinesInput): Promise<SellerRefund[]> {
+        if (!input.reason?.trim()) {
+            throw new UserInputError('A refund needs a reason');
+        }
+        if (!input.lines.length || input.lines.some(line => !Number.isInteger(line.quantity) || line.quantity <= 0)) {
+            throw new UserInputError('Refund at least one line, with positive quantities');
+        }
+        const isPlatform = await this.isPlatformChannel(ctx);
+        // Aggregate orders are only in the default channel, seller orders in both
+        const platformCtx = await this.createPlatformContext(ctx);
+
+        const pending = await this.connection.withTransaction(platformCtx, async txCtx => {
+            const order = await this.orderService.findOne(txCtx, input.orderId);
+            // Sellers learn nothing about orders that are not theirs
+            const ownsOrder = order?.type === OrderType.Seller
+                && idsAreEqual(order.lines[0]?.sellerChannelId ?? -1, ctx.channelId);
+            if (!isPlatform && !ownsOrder) {
+                throw new ForbiddenError();
+            }
+            if (!order || (order.type !== OrderType.Aggregate && order.type !== OrderType.Seller)) {
+                throw new UserInputError(`Order ${input.orderId} is not a split order`);
+            }
+
+            const aggregateOrder = order.type === OrderType.Aggregate
+                ? order
+                : await this.orderService.findOne(txCtx, order.aggregateOrderId!);
+            if (!aggregateOrder) {
+                throw new UserInputError(`The aggregate order of ${order.code} was not found`);
+            }
+            const mappings = await this.getLineMappings(txCtx, aggregateOrder);
+
+            // Group the requested lines by seller order
+            const linesBySellerOrder = new Map<string, { sellerOrder: Order; lines: Array<LineMapping & { quantity: number }> }>();
+            for (const line of input.lines) {
+                const mapping = mappings.find(m =>
+                    order.type === OrderType.Aggregate
+                        ? idsAreEqual(m.aggregateLine?.id ?? -1, line.orderLineId)
+                        : idsAreEqual(m.sellerLine.id, line.orderLineId),
+                );
+                if (!mapping) {
+                    throw new UserInputError(`Order line ${line.orderLineId} is not part of order ${order.code}`);
+                }
+                const key = String(mapping.sellerOrder.id);
+                const group = linesBySellerOrder.get(key) ?? { sellerOrder: mapping.sellerOrder, lines: [] };
+                group.lines.push({ ...mapping, quantity: line.quantity });
+                linesBySellerOrder.set(key, group);
+            }
+
+            // All seller orders are validated and cancelled, or none: a failure rolls back the earlier ones
+            const prepared: PendingSellerRefund[] = [];
+            for (const { sellerOrder, lines } of linesBySellerOrder.values()) {
+                const sellerChannelId = sellerOrder.lines[0]?.sellerChannelId;
+                if (sellerChannelId == null) {
+                    throw new UserInputError(`Order ${sellerOrder.code} has no seller`);
+                }
+                if (!isPlatform && !idsAreEqual(sellerChannelId, ctx.channelId)) {
+                    throw new ForbiddenError();
+                }
+                prepared.push(await this.prepareSellerRefund(txCtx, aggregateOrder, sellerOrder, sellerChannelId, lines, input, isPlatform));
+            }
+            return prepared;
+        });
+
+        const refunds: SellerRefund[] = [];
+        for (const sellerOrderRefund of pending) {
+            const refund = await this.refundPayment(platformCtx, sellerOrderRefund);
+            if (refund.state === 'completed') {
+                await this.logEvent(refund);
+                console.log(`[SellerRefund] ${refund.initiatedBy} refunded ${refund.amount} on seller order ${refund.sellerOrderId} (commission given back: ${refund.commissionReversed})`);
+            }
+            refunds.push(refund);
+        }
+        return refunds;
+    }
+
+    /**
+     * Refunds of the split orders visible in the active channel: all of them on
+     * the default channel, only their own in a seller channel
+     */
+    async findAll(
+        ctx: RequestContext,
+        orderId?: ID | null,
+        options: { skip?: number; take?: number } = {},
+    ): Promise<PaginatedList<SellerRefund>> {
+        const qb = this.connection
+            .getRepository(ctx, SellerRefund)
+            .createQueryBuilder('refund')
+            .orderBy('refund.createdAt', 'DESC')
+            .skip(options.skip ?? 0)
+            .take(Math.min(options.take ?? 50, 500));
+        if (!(await this.isPlatformChannel(ctx))) {
+            qb.andWhere('refund.sellerChannelId = :channelId', { channelId: ctx.channelId });
+        }
+        if (orderId != null) {
+            qb.andWhere('(refund.sellerOrderId = :orderId OR refund.aggregateOrderId = :orderId)', { orderId });
+        }
+        const [items, totalItems] = await qb.getManyAndCount();
+        return { items, totalItems };
+    }
+
+    /**
+     * Validate, price and cancel; records the pending SellerRefund. Runs in the
+     * transaction of refundSellerOrderLines, on the default channel.
+     */
+    private async prepareSellerRefund(
+        ctx: RequestContext,
+        aggregateOrder: Order,
+        sellerOrder: Order,
+        sellerChannelId: ID,
+        lines: Array<LineMapping & { quantity: number }>,
+        input: RefundSellerOrderLinesInput,
+        isPlatform: boolean,
+    ): Promise<PendingSellerRefund> {
+        const reason = input.reason.trim();
+        await this.assertRefundable(ctx, sellerOrder, lines, !!input.includeShipping);
+
+        // Priced before a cancellation changes the lines
+        const linesAmount = lines.reduce((sum, line) => sum + line.sellerLine.proratedUnitPriceWithTax * line.quantity, 0);
+        const requestedAmount = linesAmount + (input.includeShipping ? sellerOrder.shippingWithTax : 0);
+        const sellerLines: SellerRefundLine[] = lines.map(line => ({ orderLineId: line.sellerLine.id, quantity: line.quantity }));
+
+        if (input.cancel) {
+            const cancelled = await this.orderService.cancelOrder(ctx, {
+                orderId: sellerOrder.id,
+                lines: sellerLines,
+                reason,
+                cancelShipping: !!input.includeShipping,
+            });
+            if (isGraphQlErrorResult(cancelled)) {
+                throw new UserInputError(cancelled.message);
+            }
+            const aggregateLines = lines
+                .filter(line => line.aggregateLine)
+                .map(line => ({ orderLineId: line.aggregateLine!.id, quantity: line.quantity }));
+            if (aggregateLines.length) {
+                const result = await this.orderService.cancelOrder(ctx, {
+                    orderId: aggregateOrder.id,
+                    lines: aggregateLines,
+                    reason,
+                });
+                if (isGraphQlErrorResult(result)) {
+                    console.error(`[SellerRefund] Could not cancel the lines of order ${aggregateOrder.code}:`, result.message);
+                }
+            }
+        }
+
+        // Money is only refunded once it was taken; an authorized payment is not charged for cancelled lines
+        const payment = requestedAmount > 0 ? await this.getRefundablePayment(ctx, sellerOrder) : undefined;
+        const sellerRefund = await this.connection.getRepository(ctx, SellerRefund).save(new SellerRefund({
+            aggregateOrderId: aggregateOrder.id,
+            sellerOrderId: sellerOrder.id,
+            sellerChannelId,
+            tenantId: await this.getTenantId(ctx, sellerChannelId),
+            refundId: null,
+            lines: sellerLines,
+            shippingRefunded: !!input.includeShipping,
+            cancelled: !!input.cancel,
+            amount: payment ? Math.min(requestedAmount, payment.refundable) : 0,
+            commissionReversed: 0,
+            currencyCode: sellerOrder.currencyCode,
+            reason,
+            initiatedBy: isPlatform ? 'platform' : 'seller',
+            initiatedByUserId: ctx.activeUserId ?? null,
+            state: 'pending',
+            failureReason: null,
+        }));
+        return { sellerOrder, sellerRefund, paymentId: payment?.id ?? null };
+    }
+
+    /**
+     * Refund the money of a prepared seller refund and record the outcome. Runs
+     * outside any transaction: the provider call cannot be rolled back, so its
+     * result is saved whatever happens to the other seller orders.
+     */
+    private async refundPayment(ctx: RequestContext, { sellerOrder, sellerRefund, paymentId }: PendingSellerRefund): Promise<SellerRefund> {
+        const repository = this.connection.getRepository(ctx, SellerRefund);
+        if (paymentId != null && sellerRefund.amount > 0) {
+            const refund = await this.orderService.refundOrder(ctx, {
+                paymentId,
+                amount: sellerRefund.amount,
+                reason: sellerRefund.reason,
+            });
+            if (isGraphQlErrorResult(refund) || refund.state === 'Failed') {
+                sellerRefund.state = 'failed';
+                sellerRefund.refundId = isGraphQlErrorResult(refund) ? null : refund.id;
+                sellerRefund.failureReason = isGraphQlErrorResult(refund)
+                    ? refund.message
+                    : `The payment provider rejected the refund of order ${sellerOrder.code}`;
+                console.error(`[SellerRefund] Could not refund ${sellerRefund.amount} on seller order ${sellerOrder.code}:`, sellerRefund.failureReason);
+                return repository.save(sellerRefund);
+            }
+            sellerRefund.refundId = refund.id;
+        }
+        sellerRefund.state = 'completed';
+        await repository.save(sellerRefund);
+
+        // Commission is given back on the units whose money was refunded (or never taken)
+        try {
+            sellerRefund.commissionReversed = await this.connection.withTransaction(ctx, async txCtx => {
+                const commissionReversed = await this.commissionService.reverseCommissions(txCtx, sellerRefund.lines);
+                await this.payoutService.recordCommissionReversal(txCtx, sellerOrder, commissionReversed, sellerRefund.refundId);
+                await this.connection.getRepository(txCtx, SellerRefund).update(sellerRefund.id, { commissionReversed });
+                return commissionReversed;
+            });
+        } catch (error: any) {
+            console.error(`[SellerRefund] Could not give back the commission of seller refund ${sellerRefund.id}:`, error.message);
+        }
+        return sellerRefund;
+    }
+
+    /**
+     * Pair every seller order line with the aggregate order line it was split
+     * from: same variant and seller, in line order
+     */
+    private async getLineMappings(ctx: RequestContext, aggregateOrder: Order): Promise<LineMapping[]> {
+        const byId = (a: OrderLine, b: OrderLine) => Number(a.id) - Number(b.id);
+        const sellerOrders = await this.orderService.getSellerOrders(ctx, aggregateOrder);
+        const aggregateLines = [...aggregateOrder.lines].sort(byId);
+        const paired = new Set<string>();
+        const mappings: LineMapping[] = [];
+
+        for (const sellerOrder of sellerOrders) {
+            for (const sellerLine of [...sellerOrder.lines].sort(byId)) {
+                const aggregateLine = aggregateLines.find(
+                    line =>
+                        !paired.has(String(line.id)) &&
+                        idsAreEqual(line.productVariantId, sellerLine.productVariantId) &&
+                        idsAreEqual(line.sellerChannelId ?? -1, sellerLine.sellerChannelId ?? -1),
+                );
+                if (aggregateLine) {
+                    paired.add(String(aggregateLine.id));
+                }
+                mappings.push({ aggregateLine, sellerOrder, sellerLine });
+            }
+        }
+        return mappings;
+    }
+
+    /**
+     * Units and shipping can be refunded once: previous refunds of the seller
+     * order count, unless the provider rejected them. The seller order is locked
+     * until the transaction ends, so concurrent refunds of it are checked one
+     * after the other.
+     */
+    private async assertRefundable(
+        ctx: RequestContext,
+        sellerOrder: Order,
+        lines: Array<LineMapping & { quantity: number }>,
+        includeShipping: boolean,
+    ): Promise<void> {
+        await this.connection
+            .getRepository(ctx, Order)
+            .createQueryBuilder('order')
+            .setLock('pessimistic_write')
+            .where('order.id = :id', { id: sellerOrder.id })
+            .getOne();
+        const previous = (
+            await this.connection.getRepository(ctx, SellerRefund).find({
+                where: { sellerOrderId: sellerOrder.id },
+            })
+        ).filter(refund => refund.state !== 'failed');
+        if (includeShipping && previous.some(refund => refund.shippingRefunded)) {
+            throw new UserInputError(`The shipping of order ${sellerOrder.code} has already been refunded`);
+        }
+        for (const line of lines) {
+            const refunded = previous
+                .flatMap(refund => refund.lines)
+                .filter(refundLine => idsAreEqual(refundLine.orderLineId, line.sellerLine.id))
+                .reduce((sum, refundLine) => sum + refundLine.quantity, 0);
+            const ordered = line.sellerLine.orderPlacedQuantity || line.sellerLine.quantity;
+            if (refunded + line.quantity > ordered) {
+                throw new UserInputError(
+                    `Only ${ordered - refunded} of order line ${line.sellerLine.id} can still be refunded`,
+                );
+            }
+        }
+    }
+
+    private async getRefundablePayment(
+        ctx: RequestContext,
+        sellerOrder: Order,
+    ): Promise<{ id: ID; refundable: number } | undefined> {
+        const payments = await this.connection.getRepository(ctx, Payment).find({
+            where: { order: { id: sellerOrder.id }, state: 'Settled' },
+            relations: ['refunds'],
+        });
+        return payments
+            .map(payment => ({
+                id: payment.id,
+                refundable:
+                    payment.amount -
+                    (payment.refunds ?? [])
+                        .filter(refund => refund.state !== 'Failed')
+                        .reduce((sum, refund) => sum + refund.total, 0),
+            }))
+            .find(payment => payment.refundable > 0);
+    }
+
+    /**
+     * A default channel context acting as the calling user, so that order
+     * history records who cancelled and refunded
+     */
+    private async createPlatformContext(ctx: RequestContext): Promise<RequestContext> {
+        const user = ctx.activeUserId != null
+            ? await this.connection.getRepository(ctx, User).findOne({ where: { id: ctx.activeUserId } })
+            : null;
+        return this.requestContextService.create({ apiType: 'admin', user: user ?? undefined });
+    }
+
+    private async isPlatformChannel(ctx: RequestContext): Promise<boolean> {
+        const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+        return String(ctx.channelId) === String(defaultChannel.id);
+    }
+
+    private async getTenantId(ctx: RequestContext, sellerChannelId: ID): Promise<string | null> {
+        const result = await this.connection.getRepository(ctx, SellerRefund).query(
+            `SELECT id FROM tenants WHERE vendure_channel_id = $1 LIMIT 1`,
+            [sellerChannelId]
+        );
+        return result.length ? result[0].id : null;
+    }
+
+    private async logEvent(refund: SellerRefund): Promise<void> {
+        try {
+            await this.connection.rawConnection.query(
+                `INSERT INTO events (tenant_id, event_type, event_data) VALUES ($1, $2, $3)`,
+                [
+                    refund.tenantId,
+                    'seller_order.refunded',
+                    JSON.stringify({
+                        sellerRefundId: String(refund.id),
+                        sellerOrderId: String(refund.sellerOrderId),
+                        aggregateOrderId: String(refund.aggregateOrderId),
+                        amount: refund.amount,
+                        commissionReversed: refund.commissionReversed,
+                        cancelled: refund.cancelled,
+                        initiatedBy: refund.initiatedBy,
+                        userId: refund.initiatedByUserId != null ? String(refund.initiatedByUserId) : null,
+                    }),
+                ]
+            );
+        } catch (error: any) {
+            console.error('[SellerRefund] Could not log seller_order.refunded:', error.message);
+        }
+    }
+}
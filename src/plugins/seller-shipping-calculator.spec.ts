@@ -0,0 +1,171 @@
+import { ExecutionContext } from '@nestjs/common';
+import {
+    Channel,
+    ChannelService,
+    EntityHydrator,
+    Order,
+    RequestContext,
+    ShippingMethod,
+    UserInputError,
+    ZoneService,
+} from '@vendure/core';
+import { of } from 'rxjs';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SellerRateTableInterceptor } from './seller-rate-table-interceptor';
+import {
+    parseSellerRateTable,
+    SellerShippingRateTable,
+    sellerRateTableShippingCalculator,
+} from './seller-shipping-calculator';
+
+const defaultChannel = { id: 1, sellerId: 1 } as Channel;
+const sellerChannel = { id: 2, sellerId: 2 } as Channel;
+
+describe('parseSellerRateTable', () => {
+    it('accepts a valid rate table', () => {
+        const table: SellerShippingRateTable = {
+            rates: [{ zoneId: '2', weightBands: [{ upTo: 1000, price: 495 }, { upTo: null, price: 995 }] }],
+            freeShippingThreshold: 5000,
+            perItemSurcharge: 100,
+        };
+
+        expect(parseSellerRateTable(JSON.stringify(table))).toEqual(table);
+    });
+
+    it.each([
+        ['invalid JSON', '{ rates: '],
+        ['a missing rates list', '{}'],
+        ['a rate without weight bands', '{ "rates": [{ "weightBands": [] }] }'],
+        ['a fractional price', '{ "rates": [{ "weightBands": [{ "upTo": null, "price": 4.95 }] }] }'],
+        ['a negative price', '{ "rates": [{ "weightBands": [{ "upTo": null, "price": -1 }] }] }'],
+        ['a weight bound that is not a number', '{ "rates": [{ "weightBands": [{ "upTo": "1kg", "price": 495 }] }] }'],
+        ['a zoneId that is not an id', '{ "rates": [{ "zoneId": { "id": 2 }, "weightBands": [{ "upTo": null, "price": 0 }] }] }'],
+        ['a negative threshold', '{ "rates": [{ "weightBands": [{ "upTo": null, "price": 0 }] }], "freeShippingThreshold": -5 }'],
+        ['a fractional surcharge', '{ "rates": [{ "weightBands": [{ "upTo": null, "price": 0 }] }], "perItemSurcharge": 0.5 }'],
+    ])('rejects %s', (_, value) => {
+        expect(() => parseSellerRateTable(value)).toThrow(UserInputError);
+    });
+});
+
+describe('sellerRateTableShippingCalculator', () => {
+    const ctx = { channel: { pricesIncludeTax: false } } as RequestContext;
+    const method = { code: 'seller-2-shipping', channels: [defaultChannel, sellerChannel] } as ShippingMethod;
+    const table: SellerShippingRateTable = {
+        rates: [
+            { zoneId: 'eu', weightBands: [{ upTo: 1000, price: 495 }, { upTo: 5000, price: 995 }] },
+            { weightBands: [{ upTo: null, price: 2500 }] },
+        ],
+        freeShippingThreshold: 10000,
+        perItemSurcharge: 100,
+    };
+
+    beforeAll(async () => {
+        const services = new Map<unknown, unknown>([
+            [ChannelService, { getDefaultChannel: async () => defaultChannel }],
+            [EntityHydrator, { hydrate: async () => undefined }],
+            [ZoneService, { getAllWithMembers: async () => [{ id: 'eu', members: [{ code: 'DE' }, { code: 'FR' }] }] }],
+        ]);
+        await sellerRateTableShippingCalculator.init({ get: (token: unknown) => services.get(token) } as any);
+    });
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function orderOf(countryCode: string, lines: Array<{ sellerChannelId: number; weight: number; quantity: number; price: number }>) {
+        return {
+            shippingAddress: { countryCode },
+            lines: lines.map(line => ({
+                sellerChannelId: line.sellerChannelId,
+                quantity: line.quantity,
+                proratedLinePriceWithTax: line.price,
+                productVariant: { customFields: { weight: line.weight } },
+            })),
+        } as unknown as Order;
+    }
+
+    const calculate = (order: Order, rateTable = JSON.stringify(table)) =>
+        sellerRateTableShippingCalculator.calculate(ctx, order, [
+            { name: 'rateTable', value: rateTable },
+            { name: 'includesTax', value: 'exclude' },
+            { name: 'taxRate', value: '20' },
+        ], method);
+
+    it('prices the weight band of the zone rate, plus the surcharge per unit', async () => {
+        const order = orderOf('DE', [
+            { sellerChannelId: 2, weight: 400, quantity: 2, price: 3000 },
+            // Another seller's line weighs nothing on this method
+            { sellerChannelId: 3, weight: 9000, quantity: 1, price: 9000 },
+        ]);
+
+        expect(await calculate(order)).toEqual({
+            price: 495 + 2 * 100,
+            priceIncludesTax: false,
+            taxRate: 20,
+            metadata: { weight: 800, units: 2, freeShipping: false },
+        });
+    });
+
+    it('falls back to the rate without zone outside the zones', async () => {
+        const order = orderOf('US', [{ sellerChannelId: 2, weight: 400, quantity: 1, price: 3000 }]);
+
+        expect(await calculate(order)).toMatchObject({ price: 2500 + 100 });
+    });
+
+    it('is free from the threshold of the seller items', async () => {
+        const order = orderOf('FR', [{ sellerChannelId: 2, weight: 400, quantity: 1, price: 10000 }]);
+
+        expect(await calculate(order)).toMatchObject({ price: 0, metadata: { freeShipping: true } });
+    });
+
+    it('is not offered when no weight band fits, or for a stored invalid table', async () => {
+        const heavy = orderOf('DE', [{ sellerChannelId: 2, weight: 6000, quantity: 1, price: 3000 }]);
+        const light = orderOf('DE', [{ sellerChannelId: 2, weight: 100, quantity: 1, price: 3000 }]);
+
+        expect(await calculate(heavy)).toBeUndefined();
+        expect(await calculate(light, '{ "rates": "none" }')).toBeUndefined();
+    });
+});
+
+describe('SellerRateTableInterceptor', () => {
+    const interceptor = new SellerRateTableInterceptor();
+    const next = { handle: vi.fn(() => of('saved')) };
+
+    function contextFor(fieldName: string, calculator: object) {
+        const args = [{}, { input: { calculator } }, { req: {}, res: {} }, { fieldName }];
+        return {
+            getType: () => 'graphql',
+            getArgs: () => args,
+            getArgByIndex: (index: number) => args[index],
+            getHandler: () => undefined,
+            getClass: () => undefined,
+        } as unknown as ExecutionContext;
+    }
+    const rateTableCalculator = (rateTable: string) => ({
+        code: sellerRateTableShippingCalculator.code,
+        arguments: [{ name: 'rateTable', value: rateTable }],
+    });
+
+    beforeEach(() => {
+        next.handle.mockClear();
+    });
+
+    it('rejects an invalid rate table before the shipping method is saved', () => {
+        for (const fieldName of ['createShippingMethod', 'updateShippingMethod']) {
+            expect(() => interceptor.intercept(contextFor(fieldName, rateTableCalculator('{}')), next)).toThrow(UserInputError);
+        }
+        expect(next.handle).not.toHaveBeenCalled();
+    });
+
+    it('saves shipping methods with a valid rate table or another calculator', () => {
+        const valid = rateTableCalculator('{ "rates": [{ "weightBands": [{ "upTo": null, "price": 500 }] }] }');
+
+        interceptor.intercept(contextFor('createShippingMethod', valid), next);
+        interceptor.intercept(contextFor('updateShippingMethod', { code: 'default-shipping-calculator', arguments: [] }), next);
+        interceptor.intercept(contextFor('updateShippingMethod', {}), next);
+
+        expect(next.handle).toHaveBeenCalledTimes(3);
+    });
+});
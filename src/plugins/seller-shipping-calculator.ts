@@ -0,0 +1,186 @@
+/**
+ * Seller Rate Table Shipping Calculator
+ *
+ * Prices a seller's ShippingMethod from a rate table the seller edits as a
+ * calculator argument. Only the seller's own order lines count - the same
+ * lines MultiVendorShippingLineAssignmentStrategy assigns to the shipping line.
+ *
+ * Rate table (JSON):
+ *
+ *    {
+ *      "rates": [
+ *        { "zoneId": "2", "weightBands": [{ "upTo": 1000, "price": 495 }, { "upTo": null, "price": 995 }] },
+ *        { "weightBands": [{ "upTo": 2000, "price": 1500 }] }
+ *      ],
+ *      "freeShippingThreshold": 5000,
+ *      "perItemSurcharge": 100
+ *    }
+ *
+ * The first rate whose zone contains the destination country applies; a rate
+ * without zoneId applies anywhere. Weights are in grams (the variant `weight`
+ * custom field), prices and the threshold in minor units. The method is not
+ * offered when no rate or weight band fits.
+ */
+
+import {
+    ChannelService,
+    EntityHydrator,
+    ID,
+    idsAreEqual,
+    LanguageCode,
+    RequestContext,
+    ShippingCalculator,
+    UserInputError,
+    ZoneService,
+} from '@vendure/core';
+import { getLinesWeight, getSellerChannels, getShippedLines } from './multi-vendor-plugin';
+
+export interface SellerWeightBand {
+    /** Upper weight bound in grams, inclusive (null: no upper bound) */
+    upTo: number | null;
+    price: number;
+}
+
+export interface SellerShippingRate {
+    /** Omit to apply to any destination */
+    zoneId?: ID;
+    weightBands: SellerWeightBand[];
+}
+
+export interface SellerShippingRateTable {
+    rates: SellerShippingRate[];
+    /** Shipping is free from this value of the seller's items, with tax */
+    freeShippingThreshold?: number;
+    /** Added per unit shipped */
+    perItemSurcharge?: number;
+}
+
+export const DEFAULT_SELLER_RATE_TABLE: SellerShippingRateTable = {
+    rates: [{ weightBands: [{ upTo: null, price: 0 }] }],
+};
+
+/**
+ * Parse and validate a rate table argument
+ */
+export function parseSellerRateTable(value: string): SellerShippingRateTable {
+    let table: SellerShippingRateTable;
+    try {
+        table = JSON.parse(value);
+    } catch {
+        throw new UserInputError('The shipping rate table is not valid JSON');
+    }
+    if (!table || !Array.isArray(table.rates)) {
+        throw new UserInputError('The shipping rate table needs a "rates" list');
+    }
+    for (const field of ['freeShippingThreshold', 'perItemSurcharge'] as const) {
+        if (table[field] != null && (!Number.isInteger(table[field]) || table[field]! < 0)) {
+            throw new UserInputError(`The ${field} of the shipping rate table must be a non-negative integer in minor units`);
+        }
+    }
+    for (const rate of table.rates) {
+        if (rate?.zoneId != null && typeof rate.zoneId !== 'string' && typeof rate.zoneId !== 'number') {
+            throw new UserInputError('A shipping rate zoneId must be the id of a zone');
+        }
+        if (!Array.isArray(rate?.weightBands) || !rate.weightBands.length) {
+            throw new UserInputError('Every shipping rate needs at least one weight band');
+        }
+        for (const band of rate.weightBands) {
+            if (!Number.isInteger(band?.price) || band.price < 0) {
+                throw new UserInputError('Weight band prices must be non-negative integers in minor units');
+            }
+            if (band.upTo !== null && (typeof band.upTo !== 'number' || band.upTo < 0)) {
+                throw new UserInputError('Weight band upTo must be a weight in grams or null');
+            }
+        }
+    }
+    return table;
+}
+
+let channelService: ChannelService;
+let entityHydrator: EntityHydrator;
+let zoneService: ZoneService;
+
+export const sellerRateTableShippingCalculator = new ShippingCalculator({
+    code: 'seller-rate-table-shipping-calculator',
+    description: [{ languageCode: LanguageCode.en, value: 'Seller rate table (weight, zone, free shipping threshold)' }],
+    args: {
+        rateTable: {
+            type: 'string',
+            defaultValue: JSON.stringify(DEFAULT_SELLER_RATE_TABLE),
+            ui: { component: 'json-editor-form-input' },
+            label: [{ languageCode: LanguageCode.en, value: 'Rate table' }],
+        },
+        includesTax: {
+            type: 'string',
+            defaultValue: 'auto',
+            ui: {
+                component: 'select-form-input',
+                options: [
+                    { label: [{ languageCode: LanguageCode.en, value: 'Includes tax' }], value: 'include' },
+                    { label: [{ languageCode: LanguageCode.en, value: 'Excludes tax' }], value: 'exclude' },
+                    { label: [{ languageCode: LanguageCode.en, value: 'Auto (based on Channel)' }], value: 'auto' },
+                ],
+            },
+            label: [{ languageCode: LanguageCode.en, value: 'Price includes tax' }],
+        },
+        taxRate: {
+            type: 'float',
+            defaultValue: 0,
+            ui: { component: 'number-form-input', suffix: '%' },
+            label: [{ languageCode: LanguageCode.en, value: 'Tax rate' }],
+        },
+    },
+    init(injector) {
+        channelService = injector.get(ChannelService);
+        entityHydrator = injector.get(EntityHydrator);
+        zoneService = injector.get(ZoneService);
+    },
+    calculate: async (ctx, order, args, method) => {
+        let table: SellerShippingRateTable;
+        try {
+            table = parseSellerRateTable(args.rateTable);
+        } catch (error) {
+            console.warn(`[SellerShipping] Shipping method ${method.code} has an invalid rate table:`, (error as Error).message);
+            return undefined;
+        }
+        await entityHydrator.hydrate(ctx, method, { relations: ['channels'] });
+        const defaultChannel = await channelService.getDefaultChannel(ctx);
+        const lines = getShippedLines(order, getSellerChannels(method.channels, defaultChannel));
+        if (!lines.length) {
+            return undefined;
+        }
+
+        const rate = await findRate(ctx, table.rates, order.shippingAddress?.countryCode);
+        const weight = getLinesWeight(lines);
+        const band = rate?.weightBands.find(b => b.upTo === null || weight <= b.upTo);
+        if (!band) {
+            return undefined;
+        }
+        const itemsValue = lines.reduce((sum, line) => sum + line.proratedLinePriceWithTax, 0);
+        const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+        const isFree = table.freeShippingThreshold != null && itemsValue >= table.freeShippingThreshold;
+        const price = isFree ? 0 : band.price + (table.perItemSurcharge ?? 0) * units;
+
+        return {
+            price,
+            priceIncludesTax: args.includesTax === 'auto' ? ctx.channel.pricesIncludeTax : args.includesTax === 'include',
+            taxRate: args.taxRate,
+            metadata: { weight, units, freeShipping: isFree },
+        };
+    },
+});
+
+async function findRate(
+    ctx: RequestContext,
+    rates: SellerShippingRate[],
+    countryCode: string | undefined,
+): Promise<SellerShippingRate | undefined> {
+    const zones = rates.some(rate => rate.zoneId != null) ? await zoneService.getAllWithMembers(ctx) : [];
+    return rates.find(rate => {
+        if (rate.zoneId == null) {
+            return true;
+        }
+        const zone = zones.find(z => idsAreEqual(z.id, rate.zoneId!));
+        return !!countryCode && !!zone?.members.some(member => member.code === countryCode);
+    });
+}
@@ -0,0 +1,29 @@
+/**
+ * Seller Shipping Order Process
+ *
+ * Rejects the transition to ArrangingPayment until the lines of every seller
+ * in the order are covered by exactly one eligible shipping line, so no part
+ * of a multi-seller cart is left unshippable.
+ */
+
+import { Injector, OrderProcess, OrderState } from '@vendure/core';
+import { SellerShippingService } from './seller-shipping-service';
+
+let sellerShippingService: SellerShippingService | undefined;
+
+export const sellerShippingOrderProcess: OrderProcess<OrderState> = {
+    init(injector: Injector) {
+        sellerShippingService = injector.get(SellerShippingService);
+    },
+
+    async onTransitionStart(fromState, toState, { ctx, order }) {
+        if (toState !== 'ArrangingPayment' || !sellerShippingService) {
+            return;
+        }
+        const error = await sellerShippingService.validateShippingPerSeller(ctx, order);
+        if (error) {
+            console.log(`[SellerShipping] Rejected order ${order.code}: ${error}`);
+            return error;
+        }
+    },
+};
@@ -0,0 +1,73 @@
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { PluginCommonModule, VendurePlugin } from '@vendure/core';
+import gql from 'graphql-tag';
+import { SellerRateTableInterceptor } from './seller-rate-table-interceptor';
+import { sellerShippingOrderProcess } from './seller-shipping-order-process';
+import { SellerShippingResolver } from './seller-shipping-resolver';
+import { SellerShippingService } from './seller-shipping-service';
+
+export { SellerShippingService };
+
+/**
+ * Seller Shipping Plugin
+ *
+ * One shipping method per seller at checkout.
+ *
+ * Components:
+ * - SellerShippingService: groups order lines by seller with their shipping methods (see seller-shipping-service.ts)
+ * - sellerShippingOrderProcess: every seller needs exactly one shipping line before ArrangingPayment
+ *   (see seller-shipping-order-process.ts)
+ * - SellerShippingResolver: Shop API `eligibleShippingMethodsPerSeller` (see seller-shipping-resolver.ts)
+ * - SellerRateTableInterceptor: rejects invalid seller rate tables when a shipping method is saved
+ *   (see seller-rate-table-interceptor.ts)
+ *
+ * Relies on the multi-vendor shipping checker and line assignment strategy
+ * (see multi-vendor-plugin.ts) to tie shipping methods to their seller's lines.
+ */
+@VendurePlugin({
+    imports: [PluginCommonModule],
+    providers: [SellerShippingService, { provide: APP_INTERCEPTOR, useClass: SellerRateTableInterceptor }],
+    exports: [SellerShippingService],
+    shopApiExtensions: {
+        schema: gql`
+            type SellerShippingMethods {
+                "Null for items sold by the marketplace itself"
+                sellerChannelId: ID
+                sellerName: String!
+                orderLineIds: [ID!]!
+                shippingMethods: [ShippingMethodQuote!]!
+                selectedShippingMethodId: ID
+            }
+
+            extend type Query {
+                eligibleShippingMethodsPerSeller: [SellerShippingMethods!]!
+            }
+        `,
+        resolvers: [SellerShippingResolver],
+    },
+    configuration: config => {
+        config.orderOptions.process.push(sellerShippingOrderProcess);
+        return config;
+    },
+})
+export class SellerShippingPlugin {}
+
+/**
+ * USAGE
+ * =====
+ *
+ * At checkout, list the options per seller:
+ *
+ *    query {
+ *      eligibleShippingMethodsPerSeller {
+ *        sellerName
+ *        orderLineIds
+ *        shippingMethods { id name priceWithTax }
+ *        selectedShippingMethodId
+ *      }
+ *    }
+ *
+ * then set one method for every seller at once:
+ *
+ *    mutation { setOrderShippingMethod(shippingMethodId: [3, 7]) { ... on Order { id } } }
+ */
@@ -0,0 +1,38 @@
+/**
+ * Seller Shipping Resolver
+ *
+ * Shop API: the shipping methods of the active order, grouped by seller.
+ */
+
+import { Query, Resolver } from '@nestjs/graphql';
+import { ShippingMethodQuote } from '@vendure/common/lib/generated-types';
+import { ActiveOrderService, Allow, Ctx, ID, Permission, RequestContext } from '@vendure/core';
+import { SellerShippingService } from './seller-shipping-service';
+
+@Resolver()
+export class SellerShippingResolver {
+    constructor(
+        private activeOrderService: ActiveOrderService,
+        private sellerShippingService: SellerShippingService,
+    ) {}
+
+    @Query()
+    @Allow(Permission.Owner)
+    async eligibleShippingMethodsPerSeller(@Ctx() ctx: RequestContext): Promise<Array<{
+        sellerChannelId: ID | null;
+        sellerName: string;
+        orderLineIds: ID[];
+        shippingMethods: ShippingMethodQuote[];
+        selectedShippingMethodId: ID | null;
+    }>> {
+        const order = await this.activeOrderService.getActiveOrder(ctx, undefined);
+        if (!order) {
+            return [];
+        }
+        const groups = await this.sellerShippingService.getEligibleShippingMethodsPerSeller(ctx, order);
+        return groups.map(({ orderLines, ...group }) => ({
+            ...group,
+            orderLineIds: orderLines.map(line => line.id),
+        }));
+    }
+}
@@ -0,0 +1,121 @@
+import { Channel, Order, RequestContext, ShippingMethod } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sellerShippingOrderProcess } from './seller-shipping-order-process';
+import { SellerShippingService } from './seller-shipping-service';
+
+const ctx = {} as RequestContext;
+const defaultChannel = { id: 1, sellerId: 1, code: 'default', seller: { name: 'Marketplace' } };
+const channels = [
+    defaultChannel,
+    { id: 2, sellerId: 2, code: 'seller-a', seller: { name: 'Seller A' } },
+    { id: 3, sellerId: 3, code: 'seller-b', seller: { name: 'Seller B' } },
+];
+// Shipping method id -> the channels it is assigned to
+const shippingMethods: Record<string, number[]> = { '10': [1, 2], '11': [1, 2], '20': [1, 3], '30': [1] };
+
+function createService(eligibleMethodIds = Object.keys(shippingMethods)) {
+    const connection = {
+        getRepository: (_ctx: RequestContext, entity: unknown) => ({
+            find: async () =>
+                entity === Channel
+                    ? channels
+                    : Object.entries(shippingMethods).map(([id, channelIds]) => ({
+                          id,
+                          channels: channels.filter(channel => channelIds.includes(channel.id)),
+                      })),
+        }),
+    };
+    const orderService = {
+        getEligibleShippingMethods: vi.fn(async () => eligibleMethodIds.map(id => ({ id, name: `Method ${id}` }))),
+    };
+    const channelService = { getDefaultChannel: async () => defaultChannel };
+    return new SellerShippingService(connection as any, channelService as any, orderService as any);
+}
+
+/**
+ * An order with a line per seller channel id, shipped by the given shipping method
+ * (shipping line id = method id + 100)
+ */
+function orderOf(lines: Array<[sellerChannelId: number | null, shippingMethodId: string | null]>, extraMethodIds: string[] = []) {
+    const methodIds = [...new Set([...lines.map(([, methodId]) => methodId), ...extraMethodIds])].filter(id => id != null);
+    return {
+        id: 1,
+        code: 'ORDER1',
+        lines: lines.map(([sellerChannelId, methodId], index) => ({
+            id: index + 1,
+            sellerChannelId,
+            shippingLineId: methodId ? Number(methodId) + 100 : null,
+        })),
+        shippingLines: methodIds.map(id => ({ id: Number(id) + 100, shippingMethodId: id, shippingMethod: { name: `Method ${id}` } as ShippingMethod })),
+    } as unknown as Order;
+}
+
+describe('SellerShippingService', () => {
+    it('groups the lines by seller with the methods of that seller, and the platform methods for platform lines', async () => {
+        const service = createService();
+        const order = orderOf([[2, '10'], [3, null], [2, '10'], [null, null]]);
+
+        const groups = await service.getEligibleShippingMethodsPerSeller(ctx, order);
+
+        expect(groups.map(group => ({
+            sellerChannelId: group.sellerChannelId,
+            sellerName: group.sellerName,
+            lineIds: group.orderLines.map(line => line.id),
+            methodIds: group.shippingMethods.map(method => method.id),
+            selectedShippingMethodId: group.selectedShippingMethodId,
+        }))).toEqual([
+            { sellerChannelId: 2, sellerName: 'Seller A', lineIds: [1, 3], methodIds: ['10', '11'], selectedShippingMethodId: '10' },
+            { sellerChannelId: 3, sellerName: 'Seller B', lineIds: [2], methodIds: ['20'], selectedShippingMethodId: null },
+            { sellerChannelId: null, sellerName: 'Marketplace', lineIds: [4], methodIds: ['30'], selectedShippingMethodId: null },
+        ]);
+    });
+
+    it('accepts an order with exactly one eligible shipping method per seller', async () => {
+        expect(await createService().validateShippingPerSeller(ctx, orderOf([[2, '10'], [3, '20'], [2, '10']]))).toBeUndefined();
+    });
+
+    it('asks for a shipping method for the seller without one', async () => {
+        expect(await createService().validateShippingPerSeller(ctx, orderOf([[2, '10'], [3, null]]))).toBe(
+            'Please choose a shipping method for the items from Seller B',
+        );
+    });
+
+    it('rejects two shipping methods for the lines of one seller', async () => {
+        expect(await createService().validateShippingPerSeller(ctx, orderOf([[2, '10'], [2, '11']]))).toBe(
+            'Please choose only one shipping method for the items from Seller A',
+        );
+    });
+
+    it('rejects a shipping line that ships none of the lines, as it would still be charged', async () => {
+        expect(await createService().validateShippingPerSeller(ctx, orderOf([[2, '10']], ['11']))).toBe(
+            'Please choose only one shipping method per seller',
+        );
+    });
+
+    it('rejects a shipping method that is no longer eligible', async () => {
+        expect(await createService(['10']).validateShippingPerSeller(ctx, orderOf([[2, '10'], [3, '20']]))).toBe(
+            'The shipping method Method 20 is not available for this order',
+        );
+    });
+});
+
+describe('sellerShippingOrderProcess', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        sellerShippingOrderProcess.init!({ get: () => createService() } as any);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const transition = (toState: string, order: Order) =>
+        sellerShippingOrderProcess.onTransitionStart!('AddingItems', toState as any, { ctx, order });
+
+    it('blocks the transition to ArrangingPayment until every seller has a shipping method', async () => {
+        const order = orderOf([[2, '10'], [3, null]]);
+
+        expect(await transition('ArrangingPayment', order)).toBe('Please choose a shipping method for the items from Seller B');
+        expect(await transition('Cancelled', order)).toBeUndefined();
+        expect(await transition('ArrangingPayment', orderOf([[2, '10'], [3, '20']]))).toBeUndefined();
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * Seller Shipping Service
+ *
+ * Groups an order's lines by seller, with the shipping methods each seller's
+ * lines can be shipped with, and checks that every seller's lines are covered
+ * by exactly one shipping line before checkout.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { ShippingMethodQuote } from '@vendure/common/lib/generated-types';
+import {
+    Channel,
+    ChannelService,
+    ID,
+    idsAreEqual,
+    Order,
+    OrderLine,
+    OrderService,
+    RequestContext,
+    ShippingMethod,
+    TransactionalConnection,
+} from '@vendure/core';
+import { In } from 'typeorm';
+import { getSellerChannels } from './multi-vendor-plugin';
+
+export interface SellerShippingGroup {
+    /** Null for lines sold by the marketplace itself */
+    sellerChannelId: ID | null;
+    sellerName: string;
+    orderLines: OrderLine[];
+    shippingMethods: ShippingMethodQuote[];
+    selectedShippingMethodId: ID | null;
+}
+
+@Injectable()
+export class SellerShippingService {
+    constructor(
+        private connection: TransactionalConnection,
+        private channelService: ChannelService,
+        private orderService: OrderService,
+    ) {}
+
+    /**
+     * Seller methods are offered for that seller's lines; methods of the
+     * platform for the lines the platform sells itself
+     */
+    async getEligibleShippingMethodsPerSeller(ctx: RequestContext, order: Order): Promise<SellerShippingGroup[]> {
+        const groups = await this.groupLinesBySeller(ctx, order);
+        const quotes = await this.orderService.getEligibleShippingMethods(ctx, order.id);
+        const sellerChannelIdsByMethod = await this.getSellerChannelIdsByMethod(ctx, quotes.map(quote => quote.id));
+
+        return groups.map(group => ({
+            ...group,
+            shippingMethods: quotes.filter(quote => {
+                const methodSellerChannelIds = sellerChannelIdsByMethod.get(String(quote.id)) ?? [];
+                return group.sellerChannelId == null
+                    ? methodSellerChannelIds.length === 0
+                    : methodSellerChannelIds.some(id => idsAreEqual(id, group.sellerChannelId!));
+            }),
+        }));
+    }
+
+    /**
+     * Why the order cannot be paid yet, or undefined when every seller's lines
+     * are covered by exactly one eligible shipping line
+     */
+    async validateShippingPerSeller(ctx: RequestContext, order: Order): Promise<string | undefined> {
+        const shippingLines = order.shippingLines ?? [];
+        const groups = await this.groupLinesBySeller(ctx, order);
+
+        for (const group of groups) {
+            if (group.orderLines.some(line => line.shippingLineId == null)) {
+                return `Please choose a shipping method for the items from ${group.sellerName}`;
+            }
+            const shippingLineIds = new Set(group.orderLines.map(line => String(line.shippingLineId)));
+            if (shippingLineIds.size > 1) {
+                return `Please choose only one shipping method for the items from ${group.sellerName}`;
+            }
+        }
+        // A second method of the same seller is assigned no lines, but would still be charged
+        const unassigned = shippingLines.find(
+            shippingLine => !order.lines.some(line => idsAreEqual(line.shippingLineId ?? -1, shippingLine.id)),
+        );
+        if (unassigned) {
+            return 'Please choose only one shipping method per seller';
+        }
+
+        const eligible = await this.orderService.getEligibleShippingMethods(ctx, order.id);
+        for (const shippingLine of shippingLines) {
+            if (!eligible.some(quote => idsAreEqual(quote.id, shippingLine.shippingMethodId))) {
+                return `The shipping method ${shippingLine.shippingMethod?.name ?? shippingLine.shippingMethodId} is not available for this order`;
+            }
+        }
+        return undefined;
+    }
+
+    private async groupLinesBySeller(ctx: RequestContext, order: Order): Promise<Omit<SellerShippingGroup, 'shippingMethods'>[]> {
+        const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+        const linesBySeller = new Map<string, OrderLine[]>();
+        for (const line of order.lines) {
+            const key = line.sellerChannelId != null && !idsAreEqual(line.sellerChannelId, defaultChannel.id)
+                ? String(line.sellerChannelId)
+                : '';
+            linesBySeller.set(key, [...(linesBySeller.get(key) ?? []), line]);
+        }
+        const channels = await this.connection.getRepository(ctx, Channel).find({
+            where: { id: In([...linesBySeller.keys()].map(key => key || defaultChannel.id)) },
+            relations: ['seller'],
+        });
+        const shippingLines = order.shippingLines ?? [];
+
+        return [...linesBySeller.entries()].map(([key, orderLines]) => {
+            const channel = channels.find(c => idsAreEqual(c.id, key || defaultChannel.id));
+            const selected = shippingLines.find(shippingLine =>
+                orderLines.some(line => idsAreEqual(line.shippingLineId ?? -1, shippingLine.id)),
+            );
+            return {
+                sellerChannelId: key ? channel?.id ?? key : null,
+                sellerName: channel?.seller?.name ?? channel?.code ?? 'this store',
+                orderLines,
+                selectedShippingMethodId: selected?.shippingMethodId ?? null,
+            };
+        });
+    }
+
+    private async getSellerChannelIdsByMethod(ctx: RequestContext, methodIds: ID[]): Promise<Map<string, ID[]>> {
+        const byMethod = new Map<string, ID[]>();
+        if (!methodIds.length) {
+            return byMethod;
+        }
+        const defaultChannel = await this.channelService.getDefaultChannel(ctx);
+        const methods = await this.connection.getRepository(ctx, ShippingMethod).find({
+            where: { id: In(methodIds) },
+            relations: ['channels'],
+        });
+        for (const method of methods) {
+            byMethod.set(String(method.id), getSellerChannels(method.channels, defaultChannel).map(c => c.id));
+        }
+        return byMethod;
+    }
+}
@@ -0,0 +1,204 @@
+/**
+ * Marketplace Split Payment
+ *
+ * The customer pays the aggregate order once, through a SplitPaymentProvider.
+ * When the order is split, that payment is allocated to the seller orders in
+ * proportion to their totals (shipping included): every seller order gets its
+ * own payment with the same method, so it transitions to PaymentAuthorized /
+ * PaymentSettled like any other order. Settling an authorized aggregate
+ * payment later settles the allocated payments too.
+ */
+
+import { OrderType } from '@vendure/common/lib/generated-types';
+import {
+    EventBus,
+    ID,
+    Injector,
+    isGraphQlErrorResult,
+    LanguageCode,
+    Order,
+    OrderService,
+    Payment,
+    PaymentMethodHandler,
+    PaymentStateTransitionEvent,
+    RequestContext,
+    TransactionalConnection,
+} from '@vendure/core';
+import { allocateProportionally } from './money-allocation';
+import { SplitPaymentProvider } from './split-payment-provider';
+
+export const SPLIT_PAYMENT_HANDLER_CODE = 'marketplace-split-payment';
+
+/**
+ * Metadata of an allocated seller order payment
+ */
+interface AllocationMetadata {
+    aggregatePaymentId: ID;
+    aggregateOrderCode: string;
+    aggregateTransactionId: string;
+    allocatedAmount: number;
+    state: 'Authorized' | 'Settled';
+}
+
+export function createSplitPaymentHandler(provider: SplitPaymentProvider): PaymentMethodHandler {
+    return new PaymentMethodHandler({
+        code: SPLIT_PAYMENT_HANDLER_CODE,
+        description: [
+            {
+                languageCode: LanguageCode.en,
+                value: 'Marketplace payment, allocated to seller orders',
+            },
+        ],
+        args: {
+            autoCapture: {
+                type: 'boolean',
+                defaultValue: true,
+                label: [{ languageCode: LanguageCode.en, value: 'Capture the payment immediately' }],
+            },
+        },
+        init(injector) {
+            splitPaymentAllocator.init(injector);
+        },
+        createPayment: async (ctx, order, amount, args, metadata) => {
+            if (order.type === OrderType.Seller) {
+                // Only ever added by SplitPaymentAllocator: the seller order's share of the aggregate payment
+                const allocation = metadata as Partial<AllocationMetadata>;
+                if (allocation.aggregatePaymentId == null || allocation.allocatedAmount == null) {
+                    return { amount, state: 'Declined', errorMessage: 'Seller orders are paid through their aggregate order' };
+                }
+                return {
+                    amount: allocation.allocatedAmount,
+                    state: allocation.state ?? 'Settled',
+                    transactionId: allocation.aggregateTransactionId,
+                    metadata: {
+                        provider: provider.name,
+                        aggregatePaymentId: allocation.aggregatePaymentId,
+                        aggregateOrderCode: allocation.aggregateOrderCode,
+                    },
+                };
+            }
+
+            const result = await provider.charge({
+                orderCode: order.code,
+                amount,
+                currencyCode: order.currencyCode,
+                capture: args.autoCapture,
+                metadata,
+            });
+            if (result.state === 'Declined') {
+                return { amount, state: 'Declined', errorMessage: result.errorMessage, metadata: { provider: provider.name } };
+            }
+            return {
+                amount,
+                state: result.state,
+                transactionId: result.transactionId,
+                metadata: { provider: provider.name, splitPayment: true },
+            };
+        },
+        settlePayment: async (ctx, order, payment) => {
+            if (order.type === OrderType.Seller) {
+                // Captured with the aggregate payment
+                return { success: true };
+            }
+            const result = await provider.capture(payment.transactionId, payment.amount);
+            return result.success ? { success: true } : { success: false, errorMessage: result.errorMessage };
+        },
+        createRefund: async (ctx, input, amount, order, payment) => {
+            // Allocated payments are refunded against the aggregate charge
+            const result = await provider.refund(payment.transactionId, amount);
+            return result.success
+                ? { state: 'Settled', transactionId: result.transactionId }
+                : { state: 'Failed', metadata: { errorMessage: result.errorMessage } };
+        },
+    });
+}
+
+/**
+ * Allocates aggregate payments to seller orders. Called from
+ * MultiVendorOrderSellerStrategy.afterSellerOrdersCreated (created in
+ * vendure-config.ts outside of DI); initialized by the split payment handler.
+ */
+export class SplitPaymentAllocator {
+    private connection?: TransactionalConnection;
+    private orderService?: OrderService;
+
+    init(injector: Injector) {
+        this.connection = injector.get(TransactionalConnection);
+        this.orderService = injector.get(OrderService);
+
+        injector.get(EventBus).ofType(PaymentStateTransitionEvent).subscribe(async event => {
+            if (event.toState !== 'Settled' || event.order.type === OrderType.Seller || !event.payment.metadata?.splitPayment) {
+                return;
+            }
+            try {
+                await this.settleAllocatedPayments(event.ctx, event.payment);
+            } catch (error) {
+                console.error(`[SplitPayment] Could not settle the seller payments of order ${event.order.code}:`, error);
+            }
+        });
+    }
+
+    async allocate(ctx: RequestContext, aggregateOrder: Order, sellerOrders: Order[]): Promise<void> {
+        if (!this.connection || !this.orderService || !sellerOrders.length) {
+            return;
+        }
+        const payments = await this.connection.getRepository(ctx, Payment).find({
+            where: { order: { id: aggregateOrder.id } },
+        });
+        const paid = payments.filter(payment => payment.state === 'Authorized' || payment.state === 'Settled');
+        if (paid.some(payment => !payment.metadata?.splitPayment)) {
+            console.warn(`[SplitPayment] Order ${aggregateOrder.code} was not paid with ${SPLIT_PAYMENT_HANDLER_CODE} - its seller orders stay in ArrangingPayment`);
+        }
+
+        for (const payment of paid.filter(p => p.metadata?.splitPayment)) {
+            const shares = allocateProportionally(
+                payment.amount,
+                sellerOrders.map(sellerOrder => sellerOrder.totalWithTax),
+            );
+            for (const [index, sellerOrder] of sellerOrders.entries()) {
+                if (shares[index] <= 0) {
+                    continue;
+                }
+                const metadata: AllocationMetadata = {
+                    aggregatePaymentId: payment.id,
+                    aggregateOrderCode: aggregateOrder.code,
+                    aggregateTransactionId: payment.transactionId,
+                    allocatedAmount: shares[index],
+                    state: payment.state as AllocationMetadata['state'],
+                };
+                const result = await this.orderService.addPaymentToOrder(ctx, sellerOrder.id, {
+                    method: payment.method,
+                    metadata,
+                });
+                if (isGraphQlErrorResult(result)) {
+                    console.error(`[SplitPayment] Could not allocate ${shares[index]} to seller order ${sellerOrder.code}:`, result.message);
+                }
+            }
+        }
+        console.log(`[SplitPayment] Allocated the payment of order ${aggregateOrder.code} to ${sellerOrders.length} seller orders`);
+    }
+
+    /**
+     * Settle the seller order payments allocated from an aggregate payment
+     * that was only authorized when the order was placed
+     */
+    private async settleAllocatedPayments(ctx: RequestContext, aggregatePayment: Payment): Promise<void> {
+        if (!this.connection || !this.orderService) {
+            return;
+        }
+        const allocated = await this.connection
+            .getRepository(ctx, Payment)
+            .createQueryBuilder('payment')
+            .where(`payment.metadata::jsonb ->> 'aggregatePaymentId' = :paymentId`, { paymentId: String(aggregatePayment.id) })
+            .andWhere('payment.state = :state', { state: 'Authorized' })
+            .getMany();
+        for (const payment of allocated) {
+            const result = await this.orderService.settlePayment(ctx, payment.id);
+            if (isGraphQlErrorResult(result)) {
+                console.error(`[SplitPayment] Could not settle allocated payment ${payment.id}:`, result.message);
+            }
+        }
+    }
+}
+
+export const splitPaymentAllocator = new SplitPaymentAllocator();
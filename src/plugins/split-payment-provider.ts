@@ -0,0 +1,88 @@
+/**
+ * Split Payment Provider
+ *
+ * The adapter between the marketplace payment handler and a payment service
+ * provider. The customer is charged once for the aggregate order; sellers are
+ * paid later from their ledger balance (PayoutPlugin), so the provider only
+ * needs to charge, capture and refund.
+ */
+
+export interface SplitPaymentChargeInput {
+    orderCode: string;
+    /** Minor units */
+    amount: number;
+    currencyCode: string;
+    /** Capture immediately, or only authorize */
+    capture: boolean;
+    /** The metadata passed to addPaymentToOrder, e.g. a provider token */
+    metadata: Record<string, any>;
+}
+
+export type SplitPaymentChargeResult =
+    | { state: 'Authorized' | 'Settled'; transactionId: string }
+    | { state: 'Declined'; errorMessage: string };
+
+export interface SplitPaymentOperationResult {
+    success: boolean;
+    /** The provider's id of a refund */
+    transactionId?: string;
+    errorMessage?: string;
+}
+
+export interface SplitPaymentProvider {
+    /** Shown in logs and recorded on payments */
+    readonly name: string;
+    charge(input: SplitPaymentChargeInput): Promise<SplitPaymentChargeResult>;
+    capture(transactionId: string, amount: number): Promise<SplitPaymentOperationResult>;
+    refund(transactionId: string, amount: number): Promise<SplitPaymentOperationResult>;
+}
+
+/**
+ * In-memory provider for local development. Every charge succeeds unless the
+ * payment metadata contains `mockDecline: true`; refunds fail once more than
+ * the captured amount would be refunded.
+ */
+export class MockSplitPaymentProvider implements SplitPaymentProvider {
+    readonly name = 'mock';
+    private charges = new Map<string, { amount: number; captured: number; refunded: number }>();
+    private sequence = 0;
+
+    async charge(input: SplitPaymentChargeInput): Promise<SplitPaymentChargeResult> {
+        if (input.metadata.mockDecline) {
+            return { state: 'Declined', errorMessage: 'Declined by the mock payment provider' };
+        }
+        const transactionId = `mock_ch_${Date.now()}_${++this.sequence}`;
+        this.charges.set(transactionId, {
+            amount: input.amount,
+            captured: input.capture ? input.amount : 0,
+            refunded: 0,
+        });
+        console.log(`[MockSplitPayment] Charged ${input.amount} ${input.currencyCode} for order ${input.orderCode} (${transactionId})`);
+        return { state: input.capture ? 'Settled' : 'Authorized', transactionId };
+    }
+
+    async capture(transactionId: string, amount: number): Promise<SplitPaymentOperationResult> {
+        const charge = this.charges.get(transactionId);
+        if (!charge) {
+            return { success: false, errorMessage: `Unknown charge ${transactionId}` };
+        }
+        if (charge.captured + amount > charge.amount) {
+            return { success: false, errorMessage: `Cannot capture more than ${charge.amount - charge.captured}` };
+        }
+        charge.captured += amount;
+        return { success: true };
+    }
+
+    async refund(transactionId: string, amount: number): Promise<SplitPaymentOperationResult> {
+        const charge = this.charges.get(transactionId);
+        if (!charge) {
+            // Charges do not survive a restart; pretend they did
+            return { success: true, transactionId: `mock_re_${Date.now()}_${++this.sequence}` };
+        }
+        if (charge.refunded + amount > charge.captured) {
+            return { success: false, errorMessage: `Cannot refund more than ${charge.captured - charge.refunded}` };
+        }
+        charge.refunded += amount;
+        return { success: true, transactionId: `mock_re_${Date.now()}_${++this.sequence}` };
+    }
+}
@@ -0,0 +1,100 @@
+import { RequestContext } from '@vendure/core';
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SupabaseAuthStrategy, SupabaseAuthStrategyOptions } from './supabase-auth-strategy';
+
+const SECRET = 'super-secret-jwt-token-with-at-least-32-characters';
+const ISSUER = 'https://project.supabase.co/auth/v1';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const now = () => Math.floor(Date.now() / 1000);
+
+function claims(overrides: Record<string, any> = {}) {
+    return { sub: 'supabase-user-1', email: 'jane@example.com', aud: 'authenticated', iss: ISSUER, exp: now() + 3600, ...overrides };
+}
+
+function hs256(payload: object, secret = SECRET, header: object = { alg: 'HS256', typ: 'JWT' }) {
+    const input = `${encode(header)}.${encode(payload)}`;
+    return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+function rs256(payload: object, kid = 'key-1') {
+    const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(payload)}`;
+    return `${input}.${sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+}
+
+const jwksDir = mkdtempSync(path.join(tmpdir(), 'supabase-jwks-'));
+const jwksPath = path.join(jwksDir, 'jwks.json');
+writeFileSync(jwksPath, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256' }] }));
+
+describe('SupabaseAuthStrategy', () => {
+    const shopCtx = { apiType: 'shop' } as RequestContext;
+    const customerUser = { id: 7 };
+
+    function strategy(options: SupabaseAuthStrategyOptions = { jwtSecret: SECRET, issuer: ISSUER }) {
+        const instance = new SupabaseAuthStrategy(options);
+        instance.init({
+            get: () => ({ findCustomerUser: vi.fn().mockResolvedValue(customerUser), rawConnection: { query: vi.fn() } }),
+        } as any);
+        return instance;
+    }
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+    afterAll(() => {
+        rmSync(jwksDir, { recursive: true, force: true });
+    });
+
+    it('requires a secret or a JWKS file', () => {
+        expect(() => new SupabaseAuthStrategy({})).toThrow('requires either jwtSecret or jwksPath');
+    });
+
+    it('accepts a valid HS256 token', async () => {
+        expect(await strategy().authenticate(shopCtx, { token: hs256(claims()) })).toBe(customerUser);
+    });
+
+    it('accepts a valid RS256 token signed by a JWKS key', async () => {
+        expect(await strategy({ jwksPath }).authenticate(shopCtx, { token: rs256(claims()) })).toBe(customerUser);
+    });
+
+    it.each([
+        ['a token signed with another secret', () => hs256(claims(), 'another-secret')],
+        ['an unsigned token (alg none)', () => `${encode({ alg: 'none' })}.${encode(claims())}.`],
+        ['an HS256 token forged with the public key of an RS256 setup', () => hs256(claims(), publicKey.export({ format: 'pem', type: 'spki' }) as string)],
+        ['an expired token', () => hs256(claims({ exp: now() - 60 }))],
+        ['a token without exp', () => hs256(claims({ exp: undefined }))],
+        ['a token that is not valid yet', () => hs256(claims({ nbf: now() + 60 }))],
+        ['a token for another audience', () => hs256(claims({ aud: 'anon' }))],
+        ['a token from another issuer', () => hs256(claims({ iss: 'https://other.supabase.co/auth/v1' }))],
+        ['a token without subject', () => hs256(claims({ sub: undefined }))],
+        ['a malformed token', () => 'not-a-jwt'],
+    ])('rejects %s', async (_, token) => {
+        const options = { jwtSecret: SECRET, issuer: ISSUER, jwksPath };
+        expect(await strategy(options).authenticate(shopCtx, { token: token() })).toBe(false);
+    });
+
+    it('rejects an RS256 token when only a secret is configured', async () => {
+        expect(await strategy().authenticate(shopCtx, { token: rs256(claims()) })).toBe(false);
+    });
+
+    it('allows clock skew within clockToleranceSeconds', async () => {
+        const token = hs256(claims({ exp: now() - 10 }));
+
+        expect(await strategy({ jwtSecret: SECRET, clockToleranceSeconds: 30 }).authenticate(shopCtx, { token })).toBe(customerUser);
+        expect(await strategy({ jwtSecret: SECRET, clockToleranceSeconds: 0 }).authenticate(shopCtx, { token })).toBe(false);
+    });
+
+    it('rejects an admin login without a linked store', async () => {
+        const instance = new SupabaseAuthStrategy({ jwtSecret: SECRET });
+        instance.init({ get: () => ({ rawConnection: { query: vi.fn().mockResolvedValue([]) } }) } as any);
+
+        expect(await instance.authenticate({ apiType: 'admin' } as RequestContext, { token: hs256(claims()) })).toBe(
+            'No store is linked to this account.',
+        );
+    });
+});
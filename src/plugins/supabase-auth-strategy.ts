@@ -0,0 +1,264 @@
+/**
+ * Supabase JWT Authentication Strategy
+ *
+ * Lets tenants and shoppers who signed in through Supabase Auth call Vendure
+ * directly with their Supabase access token, instead of logging in twice.
+ *
+ * - The token signature is verified locally (HS256 with the project's JWT
+ *   secret, or RS256/ES256 against a JWKS file) - no call to Supabase.
+ * - Admin API: `sub` is mapped to `tenants.owner_id` and the linked
+ *   `vendure_administrator_id`. The same tenant status checks as the
+ *   channel-aware native login apply, and the session is bound to the
+ *   tenant's channel.
+ * - Shop API: `sub` is mapped to a Vendure customer (created on first login).
+ */
+
+import {
+    AuthenticationStrategy,
+    ExternalAuthenticationService,
+    Injector,
+    RequestContext,
+    TransactionalConnection,
+    User,
+} from '@vendure/core';
+import { createHmac, createPublicKey, JsonWebKey, timingSafeEqual, verify as verifySignature } from 'crypto';
+import { readFileSync } from 'fs';
+import { DocumentNode } from 'graphql';
+import gql from 'graphql-tag';
+import { checkAdministratorLogin } from './channel-aware-auth-strategy';
+
+export const SUPABASE_AUTH_STRATEGY_NAME = 'supabase';
+
+export interface SupabaseAuthStrategyOptions {
+    /** The project's JWT secret (Settings → API → JWT Secret). Used for HS256 tokens */
+    jwtSecret?: string;
+    /** Path to a JWKS file ({ "keys": [...] }) for asymmetric (RS256/ES256) tokens */
+    jwksPath?: string;
+    /** Expected `iss` claim, e.g. https://<project>.supabase.co/auth/v1 */
+    issuer?: string;
+    /** Expected `aud` claim (default: 'authenticated') */
+    audience?: string;
+    /** Allowed clock skew when checking exp/nbf (default: 30s) */
+    clockToleranceSeconds?: number;
+}
+
+export interface SupabaseAuthData {
+    token: string;
+}
+
+/**
+ * The claims of a Supabase access token that we rely on
+ */
+export interface SupabaseJwtPayload {
+    sub: string;
+    email?: string;
+    exp: number;
+    nbf?: number;
+    iss?: string;
+    aud?: string | string[];
+    role?: string;
+    user_metadata?: Record<string, any>;
+}
+
+export class SupabaseAuthStrategy implements AuthenticationStrategy<SupabaseAuthData> {
+    readonly name = SUPABASE_AUTH_STRATEGY_NAME;
+    private connection: TransactionalConnection;
+    private externalAuthenticationService: ExternalAuthenticationService;
+    private jwks: JsonWebKey[] = [];
+
+    constructor(private options: SupabaseAuthStrategyOptions) {
+        if (!options.jwtSecret && !options.jwksPath) {
+            throw new Error('SupabaseAuthStrategy requires either jwtSecret or jwksPath');
+        }
+    }
+
+    init(injector: Injector) {
+        this.connection = injector.get(TransactionalConnection);
+        this.externalAuthenticationService = injector.get(ExternalAuthenticationService);
+        if (this.options.jwksPath) {
+            const jwks = JSON.parse(readFileSync(this.options.jwksPath, 'utf-8'));
+            this.jwks = Array.isArray(jwks.keys) ? jwks.keys : [];
+        }
+    }
+
+    defineInputType(): DocumentNode {
+        return gql`
+            input SupabaseAuthInput {
+                "A Supabase access token (the session's access_token)"
+                token: String!
+            }
+        `;
+    }
+
+    async authenticate(ctx: RequestContext, data: SupabaseAuthData): Promise<User | false | string> {
+        let payload: SupabaseJwtPayload;
+        try {
+            payload = this.verifyToken(data.token);
+        } catch (error: any) {
+            console.log(`[SupabaseAuth] Rejected token: ${error.message}`);
+            return false;
+        }
+
+        if (ctx.apiType === 'admin') {
+            return this.authenticateTenantOwner(ctx, payload);
+        }
+        return this.authenticateCustomer(ctx, payload);
+    }
+
+    /**
+     * Admin API: tenant owner → linked Vendure administrator
+     */
+    private async authenticateTenantOwner(ctx: RequestContext, payload: SupabaseJwtPayload): Promise<User | false | string> {
+        const tenantResult = await this.connection.rawConnection.query(
+            `SELECT t.vendure_administrator_id, a."userId"
+             FROM tenants t
+             JOIN administrator a ON a.id = t.vendure_administrator_id AND a."deletedAt" IS NULL
+             WHERE t.owner_id = $1
+             ORDER BY (t.status = 'active') DESC, t.updated_at DESC
+             LIMIT 1`,
+            [payload.sub]
+        );
+
+        if (!tenantResult || tenantResult.length === 0) {
+            console.log(`[SupabaseAuth] No store linked to Supabase user ${payload.sub}`);
+            return 'No store is linked to this account.';
+        }
+
+        const { vendure_administrator_id: administratorId, userId } = tenantResult[0];
+        const user = await this.connection.getRepository(ctx, User).findOne({
+            where: { id: userId },
+            relations: ['roles', 'roles.channels'],
+        });
+        if (!user) {
+            return false;
+        }
+
+        // Same tenant status checks and channel binding as the native admin login
+        const loginCheck = await checkAdministratorLogin(this.connection, user.id, administratorId);
+        if (loginCheck !== true) {
+            return loginCheck;
+        }
+
+        console.log(`[SupabaseAuth] Supabase user ${payload.sub} logged in as administrator ${administratorId}`);
+        return user;
+    }
+
+    /**
+     * Shop API: Supabase user → Vendure customer, created on first login
+     */
+    private async authenticateCustomer(ctx: RequestContext, payload: SupabaseJwtPayload): Promise<User | false | string> {
+        const existingUser = await this.externalAuthenticationService.findCustomerUser(ctx, this.name, payload.sub);
+        if (existingUser) {
+            return existingUser;
+        }
+
+        if (!payload.email) {
+            return 'The Supabase account has no email address.';
+        }
+
+        const metadata = payload.user_metadata ?? {};
+        return this.externalAuthenticationService.createCustomerAndUser(ctx, {
+            strategy: this.name,
+            externalIdentifier: payload.sub,
+            verified: true,
+            emailAddress: payload.email,
+            firstName: metadata.first_name ?? metadata.firstName ?? '',
+            lastName: metadata.last_name ?? metadata.lastName ?? '',
+        });
+    }
+
+    /**
+     * Verify the signature and standard claims of a Supabase access token.
+     * Throws if the token is not valid.
+     */
+    private verifyToken(token: string): SupabaseJwtPayload {
+        const parts = (token || '').split('.');
+        if (parts.length !== 3) {
+            throw new Error('Malformed token');
+        }
+        const [encodedHeader, encodedPayload, encodedSignature] = parts;
+        const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+        const payload: SupabaseJwtPayload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+        const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+        const signature = Buffer.from(encodedSignature, 'base64url');
+
+        if (header.alg === 'HS256') {
+            if (!this.options.jwtSecret) {
+                throw new Error('HS256 token but no jwtSecret configured');
+            }
+            const expected = createHmac('sha256', this.options.jwtSecret).update(signingInput).digest();
+            if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+                throw new Error('Invalid signature');
+            }
+        } else if (header.alg === 'RS256' || header.alg === 'ES256') {
+            const jwk = this.jwks.find(k => k.kid === header.kid) ?? (this.jwks.length === 1 ? this.jwks[0] : undefined);
+            if (!jwk) {
+                throw new Error(`No JWKS key found for kid ${header.kid}`);
+            }
+            const key = createPublicKey({ key: jwk, format: 'jwk' });
+            const valid = verifySignature(
+                'sha256',
+                signingInput,
+                header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+                signature,
+            );
+            if (!valid) {
+                throw new Error('Invalid signature');
+            }
+        } else {
+            throw new Error(`Unsupported algorithm ${header.alg}`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const tolerance = this.options.clockToleranceSeconds ?? 30;
+        if (!payload.sub) {
+            throw new Error('Token has no subject');
+        }
+        if (typeof payload.exp !== 'number' || payload.exp + tolerance < now) {
+            throw new Error('Token expired');
+        }
+        if (typeof payload.nbf === 'number' && payload.nbf - tolerance > now) {
+            throw new Error('Token not yet valid');
+        }
+        if (this.options.issuer && payload.iss !== this.options.issuer) {
+            throw new Error('Unexpected issuer');
+        }
+        const audience = this.options.audience ?? 'authenticated';
+        const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+        if (!audiences.includes(audience)) {
+            throw new Error('Unexpected audience');
+        }
+        return payload;
+    }
+}
+
+/**
+ * USAGE INSTRUCTIONS
+ * ==================
+ *
+ * ```typescript
+ * authOptions: {
+ *     shopAuthenticationStrategy: [
+ *         new NativeAuthenticationStrategy(),
+ *         new SupabaseAuthStrategy({ jwtSecret: process.env.SUPABASE_JWT_SECRET }),
+ *     ],
+ *     adminAuthenticationStrategy: [
+ *         new ChannelAwareAuthStrategy({ replaceNative: true }),
+ *         new SupabaseAuthStrategy({ jwtSecret: process.env.SUPABASE_JWT_SECRET }),
+ *     ],
+ * }
+ * ```
+ *
+ * From the SaaS frontend (after supabase.auth.signInWithPassword):
+ * ```graphql
+ * mutation {
+ *   authenticate(input: { supabase: { token: "<session.access_token>" } }) {
+ *     ... on CurrentUser { id identifier channels { id code } }
+ *     ... on InvalidCredentialsError { authenticationError }
+ *   }
+ * }
+ * ```
+ *
+ * Send the `vendure-auth-token` response header back as a bearer token on
+ * subsequent requests.
+ */
@@ -0,0 +1,236 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { CachedSession, ConfigService, ForbiddenError, Permission, TransactionalConnection } from '@vendure/core';
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { channelIsolationSecurity } from './channel-isolation-security';
+import {
+    AuthenticatedApiKey,
+    generateApiKey,
+    getRequestApiKey,
+    hashApiKey,
+    setRequestApiKey,
+    TenantApiKeyAuthenticator,
+    tenantApiKeyAuthenticator,
+} from './tenant-api-key-auth';
+import { TenantApiKeyGuard } from './tenant-api-key-guard';
+import { createTenantApiKeyMiddlewareHandler } from './tenant-api-key-middleware';
+
+interface FakeKey {
+    keyHash: string;
+    permissions: string[];
+    revoked?: boolean;
+}
+
+function fakeDatabase(keys: FakeKey[], ownerRoles: Array<{ channels: number[]; permissions: string[] }>) {
+    const query = vi.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('FROM api_keys k')) {
+            const key = keys.find(k => k.keyHash === params[0] && !k.revoked);
+            if (!key) {
+                return [];
+            }
+            return [
+                {
+                    id: 'key-1',
+                    tenant_id: 'tenant-a',
+                    permissions: JSON.stringify(key.permissions),
+                    vendure_channel_id: 2,
+                    vendure_administrator_id: 10,
+                    channel_token: 'seller-a-token',
+                    channel_code: 'seller-a',
+                    userId: 5,
+                },
+            ];
+        }
+        return [];
+    });
+    const findOne = vi.fn(async () => ({
+        identifier: 'seller@example.com',
+        roles: ownerRoles.map(role => ({ ...role, channels: role.channels.map(id => ({ id })) })),
+    }));
+    return { rawConnection: { query, getRepository: () => ({ findOne }) } };
+}
+
+function fakeSessionCache() {
+    const sessions = new Map<string, CachedSession>();
+    return {
+        sessions,
+        strategy: {
+            get: async (token: string) => sessions.get(token),
+            set: async (session: CachedSession) => void sessions.set(session.token, session),
+            delete: async (token: string) => void sessions.delete(token),
+            clear: async () => sessions.clear(),
+        },
+    };
+}
+
+function authenticatorWith(
+    database: ReturnType<typeof fakeDatabase>,
+    cache = fakeSessionCache(),
+    authenticator = new TenantApiKeyAuthenticator(),
+) {
+    const config = { authOptions: { sessionCacheStrategy: cache.strategy }, apiOptions: { channelTokenKey: 'vendure-token' } };
+    authenticator.init({
+        get: (token: unknown) => (token === TransactionalConnection ? database : token === ConfigService ? config : undefined),
+    } as any);
+    return authenticator;
+}
+
+describe('TenantApiKeyAuthenticator', () => {
+    const { key, keyHash } = generateApiKey();
+
+    it('only stores the hash of a key', () => {
+        expect(keyHash).toBe(hashApiKey(key));
+        expect(keyHash).not.toContain(key);
+    });
+
+    it('restricts a key to the permissions its owner holds on the key channel', async () => {
+        const database = fakeDatabase(
+            [{ keyHash, permissions: ['ReadCatalog', 'UpdateProduct', 'ReadOrder', 'SuperAdmin'] }],
+            [
+                { channels: [2], permissions: ['ReadCatalog', 'UpdateProduct'] },
+                { channels: [3], permissions: ['ReadOrder'] },
+            ],
+        );
+
+        const apiKey = await authenticatorWith(database).verifyKey(key);
+
+        expect(apiKey).toMatchObject({ keyId: 'key-1', channelId: 2, permissions: ['ReadCatalog', 'UpdateProduct'] });
+    });
+
+    it('rejects a key as soon as it is revoked', async () => {
+        const stored: FakeKey = { keyHash, permissions: ['ReadCatalog'] };
+        const authenticator = authenticatorWith(fakeDatabase([stored], [{ channels: [2], permissions: ['ReadCatalog'] }]));
+
+        expect(await authenticator.verifyKey(key)).toBeDefined();
+        stored.revoked = true;
+        expect(await authenticator.verifyKey(key)).toBeUndefined();
+    });
+
+    it('rejects keys that do not carry the prefix without querying', async () => {
+        const database = fakeDatabase([], []);
+
+        expect(await authenticatorWith(database).verifyKey('not-a-key')).toBeUndefined();
+        expect(database.rawConnection.query).not.toHaveBeenCalled();
+    });
+
+    it('opens a request session pinned to the key channel and permissions, and closes it', async () => {
+        const cache = fakeSessionCache();
+        const authenticator = authenticatorWith(fakeDatabase([], []), cache);
+        const apiKey = {
+            keyId: 'key-1',
+            channelId: 2,
+            channelToken: 'seller-a-token',
+            channelCode: 'seller-a',
+            userId: 5,
+            identifier: 'seller@example.com',
+            permissions: [Permission.ReadCatalog],
+        } as AuthenticatedApiKey;
+
+        const token = await authenticator.openRequestSession(apiKey);
+
+        expect(cache.sessions.get(token)).toMatchObject({
+            authenticationStrategy: 'api-key',
+            activeChannelId: 2,
+            user: { id: 5, channelPermissions: [{ id: 2, permissions: [Permission.ReadCatalog] }] },
+        });
+        await authenticator.closeRequestSession(token);
+        expect(cache.sessions.size).toBe(0);
+    });
+});
+
+describe('tenant API key middleware', () => {
+    const { key, keyHash } = generateApiKey();
+    let stored: FakeKey;
+    let cache: ReturnType<typeof fakeSessionCache>;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        stored = { keyHash, permissions: ['ReadCatalog'] };
+        cache = fakeSessionCache();
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    async function run(authorization: string) {
+        // The middleware uses the process-wide authenticator
+        const database = fakeDatabase([stored], [{ channels: [2], permissions: ['ReadCatalog'] }]);
+        authenticatorWith(database, cache, tenantApiKeyAuthenticator);
+
+        const req: any = { headers: { authorization } };
+        const res: any = Object.assign(new EventEmitter(), { status: vi.fn().mockReturnThis(), json: vi.fn() });
+        const next = vi.fn();
+        await createTenantApiKeyMiddlewareHandler()(req, res, next);
+        return { req, res, next, apiKey: getRequestApiKey(req) };
+    }
+
+    it('swaps a valid key for a request session on the key channel', async () => {
+        const { req, res, next, apiKey } = await run(`ApiKey ${key}`);
+
+        expect(next).toHaveBeenCalled();
+        expect(apiKey).toMatchObject({ keyId: 'key-1', permissions: ['ReadCatalog'] });
+        expect(req.headers['vendure-token']).toBe('seller-a-token');
+        const token = req.headers.authorization.replace('Bearer ', '');
+        expect(cache.sessions.has(token)).toBe(true);
+
+        res.emit('close');
+        await new Promise(resolve => setImmediate(resolve));
+        expect(cache.sessions.has(token)).toBe(false);
+    });
+
+    it('rejects a revoked key', async () => {
+        stored.revoked = true;
+        vi.spyOn(channelIsolationSecurity, 'logSecurityEvent').mockResolvedValue(undefined);
+
+        const { res, next, apiKey } = await run(`ApiKey ${key}`);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(apiKey).toBeUndefined();
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ errors: [expect.objectContaining({ message: 'Invalid API key' })] }));
+        expect(cache.sessions.size).toBe(0);
+    });
+
+    it('leaves other authorization schemes to Vendure', async () => {
+        const { req, next } = await run('Bearer session-token');
+
+        expect(next).toHaveBeenCalled();
+        expect(req.headers.authorization).toBe('Bearer session-token');
+    });
+});
+
+describe('TenantApiKeyGuard', () => {
+    const guard = new TenantApiKeyGuard(new Reflector());
+    const apiKey = { keyId: 'key-1', permissions: [Permission.ReadCatalog] } as AuthenticatedApiKey;
+
+    function contextFor(permissions: Permission[] | undefined, withKey: boolean): ExecutionContext {
+        const req = {} as any;
+        if (withKey) {
+            setRequestApiKey(req, apiKey);
+        }
+        const handler = () => undefined;
+        if (permissions) {
+            Reflect.defineMetadata('__permissions__', permissions, handler);
+        }
+        return {
+            getType: () => 'http',
+            getHandler: () => handler,
+            switchToHttp: () => ({ getRequest: () => req, getResponse: () => ({}) }),
+        } as any;
+    }
+
+    it('lets requests without an API key through', () => {
+        expect(guard.canActivate(contextFor([Permission.SuperAdmin], false))).toBe(true);
+    });
+
+    it('allows operations covered by the key permissions', () => {
+        expect(guard.canActivate(contextFor([Permission.ReadCatalog, Permission.ReadProduct], true))).toBe(true);
+        expect(guard.canActivate(contextFor([Permission.Public], true))).toBe(true);
+        expect(guard.canActivate(contextFor(undefined, true))).toBe(true);
+    });
+
+    it('rejects operations outside the key permissions', () => {
+        expect(() => guard.canActivate(contextFor([Permission.UpdateCatalog], true))).toThrow(ForbiddenError);
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tenant API Key Authentication
+ *
+ * Authenticates Admin API requests carrying `Authorization: ApiKey <key>`
+ * against the `api_keys` table, for integrations (ERP sync, accounting)
+ * that cannot use an interactive login.
+ *
+ * The key is looked up in the database on every request, so revoked,
+ * rotated and expired keys stop working straight away, in every process.
+ * A valid key gets a session that lives in the session cache for the duration
+ * of the request only. It carries the key's permissions on the key's channel
+ * and has no database row, so it can never be reloaded with the
+ * administrator's full permissions. TenantApiKeyGuard checks the key's
+ * permissions again on every resolver, independently of the cache.
+ */
+
+import {
+    ConfigService,
+    Injector,
+    Permission,
+    PermissionDefinition,
+    TransactionalConnection,
+    User,
+} from '@vendure/core';
+import { createHash, randomBytes } from 'crypto';
+import { Request } from 'express';
+
+export const API_KEY_AUTH_STRATEGY_NAME = 'api-key';
+export const API_KEY_PREFIX = 'vk_';
+/** Upper bound for a request session whose cache entry could not be deleted */
+const REQUEST_SESSION_TTL_SECONDS = 60;
+
+/**
+ * Permission to create, list, rotate and revoke the API keys of a seller channel
+ */
+export const manageApiKeysPermission = new PermissionDefinition({
+    name: 'ManageApiKeys',
+    description: 'Allows managing the API keys of the channel',
+});
+
+export interface AuthenticatedApiKey {
+    keyId: string;
+    tenantId: string;
+    channelId: number;
+    channelToken: string;
+    channelCode: string;
+    administratorId: number;
+    userId: number;
+    identifier: string;
+    permissions: Permission[];
+}
+
+/**
+ * Generate a new secret key. Only the hash is ever stored.
+ */
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    return { key, keyHash: hashApiKey(key), keyPrefix: key.substring(0, 12) };
+}
+
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * `api_keys.permissions` holds either an array of permission names or an
+ * object of `{ [permission]: true }`
+ */
+export function parseApiKeyPermissions(raw: unknown): Permission[] {
+    const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    const names: string[] = Array.isArray(value)
+        ? value
+        : Object.entries((value as Record<string, unknown>) ?? {})
+              .filter(([, granted]) => granted === true)
+              .map(([name]) => name);
+    return names.filter(name => typeof name === 'string') as Permission[];
+}
+
+export class TenantApiKeyAuthenticator {
+    private connection?: TransactionalConnection;
+    private configService: ConfigService;
+
+    init(injector: Injector) {
+        this.connection = injector.get(TransactionalConnection);
+        this.configService = injector.get(ConfigService);
+    }
+
+    get isReady(): boolean {
+        return !!this.connection;
+    }
+
+    get channelTokenKey(): string {
+        return this.configService.apiOptions.channelTokenKey;
+    }
+
+    /**
+     * Look up a key by hash. Returns undefined for unknown, revoked or expired
+     * keys, and for keys whose tenant is not active.
+     *
+     * The returned permissions are the key's permissions that the owning
+     * administrator still holds on the key's channel.
+     */
+    async verifyKey(key: string): Promise<AuthenticatedApiKey | undefined> {
+        if (!this.connection || !key.startsWith(API_KEY_PREFIX)) {
+            return undefined;
+        }
+        const result = await this.connection.rawConnection.query(
+            `SELECT k.id, k.tenant_id, k.permissions,
+                    t.vendure_channel_id, t.vendure_administrator_id,
+                    c.token AS channel_token, c.code AS channel_code, a."userId"
+             FROM api_keys k
+             JOIN tenants t ON t.id = k.tenant_id AND t.status = 'active'
+             JOIN channel c ON c.id = t.vendure_channel_id
+             JOIN administrator a ON a.id = t.vendure_administrator_id AND a."deletedAt" IS NULL
+             WHERE k.key_hash = $1
+             AND k.revoked_at IS NULL
+             AND (k.expires_at IS NULL OR k.expires_at > NOW())
+             LIMIT 1`,
+            [hashApiKey(key)]
+        );
+        if (!result || result.length === 0) {
+            return undefined;
+        }
+
+        const row = result[0];
+        const owner = await this.connection.rawConnection.getRepository(User).findOne({
+            where: { id: row.userId },
+            relations: ['roles', 'roles.channels'],
+        });
+        if (!owner) {
+            return undefined;
+        }
+        const ownerPermissions = owner.roles
+            .filter(role => role.channels.some(channel => String(channel.id) === String(row.vendure_channel_id)))
+            .flatMap(role => role.permissions);
+
+        // Throttled so that busy integrations do not write on every request
+        await this.connection.rawConnection.query(
+            `UPDATE api_keys SET last_used = NOW()
+             WHERE id = $1
+             AND (last_used IS NULL OR last_used < NOW() - INTERVAL '1 minute')`,
+            [row.id]
+        );
+
+        return {
+            keyId: row.id,
+            tenantId: row.tenant_id,
+            channelId: row.vendure_channel_id,
+            channelToken: row.channel_token,
+            channelCode: row.channel_code,
+            administratorId: row.vendure_administrator_id,
+            userId: row.userId,
+            identifier: owner.identifier,
+            // Never more than the owning administrator holds on that channel
+            permissions: parseApiKeyPermissions(row.permissions).filter(p => ownerPermissions.includes(p)),
+        };
+    }
+
+    /**
+     * Put a session for a single request into the session cache and return its
+     * token. The session has no database row: once the cache entry is gone,
+     * Vendure treats the token as unknown and the request as anonymous.
+     */
+    async openRequestSession(apiKey: AuthenticatedApiKey): Promise<string> {
+        const token = randomBytes(32).toString('hex');
+        const expiry = Date.now() + REQUEST_SESSION_TTL_SECONDS * 1000;
+        await this.configService.authOptions.sessionCacheStrategy.set({
+            cacheExpiry: expiry / 1000,
+            id: apiKey.keyId,
+            token,
+            expires: new Date(expiry),
+            authenticationStrategy: API_KEY_AUTH_STRATEGY_NAME,
+            activeChannelId: apiKey.channelId,
+            user: {
+                id: apiKey.userId,
+                identifier: apiKey.identifier,
+                verified: true,
+                channelPermissions: [
+                    {
+                        id: apiKey.channelId,
+                        token: apiKey.channelToken,
+                        code: apiKey.channelCode,
+                        permissions: apiKey.permissions,
+                    },
+                ],
+            },
+        });
+        return token;
+    }
+
+    async closeRequestSession(token: string): Promise<void> {
+        await this.configService.authOptions.sessionCacheStrategy.delete(token);
+    }
+}
+
+const verifiedKeys = new WeakMap<Request, AuthenticatedApiKey>();
+
+/**
+ * The key a request was authenticated with, as verified by the middleware
+ */
+export function getRequestApiKey(req: Request): AuthenticatedApiKey | undefined {
+    return verifiedKeys.get(req);
+}
+
+export function setRequestApiKey(req: Request, apiKey: AuthenticatedApiKey) {
+    verifiedKeys.set(req, apiKey);
+}
+
+/**
+ * Process-wide instance shared by the middleware (created in vendure-config.ts
+ * outside of DI) and TenantApiKeyService. Initialized by TenantApiKeyPlugin.
+ */
+export const tenantApiKeyAuthenticator = new TenantApiKeyAuthenticator();
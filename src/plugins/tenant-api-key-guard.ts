@@ -0,0 +1,36 @@
+/**
+ * Tenant API Key Guard
+ *
+ * Checks the permissions of API key requests on every resolver and controller,
+ * against the key verified by the middleware for this request. It runs next to
+ * Vendure's own AuthGuard, so an API key request needs both to pass, whatever
+ * the session cache holds.
+ */
+
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ForbiddenError, parseContext, Permission, PERMISSIONS_METADATA_KEY } from '@vendure/core';
+import { getRequestApiKey } from './tenant-api-key-auth';
+
+@Injectable()
+export class TenantApiKeyGuard implements CanActivate {
+    constructor(private reflector: Reflector) {}
+
+    canActivate(context: ExecutionContext): boolean {
+        const { req } = parseContext(context);
+        const apiKey = req ? getRequestApiKey(req) : undefined;
+        if (!apiKey) {
+            return true;
+        }
+
+        // Same rules as Vendure's AuthGuard: any one of the listed permissions will do
+        const permissions = this.reflector.get<Permission[] | undefined>(PERMISSIONS_METADATA_KEY, context.getHandler());
+        if (!permissions || permissions.includes(Permission.Public)) {
+            return true;
+        }
+        if (!permissions.some(permission => apiKey.permissions.includes(permission))) {
+            throw new ForbiddenError();
+        }
+        return true;
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Tenant API Key Middleware
+ *
+ * Accepts `Authorization: ApiKey <key>` on the Admin API. A valid key is
+ * swapped for the bearer token of a session that only lasts for this request,
+ * restricted to the key's permissions and pinned to the key's channel (see
+ * tenant-api-key-auth.ts). The verified key is attached to the request for
+ * TenantApiKeyGuard. Invalid, revoked or expired keys are rejected before
+ * reaching GraphQL.
+ *
+ * Must be registered before the channel isolation middleware.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { setRequestApiKey, tenantApiKeyAuthenticator } from './tenant-api-key-auth';
+import { channelIsolationSecurity } from './channel-isolation-security';
+
+const API_KEY_SCHEME = /^ApiKey\s+(.+)$/i;
+
+export function createTenantApiKeyMiddlewareHandler() {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const match = API_KEY_SCHEME.exec(req.headers.authorization ?? '');
+        if (!match) {
+            return next();
+        }
+
+        try {
+            if (!tenantApiKeyAuthenticator.isReady) {
+                return channelIsolationSecurity.sendForbidden(res, 'API key authentication is not available');
+            }
+
+            const apiKey = await tenantApiKeyAuthenticator.verifyKey(match[1].trim());
+            if (!apiKey) {
+                await channelIsolationSecurity.logSecurityEvent({
+                    type: 'access-denied',
+                    reason: 'Invalid, revoked or expired API key',
+                });
+                return channelIsolationSecurity.sendForbidden(res, 'Invalid API key');
+            }
+
+            const sessionToken = await tenantApiKeyAuthenticator.openRequestSession(apiKey);
+            res.on('close', () => {
+                tenantApiKeyAuthenticator.closeRequestSession(sessionToken).catch(error => {
+                    console.error('[TenantApiKey] Could not close request session:', error.message);
+                });
+            });
+            setRequestApiKey(req, apiKey);
+
+            // Hand over to Vendure's bearer-token auth, pinned to the key's channel
+            req.headers.authorization = `Bearer ${sessionToken}`;
+            req.headers[tenantApiKeyAuthenticator.channelTokenKey] = apiKey.channelToken;
+            console.log(`[TenantApiKey] Key ${apiKey.keyId} authenticated for channel ${apiKey.channelId}`);
+            return next();
+        } catch (error: any) {
+            console.error('[TenantApiKey] Middleware error:', error);
+            await channelIsolationSecurity.logSecurityEvent({
+                type: 'resolution-failed',
+                reason: 'API key authentication failed',
+                error: error?.message,
+            });
+            // API key requests always fail closed, whatever the enforcement mode
+            return channelIsolationSecurity.sendForbidden(res);
+        }
+    };
+}
@@ -0,0 +1,112 @@
+import { Injector, PluginCommonModule, VendurePlugin } from '@vendure/core';
+import { OnApplicationBootstrap } from '@nestjs/common';
+import { APP_GUARD, ModuleRef } from '@nestjs/core';
+import gql from 'graphql-tag';
+import { TenantApiKeyGuard } from './tenant-api-key-guard';
+import { TenantApiKeyResolver } from './tenant-api-key-resolver';
+import { TenantApiKeyService } from './tenant-api-key-service';
+import { manageApiKeysPermission, tenantApiKeyAuthenticator } from './tenant-api-key-auth';
+
+export { TenantApiKeyService };
+
+/**
+ * Tenant API Key Plugin
+ *
+ * API keys for integrations (ERP sync, accounting) that cannot use an
+ * interactive login, backed by the `api_keys` table.
+ *
+ * Components:
+ * - TenantApiKeyService: create / list / rotate / revoke (see tenant-api-key-service.ts)
+ * - TenantApiKeyResolver: Admin API (see tenant-api-key-resolver.ts)
+ * - TenantApiKeyAuthenticator: key → restricted request session (see tenant-api-key-auth.ts)
+ * - TenantApiKeyGuard: checks the key's permissions on every request (see tenant-api-key-guard.ts)
+ * - createTenantApiKeyMiddlewareHandler: `Authorization: ApiKey ...` (see tenant-api-key-middleware.ts)
+ *
+ * Requires migrations/003_tenant_api_keys.sql.
+ */
+@VendurePlugin({
+    imports: [PluginCommonModule],
+    providers: [TenantApiKeyService, { provide: APP_GUARD, useClass: TenantApiKeyGuard }],
+    exports: [TenantApiKeyService],
+    adminApiExtensions: {
+        schema: gql`
+            type TenantApiKey {
+                id: ID!
+                name: String!
+                "First characters of the key, to tell keys apart"
+                keyPrefix: String
+                permissions: [Permission!]!
+                lastUsed: DateTime
+                expiresAt: DateTime
+                revokedAt: DateTime
+                createdAt: DateTime!
+            }
+
+            type CreatedTenantApiKey {
+                apiKey: TenantApiKey!
+                "The secret key. It is only returned once"
+                key: String!
+            }
+
+            input CreateTenantApiKeyInput {
+                name: String!
+                "Must be a subset of the caller's permissions on the channel"
+                permissions: [Permission!]!
+                expiresAt: DateTime
+            }
+
+            extend type Query {
+                tenantApiKeys: [TenantApiKey!]!
+            }
+
+            extend type Mutation {
+                createTenantApiKey(input: CreateTenantApiKeyInput!): CreatedTenantApiKey!
+                rotateTenantApiKey(id: ID!): CreatedTenantApiKey!
+                revokeTenantApiKey(id: ID!): TenantApiKey!
+            }
+        `,
+        resolvers: [TenantApiKeyResolver],
+    },
+    configuration: config => {
+        // The middleware itself is registered in vendure-config.ts
+        config.authOptions.customPermissions.push(manageApiKeysPermission);
+        return config;
+    },
+})
+export class TenantApiKeyPlugin implements OnApplicationBootstrap {
+    constructor(private moduleRef: ModuleRef) {}
+
+    onApplicationBootstrap() {
+        tenantApiKeyAuthenticator.init(new Injector(this.moduleRef));
+        console.log('✅ Tenant API Key Plugin initialized');
+    }
+}
+
+/**
+ * USAGE
+ * =====
+ *
+ * 1. Register the middleware before the channel isolation middleware and add the plugin:
+ *
+ *    apiOptions: {
+ *        middleware: [
+ *            { route: '/admin-api', handler: createTenantApiKeyMiddlewareHandler(), beforeListen: false },
+ *            { route: '/admin-api', handler: createChannelIsolationMiddlewareHandler(), beforeListen: false },
+ *        ],
+ *    },
+ *    plugins: [TenantApiKeyPlugin],
+ *
+ * 2. Grant `ManageApiKeys` to the seller role, then as the seller:
+ *
+ *    mutation {
+ *      createTenantApiKey(input: { name: "ERP sync", permissions: [ReadCatalog, UpdateProduct] }) {
+ *        key
+ *        apiKey { id keyPrefix }
+ *      }
+ *    }
+ *
+ * 3. The integration calls the Admin API with the key - no login, no channel token:
+ *
+ *    curl -H "Authorization: ApiKey vk_..." -H "Content-Type: application/json" \
+ *         -d '{"query":"{ products { totalItems } }"}' http://localhost:3000/admin-api
+ */
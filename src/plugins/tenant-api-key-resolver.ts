@@ -0,0 +1,47 @@
+/**
+ * Tenant API Key Resolver
+ *
+ * Admin API for sellers to manage the API keys of their channel.
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, ID, RequestContext } from '@vendure/core';
+import {
+    CreatedTenantApiKey,
+    CreateTenantApiKeyInput,
+    TenantApiKey,
+    TenantApiKeyService,
+} from './tenant-api-key-service';
+import { manageApiKeysPermission } from './tenant-api-key-auth';
+
+@Resolver()
+export class TenantApiKeyResolver {
+    constructor(private tenantApiKeyService: TenantApiKeyService) {}
+
+    @Query()
+    @Allow(manageApiKeysPermission.Permission)
+    async tenantApiKeys(@Ctx() ctx: RequestContext): Promise<TenantApiKey[]> {
+        return this.tenantApiKeyService.list(ctx);
+    }
+
+    @Mutation()
+    @Allow(manageApiKeysPermission.Permission)
+    async createTenantApiKey(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: CreateTenantApiKeyInput },
+    ): Promise<CreatedTenantApiKey> {
+        return this.tenantApiKeyService.create(ctx, args.input);
+    }
+
+    @Mutation()
+    @Allow(manageApiKeysPermission.Permission)
+    async rotateTenantApiKey(@Ctx() ctx: RequestContext, @Args() args: { id: ID }): Promise<CreatedTenantApiKey> {
+        return this.tenantApiKeyService.rotate(ctx, args.id);
+    }
+
+    @Mutation()
+    @Allow(manageApiKeysPermission.Permission)
+    async revokeTenantApiKey(@Ctx() ctx: RequestContext, @Args() args: { id: ID }): Promise<TenantApiKey> {
+        return this.tenantApiKeyService.revoke(ctx, args.id);
+    }
+}
@@ -0,0 +1,178 @@
+/**
+ * Tenant API Key Service
+ *
+ * Create, list, rotate and revoke API keys for the tenant that owns the
+ * active channel. Keys are stored hashed in the `api_keys` table; the secret
+ * is only returned once, on creation or rotation.
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+    ForbiddenError,
+    ID,
+    Permission,
+    RequestContext,
+    TransactionalConnection,
+    UserInputError,
+} from '@vendure/core';
+import {
+    API_KEY_AUTH_STRATEGY_NAME,
+    generateApiKey,
+    parseApiKeyPermissions,
+} from './tenant-api-key-auth';
+import { updateReturning } from './update-returning';
+
+export interface TenantApiKey {
+    id: string;
+    name: string;
+    keyPrefix: string | null;
+    permissions: Permission[];
+    lastUsed: Date | null;
+    expiresAt: Date | null;
+    revokedAt: Date | null;
+    createdAt: Date;
+}
+
+export interface CreatedTenantApiKey {
+    apiKey: TenantApiKey;
+    /** The secret. Shown once - only its hash is stored */
+    key: string;
+}
+
+export interface CreateTenantApiKeyInput {
+    name: string;
+    permissions: Permission[];
+    expiresAt?: Date | null;
+}
+
+@Injectable()
+export class TenantApiKeyService {
+    constructor(private connection: TransactionalConnection) {}
+
+    async list(ctx: RequestContext): Promise<TenantApiKey[]> {
+        const tenantId = await this.getTenantIdForChannel(ctx);
+        const rows = await this.connection.rawConnection.query(
+            `SELECT id, name, key_prefix, permissions, last_used, expires_at, revoked_at, created_at
+             FROM api_keys
+             WHERE tenant_id = $1
+             ORDER BY created_at DESC`,
+            [tenantId]
+        );
+        return rows.map((row: any) => this.toApiKey(row));
+    }
+
+    async create(ctx: RequestContext, input: CreateTenantApiKeyInput): Promise<CreatedTenantApiKey> {
+        this.assertInteractiveSession(ctx);
+        const tenantId = await this.getTenantIdForChannel(ctx);
+        if (!input.name?.trim()) {
+            throw new UserInputError('An API key needs a name');
+        }
+        if (!input.permissions?.length) {
+            throw new UserInputError('An API key needs at least one permission');
+        }
+        // A key can never grant more than its creator holds on the channel
+        const notHeld = input.permissions.filter(permission => !ctx.userHasPermissions([permission]));
+        if (notHeld.length > 0) {
+            throw new ForbiddenError();
+        }
+        if (input.expiresAt && new Date(input.expiresAt).getTime() <= Date.now()) {
+            throw new UserInputError('expiresAt must be in the future');
+        }
+
+        const { key, keyHash, keyPrefix } = generateApiKey();
+        const result = await this.connection.rawConnection.query(
+            `INSERT INTO api_keys (tenant_id, name, key_hash, key_prefix, permissions, expires_at)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING id, name, key_prefix, permissions, last_used, expires_at, revoked_at, created_at`,
+            [tenantId, input.name.trim(), keyHash, keyPrefix, JSON.stringify(input.permissions), input.expiresAt ?? null]
+        );
+        await this.logEvent(ctx, tenantId, 'api_key.created', { apiKeyId: result[0].id, name: input.name });
+        return { apiKey: this.toApiKey(result[0]), key };
+    }
+
+    /**
+     * Replace the secret of a key, keeping its name, permissions and expiry.
+     * The old secret stops working immediately, since keys are verified
+     * against the database on every request.
+     */
+    async rotate(ctx: RequestContext, id: ID): Promise<CreatedTenantApiKey> {
+        this.assertInteractiveSession(ctx);
+        const tenantId = await this.getTenantIdForChannel(ctx);
+        const { key, keyHash, keyPrefix } = generateApiKey();
+        const rows = await updateReturning(
+            this.connection.rawConnection,
+            `UPDATE api_keys
+             SET key_hash = $3, key_prefix = $4, last_used = NULL
+             WHERE id = $1 AND tenant_id = $2 AND revoked_at IS NULL
+             RETURNING id, name, key_prefix, permissions, last_used, expires_at, revoked_at, created_at`,
+            [String(id), tenantId, keyHash, keyPrefix]
+        );
+        if (!rows.length) {
+            throw new UserInputError(`API key ${id} not found`);
+        }
+        await this.logEvent(ctx, tenantId, 'api_key.rotated', { apiKeyId: String(id) });
+        return { apiKey: this.toApiKey(rows[0]), key };
+    }
+
+    async revoke(ctx: RequestContext, id: ID): Promise<TenantApiKey> {
+        this.assertInteractiveSession(ctx);
+        const tenantId = await this.getTenantIdForChannel(ctx);
+        const rows = await updateReturning(
+            this.connection.rawConnection,
+            `UPDATE api_keys
+             SET revoked_at = COALESCE(revoked_at, NOW())
+             WHERE id = $1 AND tenant_id = $2
+             RETURNING id, name, key_prefix, permissions, last_used, expires_at, revoked_at, created_at`,
+            [String(id), tenantId]
+        );
+        if (!rows.length) {
+            throw new UserInputError(`API key ${id} not found`);
+        }
+        await this.logEvent(ctx, tenantId, 'api_key.revoked', { apiKeyId: String(id) });
+        return this.toApiKey(rows[0]);
+    }
+
+    /**
+     * Keys are managed by people: an API key cannot create, rotate or revoke keys
+     */
+    private assertInteractiveSession(ctx: RequestContext) {
+        if (ctx.session?.authenticationStrategy === API_KEY_AUTH_STRATEGY_NAME) {
+            throw new ForbiddenError();
+        }
+    }
+
+    private async getTenantIdForChannel(ctx: RequestContext): Promise<string> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT id FROM tenants WHERE vendure_channel_id = $1 LIMIT 1`,
+            [ctx.channelId]
+        );
+        if (!result || result.length === 0) {
+            throw new UserInputError('API keys can only be managed from a seller channel');
+        }
+        return result[0].id;
+    }
+
+    private async logEvent(ctx: RequestContext, tenantId: string, eventType: string, data: Record<string, any>) {
+        try {
+            await this.connection.rawConnection.query(
+                `INSERT INTO events (tenant_id, event_type, event_data) VALUES ($1, $2, $3)`,
+                [tenantId, eventType, JSON.stringify({ ...data, userId: ctx.activeUserId != null ? String(ctx.activeUserId) : null })]
+            );
+        } catch (error: any) {
+            console.error(`[TenantApiKey] Could not log ${eventType}:`, error.message);
+        }
+    }
+
+    private toApiKey(row: any): TenantApiKey {
+        return {
+            id: row.id,
+            name: row.name,
+            keyPrefix: row.key_prefix,
+            permissions: parseApiKeyPermissions(row.permissions),
+            lastUsed: row.last_used,
+            expiresAt: row.expires_at,
+            revokedAt: row.revoked_at,
+            createdAt: row.created_at,
+        };
+    }
+}
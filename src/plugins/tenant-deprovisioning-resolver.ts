@@ -0,0 +1,43 @@
+/**
+ * Tenant Deprovisioning Resolver
+ *
+ * Admin API entry point for the SaaS backend to remove churned tenants.
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, ID, RequestContext } from '@vendure/core';
+import {
+    deprovisionTenantPermission,
+    DeprovisionTenantInput,
+    TenantDeprovisioning,
+    TenantDeprovisioningService,
+} from '../deprovision-tenant-api';
+
+@Resolver()
+export class TenantDeprovisioningResolver {
+    constructor(private tenantDeprovisioningService: TenantDeprovisioningService) {}
+
+    @Mutation()
+    @Allow(deprovisionTenantPermission.Permission)
+    async deprovisionTenant(
+        @Ctx() ctx: RequestContext,
+        @Args() args: { input: DeprovisionTenantInput },
+    ): Promise<TenantDeprovisioning> {
+        return this.tenantDeprovisioningService.deprovisionTenant(ctx, {
+            ...args.input,
+            tenantId: String(args.input.tenantId),
+        });
+    }
+
+    @Mutation()
+    @Allow(deprovisionTenantPermission.Permission)
+    async cancelTenantDeprovisioning(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<TenantDeprovisioning> {
+        return this.tenantDeprovisioningService.cancelDeprovisioning(ctx, String(args.tenantId));
+    }
+
+    @Query()
+    @Allow(deprovisionTenantPermission.Permission)
+    async tenantDeprovisioning(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<TenantDeprovisioning> {
+        return this.tenantDeprovisioningService.getDeprovisioning(String(args.tenantId));
+    }
+}
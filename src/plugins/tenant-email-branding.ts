@@ -0,0 +1,130 @@
+/**
+ * Tenant Email Branding
+ *
+ * Resolves the global template variables of the EmailPlugin per channel, so
+ * that the emails of a tenant's channel are sent as that shop:
+ * - fromAddress: `"<email_from_name or business_name>" <address>`. The
+ *   tenant's email_from_address is only used when its domain is one of the
+ *   tenant's verified domains; otherwise the platform address is used.
+ * - brand { name, logoUrl, primaryColor, accentColor }: rendered by the
+ *   header and footer partials (static/email/templates/partials).
+ * - storefrontUrl and the verify / password-reset / email-change URLs: the
+ *   tenant's primary verified domain, otherwise its subdomain of
+ *   `storefrontDomain`.
+ *
+ * Emails of the default channel, and of channels without a tenant, use the
+ * platform defaults. Requires migrations/013_tenant_email_branding.sql.
+ */
+
+import { ID, Injector, RequestContext, TransactionalConnection } from '@vendure/core';
+import { GlobalTemplateVarsFn } from '@vendure/email-plugin';
+
+export interface EmailBranding {
+    name: string;
+    logoUrl: string | null;
+    primaryColor: string;
+    accentColor: string;
+}
+
+export interface TenantEmailBrandingOptions {
+    /** Branding of the marketplace itself, and fallback for tenants without their own */
+    platform: EmailBranding & {
+        fromAddress: string;
+        storefrontUrl: string;
+    };
+    /** Tenant storefronts without a verified domain are at https://<subdomain>.<storefrontDomain> */
+    storefrontDomain: string;
+}
+
+interface TenantBrandingRow {
+    subdomain: string;
+    business_name: string;
+    email_from_name: string | null;
+    email_from_address: string | null;
+    logo_url: string | null;
+    primary_color: string | null;
+    accent_color: string | null;
+    domain: string | null;
+    verified_domains: string[];
+}
+
+const HEX_COLOR = /^#[0-9a-f]{3}([0-9a-f]{3})?$/i;
+
+export function tenantEmailTemplateVars(options: TenantEmailBrandingOptions): GlobalTemplateVarsFn {
+    return async (ctx: RequestContext, injector: Injector) => {
+        const tenant = await findTenantBranding(injector, ctx.channelId);
+        const brand: EmailBranding = tenant
+            ? {
+                  name: tenant.email_from_name || tenant.business_name,
+                  logoUrl: tenant.logo_url || null,
+                  primaryColor: validColor(tenant.primary_color) ?? options.platform.primaryColor,
+                  accentColor: validColor(tenant.accent_color) ?? options.platform.accentColor,
+              }
+            : {
+                  name: options.platform.name,
+                  logoUrl: options.platform.logoUrl,
+                  primaryColor: options.platform.primaryColor,
+                  accentColor: options.platform.accentColor,
+              };
+        const storefrontUrl = tenant
+            ? `https://${tenant.domain ?? `${tenant.subdomain}.${options.storefrontDomain}`}`
+            : options.platform.storefrontUrl;
+
+        return {
+            fromAddress: tenant ? formatFrom(brand.name, senderAddress(tenant, options)) : options.platform.fromAddress,
+            brand,
+            storefrontUrl,
+            verifyEmailAddressUrl: `${storefrontUrl}/verify`,
+            passwordResetUrl: `${storefrontUrl}/password-reset`,
+            changeEmailAddressUrl: `${storefrontUrl}/verify-email-address-change`,
+        };
+    };
+}
+
+/**
+ * The tenant of the channel, with its primary (or oldest) verified domain
+ * and all of its verified domains
+ */
+async function findTenantBranding(injector: Injector, channelId: ID): Promise<TenantBrandingRow | undefined> {
+    const result: TenantBrandingRow[] = await injector.get(TransactionalConnection).rawConnection.query(
+        `SELECT t.subdomain, t.business_name, t.email_from_name, t.email_from_address,
+                t.logo_url, t.primary_color, t.accent_color, d.domain,
+                ARRAY(SELECT lower(domain) FROM domains WHERE tenant_id = t.id AND is_verified) AS verified_domains
+         FROM tenants t
+         LEFT JOIN LATERAL (
+             SELECT domain FROM domains
+             WHERE tenant_id = t.id AND is_verified
+             ORDER BY is_primary DESC, created_at ASC
+             LIMIT 1
+         ) d ON TRUE
+         WHERE t.vendure_channel_id = $1
+         LIMIT 1`,
+        [channelId]
+    );
+    return result[0];
+}
+
+function senderAddress(tenant: TenantBrandingRow, options: TenantEmailBrandingOptions): string {
+    const address = tenant.email_from_address?.trim();
+    const domain = address?.split('@')[1]?.toLowerCase();
+    if (address && domain && tenant.verified_domains.includes(domain)) {
+        return address;
+    }
+    return parseAddress(options.platform.fromAddress);
+}
+
+/**
+ * The bare address of a `"Name" <address>` sender
+ */
+function parseAddress(from: string): string {
+    return from.match(/<([^>]+)>/)?.[1] ?? from;
+}
+
+function formatFrom(name: string, address: string): string {
+    return `"${name.replace(/["\\]/g, '')}" <${address}>`;
+}
+
+/** Colours are rendered into style attributes */
+function validColor(color: string | null): string | undefined {
+    return color && HEX_COLOR.test(color) ? color : undefined;
+}
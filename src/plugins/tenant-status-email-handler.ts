@@ -0,0 +1,22 @@
+/**
+ * Tenant Status Email Handler
+ *
+ * Emails the tenant administrator when their store is suspended or
+ * reactivated. Template: static/email/templates/tenant-status-changed/body.hbs
+ */
+
+import { EmailEventListener } from '@vendure/email-plugin';
+import { TenantStatusChangeEvent } from '../suspend-tenant-api';
+
+export const tenantStatusEmailHandler = new EmailEventListener('tenant-status-changed')
+    .on(TenantStatusChangeEvent)
+    .filter(event => !!event.emailAddress)
+    .setRecipient(event => event.emailAddress!)
+    .setFrom('{{ fromAddress }}')
+    .setSubject('{{ title }}')
+    .setTemplateVars(event => ({
+        title: event.status === 'suspended' ? 'Your store has been suspended' : 'Your store is active again',
+        businessName: event.businessName ?? '',
+        suspended: event.status === 'suspended',
+        reason: event.reason,
+    }));
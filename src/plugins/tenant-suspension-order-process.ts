@@ -0,0 +1,46 @@
+/**
+ * Tenant Suspension Order Process
+ *
+ * Rejects placing an order that contains products of a tenant that is not
+ * active (suspended, being deprovisioned, ...), or that is placed directly in
+ * such a tenant's channel. Checked on the transition to ArrangingPayment, which
+ * every order goes through before it can be paid, so items added to a cart
+ * before the suspension are caught too.
+ */
+
+import { Injector, OrderProcess, OrderState, TransactionalConnection } from '@vendure/core';
+
+let connection: TransactionalConnection | undefined;
+
+export const suspendedTenantOrderProcess: OrderProcess<OrderState> = {
+    init(injector: Injector) {
+        connection = injector.get(TransactionalConnection);
+    },
+
+    async onTransitionStart(fromState, toState, { ctx, order }) {
+        if (toState !== 'ArrangingPayment' || !connection) {
+            return;
+        }
+        const channelIds = [
+            ...new Set([
+                String(ctx.channelId),
+                ...(order.lines ?? [])
+                    .filter(line => line.sellerChannelId != null)
+                    .map(line => String(line.sellerChannelId)),
+            ]),
+        ];
+        const result = await connection.rawConnection.query(
+            `SELECT business_name, status
+             FROM tenants
+             WHERE vendure_channel_id = ANY($1)
+             AND status <> 'active'
+             LIMIT 1`,
+            [channelIds]
+        );
+        if (result && result.length > 0) {
+            const storeName = result[0].business_name ?? 'A store in this order';
+            console.log(`[TenantSuspension] Rejected order ${order.code}: tenant is ${result[0].status}`);
+            return `${storeName} is not accepting orders at the moment`;
+        }
+    },
+};
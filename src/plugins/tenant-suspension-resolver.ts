@@ -0,0 +1,41 @@
+/**
+ * Tenant Suspension Resolver
+ *
+ * Admin API entry point for the billing backend to suspend past-due stores
+ * and reactivate them once paid.
+ */
+
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { Allow, Ctx, ID, RequestContext } from '@vendure/core';
+import {
+    suspendTenantPermission,
+    SuspendTenantInput,
+    TenantSuspension,
+    TenantSuspensionService,
+} from '../suspend-tenant-api';
+
+@Resolver()
+export class TenantSuspensionResolver {
+    constructor(private tenantSuspensionService: TenantSuspensionService) {}
+
+    @Mutation()
+    @Allow(suspendTenantPermission.Permission)
+    async suspendTenant(@Ctx() ctx: RequestContext, @Args() args: { input: SuspendTenantInput }): Promise<TenantSuspension> {
+        return this.tenantSuspensionService.suspendTenant(ctx, {
+            ...args.input,
+            tenantId: String(args.input.tenantId),
+        });
+    }
+
+    @Mutation()
+    @Allow(suspendTenantPermission.Permission)
+    async reactivateTenant(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<TenantSuspension> {
+        return this.tenantSuspensionService.reactivateTenant(ctx, String(args.tenantId));
+    }
+
+    @Query()
+    @Allow(suspendTenantPermission.Permission)
+    async tenantSuspensions(@Ctx() ctx: RequestContext, @Args() args: { tenantId: ID }): Promise<TenantSuspension[]> {
+        return this.tenantSuspensionService.getSuspensions(String(args.tenantId));
+    }
+}
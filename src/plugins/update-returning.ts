@@ -0,0 +1,14 @@
+import { TransactionalConnection } from '@vendure/core';
+
+/**
+ * Run an `UPDATE ... RETURNING` statement and return the updated rows.
+ * The postgres driver yields `[rows, affectedCount]` for UPDATE, not just the rows.
+ */
+export async function updateReturning<T = any>(
+    rawConnection: TransactionalConnection['rawConnection'],
+    sql: string,
+    parameters: any[],
+): Promise<T[]> {
+    const result = await rawConnection.query(sql, parameters);
+    return Array.isArray(result[0]) ? result[0] : result;
+}
@@ -0,0 +1,331 @@
+import { RequestContext } from '@vendure/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SellerProvisioningOptions, SellerProvisioningService } from './provision-seller-api';
+import {
+    createInitialSteps,
+    ProvisioningSagaState,
+    ProvisioningSagaStatus,
+    ProvisioningSagaStore,
+    ProvisioningStepName,
+} from './provisioning-saga';
+
+/**
+ * In-memory stand-in for ProvisioningSagaStore
+ */
+class FakeSagaStore {
+    runs = new Map<string, ProvisioningSagaState>();
+    tenantStatuses: string[] = [];
+
+    async get(tenantId: string) {
+        const state = this.runs.get(tenantId);
+        return state ? structuredClone(state) : undefined;
+    }
+    async start(state: ProvisioningSagaState) {
+        const existing = this.runs.get(state.tenantId);
+        if (existing && existing.status !== 'rolled-back') {
+            return false;
+        }
+        this.runs.set(state.tenantId, structuredClone(state));
+        return true;
+    }
+    async save(state: ProvisioningSagaState) {
+        this.runs.set(state.tenantId, structuredClone({ ...state, updatedAt: new Date() }));
+    }
+    async claim(
+        tenantId: string,
+        status: 'queued' | 'running',
+        from: ProvisioningSagaStatus[],
+        stale?: { from: ProvisioningSagaStatus[]; afterMs: number },
+    ) {
+        const run = this.runs.get(tenantId);
+        const isStale = !!run && !!stale?.from.includes(run.status) && Date.now() - run.updatedAt.getTime() > stale.afterMs;
+        if (!run || !(from.includes(run.status) || isStale)) {
+            return undefined;
+        }
+        Object.assign(run, { status, lastError: null, updatedAt: new Date() });
+        return structuredClone(run);
+    }
+    async setJobId() {}
+    async setTenantStatus(_: string, status: string) {
+        this.tenantStatuses.push(status);
+    }
+}
+
+const ctx = {} as RequestContext;
+
+function createService(options: SellerProvisioningOptions = {}) {
+    const queue = { process: undefined as undefined | ((job: any) => Promise<void>), add: vi.fn(async () => ({ id: 'job-2' })) };
+    const services = {
+        channelService: { delete: vi.fn() },
+        administratorService: { softDelete: vi.fn() },
+        roleService: { delete: vi.fn() },
+        zoneService: { findAll: vi.fn().mockResolvedValue({ items: [{ id: 4 }] }) },
+        shippingMethodService: { softDelete: vi.fn() },
+        stockLocationService: { delete: vi.fn() },
+        sellerService: { delete: vi.fn() },
+    };
+    const connection = { rawConnection: { query: vi.fn().mockResolvedValue([]) } };
+    const service = new SellerProvisioningService(
+        services.channelService as any,
+        connection as any,
+        services.administratorService as any,
+        services.roleService as any,
+        services.zoneService as any,
+        services.shippingMethodService as any,
+        services.stockLocationService as any,
+        services.sellerService as any,
+        { authOptions: { passwordHashingStrategy: { hash: async () => 'hash' } } } as any,
+        {} as any,
+        {
+            createQueue: async (config: any) => {
+                queue.process = config.process;
+                return queue;
+            },
+        } as any,
+        options,
+    );
+    const store = new FakeSagaStore();
+    (service as any).sagaStore = store;
+    vi.spyOn(service, 'createProvisioningContext').mockResolvedValue(ctx);
+    vi.spyOn(service as any, 'getTenant').mockResolvedValue({ id: 'tenant-a', status: 'active' });
+    return { service, services, store, queue };
+}
+
+/**
+ * Replace the real steps: each completed step records an id, the failing step throws
+ */
+function stubSteps(service: SellerProvisioningService, failAt?: ProvisioningStepName) {
+    const ids: Partial<Record<ProvisioningStepName, Record<string, string>>> = {
+        createSeller: { sellerId: '11' },
+        createChannel: { channelId: '12', channelCode: 'shop', channelToken: 'shop-token' },
+        createRole: { roleId: '13' },
+        createAdministrator: { administratorId: '14', administratorUserId: '15' },
+        createShippingMethod: { shippingMethodId: '16' },
+        createStockLocation: { stockLocationId: '17' },
+    };
+    return vi
+        .spyOn(service as any, 'executeStep')
+        .mockImplementation(async (_ctx: any, name: any, state: any) => {
+            if (name === failAt) {
+                throw new Error(`${name} exploded`);
+            }
+            Object.assign(state.context, ids[name as ProvisioningStepName]);
+        });
+}
+
+function failedRun(failedStep: ProvisioningStepName): ProvisioningSagaState {
+    const steps = createInitialSteps();
+    const failedIndex = steps.findIndex(step => step.name === failedStep);
+    steps.forEach((step, index) => {
+        step.status = index < failedIndex ? 'completed' : index === failedIndex ? 'failed' : 'pending';
+    });
+    return {
+        tenantId: 'tenant-a',
+        status: 'failed',
+        input: { shopName: 'Shop', sellerEmail: 'seller@example.com', firstName: 'Jane', lastName: 'Doe', tenantId: 'tenant-a' },
+        passwordHash: 'hash',
+        steps,
+        context: { sellerId: '11', channelId: '12', channelCode: 'shop', channelToken: 'shop-token', roleId: '13' },
+        lastError: `${failedStep}: exploded`,
+        jobId: null,
+        createdAt: new Date(),
+        updatedAt: new Date(0),
+    };
+}
+
+describe('SellerProvisioningService saga', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('compensates completed steps in reverse order when a step fails', async () => {
+        const { service, services, store } = createService();
+        stubSteps(service, 'createShippingMethod');
+        store.runs.set('tenant-a', failedRun('createAdministrator'));
+        const deletions: string[] = [];
+        services.administratorService.softDelete.mockImplementation(async () => void deletions.push('administrator'));
+        services.roleService.delete.mockImplementation(async () => void deletions.push('role'));
+        services.channelService.delete.mockImplementation(async () => void deletions.push('channel'));
+        services.sellerService.delete.mockImplementation(async () => void deletions.push('seller'));
+
+        await expect(service.resumeProvisioning(ctx, 'tenant-a')).rejects.toThrow(
+            'Provisioning failed at step createShippingMethod: createShippingMethod exploded',
+        );
+
+        expect(deletions).toEqual(['administrator', 'role', 'channel', 'seller']);
+        expect(services.shippingMethodService.softDelete).not.toHaveBeenCalled();
+        const state = await store.get('tenant-a');
+        expect(state?.status).toBe('rolled-back');
+        expect(state?.context).toEqual({});
+        expect(store.tenantStatuses).toContain('error');
+    });
+
+    it('keeps the run failed and resumable when a compensation fails', async () => {
+        const { service, services, store } = createService();
+        stubSteps(service, 'createRole');
+        store.runs.set('tenant-a', failedRun('createRole'));
+        services.channelService.delete.mockRejectedValue(new Error('channel has orders'));
+
+        await expect(service.resumeProvisioning(ctx, 'tenant-a')).rejects.toThrow('createRole exploded');
+
+        const state = await store.get('tenant-a');
+        expect(state?.status).toBe('failed');
+        expect(state?.steps.find(step => step.name === 'createChannel')?.error).toBe('Compensation failed: channel has orders');
+        expect(state?.steps.find(step => step.name === 'createSeller')?.status).toBe('compensated');
+        expect(state?.context.channelId).toBe('12');
+    });
+
+    it('leaves created entities in place with onFailure: keep', async () => {
+        const { service, services, store } = createService({ onFailure: 'keep' });
+        stubSteps(service, 'createAdministrator');
+        store.runs.set('tenant-a', failedRun('createAdministrator'));
+
+        await expect(service.resumeProvisioning(ctx, 'tenant-a')).rejects.toThrow();
+
+        expect(services.sellerService.delete).not.toHaveBeenCalled();
+        expect((await store.get('tenant-a'))?.status).toBe('failed');
+    });
+
+    it('fails the zone step when no zone exists instead of guessing one', async () => {
+        const { service, services } = createService();
+        services.zoneService.findAll.mockResolvedValue({ items: [] });
+
+        await expect((service as any).getDefaultZones(ctx)).rejects.toThrow('No zones found');
+    });
+
+    it('fails the zone step when the zones cannot be read', async () => {
+        const { service, services } = createService();
+        services.zoneService.findAll.mockRejectedValue(new Error('connection refused'));
+
+        await expect((service as any).getDefaultZones(ctx)).rejects.toThrow('connection refused');
+    });
+});
+
+describe('SellerProvisioningService resume and idempotency', () => {
+    const input = {
+        shopName: 'Shop',
+        sellerEmail: 'seller@example.com',
+        sellerPassword: 'secret',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        tenantId: 'tenant-a',
+    };
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('resumes a failed run from the failed step', async () => {
+        const { service, store } = createService();
+        const executeStep = stubSteps(service);
+        store.runs.set('tenant-a', failedRun('createAdministrator'));
+
+        const result = await service.resumeProvisioning(ctx, 'tenant-a');
+
+        expect(executeStep.mock.calls.map(call => call[1])).toEqual([
+            'createAdministrator',
+            'createShippingMethod',
+            'createStockLocation',
+            'linkChannelToSeller',
+            'linkTenant',
+        ]);
+        expect(result).toMatchObject({ sellerId: '11', channelId: '12', administratorId: '14' });
+        const state = await store.get('tenant-a');
+        expect(state?.status).toBe('completed');
+        expect(state?.passwordHash).toBeNull();
+    });
+
+    it('runs a failed run only once when resumed concurrently', async () => {
+        const { service, store } = createService();
+        const executeStep = stubSteps(service);
+        const run = failedRun('linkTenant');
+        run.context.administratorId = '14';
+        store.runs.set('tenant-a', run);
+
+        const results = await Promise.allSettled([
+            service.resumeProvisioning(ctx, 'tenant-a'),
+            service.resumeProvisioning(ctx, 'tenant-a'),
+        ]);
+
+        expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect(executeStep).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses to resume a run that is still running, but takes over a stale one', async () => {
+        const { service, store } = createService();
+        stubSteps(service);
+        store.runs.set('tenant-a', { ...failedRun('createRole'), status: 'running', updatedAt: new Date() });
+
+        await expect(service.resumeProvisioning(ctx, 'tenant-a')).rejects.toThrow('is still running');
+
+        store.runs.get('tenant-a')!.updatedAt = new Date(Date.now() - 11 * 60 * 1000);
+        expect(await service.resumeProvisioning(ctx, 'tenant-a')).toMatchObject({ channelId: '12' });
+    });
+
+    it('returns the existing setup when a provisioned tenant is provisioned again', async () => {
+        const { service, store } = createService();
+        const executeStep = stubSteps(service);
+
+        const first = await service.provisionSeller(ctx, input);
+        const second = await service.provisionSeller(ctx, input);
+
+        expect(second).toEqual(first);
+        expect(executeStep).toHaveBeenCalledTimes(9);
+        expect(store.runs.size).toBe(1);
+    });
+
+    it('lets the worker skip a queued run that was claimed in the meantime', async () => {
+        const { service, store, queue } = createService();
+        const executeStep = stubSteps(service);
+        await service.onModuleInit();
+        store.runs.set('tenant-a', { ...failedRun('createRole'), status: 'queued' });
+        const job = { id: 'job-1', data: { tenantId: 'tenant-a', ctx: {} }, setProgress: vi.fn() };
+        vi.spyOn(RequestContext, 'deserialize').mockReturnValue(ctx);
+
+        await Promise.all([queue.process!(job), queue.process!(job)]);
+
+        expect(executeStep.mock.calls.filter(call => call[1] === 'createRole')).toHaveLength(1);
+        expect((await store.get('tenant-a'))?.status).toBe('completed');
+    });
+});
+
+describe('ProvisioningSagaStore.claim', () => {
+    const row = {
+        tenant_id: 'tenant-a',
+        status: 'running',
+        input: '{"shopName":"Shop"}',
+        password_hash: null,
+        steps: '[]',
+        context: '{}',
+        last_error: null,
+        job_id: null,
+        created_at: new Date(),
+        updated_at: new Date(),
+    };
+
+    it('claims with a single conditional UPDATE ... RETURNING', async () => {
+        const query = vi.fn().mockResolvedValue([[row], 1]);
+        const store = new ProvisioningSagaStore({ rawConnection: { query } } as any);
+
+        const state = await store.claim('tenant-a', 'running', ['failed'], { from: ['queued', 'running'], afterMs: 600000 });
+
+        expect(state).toMatchObject({ tenantId: 'tenant-a', status: 'running', input: { shopName: 'Shop' } });
+        expect(query).toHaveBeenCalledTimes(1);
+        expect(query.mock.calls[0][0]).toMatch(/UPDATE tenant_provisioning[\s\S]*RETURNING/);
+        expect(query.mock.calls[0][1]).toEqual(['tenant-a', 'running', ['failed'], ['queued', 'running'], 600000]);
+    });
+
+    it('returns nothing when the run was claimed by someone else', async () => {
+        const store = new ProvisioningSagaStore({ rawConnection: { query: vi.fn().mockResolvedValue([[], 0]) } } as any);
+
+        expect(await store.claim('tenant-a', 'running', ['queued'])).toBeUndefined();
+    });
+});
@@ -5,10 +5,13 @@
  * Called when a new tenant signs up to create their Vendure seller account.
  */
 
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { randomBytes } from 'crypto';
 import { 
     ChannelService, 
     TransactionalConnection, 
     RequestContext, 
+    RequestContextService,
     Channel,
     AdministratorService,
     RoleService,
@@ -18,8 +21,44 @@ import {
     SellerService,
     LanguageCode,
     CurrencyCode,
-    ID
+    ConfigService,
+    PermissionDefinition,
+    ShippingMethod,
+    StockLocation,
+    User,
+    UserInputError,
+    JobQueue,
+    JobQueueService,
+    SerializedRequestContext,
+    ID,
+    isInspectableJobQueueStrategy
 } from '@vendure/core';
+import { JobState } from '@vendure/common/lib/generated-types';
+import { STORE_ADMIN_PERMISSIONS } from './create-seller-role';
+import { multiVendorShippingEligibilityChecker } from './plugins/multi-vendor-plugin';
+import {
+    DEFAULT_SELLER_RATE_TABLE,
+    sellerRateTableShippingCalculator,
+} from './plugins/seller-shipping-calculator';
+import {
+    createInitialSteps,
+    getProvisioningProgress,
+    ProvisioningSagaContext,
+    ProvisioningSagaState,
+    ProvisioningSagaStatus,
+    ProvisioningSagaStore,
+    ProvisioningStepName,
+} from './provisioning-saga';
+import { updateReturning } from './plugins/update-returning';
+
+/**
+ * Permission required to call the provisionSeller mutation
+ * (granted to the SaaS signup backend's administrator)
+ */
+export const provisionSellerPermission = new PermissionDefinition({
+    name: 'ProvisionSeller',
+    description: 'Allows provisioning new seller tenants',
+});
 
 /**
  * Interface for seller provisioning input
@@ -33,6 +72,16 @@ export interface ProvisionSellerInput {
     tenantId: string; // Supabase tenant ID
 }
 
+/**
+ * The tenants row linked to the provisioned seller
+ */
+export interface ProvisionedTenantLink {
+    id: string;
+    subdomain: string | null;
+    businessName: string | null;
+    status: string;
+}
+
 /**
  * Interface for the result of seller provisioning
  */
@@ -42,9 +91,76 @@ export interface ProvisionSellerResult {
     channelCode: string;
     channelToken: string;
     administratorId: string;
+    tenant: ProvisionedTenantLink;
 }
 
-export class SellerProvisioningService {
+/**
+ * Options of SellerProvisioningPlugin.init(), injected into SellerProvisioningService
+ */
+export interface SellerProvisioningOptions {
+    /**
+     * What to do with already-created entities when a step fails:
+     * - 'compensate' (default): delete them (admin, role, channel, seller, ...);
+     *   resumeProvisioning then starts over
+     * - 'keep': leave them in place so resumeProvisioning continues from the failed step;
+     *   rollbackProvisioning deletes them
+     */
+    onFailure?: 'compensate' | 'keep';
+    /**
+     * Days between deprovisionTenant and the deletion of the tenant's data,
+     * during which the request can be cancelled (default: 30)
+     */
+    deprovisionGracePeriodDays?: number;
+    /**
+     * Where deprovisioning writes tenant data archives
+     * (default: static/tenant-archives)
+     */
+    archiveDir?: string;
+    /**
+     * Days a deprovisioned tenant's archive is kept before it is deleted
+     * (default: 90)
+     */
+    archiveRetentionDays?: number;
+}
+
+export const SELLER_PROVISIONING_OPTIONS = Symbol('SELLER_PROVISIONING_OPTIONS');
+
+/**
+ * Progress of a provisioning run, as shown on the signup page
+ */
+export interface ProvisioningJobStatus {
+    tenantId: string;
+    jobId: string | null;
+    jobState: JobState | null;
+    /** 0-100, from the completed steps */
+    progress: number;
+    status: ProvisioningSagaState['status'];
+    currentStep: string | null;
+    steps: ProvisioningSagaState['steps'];
+    lastError: string | null;
+    /** Set once provisioning has completed */
+    result: ProvisionSellerResult | null;
+}
+
+interface ProvisionTenantJobData {
+    tenantId: string;
+    ctx: SerializedRequestContext;
+}
+
+export const PROVISION_TENANT_QUEUE = 'provision-tenant';
+
+/**
+ * A run marked `running` that has not been updated for this long is assumed
+ * to have crashed and may be resumed
+ */
+const STALE_RUN_MS = 10 * 60 * 1000;
+const STALE_RUNS = { from: ['queued', 'running'] as ProvisioningSagaStatus[], afterMs: STALE_RUN_MS };
+
+@Injectable()
+export class SellerProvisioningService implements OnModuleInit {
+    private sagaStore: ProvisioningSagaStore;
+    private jobQueue: JobQueue<ProvisionTenantJobData>;
+
     constructor(
         private channelService: ChannelService,
         private connection: TransactionalConnection,
@@ -54,7 +170,30 @@ export class SellerProvisioningService {
         private shippingMethodService: ShippingMethodService,
         private stockLocationService: StockLocationService,
         private sellerService: SellerService,
-    ) {}
+        private configService: ConfigService,
+        private requestContextService: RequestContextService,
+        private jobQueueService: JobQueueService,
+        @Inject(SELLER_PROVISIONING_OPTIONS) private options: SellerProvisioningOptions,
+    ) {
+        this.sagaStore = new ProvisioningSagaStore(connection);
+    }
+
+    async onModuleInit() {
+        // Jobs are processed by the worker (index-worker.ts)
+        this.jobQueue = await this.jobQueueService.createQueue({
+            name: PROVISION_TENANT_QUEUE,
+            process: async job => {
+                const ctx = RequestContext.deserialize(job.data.ctx);
+                const state = await this.sagaStore.claim(job.data.tenantId, 'running', ['queued']);
+                if (!state) {
+                    // Already picked up, e.g. by resumeProvisioning
+                    return;
+                }
+                state.jobId = String(job.id);
+                await this.runSaga(ctx, state, progress => job.setProgress(progress));
+            },
+        });
+    }
 
     /**
      * Provision a complete seller setup
@@ -63,47 +202,582 @@ export class SellerProvisioningService {
      * It creates:
      * 1. Seller entity
      * 2. Channel for the seller
-     * 3. Administrator account
+     * 3. Role and administrator account
      * 4. Default shipping method
      * 5. Default stock location
+     * 6. Link to the Supabase tenants row (input.tenantId)
+     *
+     * Runs as a persisted saga (see provisioning-saga.ts): every step is recorded
+     * in `tenant_provisioning`, and `tenants.status` goes provisioning → active | error.
+     *
+     * The steps run as the superadmin: creating a role requires holding every
+     * permission it grants, which the calling (signup backend) administrator does not.
      */
-    async provisionSeller(ctx: RequestContext, input: ProvisionSellerInput): Promise<ProvisionSellerResult> {
-        // Step 1: Create Seller
-        const seller = await this.createSeller(ctx, input.shopName);
-        
-        // Step 2: Create Channel for Seller
-        const channel = await this.createSellerChannel(ctx, String(seller.id), input);
-        
-        // Step 3: Get default tax zones
-        const zones = await this.getDefaultZones(ctx);
-        
-        // Step 4: Create Administrator
-        const administrator = await this.createSellerAdministrator(ctx, {
-            firstName: input.firstName,
-            lastName: input.lastName,
-            emailAddress: input.sellerEmail,
-            password: input.sellerPassword,
-            channelId: String(channel.id),
-        });
-        
-        // Step 5: Create default shipping method
-        await this.createDefaultShippingMethod(ctx, String(channel.id), zones);
-        
-        // Step 6: Create stock location
-        await this.createStockLocation(ctx, String(channel.id));
-        
-        // Step 7: Link channel to seller
-        await this.linkChannelToSeller(ctx, String(channel.id), String(seller.id));
-        
+    async provisionSeller(callerCtx: RequestContext, input: ProvisionSellerInput): Promise<ProvisionSellerResult> {
+        const { state, isNew } = await this.startRun(input, 'running');
+        if (isNew) {
+            return this.runSaga(callerCtx, state);
+        }
+        // Idempotent per tenant: return or reconcile the existing run, never start a second one
+        if (state.status === 'completed') {
+            return this.toResult(state);
+        }
+        if (this.isInProgress(state)) {
+            throw new UserInputError(`Provisioning of tenant ${state.tenantId} is already ${state.status}`);
+        }
+        return this.resumeProvisioning(callerCtx, state.tenantId);
+    }
+
+    /**
+     * Same as provisionSeller, but runs on the `provision-tenant` job queue and
+     * returns straight away. Poll getProvisioningJob() for progress.
+     */
+    async queueProvisioning(callerCtx: RequestContext, input: ProvisionSellerInput): Promise<ProvisioningJobStatus> {
+        const { state, isNew } = await this.startRun(input, 'queued');
+        if (isNew) {
+            await this.enqueue(callerCtx, state);
+        } else {
+            // An existing run is only re-queued when it failed or crashed
+            const claimed = await this.sagaStore.claim(state.tenantId, 'queued', ['failed'], STALE_RUNS);
+            if (claimed) {
+                await this.enqueue(callerCtx, claimed);
+            }
+        }
+        return this.getProvisioningJob(state.tenantId);
+    }
+
+    private async enqueue(callerCtx: RequestContext, state: ProvisioningSagaState): Promise<void> {
+        state.status = 'queued';
+        state.lastError = null;
+        await this.sagaStore.setTenantStatus(state.tenantId, 'provisioning');
+        // Saved before the job is added: the worker skips runs that are not `queued`
+        await this.sagaStore.save(state);
+        const job = await this.jobQueue.add(
+            { tenantId: state.tenantId, ctx: callerCtx.serialize() },
+            // A failed run is compensated or kept for resumeProvisioning, never blindly retried
+            { retries: 0 },
+        );
+        state.jobId = job.id != null ? String(job.id) : null;
+        // Only the job id: the worker may already be saving the run
+        await this.sagaStore.setJobId(state.tenantId, state.jobId);
+    }
+
+    /**
+     * Step-level progress of the last run for a tenant
+     */
+    async getProvisioningJob(tenantId: string): Promise<ProvisioningJobStatus> {
+        const state = await this.getProvisioningState(tenantId);
+        const { jobQueueStrategy } = this.configService.jobQueueOptions;
+        const job = state.jobId && isInspectableJobQueueStrategy(jobQueueStrategy)
+            ? await jobQueueStrategy.findOne(state.jobId)
+            : undefined;
+        const currentStep = state.steps.find(step => step.status === 'running' || step.status === 'failed');
         return {
-            sellerId: String(seller.id),
-            channelId: String(channel.id),
-            channelCode: channel.code,
-            channelToken: channel.token,
-            administratorId: String(administrator.id),
+            tenantId,
+            jobId: state.jobId,
+            jobState: job ? job.state : null,
+            progress: getProvisioningProgress(state),
+            status: state.status,
+            currentStep: currentStep ? currentStep.name : null,
+            steps: state.steps,
+            lastError: state.lastError,
+            result: state.status === 'completed' ? await this.toResult(state) : null,
         };
     }
 
+    /**
+     * Record a new run for the tenant, with only the password hash persisted.
+     *
+     * Returns the existing run instead (isNew: false) when the tenant already
+     * has one that was not rolled back, or was provisioned before runs were
+     * recorded. The insert is atomic, so concurrent calls for the same tenant
+     * (e.g. a retried signup webhook) never both start a run.
+     */
+    private async startRun(
+        input: ProvisionSellerInput,
+        status: 'queued' | 'running',
+    ): Promise<{ state: ProvisioningSagaState; isNew: boolean }> {
+        // The tenants row is created by the SaaS signup flow before provisioning
+        const tenant = await this.getTenant(input.tenantId);
+        if (tenant.status === 'deprovisioning' || tenant.status === 'deprovisioned') {
+            throw new UserInputError(`Tenant ${tenant.id} is ${tenant.status}`);
+        }
+
+        const existing = await this.sagaStore.get(input.tenantId) ?? await this.adoptLinkedTenant(input);
+        if (existing && existing.status !== 'rolled-back') {
+            return { state: existing, isNew: false };
+        }
+
+        const state: ProvisioningSagaState = {
+            tenantId: input.tenantId,
+            status,
+            input: {
+                shopName: input.shopName,
+                sellerEmail: input.sellerEmail,
+                firstName: input.firstName,
+                lastName: input.lastName,
+                tenantId: input.tenantId,
+            },
+            passwordHash: await this.configService.authOptions.passwordHashingStrategy.hash(input.sellerPassword),
+            steps: createInitialSteps(),
+            context: {},
+            lastError: null,
+            jobId: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+        if (!(await this.sagaStore.start(state))) {
+            // Lost the race against a concurrent call
+            return { state: await this.getProvisioningState(input.tenantId), isNew: false };
+        }
+        return { state, isNew: true };
+    }
+
+    /**
+     * Tenants provisioned by provision-tenant-via-service.ts have their ids on the
+     * tenants row but no recorded run. Record a completed run for them, so that
+     * provisioning them again returns the existing setup.
+     */
+    private async adoptLinkedTenant(input: ProvisionSellerInput): Promise<ProvisioningSagaState | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT t.vendure_seller_id, t.vendure_channel_id, t.vendure_administrator_id, c.code, c.token
+             FROM tenants t
+             JOIN channel c ON c.id = t.vendure_channel_id
+             WHERE t.id = $1
+             AND t.vendure_seller_id IS NOT NULL
+             AND t.vendure_administrator_id IS NOT NULL`,
+            [input.tenantId]
+        );
+        if (!result || result.length === 0) {
+            return undefined;
+        }
+        const row = result[0];
+        const now = new Date().toISOString();
+        const state: ProvisioningSagaState = {
+            tenantId: input.tenantId,
+            status: 'completed',
+            input: {
+                shopName: input.shopName,
+                sellerEmail: input.sellerEmail,
+                firstName: input.firstName,
+                lastName: input.lastName,
+                tenantId: input.tenantId,
+            },
+            passwordHash: null,
+            steps: createInitialSteps().map(step => ({ ...step, status: 'completed', startedAt: now, completedAt: now })),
+            context: {
+                sellerId: String(row.vendure_seller_id),
+                channelId: String(row.vendure_channel_id),
+                channelCode: row.code,
+                channelToken: row.token,
+                administratorId: String(row.vendure_administrator_id),
+            },
+            lastError: null,
+            jobId: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+        if (!(await this.sagaStore.start(state))) {
+            return this.sagaStore.get(input.tenantId);
+        }
+        console.log(`[SellerProvisioning] Recorded existing setup of tenant ${input.tenantId} as provisioned`);
+        return state;
+    }
+
+    /**
+     * Continue a failed (or crashed) provisioning run from the first step that
+     * has not completed
+     */
+    async resumeProvisioning(callerCtx: RequestContext, tenantId: string): Promise<ProvisionSellerResult> {
+        const state = await this.getProvisioningState(tenantId);
+        if (state.status === 'completed') {
+            return this.toResult(state);
+        }
+        if (this.isInProgress(state)) {
+            throw new UserInputError(`Provisioning of tenant ${tenantId} is still running`);
+        }
+        if (!state.passwordHash && !state.context.administratorId) {
+            throw new UserInputError(`Provisioning of tenant ${tenantId} cannot be resumed: no password stored`);
+        }
+        // Only one caller gets the run, whatever else raced for it since it was read
+        const claimed = await this.sagaStore.claim(tenantId, 'running', ['failed'], STALE_RUNS);
+        if (!claimed) {
+            throw new UserInputError(`Provisioning of tenant ${tenantId} is still running`);
+        }
+        return this.runSaga(callerCtx, claimed);
+    }
+
+    /**
+     * Delete everything a failed run created (see SellerProvisioningOptions.onFailure)
+     */
+    async rollbackProvisioning(callerCtx: RequestContext, tenantId: string): Promise<ProvisioningSagaState> {
+        const state = await this.getProvisioningState(tenantId);
+        if (state.status === 'completed') {
+            throw new UserInputError(`Tenant ${tenantId} is provisioned - it cannot be rolled back`);
+        }
+        if (this.isInProgress(state)) {
+            throw new UserInputError(`Provisioning of tenant ${tenantId} is still running`);
+        }
+        const ctx = await this.createProvisioningContext(callerCtx);
+        await this.compensate(ctx, state);
+        return state;
+    }
+
+    private isInProgress(state: ProvisioningSagaState): boolean {
+        return (state.status === 'running' || state.status === 'queued')
+            && Date.now() - new Date(state.updatedAt).getTime() < STALE_RUN_MS;
+    }
+
+    async getProvisioningState(tenantId: string): Promise<ProvisioningSagaState> {
+        const state = await this.sagaStore.get(tenantId);
+        if (!state) {
+            throw new UserInputError(`No provisioning run found for tenant ${tenantId}`);
+        }
+        return state;
+    }
+
+    /**
+     * Run every step that has not completed yet, persisting progress after each transition
+     */
+    private async runSaga(
+        callerCtx: RequestContext,
+        state: ProvisioningSagaState,
+        onProgress?: (progress: number) => void,
+    ): Promise<ProvisionSellerResult> {
+        const ctx = await this.createProvisioningContext(callerCtx);
+        await this.sagaStore.setTenantStatus(state.tenantId, 'provisioning');
+        await this.sagaStore.save(state);
+
+        for (const step of state.steps) {
+            if (step.status === 'completed') {
+                continue;
+            }
+            step.status = 'running';
+            step.startedAt = new Date().toISOString();
+            step.completedAt = null;
+            step.error = null;
+            await this.sagaStore.save(state);
+
+            try {
+                await this.executeStep(ctx, step.name, state);
+                step.status = 'completed';
+                step.completedAt = new Date().toISOString();
+                await this.sagaStore.save(state);
+                onProgress?.(getProvisioningProgress(state));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`[SellerProvisioning] Step ${step.name} failed for tenant ${state.tenantId}:`, message);
+                step.status = 'failed';
+                step.error = message;
+                state.status = 'failed';
+                state.lastError = `${step.name}: ${message}`;
+                await this.sagaStore.save(state);
+                await this.sagaStore.setTenantStatus(state.tenantId, 'error');
+
+                if ((this.options.onFailure ?? 'compensate') === 'compensate') {
+                    await this.compensate(ctx, state);
+                }
+                throw new Error(`Provisioning failed at step ${step.name}: ${message}`);
+            }
+        }
+
+        state.status = 'completed';
+        // Only needed to (re)create the administrator
+        state.passwordHash = null;
+        await this.sagaStore.save(state);
+        return this.toResult(state);
+    }
+
+    /**
+     * Run one step. Each step first looks for what an earlier, interrupted
+     * attempt may have created (a crash between creating an entity and saving
+     * the run loses its id), so that re-running a step reconciles instead of
+     * creating duplicates.
+     */
+    private async executeStep(ctx: RequestContext, name: ProvisioningStepName, state: ProvisioningSagaState) {
+        const { input, context } = state;
+        switch (name) {
+            case 'createSeller': {
+                const existingSellerId = context.sellerId && await this.sellerExists(context.sellerId)
+                    ? context.sellerId
+                    : await this.findUnclaimedSeller(input.shopName);
+                context.sellerId = existingSellerId ?? String((await this.createSeller(ctx, input.shopName)).id);
+                break;
+            }
+            case 'resolveZones': {
+                const zones = await this.getDefaultZones(ctx);
+                context.taxZoneId = String(zones.taxZoneId);
+                context.shippingZoneId = String(zones.shippingZoneId);
+                break;
+            }
+            case 'createChannel': {
+                const sellerId = this.required(context, 'sellerId');
+                const existing = await this.findChannelByCode(this.generateChannelCode(input.shopName));
+                if (existing && String(existing.sellerId) !== sellerId) {
+                    throw new UserInputError(`A store with the code "${existing.code}" already exists`);
+                }
+                const channel = existing ?? await this.createSellerChannel(ctx, sellerId, input.shopName, {
+                    taxZoneId: this.required(context, 'taxZoneId'),
+                    shippingZoneId: this.required(context, 'shippingZoneId'),
+                });
+                context.channelId = String(channel.id);
+                context.channelCode = channel.code;
+                context.channelToken = channel.token;
+                break;
+            }
+            case 'createRole': {
+                // Already reconciles: the role code is derived from the channel
+                context.roleId = String(await this.createSellerRole(ctx, this.required(context, 'channelId')));
+                break;
+            }
+            case 'createAdministrator': {
+                if (!state.passwordHash) {
+                    throw new Error('No password stored for the administrator');
+                }
+                const roleId = this.required(context, 'roleId');
+                const existing = await this.findAdministratorByEmail(input.sellerEmail);
+                if (existing && !existing.hasRole(roleId)) {
+                    throw new UserInputError(`An administrator with the email ${input.sellerEmail} already exists`);
+                }
+                if (existing) {
+                    context.administratorId = existing.id;
+                    context.administratorUserId = existing.userId;
+                    await this.setAdministratorPasswordHash(existing.userId, state.passwordHash);
+                } else {
+                    await this.createSellerAdministrator(ctx, {
+                        firstName: input.firstName,
+                        lastName: input.lastName,
+                        emailAddress: input.sellerEmail,
+                        passwordHash: state.passwordHash,
+                        roleId,
+                    }, context);
+                }
+                break;
+            }
+            case 'createShippingMethod': {
+                const channelId = this.required(context, 'channelId');
+                context.shippingMethodId = await this.findDefaultShippingMethod(channelId)
+                    ?? String((await this.createDefaultShippingMethod(ctx, channelId)).id);
+                break;
+            }
+            case 'createStockLocation': {
+                const channelId = this.required(context, 'channelId');
+                context.stockLocationId = await this.findDefaultStockLocation(channelId)
+                    ?? String((await this.createStockLocation(ctx, channelId)).id);
+                break;
+            }
+            case 'linkChannelToSeller':
+                await this.linkChannelToSeller(ctx, this.required(context, 'channelId'), this.required(context, 'sellerId'));
+                break;
+            case 'linkTenant':
+                await this.linkTenant(state.tenantId, {
+                    sellerId: this.required(context, 'sellerId'),
+                    channelId: this.required(context, 'channelId'),
+                    channelToken: this.required(context, 'channelToken'),
+                    administratorId: this.required(context, 'administratorId'),
+                });
+                break;
+        }
+    }
+
+    private async sellerExists(sellerId: string): Promise<boolean> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT id FROM seller WHERE id = $1 AND "deletedAt" IS NULL`,
+            [sellerId]
+        );
+        return result.length > 0;
+    }
+
+    /**
+     * A seller with this name that no channel and no tenant uses yet
+     */
+    private async findUnclaimedSeller(name: string): Promise<string | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT s.id
+             FROM seller s
+             WHERE s.name = $1
+             AND s."deletedAt" IS NULL
+             AND NOT EXISTS (SELECT 1 FROM channel c WHERE c."sellerId" = s.id)
+             AND NOT EXISTS (SELECT 1 FROM tenants t WHERE t.vendure_seller_id = s.id)
+             ORDER BY s.id DESC
+             LIMIT 1`,
+            [name]
+        );
+        return result.length ? String(result[0].id) : undefined;
+    }
+
+    private async findChannelByCode(code: string): Promise<{ id: ID; code: string; token: string; sellerId: ID } | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT id, code, token, "sellerId" FROM channel WHERE code = $1`,
+            [code]
+        );
+        return result.length ? result[0] : undefined;
+    }
+
+    private async findAdministratorByEmail(
+        emailAddress: string,
+    ): Promise<{ id: string; userId: string; hasRole: (roleId: string) => boolean } | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT a.id, a."userId",
+                    COALESCE((SELECT array_agg(urr."roleId") FROM user_roles_role urr WHERE urr."userId" = a."userId"), '{}') AS role_ids
+             FROM administrator a
+             WHERE a."emailAddress" = $1
+             AND a."deletedAt" IS NULL
+             LIMIT 1`,
+            [emailAddress]
+        );
+        if (!result.length) {
+            return undefined;
+        }
+        const roleIds = (result[0].role_ids as Array<string | number>).map(String);
+        return {
+            id: String(result[0].id),
+            userId: String(result[0].userId),
+            hasRole: (roleId: string) => roleIds.includes(roleId),
+        };
+    }
+
+    private async findDefaultShippingMethod(channelId: string): Promise<string | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT id FROM shipping_method WHERE code = $1 AND "deletedAt" IS NULL LIMIT 1`,
+            [`default-shipping-${channelId}`]
+        );
+        return result.length ? String(result[0].id) : undefined;
+    }
+
+    private async findDefaultStockLocation(channelId: string): Promise<string | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT sl.id
+             FROM stock_location sl
+             JOIN stock_location_channels_channel slc ON slc."stockLocationId" = sl.id
+             WHERE slc."channelId" = $1
+             AND sl.name = 'Default Warehouse'
+             LIMIT 1`,
+            [channelId]
+        );
+        return result.length ? String(result[0].id) : undefined;
+    }
+
+    /**
+     * Undo completed (and failed, possibly partial) steps in reverse order.
+     * Best effort: a compensation that fails leaves the run `failed` so it can be retried.
+     */
+    private async compensate(ctx: RequestContext, state: ProvisioningSagaState): Promise<void> {
+        const { context } = state;
+        let allCompensated = true;
+
+        for (const step of [...state.steps].reverse()) {
+            if (step.status !== 'completed' && step.status !== 'failed') {
+                continue;
+            }
+            try {
+                switch (step.name) {
+                    case 'linkTenant':
+                        await this.unlinkTenant(state.tenantId);
+                        break;
+                    case 'createStockLocation':
+                        if (context.stockLocationId) {
+                            await this.stockLocationService.delete(ctx, { id: context.stockLocationId });
+                            delete context.stockLocationId;
+                        }
+                        break;
+                    case 'createShippingMethod':
+                        if (context.shippingMethodId) {
+                            await this.shippingMethodService.softDelete(ctx, context.shippingMethodId);
+                            delete context.shippingMethodId;
+                        }
+                        break;
+                    case 'createAdministrator':
+                        if (context.administratorId) {
+                            await this.administratorService.softDelete(ctx, context.administratorId);
+                            delete context.administratorId;
+                            delete context.administratorUserId;
+                        }
+                        break;
+                    case 'createRole':
+                        if (context.roleId) {
+                            await this.roleService.delete(ctx, context.roleId);
+                            delete context.roleId;
+                        }
+                        break;
+                    case 'createChannel':
+                        if (context.channelId) {
+                            await this.channelService.delete(ctx, context.channelId);
+                            delete context.channelId;
+                            delete context.channelCode;
+                            delete context.channelToken;
+                        }
+                        break;
+                    case 'createSeller':
+                        if (context.sellerId) {
+                            await this.sellerService.delete(ctx, context.sellerId);
+                            delete context.sellerId;
+                        }
+                        break;
+                    default:
+                        // resolveZones / linkChannelToSeller have nothing to undo
+                        break;
+                }
+                step.status = 'compensated';
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`[SellerProvisioning] Compensating ${step.name} failed for tenant ${state.tenantId}:`, message);
+                step.error = `Compensation failed: ${message}`;
+                allCompensated = false;
+            }
+            await this.sagaStore.save(state);
+        }
+
+        if (allCompensated) {
+            state.status = 'rolled-back';
+            await this.sagaStore.save(state);
+        }
+        console.log(`[SellerProvisioning] Tenant ${state.tenantId} ${allCompensated ? 'rolled back' : 'partially rolled back'}`);
+    }
+
+    private async toResult(state: ProvisioningSagaState): Promise<ProvisionSellerResult> {
+        const { context } = state;
+        return {
+            sellerId: this.required(context, 'sellerId'),
+            channelId: this.required(context, 'channelId'),
+            channelCode: this.required(context, 'channelCode'),
+            channelToken: this.required(context, 'channelToken'),
+            administratorId: this.required(context, 'administratorId'),
+            tenant: await this.getTenant(state.tenantId),
+        };
+    }
+
+    private required(context: ProvisioningSagaContext, key: keyof ProvisioningSagaContext): string {
+        const value = context[key];
+        if (!value) {
+            throw new Error(`Provisioning state is missing ${key}`);
+        }
+        return value;
+    }
+
+    /**
+     * Build a RequestContext for the superadmin on the default channel
+     * (same approach as provision-tenant-via-service.ts).
+     * Also used by TenantDeprovisioningService.
+     */
+    async createProvisioningContext(callerCtx: RequestContext): Promise<RequestContext> {
+        const defaultChannel = await this.channelService.getDefaultChannel(callerCtx);
+        const superadmin = await this.connection.getRepository(callerCtx, User).findOne({
+            where: { identifier: this.configService.authOptions.superadminCredentials.identifier },
+            relations: ['roles', 'roles.channels'],
+        });
+        if (!superadmin) {
+            throw new Error('Superadmin user not found');
+        }
+        return this.requestContextService.create({
+            apiType: 'admin',
+            channelOrToken: defaultChannel,
+            languageCode: callerCtx.languageCode,
+            req: callerCtx.req,
+            user: superadmin,
+        });
+    }
+
     /**
      * Step 1: Create Seller Entity
      */
@@ -121,17 +795,16 @@ export class SellerProvisioningService {
     }
 
     /**
-     * Step 2: Create Channel for Seller
+     * Step 3: Create Channel for Seller
      */
-    private async createSellerChannel(ctx: RequestContext, sellerId: string, input: ProvisionSellerInput): Promise<Channel> {
-        const channelCode = this.generateChannelCode(input.shopName);
-        const channelToken = this.generateChannelToken(input.shopName);
-        
-        // Get default channel as reference for settings
-        const defaultChannel = await this.channelService.getDefaultChannel(ctx);
-        
-        // Get zone IDs (you'll need to get these from config or create them)
-        const zones = await this.getDefaultZones(ctx);
+    private async createSellerChannel(
+        ctx: RequestContext,
+        sellerId: string,
+        shopName: string,
+        zones: { taxZoneId: ID; shippingZoneId: ID },
+    ): Promise<Channel> {
+        const channelCode = this.generateChannelCode(shopName);
+        const channelToken = this.generateChannelToken(shopName);
         
         const result = await this.channelService.create(ctx, {
             code: channelCode,
@@ -155,62 +828,49 @@ export class SellerProvisioningService {
     }
 
     /**
-     * Step 3: Get Default Zones
+     * Step 2: Get Default Zones
      */
     private async getDefaultZones(ctx: RequestContext) {
-        try {
-            // Get zones using Vendure's zone service
-            const zones = await this.zoneService.findAll(ctx);
-            
-            if (!zones.items.length) {
-                throw new Error('No zones found. Please create tax and shipping zones first.');
-            }
-            
-            // Use the first zone for both tax and shipping
-            const defaultZoneId = zones.items[0].id;
-            
-            return {
-                taxZoneId: defaultZoneId,
-                shippingZoneId: defaultZoneId,
-            };
-        } catch (error) {
-            console.error('Error getting zones:', error);
-            // Fallback to hardcoded IDs if zones exist
-            return {
-                taxZoneId: '1',
-                shippingZoneId: '1',
-            };
+        const zones = await this.zoneService.findAll(ctx);
+        if (!zones.items.length) {
+            throw new Error('No zones found. Create the tax and shipping zones before provisioning sellers.');
         }
+
+        // Use the first zone for both tax and shipping
+        const defaultZoneId = zones.items[0].id;
+        return {
+            taxZoneId: defaultZoneId,
+            shippingZoneId: defaultZoneId,
+        };
     }
 
     /**
-     * Step 4: Create Administrator
+     * Step 5: Create Administrator
+     *
+     * Only the password hash is kept in the saga state, so the administrator is
+     * created with a throwaway password which is then replaced by the stored hash.
+     * The ids are recorded as soon as the administrator exists, so a failure
+     * after that point can still be compensated.
      */
     private async createSellerAdministrator(ctx: RequestContext, input: {
         firstName: string;
         lastName: string;
         emailAddress: string;
-        password: string;
-        channelId: string;
-    }) {
+        passwordHash: string;
+        roleId: string;
+    }, context: ProvisioningSagaContext) {
         try {
-            // Get the first available role (usually SuperAdmin or similar)
-            const roles = await this.roleService.findAll(ctx);
-            if (!roles.items.length) {
-                throw new Error('No roles found. Please create roles first.');
-            }
-            
-            // Use the first role (typically SuperAdmin)
-            const roleId = roles.items[0].id;
-            
-            // Create administrator
             const administrator = await this.administratorService.create(ctx, {
                 firstName: input.firstName,
                 lastName: input.lastName,
                 emailAddress: input.emailAddress,
-                password: input.password,
-                roleIds: [roleId],
+                password: randomBytes(32).toString('hex'),
+                roleIds: [input.roleId],
             });
+            context.administratorId = String(administrator.id);
+            context.administratorUserId = String(administrator.user.id);
+
+            await this.setAdministratorPasswordHash(String(administrator.user.id), input.passwordHash);
             
             return administrator;
         } catch (error) {
@@ -219,22 +879,65 @@ export class SellerProvisioningService {
         }
     }
 
+    private async setAdministratorPasswordHash(userId: string, passwordHash: string): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE authentication_method SET "passwordHash" = $1
+             WHERE "userId" = $2 AND type = 'NativeAuthenticationMethod'`,
+            [passwordHash, userId]
+        );
+    }
+
     /**
-     * Step 5: Create Default Shipping Method
+     * Step 4: Create the `seller-admin-<channelId>` role (see create-seller-role.ts)
+     * Each seller gets its own role, mapped to its channel only
      */
-    private async createDefaultShippingMethod(ctx: RequestContext, channelId: string, zones: any) {
+    private async createSellerRole(ctx: RequestContext, channelId: string): Promise<ID> {
+        const roleCode = `seller-admin-${channelId}`;
+        const existing = await this.roleService.findAll(ctx, { filter: { code: { eq: roleCode } } });
+        if (existing.items.length) {
+            return existing.items[0].id;
+        }
+
+        const role = await this.roleService.create(ctx, {
+            code: roleCode,
+            description: `Administrator for channel ${channelId}`,
+            permissions: STORE_ADMIN_PERMISSIONS,
+        });
+
+        // Map to the seller's channel only (RoleService.create maps to the default channel)
+        await this.connection.rawConnection.query(
+            `DELETE FROM role_channels_channel WHERE "roleId" = $1`,
+            [role.id]
+        );
+        await this.connection.rawConnection.query(
+            `INSERT INTO role_channels_channel ("roleId", "channelId") VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+            [role.id, channelId]
+        );
+        return role.id;
+    }
+
+    /**
+     * Step 6: Create Default Shipping Method
+     */
+    private async createDefaultShippingMethod(ctx: RequestContext, channelId: string) {
         try {
             // Create a default shipping method for the seller
             const shippingMethod = await this.shippingMethodService.create(ctx, {
-                code: 'default-shipping',
+                code: `default-shipping-${channelId}`,
                 fulfillmentHandler: 'manual-fulfillment',
                 checker: {
-                    code: 'default-shipping-checker',
+                    // Must be one of the configured shippingEligibilityCheckers
+                    code: multiVendorShippingEligibilityChecker.code,
                     arguments: [],
                 },
                 calculator: {
-                    code: 'default-shipping-calculator',
-                    arguments: [],
+                    // Free until the seller edits the rate table
+                    code: sellerRateTableShippingCalculator.code,
+                    arguments: [
+                        { name: 'rateTable', value: JSON.stringify(DEFAULT_SELLER_RATE_TABLE) },
+                        { name: 'includesTax', value: 'auto' },
+                        { name: 'taxRate', value: '0' },
+                    ],
                 },
                 translations: [
                     {
@@ -245,19 +948,18 @@ export class SellerProvisioningService {
                 ],
             });
             
-            // Note: Shipping method assignment to channels may need to be done differently
-            // This depends on your Vendure version and configuration
+            // Created in the default channel - make it available in the seller's channel
+            await this.channelService.assignToChannels(ctx, ShippingMethod, shippingMethod.id, [channelId]);
             
             return shippingMethod;
         } catch (error) {
             console.error('Error creating shipping method:', error);
-            // Don't throw error - shipping method is optional for basic setup
-            console.warn('Continuing without shipping method');
+            throw new Error(`Failed to create shipping method: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
     /**
-     * Step 6: Create Stock Location
+     * Step 7: Create Stock Location
      */
     private async createStockLocation(ctx: RequestContext, channelId: string) {
         try {
@@ -266,17 +968,17 @@ export class SellerProvisioningService {
                 name: 'Default Warehouse',
                 description: 'Default stock location for seller',
             });
+            await this.channelService.assignToChannels(ctx, StockLocation, stockLocation.id, [channelId]);
             
             return stockLocation;
         } catch (error) {
             console.error('Error creating stock location:', error);
-            // Don't throw error - stock location is optional for basic setup
-            console.warn('Continuing without stock location');
+            throw new Error(`Failed to create stock location: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
     /**
-     * Step 7: Link Channel to Seller
+     * Step 8: Link Channel to Seller
      */
     private async linkChannelToSeller(ctx: RequestContext, channelId: string, sellerId: string) {
         // Update channel to link it to the seller
@@ -294,6 +996,71 @@ export class SellerProvisioningService {
         }
     }
 
+    /**
+     * Step 9: Link the tenants row to the Vendure entities and activate it
+     */
+    private async linkTenant(tenantId: string, link: {
+        sellerId: string;
+        channelId: string;
+        channelToken: string;
+        administratorId: string;
+    }): Promise<ProvisionedTenantLink> {
+        const rows = await updateReturning(
+            this.connection.rawConnection,
+            `UPDATE tenants
+             SET vendure_seller_id = $2,
+                 vendure_channel_id = $3,
+                 vendure_channel_token = $4,
+                 vendure_administrator_id = $5,
+                 status = 'active',
+                 updated_at = NOW()
+             WHERE id = $1
+             RETURNING id, subdomain, business_name, status`,
+            [tenantId, link.sellerId, link.channelId, link.channelToken, link.administratorId]
+        );
+        if (!rows.length) {
+            throw new Error(`Tenant ${tenantId} disappeared during provisioning`);
+        }
+        return this.toTenantLink(rows[0]);
+    }
+
+    /**
+     * Compensation for step 9
+     */
+    private async unlinkTenant(tenantId: string): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE tenants
+             SET vendure_seller_id = NULL,
+                 vendure_channel_id = NULL,
+                 vendure_channel_token = NULL,
+                 vendure_administrator_id = NULL,
+                 status = 'error',
+                 updated_at = NOW()
+             WHERE id = $1`,
+            [tenantId]
+        );
+    }
+
+    private async getTenant(tenantId: string): Promise<ProvisionedTenantLink> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT id, subdomain, business_name, status FROM tenants WHERE id = $1`,
+            [tenantId]
+        );
+        if (!result || result.length === 0) {
+            throw new UserInputError(`Tenant ${tenantId} not found`);
+        }
+        return this.toTenantLink(result[0]);
+    }
+
+    private toTenantLink(row: any): ProvisionedTenantLink {
+        return {
+            id: row.id,
+            subdomain: row.subdomain,
+            businessName: row.business_name,
+            status: row.status,
+        };
+    }
+
     /**
      * Generate channel code from shop name
      */
@@ -311,25 +1078,3 @@ export class SellerProvisioningService {
         return this.generateChannelCode(shopName) + '-token';
     }
 }
-
-/**
- * Example HTTP API Endpoint
- * 
- * This would be called from your Next.js/Supabase API when a tenant signs up
- * 
- * Note: This is a placeholder - actual implementation would require proper
- * dependency injection and request context creation
- */
-export async function POST(request: Request) {
-    // This is a placeholder implementation
-    // In a real implementation, you would:
-    // 1. Extract request data
-    // 2. Create proper Vendure request context
-    // 3. Inject all required services
-    // 4. Call the provisioning service
-    
-    return Response.json({
-        error: 'Not implemented - requires proper dependency injection'
-    });
-}
-
@@ -0,0 +1,233 @@
+/**
+ * Seller Provisioning Saga State
+ *
+ * Persists each provisioning run in the `tenant_provisioning` table
+ * (migrations/004_tenant_provisioning.sql): which steps completed, which
+ * entities were created, and the last error. SellerProvisioningService uses
+ * it to compensate or resume a failed run.
+ */
+
+import { TransactionalConnection } from '@vendure/core';
+import { updateReturning } from './plugins/update-returning';
+
+/**
+ * The provisioning steps, in execution order
+ */
+export const PROVISIONING_STEPS = [
+    'createSeller',
+    'resolveZones',
+    'createChannel',
+    'createRole',
+    'createAdministrator',
+    'createShippingMethod',
+    'createStockLocation',
+    'linkChannelToSeller',
+    'linkTenant',
+] as const;
+
+export type ProvisioningStepName = typeof PROVISIONING_STEPS[number];
+
+export type ProvisioningStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'compensated';
+
+export type ProvisioningSagaStatus = 'queued' | 'running' | 'completed' | 'failed' | 'rolled-back';
+
+export interface ProvisioningStepState {
+    name: ProvisioningStepName;
+    status: ProvisioningStepStatus;
+    startedAt: string | null;
+    completedAt: string | null;
+    error: string | null;
+}
+
+/**
+ * Ids of the entities created by completed steps
+ */
+export interface ProvisioningSagaContext {
+    sellerId?: string;
+    taxZoneId?: string;
+    shippingZoneId?: string;
+    channelId?: string;
+    channelCode?: string;
+    channelToken?: string;
+    roleId?: string;
+    administratorId?: string;
+    administratorUserId?: string;
+    shippingMethodId?: string;
+    stockLocationId?: string;
+}
+
+/**
+ * ProvisionSellerInput minus the password
+ */
+export interface StoredProvisioningInput {
+    shopName: string;
+    sellerEmail: string;
+    firstName: string;
+    lastName: string;
+    tenantId: string;
+}
+
+export interface ProvisioningSagaState {
+    tenantId: string;
+    status: ProvisioningSagaStatus;
+    input: StoredProvisioningInput;
+    passwordHash: string | null;
+    steps: ProvisioningStepState[];
+    context: ProvisioningSagaContext;
+    lastError: string | null;
+    /** The `provision-tenant` job, when run through the job queue */
+    jobId: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export function createInitialSteps(): ProvisioningStepState[] {
+    return PROVISIONING_STEPS.map(name => ({
+        name,
+        status: 'pending',
+        startedAt: null,
+        completedAt: null,
+        error: null,
+    }));
+}
+
+/**
+ * Share of completed steps, 0-100
+ */
+export function getProvisioningProgress(state: ProvisioningSagaState): number {
+    if (state.status === 'completed') {
+        return 100;
+    }
+    const completed = state.steps.filter(step => step.status === 'completed').length;
+    return Math.floor((completed / state.steps.length) * 100);
+}
+
+export class ProvisioningSagaStore {
+    constructor(private connection: TransactionalConnection) {}
+
+    async get(tenantId: string): Promise<ProvisioningSagaState | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT tenant_id, status, input, password_hash, steps, context, last_error, job_id, created_at, updated_at
+             FROM tenant_provisioning
+             WHERE tenant_id = $1`,
+            [tenantId]
+        );
+        if (!result || result.length === 0) {
+            return undefined;
+        }
+        return this.toState(result[0]);
+    }
+
+    /**
+     * Record a new run, replacing a rolled-back one for the same tenant.
+     * Returns false if the tenant already has a run that was not rolled back.
+     */
+    async start(state: ProvisioningSagaState): Promise<boolean> {
+        const result = await this.connection.rawConnection.query(
+            `INSERT INTO tenant_provisioning (tenant_id, status, input, password_hash, steps, context, last_error, job_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             ON CONFLICT (tenant_id) DO UPDATE SET
+                status = EXCLUDED.status,
+                input = EXCLUDED.input,
+                password_hash = EXCLUDED.password_hash,
+                steps = EXCLUDED.steps,
+                context = EXCLUDED.context,
+                last_error = EXCLUDED.last_error,
+                job_id = EXCLUDED.job_id,
+                created_at = NOW(),
+                updated_at = NOW()
+             WHERE tenant_provisioning.status = 'rolled-back'
+             RETURNING tenant_id`,
+            [
+                state.tenantId,
+                state.status,
+                JSON.stringify(state.input),
+                state.passwordHash,
+                JSON.stringify(state.steps),
+                JSON.stringify(state.context),
+                state.lastError,
+                state.jobId,
+            ]
+        );
+        return Array.isArray(result) && result.length > 0;
+    }
+
+    /**
+     * Persist the saga after every step transition, so a crash never loses
+     * track of created entities
+     */
+    async save(state: ProvisioningSagaState): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE tenant_provisioning
+             SET status = $2, steps = $3, context = $4, last_error = $5, password_hash = $6, job_id = $7, updated_at = NOW()
+             WHERE tenant_id = $1`,
+            [
+                state.tenantId,
+                state.status,
+                JSON.stringify(state.steps),
+                JSON.stringify(state.context),
+                state.lastError,
+                state.passwordHash,
+                state.jobId,
+            ]
+        );
+    }
+
+    /**
+     * Atomically move a run to `status` if it is still in one of the `from`
+     * statuses, or in one of the `stale.from` statuses without an update for
+     * `stale.afterMs`. Returns the claimed run, or undefined when another
+     * caller (a concurrent resume, another worker) got there first.
+     */
+    async claim(
+        tenantId: string,
+        status: 'queued' | 'running',
+        from: ProvisioningSagaStatus[],
+        stale?: { from: ProvisioningSagaStatus[]; afterMs: number },
+    ): Promise<ProvisioningSagaState | undefined> {
+        const rows = await updateReturning(
+            this.connection.rawConnection,
+            `UPDATE tenant_provisioning
+             SET status = $2, last_error = NULL, updated_at = NOW()
+             WHERE tenant_id = $1
+             AND (status = ANY($3)
+                  OR (status = ANY($4) AND updated_at < NOW() - $5 * INTERVAL '1 millisecond'))
+             RETURNING tenant_id, status, input, password_hash, steps, context, last_error, job_id, created_at, updated_at`,
+            [tenantId, status, from, stale?.from ?? [], stale?.afterMs ?? 0]
+        );
+        return rows.length ? this.toState(rows[0]) : undefined;
+    }
+
+    async setJobId(tenantId: string, jobId: string | null): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE tenant_provisioning SET job_id = $2 WHERE tenant_id = $1`,
+            [tenantId, jobId]
+        );
+    }
+
+    /**
+     * Drive `tenants.status` from the saga: provisioning → active | error
+     */
+    async setTenantStatus(tenantId: string, status: 'provisioning' | 'active' | 'error'): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE tenants SET status = $2, updated_at = NOW() WHERE id = $1`,
+            [tenantId, status]
+        );
+    }
+
+    private toState(row: any): ProvisioningSagaState {
+        const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+        return {
+            tenantId: row.tenant_id,
+            status: row.status,
+            input: parse(row.input),
+            passwordHash: row.password_hash,
+            steps: parse(row.steps),
+            context: parse(row.context),
+            lastError: row.last_error,
+            jobId: row.job_id,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+}
@@ -0,0 +1,319 @@
+/**
+ * Tenant Suspension Service
+ *
+ * Suspends a tenant (e.g. past due on billing) without losing data, and
+ * reactivates it later. While a tenant is suspended:
+ * - its administrators cannot log in and its API keys are refused
+ *   (both only accept tenants with status 'active')
+ * - its products are disabled, so the shop-api no longer shows them
+ * - orders containing its products cannot be placed
+ *   (suspendedTenantOrderProcess)
+ * - the seller is emailed on suspension and reactivation
+ *   (tenantStatusEmailHandler)
+ *
+ * Each suspension is recorded in `tenant_suspensions`
+ * (migrations/007_tenant_suspensions.sql), including the products it disabled,
+ * so reactivation re-enables exactly those.
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+    EventBus,
+    PermissionDefinition,
+    ProductService,
+    RequestContext,
+    TransactionalConnection,
+    UserInputError,
+    VendureEvent,
+} from '@vendure/core';
+import { SellerProvisioningService } from './provision-seller-api';
+import { channelResolutionCache } from './plugins/channel-isolation-cache';
+
+/**
+ * Permission required to suspend and reactivate tenants
+ * (granted to the billing backend's administrator)
+ */
+export const suspendTenantPermission = new PermissionDefinition({
+    name: 'SuspendTenant',
+    description: 'Allows suspending and reactivating seller tenants',
+});
+
+export interface SuspendTenantInput {
+    tenantId: string;
+    reason?: string | null;
+}
+
+export interface TenantSuspension {
+    id: string;
+    tenantId: string;
+    reason: string | null;
+    suspendedBy: string | null;
+    suspendedAt: Date;
+    /** Products disabled by this suspension */
+    disabledProductIds: string[];
+    reactivatedBy: string | null;
+    reactivatedAt: Date | null;
+}
+
+/**
+ * Published when a tenant is suspended or reactivated
+ */
+export class TenantStatusChangeEvent extends VendureEvent {
+    constructor(
+        public ctx: RequestContext,
+        public tenantId: string,
+        public status: 'suspended' | 'reactivated',
+        public businessName: string | null,
+        /** The tenant administrator's email address */
+        public emailAddress: string | null,
+        public reason: string | null,
+    ) {
+        super();
+    }
+}
+
+@Injectable()
+export class TenantSuspensionService {
+    constructor(
+        private connection: TransactionalConnection,
+        private sellerProvisioningService: SellerProvisioningService,
+        private productService: ProductService,
+        private eventBus: EventBus,
+    ) {}
+
+    /**
+     * Suspend an active tenant. Suspending a suspended tenant returns the current suspension.
+     */
+    async suspendTenant(callerCtx: RequestContext, input: SuspendTenantInput): Promise<TenantSuspension> {
+        const tenant = await this.getTenant(input.tenantId);
+        if (tenant.status === 'suspended') {
+            const current = await this.findActiveSuspension(tenant.id);
+            if (current) {
+                return current;
+            }
+        }
+        if (tenant.status !== 'active') {
+            throw new UserInputError(`Tenant ${tenant.id} is ${tenant.status} and cannot be suspended`);
+        }
+
+        const productIds = tenant.vendure_channel_id != null
+            ? await this.getEnabledChannelProductIds(tenant.vendure_channel_id)
+            : [];
+        // Recorded before any product is touched, so an interrupted suspension can still be reversed
+        const result = await this.connection.rawConnection.query(
+            `INSERT INTO tenant_suspensions (tenant_id, reason, suspended_by, disabled_product_ids)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT DO NOTHING
+             RETURNING id`,
+            [tenant.id, input.reason ?? null, this.activeUserId(callerCtx), JSON.stringify(productIds)]
+        );
+        if (!result.length) {
+            // A concurrent call suspended the tenant first
+            return this.getActiveSuspension(tenant.id);
+        }
+
+        // Locks out the tenant's administrators and API keys
+        await this.setTenantStatus(tenant.id, 'suspended');
+        await this.invalidateResolutionCache(tenant);
+
+        const ctx = await this.sellerProvisioningService.createProvisioningContext(callerCtx);
+        await this.setProductsEnabled(ctx, productIds, false);
+
+        await this.logEvent(tenant.id, 'tenant.suspended', {
+            reason: input.reason ?? null,
+            disabledProducts: productIds.length,
+            userId: this.activeUserId(callerCtx),
+        });
+        await this.eventBus.publish(new TenantStatusChangeEvent(
+            callerCtx, tenant.id, 'suspended', tenant.business_name, tenant.email_address, input.reason ?? null,
+        ));
+        console.log(`[TenantSuspension] Tenant ${tenant.id} suspended (${productIds.length} products disabled)`);
+        return this.getActiveSuspension(tenant.id);
+    }
+
+    /**
+     * Reactivate a suspended tenant and re-enable the products its suspension disabled
+     */
+    async reactivateTenant(callerCtx: RequestContext, tenantId: string): Promise<TenantSuspension> {
+        const tenant = await this.getTenant(tenantId);
+        if (tenant.status !== 'suspended') {
+            throw new UserInputError(`Tenant ${tenant.id} is ${tenant.status}, not suspended`);
+        }
+        const suspension = await this.findActiveSuspension(tenant.id);
+
+        if (suspension) {
+            const ctx = await this.sellerProvisioningService.createProvisioningContext(callerCtx);
+            // Products deleted in the meantime stay deleted
+            const existing = await this.connection.rawConnection.query(
+                `SELECT id FROM product WHERE id = ANY($1) AND "deletedAt" IS NULL`,
+                [suspension.disabledProductIds]
+            );
+            await this.setProductsEnabled(ctx, existing.map((row: any) => String(row.id)), true);
+            await this.connection.rawConnection.query(
+                `UPDATE tenant_suspensions SET reactivated_by = $2, reactivated_at = NOW() WHERE id = $1`,
+                [suspension.id, this.activeUserId(callerCtx)]
+            );
+        }
+
+        await this.setTenantStatus(tenant.id, 'active');
+        await this.invalidateResolutionCache(tenant);
+
+        await this.logEvent(tenant.id, 'tenant.reactivated', { userId: this.activeUserId(callerCtx) });
+        await this.eventBus.publish(new TenantStatusChangeEvent(
+            callerCtx, tenant.id, 'reactivated', tenant.business_name, tenant.email_address, null,
+        ));
+        console.log(`[TenantSuspension] Tenant ${tenant.id} reactivated`);
+        return suspension ? this.getSuspension(suspension.id) : this.recordUntrackedReactivation(callerCtx, tenant.id);
+    }
+
+    /**
+     * Suspension history of a tenant, newest first
+     */
+    async getSuspensions(tenantId: string): Promise<TenantSuspension[]> {
+        const rows = await this.connection.rawConnection.query(
+            `SELECT * FROM tenant_suspensions WHERE tenant_id = $1 ORDER BY suspended_at DESC`,
+            [tenantId]
+        );
+        return rows.map((row: any) => this.toSuspension(row));
+    }
+
+    /**
+     * Tenants set to 'suspended' directly in the database have no suspension
+     * record. Record one, so that the reactivation still shows up in the history.
+     */
+    private async recordUntrackedReactivation(callerCtx: RequestContext, tenantId: string): Promise<TenantSuspension> {
+        const result = await this.connection.rawConnection.query(
+            `INSERT INTO tenant_suspensions (tenant_id, reason, reactivated_by, reactivated_at)
+             VALUES ($1, 'Suspended outside of Vendure', $2, NOW())
+             RETURNING id`,
+            [tenantId, this.activeUserId(callerCtx)]
+        );
+        return this.getSuspension(result[0].id);
+    }
+
+    /**
+     * Enabled products of the channel that are not also sold through another seller channel
+     */
+    private async getEnabledChannelProductIds(channelId: number): Promise<string[]> {
+        const rows = await this.connection.rawConnection.query(
+            `SELECT p.id
+             FROM product p
+             JOIN product_channels_channel pc ON pc."productId" = p.id
+             JOIN channel c ON c.id = pc."channelId"
+             WHERE pc."channelId" = $1
+             AND p.enabled = true
+             AND p."deletedAt" IS NULL
+             AND NOT EXISTS (
+                SELECT 1
+                FROM product_channels_channel other
+                JOIN channel oc ON oc.id = other."channelId"
+                WHERE other."productId" = p.id
+                AND other."channelId" <> $1
+                AND oc.code <> $2
+             )`,
+            [channelId, 'default']
+        );
+        return rows.map((row: any) => String(row.id));
+    }
+
+    /**
+     * Through ProductService, so the search index is updated too
+     */
+    private async setProductsEnabled(ctx: RequestContext, productIds: string[], enabled: boolean): Promise<void> {
+        for (const id of productIds) {
+            await this.productService.update(ctx, { id, enabled });
+        }
+    }
+
+    private async invalidateResolutionCache(tenant: TenantRow): Promise<void> {
+        if (tenant.vendure_channel_id != null) {
+            await channelResolutionCache.invalidate({ channelId: tenant.vendure_channel_id });
+        }
+        if (tenant.vendure_administrator_id != null) {
+            await channelResolutionCache.invalidate({ administratorId: tenant.vendure_administrator_id });
+        }
+    }
+
+    private async findActiveSuspension(tenantId: string): Promise<TenantSuspension | undefined> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT * FROM tenant_suspensions WHERE tenant_id = $1 AND reactivated_at IS NULL LIMIT 1`,
+            [tenantId]
+        );
+        return result.length ? this.toSuspension(result[0]) : undefined;
+    }
+
+    private async getActiveSuspension(tenantId: string): Promise<TenantSuspension> {
+        const suspension = await this.findActiveSuspension(tenantId);
+        if (!suspension) {
+            throw new Error(`Tenant ${tenantId} has no active suspension`);
+        }
+        return suspension;
+    }
+
+    private async getSuspension(id: string): Promise<TenantSuspension> {
+        const result = await this.connection.rawConnection.query(`SELECT * FROM tenant_suspensions WHERE id = $1`, [id]);
+        return this.toSuspension(result[0]);
+    }
+
+    private async getTenant(tenantId: string): Promise<TenantRow> {
+        const result = await this.connection.rawConnection.query(
+            `SELECT t.id, t.business_name, t.status, t.vendure_channel_id, t.vendure_administrator_id,
+                    a."emailAddress" AS email_address
+             FROM tenants t
+             LEFT JOIN administrator a ON a.id = t.vendure_administrator_id AND a."deletedAt" IS NULL
+             WHERE t.id = $1`,
+            [tenantId]
+        );
+        if (!result || result.length === 0) {
+            throw new UserInputError(`Tenant ${tenantId} not found`);
+        }
+        return result[0];
+    }
+
+    private async setTenantStatus(tenantId: string, status: 'active' | 'suspended'): Promise<void> {
+        await this.connection.rawConnection.query(
+            `UPDATE tenants SET status = $2, updated_at = NOW() WHERE id = $1`,
+            [tenantId, status]
+        );
+    }
+
+    private async logEvent(tenantId: string, eventType: string, data: Record<string, any>) {
+        try {
+            await this.connection.rawConnection.query(
+                `INSERT INTO events (tenant_id, event_type, event_data) VALUES ($1, $2, $3)`,
+                [tenantId, eventType, JSON.stringify(data)]
+            );
+        } catch (error: any) {
+            console.error(`[TenantSuspension] Could not log ${eventType}:`, error.message);
+        }
+    }
+
+    private activeUserId(ctx: RequestContext): string | null {
+        return ctx.activeUserId != null ? String(ctx.activeUserId) : null;
+    }
+
+    private toSuspension(row: any): TenantSuspension {
+        const productIds = typeof row.disabled_product_ids === 'string'
+            ? JSON.parse(row.disabled_product_ids)
+            : row.disabled_product_ids;
+        return {
+            id: row.id,
+            tenantId: row.tenant_id,
+            reason: row.reason,
+            suspendedBy: row.suspended_by,
+            suspendedAt: row.suspended_at,
+            disabledProductIds: (productIds ?? []).map(String),
+            reactivatedBy: row.reactivated_by,
+            reactivatedAt: row.reactivated_at,
+        };
+    }
+}
+
+interface TenantRow {
+    id: string;
+    business_name: string | null;
+    status: string;
+    vendure_channel_id: number | null;
+    vendure_administrator_id: number | null;
+    email_address: string | null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Tenant Data Archive
+ *
+ * Exports the catalog, customers and orders of a seller channel to a gzipped
+ * JSON file before the tenant is deprovisioned, so churned sellers can be
+ * handed their data and GDPR access requests can be answered after the
+ * Vendure entities are gone. Archives are deleted by TenantDeprovisioningService
+ * once their retention period has ended.
+ */
+
+import { TransactionalConnection } from '@vendure/core';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gzipSync } from 'zlib';
+
+export interface TenantArchive {
+    exportedAt: string;
+    tenant: { id: string; subdomain: string | null; businessName: string | null };
+    channel: { id: string; code: string } | null;
+    catalog: { products: any[]; variants: any[] };
+    customers: any[];
+    orders: any[];
+}
+
+/**
+ * Read everything the tenant owns in its channel. Raw queries, so nothing is
+ * hidden by channel or permission checks.
+ */
+export async function buildTenantArchive(
+    connection: TransactionalConnection,
+    tenant: { id: string; subdomain: string | null; businessName: string | null },
+    channelId: string | null,
+): Promise<TenantArchive> {
+    const archive: TenantArchive = {
+        exportedAt: new Date().toISOString(),
+        tenant,
+        channel: null,
+        catalog: { products: [], variants: [] },
+        customers: [],
+        orders: [],
+    };
+    if (!channelId) {
+        return archive;
+    }
+    const query = (sql: string) => connection.rawConnection.query(sql, [channelId]);
+
+    const channel = await query(`SELECT id, code FROM channel WHERE id = $1`);
+    archive.channel = channel.length ? { id: String(channel[0].id), code: channel[0].code } : null;
+
+    archive.catalog.products = await query(
+        `SELECT p.id, p.enabled, p."createdAt", p."updatedAt",
+                (SELECT json_agg(json_build_object(
+                    'languageCode', t."languageCode", 'name', t.name, 'slug', t.slug, 'description', t.description))
+                 FROM product_translation t WHERE t."baseId" = p.id) AS translations
+         FROM product p
+         JOIN product_channels_channel pc ON pc."productId" = p.id
+         WHERE pc."channelId" = $1
+         AND p."deletedAt" IS NULL
+         ORDER BY p.id`
+    );
+    archive.catalog.variants = await query(
+        `SELECT pv.id, pv."productId", pv.sku, pv.enabled,
+                (SELECT json_agg(json_build_object('languageCode', t."languageCode", 'name', t.name))
+                 FROM product_variant_translation t WHERE t."baseId" = pv.id) AS translations,
+                (SELECT json_agg(json_build_object('currencyCode', pr."currencyCode", 'price', pr.price))
+                 FROM product_variant_price pr WHERE pr."variantId" = pv.id AND pr."channelId" = $1) AS prices,
+                (SELECT COALESCE(SUM(sl."stockOnHand"), 0)
+                 FROM stock_level sl WHERE sl."productVariantId" = pv.id) AS "stockOnHand"
+         FROM product_variant pv
+         JOIN product_variant_channels_channel pvc ON pvc."productVariantId" = pv.id
+         WHERE pvc."channelId" = $1
+         AND pv."deletedAt" IS NULL
+         ORDER BY pv.id`
+    );
+    archive.customers = await query(
+        `SELECT c.id, c.title, c."firstName", c."lastName", c."emailAddress", c."phoneNumber", c."createdAt",
+                (SELECT json_agg(json_build_object(
+                    'fullName', a."fullName", 'company', a.company, 'streetLine1', a."streetLine1",
+                    'streetLine2', a."streetLine2", 'city', a.city, 'province', a.province,
+                    'postalCode', a."postalCode", 'phoneNumber', a."phoneNumber"))
+                 FROM address a WHERE a."customerId" = c.id) AS addresses
+         FROM customer c
+         JOIN customer_channels_channel cc ON cc."customerId" = c.id
+         WHERE cc."channelId" = $1
+         AND c."deletedAt" IS NULL
+         ORDER BY c.id`
+    );
+    archive.orders = await query(
+        `SELECT o.id, o.code, o.type, o.state, o."orderPlacedAt", o."customerId", o."currencyCode",
+                o."subTotal", o."subTotalWithTax", o.shipping, o."shippingWithTax",
+                o."shippingAddress", o."billingAddress",
+                (SELECT json_agg(json_build_object(
+                    'productVariantId', l."productVariantId", 'quantity', l.quantity,
+                    'listPrice', l."listPrice", 'listPriceIncludesTax', l."listPriceIncludesTax"))
+                 FROM order_line l WHERE l."orderId" = o.id) AS lines,
+                (SELECT json_agg(json_build_object(
+                    'method', pm.method, 'amount', pm.amount, 'state', pm.state, 'transactionId', pm."transactionId"))
+                 FROM payment pm WHERE pm."orderId" = o.id) AS payments
+         FROM "order" o
+         JOIN order_channels_channel oc ON oc."orderId" = o.id
+         WHERE oc."channelId" = $1
+         AND o."orderPlacedAt" IS NOT NULL
+         ORDER BY o."orderPlacedAt"`
+    );
+    return archive;
+}
+
+/**
+ * Write the archive as `<tenantId>-<timestamp>.json.gz`, readable by the owner only.
+ * Returns the file path.
+ */
+export async function writeTenantArchive(archiveDir: string, archive: TenantArchive): Promise<string> {
+    await fs.mkdir(archiveDir, { recursive: true });
+    const fileName = `${archive.tenant.id}-${archive.exportedAt.replace(/[:.]/g, '-')}.json.gz`;
+    const filePath = path.join(archiveDir, fileName);
+    await fs.writeFile(filePath, gzipSync(JSON.stringify(archive, null, 2)), { mode: 0o600 });
+    return filePath;
+}
+
+/**
+ * Delete an archive file. An archive that is already gone is not an error.
+ */
+export async function deleteTenantArchive(filePath: string): Promise<void> {
+    await fs.rm(filePath, { force: true });
+}
@@ -1,28 +1,97 @@
 import {
+    configureDefaultOrderProcess,
+    defaultShippingCalculator,
     dummyPaymentHandler,
+    NativeAuthenticationStrategy,
     DefaultJobQueuePlugin,
     DefaultSchedulerPlugin,
     DefaultSearchPlugin,
     VendureConfig,
 } from '@vendure/core';
-import { defaultEmailHandlers, EmailPlugin, FileBasedTemplateLoader } from '@vendure/email-plugin';
+import {
+    defaultEmailHandlers,
+    EmailPlugin,
+    orderConfirmationHandler,
+} from '@vendure/email-plugin';
 import { AssetServerPlugin } from '@vendure/asset-server-plugin';
 import { DashboardPlugin } from '@vendure/dashboard/plugin';
 import { GraphiqlPlugin } from '@vendure/graphiql-plugin';
 import 'dotenv/config';
 import path from 'path';
 import {
+    multiVendorOrderProcess,
     multiVendorOrderSellerStrategy,
     multiVendorShippingLineAssignmentStrategy,
     multiVendorShippingEligibilityChecker,
+    sellerChannelCustomField,
+    variantWeightCustomField,
 } from './plugins/multi-vendor-plugin';
 import { SellerProvisioningPlugin } from './plugins/seller-provisioning-plugin';
 import { ChannelIsolationPlugin } from './plugins/channel-isolation-plugin';
 import { createChannelIsolationMiddlewareHandler } from './plugins/channel-isolation-middleware';
+import { ChannelAwareAuthStrategy } from './plugins/channel-aware-auth-strategy';
+import { TenantApiKeyPlugin } from './plugins/tenant-api-key-plugin';
+import { createTenantApiKeyMiddlewareHandler } from './plugins/tenant-api-key-middleware';
+import { SupabaseAuthStrategy, SupabaseAuthStrategyOptions } from './plugins/supabase-auth-strategy';
+import { tenantStatusEmailHandler } from './plugins/tenant-status-email-handler';
+import {
+    marketplaceOrderConfirmationHandler,
+    sellerNewOrderEmailHandler,
+} from './plugins/seller-order-email-handlers';
+import { tenantEmailTemplateVars } from './plugins/tenant-email-branding';
+import { ChannelTemplateLoader } from './plugins/channel-template-loader';
+import { EmailTemplatePlugin } from './plugins/email-template-plugin';
+import { CommissionPlugin } from './plugins/commission-plugin';
+import { PayoutPlugin } from './plugins/payout-plugin';
+import { sellerRateTableShippingCalculator } from './plugins/seller-shipping-calculator';
+import { SellerShippingPlugin } from './plugins/seller-shipping-plugin';
+import { SellerFulfillmentPlugin } from './plugins/seller-fulfillment-plugin';
+import { SellerRefundPlugin } from './plugins/seller-refund-plugin';
+import { createSplitPaymentHandler } from './plugins/split-payment-handler';
+import { MockSplitPaymentProvider, SplitPaymentProvider } from './plugins/split-payment-provider';
 
 const IS_DEV = process.env.APP_ENV === 'dev';
 const serverPort = +process.env.PORT || 3000;
 
+// The mock provider approves every charge without moving any money, so it only runs
+// in development. Other environments need an adapter for the payment service provider.
+function getSplitPaymentProvider(): SplitPaymentProvider {
+    if (IS_DEV) {
+        return new MockSplitPaymentProvider();
+    }
+    throw new Error(
+        'No SplitPaymentProvider is configured. The mock provider only runs with APP_ENV=dev: ' +
+            'add an adapter for your payment service provider in vendure-config.ts.',
+    );
+}
+
+// Supabase JWT login is only enabled when a JWT secret or JWKS file is configured
+const supabaseAuthOptions: SupabaseAuthStrategyOptions | undefined =
+    process.env.SUPABASE_JWT_SECRET || process.env.SUPABASE_JWKS_PATH
+        ? {
+              jwtSecret: process.env.SUPABASE_JWT_SECRET,
+              jwksPath: process.env.SUPABASE_JWKS_PATH,
+              issuer: process.env.SUPABASE_SAAS_URL ? `${process.env.SUPABASE_SAAS_URL}/auth/v1` : undefined,
+          }
+        : undefined;
+
+// Sender, branding and storefront URLs of the channel's tenant
+// (verifyEmailAddressUrl, passwordResetUrl, ... are derived from the storefront URL)
+const emailTemplateVars = tenantEmailTemplateVars({
+    platform: {
+        name: 'example',
+        fromAddress: process.env.EMAIL_FROM_ADDRESS || '"example" <noreply@example.com>',
+        storefrontUrl: process.env.STOREFRONT_URL || 'http://localhost:8080',
+        logoUrl: null,
+        primaryColor: '#375a67',
+        accentColor: '#375a67',
+    },
+    storefrontDomain: process.env.STOREFRONT_DOMAIN || 'example.com',
+});
+
+// A channel's own email templates, else the files
+const emailTemplateLoader = new ChannelTemplateLoader(path.join(__dirname, '../static/email/templates'));
+
 export const config: VendureConfig = {
     apiOptions: {
         port: serverPort,
@@ -32,6 +101,12 @@ export const config: VendureConfig = {
         // Channel isolation middleware for multi-vendor security
         // Now uses direct DB queries to bypass permission checks on initial load
         middleware: [
+            {
+                // `Authorization: ApiKey ...` for integrations - must run before channel isolation
+                route: '/admin-api',
+                handler: createTenantApiKeyMiddlewareHandler(),
+                beforeListen: false,
+            },
             {
                 route: '/admin-api',
                 handler: createChannelIsolationMiddlewareHandler(), // Gets services from DI at runtime
@@ -55,8 +130,17 @@ export const config: VendureConfig = {
         cookieOptions: {
           secret: process.env.COOKIE_SECRET,
         },
-        // Note: Channel-aware auth strategy temporarily disabled
-        // The middleware handles channel enforcement
+        shopAuthenticationStrategy: [
+            new NativeAuthenticationStrategy(),
+            ...(supabaseAuthOptions ? [new SupabaseAuthStrategy(supabaseAuthOptions)] : []),
+        ],
+        // Replaces the native admin strategy: verifies credentials, rejects logins for
+        // suspended/provisioning tenants and binds sellers to their channel
+        adminAuthenticationStrategy: [
+            new ChannelAwareAuthStrategy({ replaceNative: true }),
+            // Lets tenant owners log in with their Supabase session instead of a second password
+            ...(supabaseAuthOptions ? [new SupabaseAuthStrategy(supabaseAuthOptions)] : []),
+        ],
     },
     dbConnectionOptions: {
         type: 'postgres',
@@ -73,18 +157,57 @@ export const config: VendureConfig = {
         password: process.env.DB_PASSWORD,
     },
     paymentOptions: {
-        paymentMethodHandlers: [dummyPaymentHandler],
+        // The split payment handler allocates the aggregate payment to seller orders
+        paymentMethodHandlers: [dummyPaymentHandler, createSplitPaymentHandler(getSplitPaymentProvider())],
+    },
+    customFields: {
+        // Requires migrations/010_variant_seller_channel.sql and 011_variant_weight.sql
+        ProductVariant: [sellerChannelCustomField, variantWeightCustomField],
     },
     orderOptions: {
         orderSellerStrategy: multiVendorOrderSellerStrategy,
+        // Fulfillment states are checked by SellerFulfillmentPlugin instead, which
+        // also moves aggregate orders along with their seller orders
+        process: [configureDefaultOrderProcess({ checkFulfillmentStates: false }), multiVendorOrderProcess],
     },
     shippingOptions: {
         shippingEligibilityCheckers: [multiVendorShippingEligibilityChecker],
+        shippingCalculators: [defaultShippingCalculator, sellerRateTableShippingCalculator],
         shippingLineAssignmentStrategy: multiVendorShippingLineAssignmentStrategy,
     },
     plugins: [
         SellerProvisioningPlugin,
-        ChannelIsolationPlugin,
+        ChannelIsolationPlugin.init({
+            // Reject requests whose seller status cannot be resolved, except in development
+            enforcementMode: IS_DEV ? 'fail-open' : 'fail-closed',
+            // Only these administrators get unrestricted access; anyone else without
+            // an active tenant is denied
+            platformOperators: {
+                roleCodes: ['platform-operator'],
+                identifiers: [process.env.SUPERADMIN_USERNAME],
+            },
+            // Caches the per-request user → channel lookup done by the isolation middleware.
+            // Add `sharedStore: new DatabaseResolutionStore()` when running multiple instances.
+            cache: {
+                ttlMs: 60_000,
+                maxEntries: 1000,
+            },
+        }),
+        // Seller-managed API keys for integrations (`Authorization: ApiKey ...`)
+        TenantApiKeyPlugin,
+        // Platform commission per seller order line. Add the rates per plan tier,
+        // seller or collection here (see the USAGE note in commission-plugin.ts).
+        CommissionPlugin.init({
+            rules: [],
+        }),
+        // Seller balances and the weekly payout run (needs DefaultSchedulerPlugin)
+        PayoutPlugin.init({}),
+        // One shipping method per seller at checkout
+        SellerShippingPlugin,
+        // Sellers fulfil their own seller orders; per-seller tracking in the Shop API
+        SellerFulfillmentPlugin,
+        // Per-seller refunds and cancellations of split orders
+        SellerRefundPlugin,
         GraphiqlPlugin.init(),
         AssetServerPlugin.init({
             route: 'assets',
@@ -101,17 +224,18 @@ export const config: VendureConfig = {
             devMode: true,
             outputPath: path.join(__dirname, '../static/email/test-emails'),
             route: 'mailbox',
-            handlers: defaultEmailHandlers,
-            templateLoader: new FileBasedTemplateLoader(path.join(__dirname, '../static/email/templates')),
-            globalTemplateVars: {
-                // The following variables will change depending on your storefront implementation.
-                // Here we are assuming a storefront running at http://localhost:8080.
-                fromAddress: '"example" <noreply@example.com>',
-                verifyEmailAddressUrl: 'http://localhost:8080/verify',
-                passwordResetUrl: 'http://localhost:8080/password-reset',
-                changeEmailAddressUrl: 'http://localhost:8080/verify-email-address-change'
-            },
+            // The order confirmation is replaced by one that groups the order by seller
+            handlers: [
+                ...defaultEmailHandlers.filter(handler => handler !== orderConfirmationHandler),
+                marketplaceOrderConfirmationHandler,
+                sellerNewOrderEmailHandler,
+                tenantStatusEmailHandler,
+            ],
+            templateLoader: emailTemplateLoader,
+            globalTemplateVars: emailTemplateVars,
         }),
+        // Per-channel email templates, editable in the Admin API
+        EmailTemplatePlugin.init({ templateLoader: emailTemplateLoader, globalTemplateVars: emailTemplateVars }),
         DashboardPlugin.init({
             route: 'dashboard',
             // Dashboard is built to dist/dashboard/
@@ -0,0 +1,18 @@
+import swc from 'unplugin-swc';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['src/**/*.spec.ts', 'e2e/**/*.e2e-spec.ts'],
+        // Starting and populating the test server is slow
+        testTimeout: 60_000,
+        hookTimeout: 180_000,
+        fileParallelism: false,
+    },
+    plugins: [
+        // NestJS and TypeORM need decorator metadata, which esbuild does not emit
+        swc.vite({
+            jsc: { transform: { useDefineForClassFields: false } },
+        }),
+    ],
+});